@@ -0,0 +1,198 @@
+// APA sign-in sessions
+// The member site signs in once for a long-lived refresh token and trades it for access
+// tokens that last ~15 minutes. We do the same server-side: the refresh token never leaves
+// this process (it's kept in AUTH_SESSIONS_PATH), and the frontend holds only an opaque
+// session id it swaps for a fresh access token whenever its current one runs low.
+//
+// Point APA_AUTH_URL at mock-auth-server.js to exercise the whole flow locally.
+
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import { DATA_DIR, readJson, writeJson } from './json-store.js';
+
+const AUTH_URL = process.env.APA_AUTH_URL || 'https://gql.poolplayers.com/graphql';
+const SESSIONS_PATH = process.env.AUTH_SESSIONS_PATH || path.join(DATA_DIR, 'auth-sessions.json');
+
+// Cached access tokens are reissued until they have less than this left
+const REFRESH_MARGIN_MS = 2 * 60 * 1000;
+
+// The two operations the member site uses - the mock server implements the same shapes
+const LOGIN_MUTATION = `
+  mutation login($input: LoginInput!) {
+    login(input: $input) {
+      refreshToken
+      __typename
+    }
+  }
+`;
+
+const GENERATE_ACCESS_TOKEN_MUTATION = `
+  mutation generateAccessToken($refreshToken: String!) {
+    generateAccessToken(refreshToken: $refreshToken) {
+      accessToken
+      refreshToken
+      __typename
+    }
+  }
+`;
+
+export class AuthError extends Error {
+  constructor(message, status = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+// sessionId -> { refreshToken, createdAt, lastRefreshedAt } - persisted
+let sessions = null;
+// The first read of the sessions file, shared so concurrent callers all get the same object
+let sessionsLoad = null;
+// sessionId -> { accessToken, expiresAt } - memory only, rebuilt on demand after a restart
+const accessTokens = new Map();
+// sessionId -> in-flight refresh, so parallel requests share one round trip
+const refreshing = new Map();
+
+function loadSessions() {
+  sessionsLoad ??= readJson(SESSIONS_PATH, {}).then(
+    data => (sessions = data),
+    error => {
+      sessionsLoad = null;
+      throw error;
+    }
+  );
+  return sessionsLoad;
+}
+
+async function saveSessions() {
+  await writeJson(SESSIONS_PATH, sessions);
+}
+
+async function authRequest(operationName, query, variables) {
+  let response;
+  try {
+    response = await fetch(AUTH_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Origin': 'https://members.poolplayers.com',
+        'Referer': 'https://members.poolplayers.com/',
+      },
+      body: JSON.stringify({ operationName, query, variables }),
+    });
+  } catch (error) {
+    throw new AuthError(`Could not reach APA sign-in: ${error.message}`, 502);
+  }
+
+  const result = await response.json().catch(() => ({}));
+  if (response.status === 401 || response.status === 403) {
+    throw new AuthError('APA rejected the sign-in');
+  }
+  if (!response.ok) {
+    throw new AuthError(`APA sign-in failed: ${response.status}`, 502);
+  }
+  // Auth operations only error on bad credentials or a revoked refresh token
+  if (result.errors?.length) {
+    throw new AuthError(result.errors.map(e => e.message).join('; '));
+  }
+  return result.data;
+}
+
+// Read `exp` out of a JWT without verifying it
+function tokenExpiry(token) {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+    return payload.exp ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+async function refresh(sessionId, session) {
+  let data;
+  try {
+    data = await authRequest('generateAccessToken', GENERATE_ACCESS_TOKEN_MUTATION, {
+      refreshToken: session.refreshToken,
+    });
+  } catch (error) {
+    if (error.status === 401) {
+      // Refresh token revoked or expired - the session is dead
+      delete sessions[sessionId];
+      accessTokens.delete(sessionId);
+      await saveSessions();
+      throw new AuthError('APA sign-in expired - sign in again');
+    }
+    throw error;
+  }
+
+  const { accessToken, refreshToken } = data?.generateAccessToken ?? {};
+  if (!accessToken) {
+    throw new AuthError('APA returned no access token', 502);
+  }
+
+  // APA may rotate the refresh token on use
+  if (refreshToken) session.refreshToken = refreshToken;
+  session.lastRefreshedAt = new Date().toISOString();
+  await saveSessions();
+
+  const token = {
+    accessToken,
+    expiresAt: tokenExpiry(accessToken) ?? Date.now() + 10 * 60 * 1000,
+  };
+  accessTokens.set(sessionId, token);
+  return token;
+}
+
+/**
+ * Access token for a session, refreshed only when the cached one is about to run out
+ */
+export async function getAccessToken(sessionId) {
+  const store = await loadSessions();
+  const session = store[sessionId];
+  if (!session) {
+    throw new AuthError('Unknown session - sign in again');
+  }
+
+  const cached = accessTokens.get(sessionId);
+  if (cached && cached.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+    return cached;
+  }
+
+  if (!refreshing.has(sessionId)) {
+    refreshing.set(sessionId, refresh(sessionId, session).finally(() => refreshing.delete(sessionId)));
+  }
+  return refreshing.get(sessionId);
+}
+
+/**
+ * Sign in with APA credentials. Only the refresh token is kept - never the password.
+ */
+export async function login(email, password) {
+  const data = await authRequest('login', LOGIN_MUTATION, {
+    input: { username: email, password },
+  });
+  const refreshToken = data?.login?.refreshToken;
+  if (!refreshToken) {
+    throw new AuthError('Sign-in failed - check your email and password');
+  }
+
+  const store = await loadSessions();
+  const sessionId = randomUUID();
+  store[sessionId] = {
+    refreshToken,
+    createdAt: new Date().toISOString(),
+    lastRefreshedAt: null,
+  };
+  await saveSessions();
+
+  return { sessionId, ...(await getAccessToken(sessionId)) };
+}
+
+export async function logout(sessionId) {
+  const store = await loadSessions();
+  accessTokens.delete(sessionId);
+  if (store[sessionId]) {
+    delete store[sessionId];
+    await saveSessions();
+  }
+}
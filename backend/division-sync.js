@@ -0,0 +1,427 @@
+// Scheduled division sync
+// Someone signed in shares their session for their division; on a timer we pull the whole
+// division from APA - every team's roster and schedule, every rostered player's match
+// history - and keep the latest snapshot on disk. Teammates read that one consistent copy
+// through /api/v1 instead of each phone syncing against APA with its own token.
+//
+// Histories are the bulk of the requests, so a run only refetches them for teams with
+// newly completed matches (or when the copy is more than a week old).
+
+import path from 'node:path';
+import { getAccessToken, AuthError } from './auth.js';
+import { DATA_DIR, readJson, writeJson } from './json-store.js';
+
+const GRAPHQL_URL = process.env.APA_GRAPHQL_URL || 'https://gql.poolplayers.com/graphql';
+const JOBS_PATH = path.join(DATA_DIR, 'sync-jobs.json');
+const SNAPSHOT_DIR = path.join(DATA_DIR, 'snapshots');
+
+// Bump when the snapshot shape changes - it's what /api/v1 serves
+export const SNAPSHOT_VERSION = 1;
+
+const SYNC_INTERVAL_MS = (Number(process.env.SYNC_INTERVAL_MINUTES) || 360) * 60 * 1000;
+const CHECK_EVERY_MS = 60 * 1000;
+const HISTORY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const REQUEST_GAP_MS = 500;
+const MAX_RETRIES = 3;
+
+const TEAM_ROSTER_QUERY = `
+  query teamRoster($id: Int!) {
+    team(id: $id) {
+      id
+      name
+      number
+      league { id slug __typename }
+      division { id name type __typename }
+      roster {
+        id
+        memberNumber
+        displayName
+        matchesWon
+        matchesPlayed
+        skillLevel
+        member { id __typename }
+        __typename
+        ... on NineBallPlayer {
+          pa
+          ppm
+        }
+        ... on EightBallPlayer {
+          pa
+          ppm
+        }
+      }
+      __typename
+    }
+  }
+`;
+
+const TEAM_SCHEDULE_QUERY = `
+  query teamSchedule($id: Int!) {
+    team(id: $id) {
+      id
+      sessionPoints
+      matches {
+        week
+        type
+        id
+        status
+        startTime
+        isScored
+        description
+        location { id name __typename }
+        home { id name number isMine __typename }
+        away { id name number isMine __typename }
+        results { homeAway points { total __typename } __typename }
+        __typename
+      }
+      __typename
+    }
+  }
+`;
+
+const TEAM_DIVISION_QUERY = `
+  query teamDivision($id: Int!) {
+    team(id: $id) {
+      id
+      division { id __typename }
+      __typename
+    }
+  }
+`;
+
+const PLAYER_HISTORY_QUERY = `
+  query playerMatchHistory($id: Int!) {
+    player(id: $id) {
+      id
+      matchHistory {
+        id
+        datePlayed
+        won
+        skillLevel
+        pointsAwarded
+        pointsNeeded
+        opponent { id displayName skillLevel __typename }
+        match { id week startTime __typename }
+        team { id name __typename }
+        __typename
+      }
+      __typename
+    }
+  }
+`;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// divisionId -> { divisionId, teamId, sessionId, createdAt, lastRunAt, lastSuccessAt, lastError, summary }
+let jobs = null;
+const runningDivisions = new Set();
+
+async function loadJobs() {
+  jobs ??= await readJson(JOBS_PATH, {});
+  return jobs;
+}
+
+async function saveJobs() {
+  await writeJson(JOBS_PATH, jobs);
+}
+
+const snapshotPath = (divisionId) => path.join(SNAPSHOT_DIR, `division-${divisionId}.json`);
+
+export async function getSnapshot(divisionId) {
+  return readJson(snapshotPath(divisionId), null);
+}
+
+// Batched GraphQL request, retried with backoff when APA rate limits or falls over
+async function gql(accessToken, operations) {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(GRAPHQL_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': accessToken,
+        'Origin': 'https://members.poolplayers.com',
+        'Referer': 'https://members.poolplayers.com/',
+      },
+      body: JSON.stringify(operations),
+    });
+
+    if ((response.status === 429 || response.status >= 500) && attempt < MAX_RETRIES) {
+      await sleep(1000 * 2 ** attempt);
+      continue;
+    }
+    if (response.status === 401) {
+      throw new AuthError('APA rejected the shared sign-in');
+    }
+    if (!response.ok) {
+      throw new Error(`APA GraphQL error: ${response.status}`);
+    }
+
+    const results = await response.json();
+    const list = Array.isArray(results) ? results : [results];
+    const errors = list.flatMap(r => r.errors ?? []);
+    if (errors.length > 0) {
+      throw new Error(errors.map(e => e.message).join('; '));
+    }
+    return list.map(r => r.data);
+  }
+}
+
+const teamOperations = (teamId) => [
+  { operationName: 'teamRoster', query: TEAM_ROSTER_QUERY, variables: { id: teamId } },
+  { operationName: 'teamSchedule', query: TEAM_SCHEDULE_QUERY, variables: { id: teamId } },
+];
+
+// Teams whose completed matches weren't completed in the previous snapshot
+function teamsWithNewResults(matches, previous) {
+  const previouslyCompleted = new Set(
+    (previous?.matches ?? []).filter(m => m.status === 'COMPLETED').map(m => m.id)
+  );
+  const changed = new Set();
+  for (const match of matches) {
+    if (match.status !== 'COMPLETED' || previouslyCompleted.has(match.id)) continue;
+    if (match.home) changed.add(match.home.id);
+    if (match.away) changed.add(match.away.id);
+  }
+  return changed;
+}
+
+async function syncDivision(job) {
+  const previous = await getSnapshot(job.divisionId);
+  // Fetched per batch - the auth module hands back the cached token until it's nearly expired
+  const token = async () => (await getAccessToken(job.sessionId)).accessToken;
+
+  const teams = new Map();
+  const matches = new Map();
+  // Teams named in a schedule we haven't fetched yet
+  const pending = new Set();
+  const addTeam = (roster, schedule) => {
+    teams.set(roster.team.id, { ...roster.team, sessionPoints: schedule.team?.sessionPoints });
+    for (const match of schedule.team?.matches ?? []) {
+      if (match.id !== null) matches.set(match.id, match);
+      for (const side of [match.home, match.away]) {
+        if (side && !teams.has(side.id)) pending.add(side.id);
+      }
+    }
+    pending.delete(roster.team.id);
+  };
+
+  const [seedRoster, seedSchedule] = await gql(await token(), teamOperations(job.teamId));
+  if (!seedRoster?.team) {
+    throw new Error(`Team ${job.teamId} not found`);
+  }
+  if (seedRoster.team.division?.id !== job.divisionId) {
+    throw new Error(`Team ${job.teamId} is not in division ${job.divisionId}`);
+  }
+  addTeam(seedRoster, seedSchedule);
+
+  // Early in a session a team hasn't met everyone yet, so keep following schedules
+  // until no new teams turn up
+  const unreachable = new Set();
+  while (pending.size > 0) {
+    await sleep(REQUEST_GAP_MS);
+    const batch = [...pending].slice(0, 2);
+    const results = await gql(await token(), batch.flatMap(teamOperations));
+    batch.forEach((teamId, j) => {
+      const roster = results[j * 2];
+      if (roster?.team) {
+        addTeam(roster, results[j * 2 + 1] ?? {});
+      } else {
+        unreachable.add(teamId);
+      }
+      pending.delete(teamId);
+    });
+    unreachable.forEach(teamId => pending.delete(teamId));
+  }
+
+  // Histories: reuse last run's unless the player's team has played since or the copy is stale
+  const changedTeams = teamsWithNewResults([...matches.values()], previous);
+  const previousIsRecent = previous && Date.now() - new Date(previous.generatedAt).getTime() < HISTORY_MAX_AGE_MS;
+  const histories = {};
+  const playerIds = [];
+  for (const team of teams.values()) {
+    for (const player of team.roster ?? []) {
+      const reusable = previousIsRecent && !changedTeams.has(team.id) && previous.histories[player.id];
+      if (reusable) histories[player.id] = reusable;
+      else playerIds.push(player.id);
+    }
+  }
+
+  for (let i = 0; i < playerIds.length; i += 5) {
+    await sleep(REQUEST_GAP_MS);
+    const batch = playerIds.slice(i, i + 5);
+    const results = await gql(await token(), batch.map(id => ({
+      operationName: 'playerMatchHistory',
+      query: PLAYER_HISTORY_QUERY,
+      variables: { id },
+    })));
+    for (const result of results) {
+      if (result?.player) histories[result.player.id] = result.player.matchHistory ?? [];
+    }
+  }
+
+  const seedTeam = seedRoster.team;
+  const snapshot = {
+    version: SNAPSHOT_VERSION,
+    divisionId: job.divisionId,
+    divisionName: seedTeam.division?.name ?? null,
+    format: seedTeam.division?.type ?? null,
+    leagueId: seedTeam.league?.id ?? null,
+    leagueSlug: seedTeam.league?.slug ?? null,
+    generatedAt: new Date().toISOString(),
+    teams: [...teams.values()],
+    matches: [...matches.values()],
+    histories,
+  };
+  await writeJson(snapshotPath(job.divisionId), snapshot);
+
+  return {
+    snapshot,
+    fetchedHistories: playerIds.length,
+  };
+}
+
+// Public view of a job - never includes the session id
+function jobStatus(job) {
+  return {
+    divisionId: job.divisionId,
+    teamId: job.teamId,
+    lastRunAt: job.lastRunAt,
+    lastSuccessAt: job.lastSuccessAt,
+    lastError: job.lastError,
+    // Null while waiting on a first run or a new shared session
+    nextRunAt: job.sessionExpired || !job.lastRunAt
+      ? null
+      : new Date(new Date(job.lastRunAt).getTime() + SYNC_INTERVAL_MS).toISOString(),
+    isRunning: runningDivisions.has(job.divisionId),
+    ...job.summary,
+  };
+}
+
+export async function runJob(divisionId) {
+  const store = await loadJobs();
+  const job = store[divisionId];
+  if (!job || runningDivisions.has(divisionId)) return;
+
+  runningDivisions.add(divisionId);
+  const startedAt = Date.now();
+  console.log(`Syncing division ${divisionId}...`);
+  try {
+    const { snapshot, fetchedHistories } = await syncDivision(job);
+    job.lastSuccessAt = snapshot.generatedAt;
+    job.lastError = null;
+    job.summary = {
+      divisionName: snapshot.divisionName,
+      format: snapshot.format,
+      leagueId: snapshot.leagueId,
+      leagueSlug: snapshot.leagueSlug,
+      generatedAt: snapshot.generatedAt,
+      teams: snapshot.teams.map(t => ({ id: t.id, name: t.name, number: t.number })),
+    };
+    console.log(`Division ${divisionId}: ${snapshot.teams.length} teams, ${fetchedHistories} histories fetched in ${Date.now() - startedAt}ms`);
+  } catch (error) {
+    console.error(`Division ${divisionId} sync failed:`, error);
+    job.lastError = error.message;
+    // A dead session won't come back - wait for someone to share a new one
+    if (error instanceof AuthError && error.status === 401) job.sessionExpired = true;
+  } finally {
+    job.lastRunAt = new Date().toISOString();
+    runningDivisions.delete(divisionId);
+    await saveJobs();
+  }
+}
+
+/**
+ * Share a signed-in session to keep a division's snapshot up to date, for a team in that
+ * division, and start a run straight away. A working share stays with the session that made
+ * it; once that sign-in has expired, anyone in the division can take it over.
+ */
+export async function shareDivisionSync({ divisionId, teamId, sessionId }) {
+  // Fails fast on a bad session instead of on the first scheduled run
+  const { accessToken } = await getAccessToken(sessionId);
+
+  const [result] = await gql(accessToken, [
+    { operationName: 'teamDivision', query: TEAM_DIVISION_QUERY, variables: { id: teamId } },
+  ]);
+  if (!result?.team) {
+    throw new AuthError(`Team ${teamId} not found`, 404);
+  }
+  if (result.team.division?.id !== divisionId) {
+    throw new AuthError(`Team ${teamId} is not in division ${divisionId}`, 403);
+  }
+
+  const store = await loadJobs();
+  const current = store[divisionId];
+  if (current && current.sessionId !== sessionId && !current.sessionExpired) {
+    throw new AuthError('Someone else is already sharing their sync for this division', 409);
+  }
+  store[divisionId] = {
+    ...store[divisionId],
+    divisionId,
+    teamId,
+    sessionId,
+    createdAt: new Date().toISOString(),
+    lastRunAt: null,
+    lastError: null,
+    sessionExpired: false,
+  };
+  await saveJobs();
+
+  runJob(divisionId).catch(error => console.error(`Division ${divisionId} sync failed:`, error));
+  return jobStatus(store[divisionId]);
+}
+
+/**
+ * Stop scheduled syncs - only the session that shared can stop them. The last snapshot stays.
+ */
+export async function stopDivisionSync(divisionId, sessionId) {
+  const store = await loadJobs();
+  const job = store[divisionId];
+  if (!job) return false;
+  if (job.sessionId !== sessionId) {
+    throw new AuthError('Only whoever shared this sync can stop it', 403);
+  }
+  delete store[divisionId];
+  await saveJobs();
+  return true;
+}
+
+export async function getDivisionStatus(divisionId) {
+  const store = await loadJobs();
+  return store[divisionId] ? jobStatus(store[divisionId]) : null;
+}
+
+export async function listDivisions() {
+  const store = await loadJobs();
+  return Object.values(store).map(jobStatus);
+}
+
+async function runDueJobs() {
+  const store = await loadJobs();
+  for (const job of Object.values(store)) {
+    if (job.sessionExpired) continue;
+    const lastRun = job.lastRunAt ? new Date(job.lastRunAt).getTime() : 0;
+    if (Date.now() - lastRun >= SYNC_INTERVAL_MS) {
+      // One division at a time keeps us well inside APA's rate limits
+      await runJob(job.divisionId);
+    }
+  }
+}
+
+let schedulerRunning = false;
+
+export function startScheduler() {
+  const tick = async () => {
+    if (schedulerRunning) return;
+    schedulerRunning = true;
+    try {
+      await runDueJobs();
+    } catch (error) {
+      console.error('Scheduled sync error:', error);
+    } finally {
+      schedulerRunning = false;
+    }
+  };
+  setInterval(tick, CHECK_EVERY_MS);
+  tick();
+  console.log(`Scheduled division sync every ${SYNC_INTERVAL_MS / 60000} minutes`);
+}
@@ -0,0 +1,26 @@
+// Small JSON-file persistence for the backend's state (auth sessions, sync jobs, snapshots).
+// Writes go to a temp file first and are renamed into place, so a crash mid-write never
+// leaves a half-written file behind.
+
+import { randomUUID } from 'node:crypto';
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+export async function readJson(filePath, fallback) {
+  try {
+    return JSON.parse(await readFile(filePath, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') console.error(`Could not read ${filePath}:`, error);
+    return fallback;
+  }
+}
+
+export async function writeJson(filePath, value) {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  // Unique per write, so overlapping writes can't rename each other's temp file
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, JSON.stringify(value), { mode: 0o600 });
+  await rename(tempPath, filePath);
+}
@@ -0,0 +1,227 @@
+// Live match sessions
+// A captain shares the match they're running so a co-captain can enter picks and results from
+// their own phone, and teammates can follow along. Devices send the same match actions the
+// frontend applies locally (src/engine/live-match.ts); we keep them in order, broadcast each one
+// over Server-Sent Events, and turn away an action that would overwrite a change its sender
+// hadn't seen yet.
+//
+// Every session has two codes: the match code, which anyone can use to watch, and the captain
+// code, which also lets a device make changes.
+
+import { randomInt } from 'node:crypto';
+import path from 'node:path';
+import { DATA_DIR, readJson, writeJson } from './json-store.js';
+
+const SESSIONS_PATH = process.env.LIVE_SESSIONS_PATH || path.join(DATA_DIR, 'live-sessions.json');
+
+// A league night is long, but not this long
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+// Keeps idle connections from being closed by proxies in between
+const HEARTBEAT_MS = 25 * 1000;
+// Easy to read out loud - no 0/O or 1/I
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export class LiveSessionError extends Error {
+  constructor(message, status, details) {
+    super(message);
+    this.name = 'LiveSessionError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+// matchCode -> { code, captainCode, match, roster, events, createdAt, updatedAt } - persisted
+let sessions = null;
+// The first read of the sessions file, shared so concurrent callers all get the same object
+let sessionsLoad = null;
+// matchCode -> Set of open SSE responses
+const subscribers = new Map();
+
+function loadSessions() {
+  sessionsLoad ??= readJson(SESSIONS_PATH, {}).then(
+    data => {
+      sessions = data;
+      pruneExpired();
+      return sessions;
+    },
+    error => {
+      sessionsLoad = null;
+      throw error;
+    }
+  );
+  return sessionsLoad;
+}
+
+async function saveSessions() {
+  await writeJson(SESSIONS_PATH, sessions);
+}
+
+function pruneExpired() {
+  const cutoff = Date.now() - SESSION_TTL_MS;
+  for (const [code, session] of Object.entries(sessions)) {
+    if (new Date(session.updatedAt).getTime() < cutoff) {
+      closeSubscribers(code);
+      delete sessions[code];
+    }
+  }
+}
+
+function newCode(length) {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function unusedCode(length) {
+  const taken = new Set(Object.values(sessions).flatMap(s => [s.code, s.captainCode]));
+  let code;
+  do {
+    code = newCode(length);
+  } while (taken.has(code));
+  return code;
+}
+
+// Either code finds the session; which one was used decides what the device may do
+async function findSession(code) {
+  const store = await loadSessions();
+  const normalized = String(code).toUpperCase();
+  const session = store[normalized]
+    ?? Object.values(store).find(s => s.captainCode === normalized);
+  if (!session || Date.now() - new Date(session.updatedAt).getTime() > SESSION_TTL_MS) {
+    throw new LiveSessionError('No live match with that code - it may have ended', 404);
+  }
+  return { session, role: session.captainCode === normalized ? 'captain' : 'viewer' };
+}
+
+function send(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function broadcast(code, event, data) {
+  for (const res of subscribers.get(code) ?? []) {
+    send(res, event, data);
+  }
+}
+
+function closeSubscribers(code) {
+  for (const res of subscribers.get(code) ?? []) {
+    send(res, 'ended', {});
+    res.end();
+  }
+  subscribers.delete(code);
+}
+
+/**
+ * Start sharing a match. The roster travels with it so viewers without synced data
+ * still see names.
+ */
+export async function createSession({ match, roster = [] }) {
+  const store = await loadSessions();
+  pruneExpired();
+
+  const now = new Date().toISOString();
+  const session = {
+    code: unusedCode(6),
+    captainCode: unusedCode(8),
+    match,
+    roster,
+    events: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  store[session.code] = session;
+  await saveSessions();
+
+  return { code: session.code, captainCode: session.captainCode };
+}
+
+/**
+ * What a code gives access to: the match code to subscribe with, and whether changes are allowed
+ */
+export async function joinSession(code) {
+  const { session, role } = await findSession(code);
+  return { code: session.code, role };
+}
+
+/**
+ * Record one action from a captain's device and pass it on to everyone watching.
+ *
+ * baseSeq is the last event the device had applied when it made the change. If someone else
+ * changed the same part of the match after that, the action is rejected with 409 and the
+ * device rolls it back - the first captain to record something wins.
+ */
+export async function appendAction(code, captainCode, { clientId, clientEventId, baseSeq, target, action }) {
+  const { session } = await findSession(code);
+  if (session.captainCode !== String(captainCode ?? '').toUpperCase()) {
+    throw new LiveSessionError('Only captains can change this match', 403);
+  }
+  if (!clientId || !clientEventId || typeof target !== 'string' || !action?.type) {
+    throw new LiveSessionError('clientId, clientEventId, target and action required', 400);
+  }
+
+  // A retried request that already went through
+  const existing = session.events.find(e => e.clientId === clientId && e.clientEventId === clientEventId);
+  if (existing) return existing;
+
+  const conflict = session.events.find(e =>
+    e.seq > (Number(baseSeq) || 0) && e.target === target && e.clientId !== clientId
+  );
+  if (conflict) {
+    throw new LiveSessionError('Another captain already changed this', 409, { conflict });
+  }
+
+  const event = {
+    seq: session.events.length + 1,
+    clientId,
+    clientEventId,
+    target,
+    action,
+    at: new Date().toISOString(),
+  };
+  session.events.push(event);
+  session.updatedAt = event.at;
+  await saveSessions();
+
+  broadcast(session.code, 'action', event);
+  return event;
+}
+
+/**
+ * Stream a session: a snapshot of everything so far, then each action as it happens
+ */
+export async function subscribe(code, res) {
+  const { session } = await findSession(code);
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+  res.flushHeaders();
+
+  send(res, 'snapshot', { match: session.match, roster: session.roster, events: session.events });
+
+  if (!subscribers.has(session.code)) subscribers.set(session.code, new Set());
+  subscribers.get(session.code).add(res);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    subscribers.get(session.code)?.delete(res);
+  });
+}
+
+/**
+ * Stop sharing - everyone watching is told the match has ended
+ */
+export async function endSession(code, captainCode) {
+  const { session } = await findSession(code);
+  if (session.captainCode !== String(captainCode ?? '').toUpperCase()) {
+    throw new LiveSessionError('Only captains can end this match', 403);
+  }
+  closeSubscribers(session.code);
+  delete sessions[session.code];
+  await saveSessions();
+}
@@ -0,0 +1,58 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+
+// Sessions are persisted - keep the test's out of backend/data
+const dataDir = await mkdtemp(path.join(tmpdir(), 'live-sessions-'));
+process.env.LIVE_SESSIONS_PATH = path.join(dataDir, 'live-sessions.json');
+const { appendAction, createSession } = await import('./live-sessions.js');
+
+afterAll(() => rm(dataDir, { recursive: true, force: true }));
+
+const match = { id: 'match-1', games: [] };
+const theirPick = (playerId) => ({ type: 'recordTheirPlayer', gameNumber: 1, playerId });
+
+describe('appendAction', () => {
+  it('takes the first of two captains changing the same game and turns the other away', async () => {
+    const { code, captainCode } = await createSession({ match });
+    const results = await Promise.allSettled([
+      appendAction(code, captainCode, { clientId: 'a', clientEventId: 'a1', baseSeq: 0, target: 'game-1-theirs', action: theirPick(11) }),
+      appendAction(code, captainCode, { clientId: 'b', clientEventId: 'b1', baseSeq: 0, target: 'game-1-theirs', action: theirPick(12) }),
+    ]);
+
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected']);
+    expect(results[0].value).toMatchObject({ seq: 1, clientId: 'a' });
+    expect(results[1].reason).toMatchObject({ status: 409, details: { conflict: { seq: 1, clientId: 'a' } } });
+  });
+
+  it('lets both captains change different parts of a game', async () => {
+    const { code, captainCode } = await createSession({ match });
+    await appendAction(code, captainCode, { clientId: 'a', clientEventId: 'a1', baseSeq: 0, target: 'game-1-theirs', action: theirPick(11) });
+    const ours = await appendAction(code, captainCode, {
+      clientId: 'b',
+      clientEventId: 'b1',
+      baseSeq: 0,
+      target: 'game-1-ours',
+      action: { type: 'recordOurPlayer', gameNumber: 1, playerId: 3 },
+    });
+    expect(ours.seq).toBe(2);
+  });
+
+  it('accepts a change made after seeing the other captain\'s, and a retry only once', async () => {
+    const { code, captainCode } = await createSession({ match });
+    await appendAction(code, captainCode, { clientId: 'a', clientEventId: 'a1', baseSeq: 0, target: 'game-1-theirs', action: theirPick(11) });
+
+    const request = { clientId: 'b', clientEventId: 'b1', baseSeq: 1, target: 'game-1-theirs', action: theirPick(12) };
+    const first = await appendAction(code, captainCode, request);
+    const retried = await appendAction(code, captainCode, request);
+    expect(first.seq).toBe(2);
+    expect(retried).toEqual(first);
+  });
+
+  it('only takes changes from captains', async () => {
+    const { code } = await createSession({ match });
+    await expect(appendAction(code, code, { clientId: 'a', clientEventId: 'a1', baseSeq: 0, target: 'game-1-theirs', action: theirPick(11) }))
+      .rejects.toMatchObject({ status: 403 });
+  });
+});
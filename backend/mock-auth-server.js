@@ -0,0 +1,85 @@
+// Mock APA auth server for local testing
+// Implements the login / generateAccessToken mutations backend/auth.js sends, issuing
+// short-lived JWT-shaped access tokens and rotating refresh tokens like the real thing.
+//
+//   npm run mock-auth                      (listens on MOCK_AUTH_PORT, default 4010)
+//   APA_AUTH_URL=http://localhost:4010/graphql npm start
+//
+// Sign in with MOCK_AUTH_EMAIL / MOCK_AUTH_PASSWORD (default test@example.com / password).
+
+import express from 'express';
+import { randomUUID } from 'node:crypto';
+
+const app = express();
+const PORT = process.env.MOCK_AUTH_PORT || 4010;
+const EMAIL = process.env.MOCK_AUTH_EMAIL || 'test@example.com';
+const PASSWORD = process.env.MOCK_AUTH_PASSWORD || 'password';
+// Short by default so refreshes actually happen while testing
+const ACCESS_TTL_SECONDS = Number(process.env.MOCK_ACCESS_TTL_SECONDS) || 180;
+
+// Live refresh tokens - each one is single use
+const refreshTokens = new Set();
+
+app.use(express.json());
+
+// Unsigned, but decodes like APA's tokens so expiry checks work
+function issueAccessToken() {
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const now = Math.floor(Date.now() / 1000);
+  return [
+    encode({ alg: 'none', typ: 'JWT' }),
+    encode({ sub: EMAIL, iat: now, exp: now + ACCESS_TTL_SECONDS }),
+    'mock-signature',
+  ].join('.');
+}
+
+function issueRefreshToken() {
+  const token = randomUUID();
+  refreshTokens.add(token);
+  return token;
+}
+
+const graphqlError = (res, message) => res.json({ data: null, errors: [{ message }] });
+
+app.post('/graphql', (req, res) => {
+  const { operationName, variables = {} } = req.body;
+
+  if (operationName === 'login') {
+    const { username, password } = variables.input ?? {};
+    if (username !== EMAIL || password !== PASSWORD) {
+      console.log(`Rejected login for ${username}`);
+      return graphqlError(res, 'Invalid username or password');
+    }
+    console.log(`Login: ${username}`);
+    return res.json({ data: { login: { refreshToken: issueRefreshToken(), __typename: 'LoginPayload' } } });
+  }
+
+  if (operationName === 'generateAccessToken') {
+    if (!refreshTokens.delete(variables.refreshToken)) {
+      console.log('Rejected unknown refresh token');
+      return graphqlError(res, 'Invalid refresh token');
+    }
+    console.log('Issued access token');
+    return res.json({
+      data: {
+        generateAccessToken: {
+          accessToken: issueAccessToken(),
+          refreshToken: issueRefreshToken(),
+          __typename: 'AccessTokenPayload',
+        },
+      },
+    });
+  }
+
+  res.status(400).json({ errors: [{ message: `Unsupported operation: ${operationName}` }] });
+});
+
+// Revoke every refresh token, to test what happens when APA ends a session
+app.post('/revoke-all', (req, res) => {
+  refreshTokens.clear();
+  res.json({ revoked: true });
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock APA auth server running on port ${PORT}`);
+});
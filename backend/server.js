@@ -1,5 +1,23 @@
 import express from 'express';
 import cors from 'cors';
+import { login, logout, getAccessToken, AuthError } from './auth.js';
+import {
+  SNAPSHOT_VERSION,
+  getSnapshot,
+  getDivisionStatus,
+  listDivisions,
+  shareDivisionSync,
+  stopDivisionSync,
+  startScheduler,
+} from './division-sync.js';
+import {
+  createSession,
+  joinSession,
+  appendAction,
+  subscribe,
+  endSession,
+  LiveSessionError,
+} from './live-sessions.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -23,6 +41,193 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Auth failures carry their own status; anything else is on us
+function sendAuthError(res, error) {
+  if (error instanceof AuthError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error('Auth error:', error);
+  res.status(500).json({ error: 'Sign-in failed', details: error.message });
+}
+
+// Sign in with APA credentials - returns a session id and a first access token
+app.post('/api/auth/login', async (req, res) => {
+  const { email, password } = req.body ?? {};
+
+  if (!email || !password) {
+    return res.status(400).json({ error: 'email and password required' });
+  }
+
+  try {
+    const { sessionId, accessToken, expiresAt } = await login(email, password);
+    res.json({ sessionId, accessToken, expiresAt: new Date(expiresAt).toISOString() });
+  } catch (error) {
+    sendAuthError(res, error);
+  }
+});
+
+// Swap a session id for a current access token
+app.post('/api/auth/token', async (req, res) => {
+  const sessionId = req.headers['x-session-id'];
+
+  if (!sessionId) {
+    return res.status(401).json({ error: 'X-Session-Id header required' });
+  }
+
+  try {
+    const { accessToken, expiresAt } = await getAccessToken(sessionId);
+    res.json({ accessToken, expiresAt: new Date(expiresAt).toISOString() });
+  } catch (error) {
+    sendAuthError(res, error);
+  }
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+  const sessionId = req.headers['x-session-id'];
+
+  try {
+    if (sessionId) await logout(sessionId);
+    res.json({ success: true });
+  } catch (error) {
+    sendAuthError(res, error);
+  }
+});
+
+// ========== SHARED DIVISION DATA (v1) ==========
+// Snapshots kept fresh by scheduled syncs - readable without an APA token
+
+// Divisions someone is sharing, with their teams (for picking yours)
+app.get('/api/v1/divisions', async (req, res) => {
+  try {
+    res.json({ version: SNAPSHOT_VERSION, divisions: await listDivisions() });
+  } catch (error) {
+    console.error('List divisions error:', error);
+    res.status(500).json({ error: 'Failed to list divisions', details: error.message });
+  }
+});
+
+app.get('/api/v1/divisions/:divisionId', async (req, res) => {
+  try {
+    const status = await getDivisionStatus(Number(req.params.divisionId));
+    if (!status) {
+      return res.status(404).json({ error: 'Division is not being synced' });
+    }
+    res.json(status);
+  } catch (error) {
+    console.error('Division status error:', error);
+    res.status(500).json({ error: 'Failed to read division status', details: error.message });
+  }
+});
+
+// Whole division in one response. Express adds an ETag, so unchanged snapshots come back 304.
+app.get('/api/v1/divisions/:divisionId/snapshot', async (req, res) => {
+  try {
+    const snapshot = await getSnapshot(Number(req.params.divisionId));
+    if (!snapshot) {
+      return res.status(404).json({ error: 'No snapshot for this division yet' });
+    }
+    res.set('Cache-Control', 'no-cache');
+    res.json(snapshot);
+  } catch (error) {
+    console.error('Snapshot error:', error);
+    res.status(500).json({ error: 'Failed to read snapshot', details: error.message });
+  }
+});
+
+// Share your signed-in session to keep a division synced on a schedule
+app.put('/api/v1/divisions/:divisionId/sync-job', async (req, res) => {
+  const sessionId = req.headers['x-session-id'];
+  const teamId = Number(req.body?.teamId);
+
+  if (!sessionId) {
+    return res.status(401).json({ error: 'X-Session-Id header required' });
+  }
+  if (!teamId) {
+    return res.status(400).json({ error: 'teamId required' });
+  }
+
+  try {
+    res.json(await shareDivisionSync({ divisionId: Number(req.params.divisionId), teamId, sessionId }));
+  } catch (error) {
+    sendAuthError(res, error);
+  }
+});
+
+app.delete('/api/v1/divisions/:divisionId/sync-job', async (req, res) => {
+  const sessionId = req.headers['x-session-id'];
+
+  if (!sessionId) {
+    return res.status(401).json({ error: 'X-Session-Id header required' });
+  }
+
+  try {
+    const stopped = await stopDivisionSync(Number(req.params.divisionId), sessionId);
+    res.json({ stopped });
+  } catch (error) {
+    sendAuthError(res, error);
+  }
+});
+
+// ========== LIVE MATCH SESSIONS ==========
+// One captain shares a match; co-captains join with the captain code, teammates watch with the match code
+
+function sendLiveSessionError(res, error) {
+  if (error instanceof LiveSessionError) {
+    return res.status(error.status).json({ error: error.message, ...error.details });
+  }
+  console.error('Live session error:', error);
+  res.status(500).json({ error: 'Live session failed', details: error.message });
+}
+
+app.post('/api/live/sessions', async (req, res) => {
+  const { match, roster } = req.body ?? {};
+
+  if (!match?.id || !Array.isArray(match.games)) {
+    return res.status(400).json({ error: 'match required' });
+  }
+
+  try {
+    res.json(await createSession({ match, roster }));
+  } catch (error) {
+    sendLiveSessionError(res, error);
+  }
+});
+
+// Look up a code - says whether it's a captain code or a watch-only match code
+app.get('/api/live/sessions/:code', async (req, res) => {
+  try {
+    res.json(await joinSession(req.params.code));
+  } catch (error) {
+    sendLiveSessionError(res, error);
+  }
+});
+
+// Server-Sent Events: a snapshot first, then every action as it's recorded
+app.get('/api/live/sessions/:code/events', async (req, res) => {
+  try {
+    await subscribe(req.params.code, res);
+  } catch (error) {
+    sendLiveSessionError(res, error);
+  }
+});
+
+app.post('/api/live/sessions/:code/actions', async (req, res) => {
+  try {
+    res.json(await appendAction(req.params.code, req.headers['x-captain-code'], req.body ?? {}));
+  } catch (error) {
+    sendLiveSessionError(res, error);
+  }
+});
+
+app.delete('/api/live/sessions/:code', async (req, res) => {
+  try {
+    await endSession(req.params.code, req.headers['x-captain-code']);
+    res.json({ ended: true });
+  } catch (error) {
+    sendLiveSessionError(res, error);
+  }
+});
+
 // Proxy GraphQL requests to APA
 app.post('/api/graphql', async (req, res) => {
   const authToken = req.headers.authorization;
@@ -295,4 +500,7 @@ app.get('/api/scrape-lifetime/:leagueSlug/:memberId/:aliasId/:format/:sessionId'
 
 app.listen(PORT, () => {
   console.log(`APA Matchup Backend running on port ${PORT}`);
+  if (process.env.SCHEDULED_SYNC !== 'off') {
+    startScheduler();
+  }
 });
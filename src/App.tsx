@@ -7,26 +7,59 @@ import { AttendanceScreen } from './components/screens/AttendanceScreen';
 import { CoinTossScreen } from './components/screens/CoinTossScreen';
 import { GameMatchupScreen } from './components/screens/GameMatchupScreen';
 import { MatchSummaryScreen } from './components/screens/MatchSummaryScreen';
+import { BacktestScreen } from './components/screens/BacktestScreen';
+import { RecommendationReportScreen } from './components/screens/RecommendationReportScreen';
+import { LiveMatchScreen } from './components/screens/LiveMatchScreen';
+import { StandingsScreen } from './components/screens/StandingsScreen';
 import { useTeamStore } from './store/team-store';
 import { useSyncStore } from './store/sync-store';
-import { seedInitialData } from './data/seed';
+import { useLiveSessionStore } from './store/live-session-store';
 
 function App() {
-  const { loadTeams, loadAllPlayers, loadPlayerStats, loadHeadToHead } = useTeamStore();
-  const { loadSyncStatus } = useSyncStore();
+  const { loadProfiles, loadTeams, loadAllPlayers, loadPlayerStats, loadHeadToHead, loadRatings, loadThrowModels } = useTeamStore();
+  const { loadSyncStatus, loadQueue, setOnline, flushQueue } = useSyncStore();
+  const { resumeSession } = useLiveSessionStore();
 
   useEffect(() => {
     // Initialize app data
     const initApp = async () => {
-      await seedInitialData();
+      await loadProfiles();
       await loadSyncStatus();
       await loadTeams();
       await loadAllPlayers();
       await loadPlayerStats();
       await loadHeadToHead();
+      await loadRatings();
+      await loadThrowModels();
+      await loadQueue();
+      await replayQueue();
     };
 
+    // Run whatever was queued offline, then pick up what it fetched
+    const replayQueue = async () => {
+      if (!navigator.onLine || useSyncStore.getState().queuedOperations.length === 0) return;
+      await flushQueue();
+      await loadTeams();
+      await loadAllPlayers();
+      await loadHeadToHead();
+      await loadRatings();
+      await loadThrowModels();
+    };
+
+    const handleOnline = () => {
+      setOnline(true);
+      replayQueue();
+    };
+    const handleOffline = () => setOnline(false);
+
     initApp();
+    resumeSession();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
   }, []);
 
   return (
@@ -40,7 +73,11 @@ function App() {
           <Route path="/match/coin-toss" element={<CoinTossScreen />} />
           <Route path="/match/game" element={<GameMatchupScreen />} />
           <Route path="/match/summary" element={<MatchSummaryScreen />} />
+          <Route path="/live" element={<LiveMatchScreen />} />
           <Route path="/teams" element={<TeamsScreen />} />
+          <Route path="/standings" element={<StandingsScreen />} />
+          <Route path="/backtest" element={<BacktestScreen />} />
+          <Route path="/report" element={<RecommendationReportScreen />} />
         </Routes>
       </div>
     </BrowserRouter>
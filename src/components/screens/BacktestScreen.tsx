@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { db, getProfile } from '../../data/db';
+import { useTeamStore } from '../../store/team-store';
+import {
+  runBacktest,
+  handicapModel,
+  ratingModel,
+  createFactorModel,
+  LEGACY_FACTOR_WEIGHTS,
+  type BacktestReport,
+  type ModelReport,
+} from '../../engine/backtest';
+
+const MODELS = [
+  handicapModel,
+  ratingModel,
+  createFactorModel(LEGACY_FACTOR_WEIGHTS, 'Legacy weighted factors'),
+  createFactorModel({
+    skillLevelAdvantage: 0.5,
+    winPercentageDelta: 0.3,
+    headToHeadRecord: 0.2,
+    recentFormTrend: 0,
+    ppmEfficiency: 0,
+  }, 'Factors without form/PPM'),
+];
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+function ModelCard({ report, best }: { report: ModelReport; best: boolean }) {
+  return (
+    <div className={`p-4 rounded-xl bg-slate-800/50 border ${best ? 'border-green-500/50' : 'border-slate-700'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-white font-semibold">{report.model}</h2>
+        {best && <span className="text-green-400 text-xs">Lowest Brier</span>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm mb-4">
+        <div className="flex justify-between">
+          <span className="text-slate-400">Brier</span>
+          <span className="text-slate-300">{report.brierScore.toFixed(3)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Log loss</span>
+          <span className="text-slate-300">{report.logLoss.toFixed(3)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Favorite won</span>
+          <span className="text-slate-300">{pct(report.favoriteWinRate)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Pick won</span>
+          <span className="text-slate-300">
+            {report.recommendedPicks > 0 ? `${pct(report.recommendedPickWinRate)} of ${report.recommendedPicks}` : '—'}
+          </span>
+        </div>
+      </div>
+
+      {/* Calibration: predicted (bar) vs observed (marker) per bucket */}
+      <h3 className="text-slate-500 text-xs uppercase tracking-wide mb-2">Calibration</h3>
+      <div className="space-y-1">
+        {report.calibration.map(bin => (
+          <div key={bin.lower} className="flex items-center gap-2 text-xs">
+            <span className="w-16 text-slate-500">{pct(bin.lower)}–{pct(bin.upper)}</span>
+            <div className="relative flex-1 h-2 rounded-full bg-slate-700">
+              <div className="absolute h-full rounded-full bg-blue-500/60" style={{ width: pct(bin.meanPredicted) }} />
+              <div className="absolute top-[-2px] h-3 w-0.5 bg-white" style={{ left: pct(bin.observedWinRate) }} />
+            </div>
+            <span className="w-16 text-right text-slate-400">{pct(bin.observedWinRate)} · {bin.count}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function BacktestScreen() {
+  const navigate = useNavigate();
+  const { ourTeamId } = useTeamStore();
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runId, setRunId] = useState(0);
+
+  useEffect(() => {
+    const run = async () => {
+      setIsRunning(true);
+      try {
+        const profile = await getProfile(ourTeamId);
+        const [matches, gameResults, records, teams, completedLive] = await Promise.all([
+          profile ? db.matches.where('divisionId').equals(profile.divisionId).toArray() : db.matches.toArray(),
+          db.gameResults.toArray(),
+          db.playerMatchRecords.toArray(),
+          db.teams.toArray(),
+          db.liveMatches.where('status').equals('completed').toArray(),
+        ]);
+        const teamFormats = new Map(teams.map(t => [t.id, t.format]));
+        // Matches from before team profiles have no team - they're from the original one
+        const liveMatches = completedLive.filter(m => m.ourTeamId === undefined || m.ourTeamId === ourTeamId);
+        setReport(runBacktest({ matches, gameResults, records, teamFormats, models: MODELS, liveMatches }));
+      } catch (error) {
+        console.error('Backtest failed:', error);
+      } finally {
+        setIsRunning(false);
+      }
+    };
+    run();
+  }, [ourTeamId, runId]);
+
+  const bestBrier = report && report.games > 0
+    ? Math.min(...report.models.map(m => m.brierScore))
+    : null;
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 pb-24">
+      {/* Header */}
+      <header className="mb-6">
+        <button
+          onClick={() => navigate('/')}
+          className="text-slate-400 hover:text-white mb-2 flex items-center gap-1"
+        >
+          ← Back
+        </button>
+        <h1 className="text-2xl font-bold text-white">Model Backtest</h1>
+        <p className="text-slate-400">Past matches replayed using only what was known beforehand</p>
+      </header>
+
+      {report && (
+        <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700 text-sm">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Matches replayed</span>
+            <span className="text-slate-300">{report.matches}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Games predicted</span>
+            <span className="text-slate-300">{report.games}</span>
+          </div>
+          <p className="text-slate-500 text-xs mt-2">
+            Lower Brier and log loss are better (coin flip: 0.250 / 0.693).
+          </p>
+        </div>
+      )}
+
+      {report && report.games === 0 && !isRunning && (
+        <div className="mb-6 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+          <p className="text-amber-400 text-sm">No completed match results yet - sync first.</p>
+        </div>
+      )}
+
+      {report && report.games > 0 && (
+        <div className="space-y-4 mb-6">
+          {report.models.map(model => (
+            <ModelCard key={model.model} report={model} best={model.brierScore === bestBrier} />
+          ))}
+        </div>
+      )}
+
+      {report && (
+        <div className="mb-6">
+          <h2 className="text-white font-semibold mb-1">Picks shown during matches</h2>
+          <p className="text-slate-500 text-xs mb-3">
+            The engine and AI recommendations as they were given, scored on the games where that pick was thrown.
+            AI picks can't be replayed, so this is the only way they're measured.
+          </p>
+          {report.storedPicks.length > 0 ? (
+            <div className="space-y-4">
+              {report.storedPicks.map(picks => (
+                <ModelCard key={picks.model} report={picks} best={false} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-slate-400 text-sm">No followed recommendations in completed matches yet.</p>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={() => setRunId(id => id + 1)}
+        disabled={isRunning}
+        className="w-full py-3 px-4 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isRunning ? 'Running...' : 'Run Again'}
+      </button>
+    </div>
+  );
+}
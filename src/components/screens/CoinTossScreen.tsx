@@ -1,19 +1,49 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTeamStore } from '../../store/team-store';
 import { useMatchStore } from '../../store/match-store';
-import { getAICoinTossRecommendation } from '../../services/gemini';
+import { useSettingsStore } from '../../store/settings-store';
+import {
+  getEngineCoinTossRecommendation,
+  getAICoinTossOpinion,
+  shouldRequestAI,
+  type CoinTossAdvice,
+} from '../../services/recommendation-provider';
+import { RecommendationModeToggle } from '../ui/RecommendationModeToggle';
+import { ObjectiveToggle } from '../ui/ObjectiveToggle';
+import { CounterPickToggle } from '../ui/CounterPickToggle';
+import { CoinTossOutcomeCard } from '../ui/CoinTossOutcomeCard';
 
 export function CoinTossScreen() {
   const navigate = useNavigate();
-  const { ourTeamId, getPlayersByTeam, headToHead } = useTeamStore();
+  const { ourTeamId, players, getPlayersByTeam, headToHead, playerStats, ratings, throwModels } = useTeamStore();
   const { liveMatch, setWeThrowFirst } = useMatchStore();
+  const { recommendationMode, optimizerObjective, counterPickAssumption } = useSettingsStore();
 
-  const [showRecommendation, setShowRecommendation] = useState(false);
-  const [recommendation, setRecommendation] = useState<{ recommendation: 'throw_first' | 'defer'; reasoning: string[] } | null>(null);
+  const [aiAdvice, setAiAdvice] = useState<CoinTossAdvice | null>(null);
+  const [aiUnavailable, setAiUnavailable] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
-  if (!liveMatch) {
+  // Engine result is always available, even offline. Playing the match out takes a moment,
+  // so it's only redone when something it depends on changes.
+  const engineAdvice = useMemo(() => {
+    if (!liveMatch) return null;
+    const present = (teamId: number, ids: number[]) =>
+      players.filter(p => Number(p.teamId) === Number(teamId) && ids.includes(p.id));
+    return getEngineCoinTossRecommendation(
+      present(ourTeamId, liveMatch.ourPlayersPresent),
+      present(liveMatch.opponentTeamId, liveMatch.theirPlayersPresent),
+      headToHead,
+      playerStats,
+      ratings,
+      liveMatch.format,
+      optimizerObjective,
+      throwModels.get(liveMatch.opponentTeamId),
+      counterPickAssumption
+    );
+  }, [liveMatch, ourTeamId, players, headToHead, playerStats, ratings, throwModels, optimizerObjective, counterPickAssumption]);
+
+  if (!liveMatch || !engineAdvice) {
     navigate('/match/opponent');
     return null;
   }
@@ -22,17 +52,18 @@ export function CoinTossScreen() {
     .filter(p => liveMatch.ourPlayersPresent.includes(p.id));
   const theirPlayers = getPlayersByTeam(liveMatch.opponentTeamId)
     .filter(p => liveMatch.theirPlayersPresent.includes(p.id));
+  const canAskAI = shouldRequestAI(recommendationMode);
+
+  // In AI mode Gemini's call wins once it's in; otherwise the engine stays primary
+  const recommendation = recommendationMode === 'ai' && aiAdvice ? aiAdvice : engineAdvice;
+  const secondOpinion = recommendation === engineAdvice && recommendationMode !== 'local' ? aiAdvice : null;
 
-  const getRecommendation = async () => {
+  const getAIOpinion = async () => {
     setIsLoading(true);
     try {
-      const result = await getAICoinTossRecommendation(ourPlayers, theirPlayers, headToHead);
-      setRecommendation(result);
-      setShowRecommendation(true);
-    } catch (err) {
-      console.error('Error getting AI recommendation:', err);
-      // Still show the choice buttons even if AI fails
-      setShowRecommendation(true);
+      const result = await getAICoinTossOpinion(recommendationMode, ourPlayers, theirPlayers, headToHead, liveMatch.format);
+      setAiAdvice(result);
+      setAiUnavailable(!result);
     } finally {
       setIsLoading(false);
     }
@@ -69,52 +100,93 @@ export function CoinTossScreen() {
           <p className="text-slate-300">Who will throw the first player?</p>
         </div>
 
-        {/* AI Recommendation Button */}
-        {!showRecommendation && !isLoading && (
-          <button
-            onClick={getRecommendation}
-            className="w-full py-3 px-4 rounded-xl bg-purple-500/20 border border-purple-500/30 text-purple-400 font-medium hover:bg-purple-500/30 transition-colors flex items-center justify-center gap-2"
-          >
-            <span>🤖</span>
-            <span>Get AI Recommendation</span>
-          </button>
-        )}
+        <RecommendationModeToggle />
+        <div className="space-y-2">
+          <ObjectiveToggle />
+          <CounterPickToggle />
+        </div>
 
-        {/* Loading State */}
-        {isLoading && (
-          <div className="flex flex-col items-center justify-center py-8">
-            <div className="w-12 h-12 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 animate-pulse" />
-            <p className="text-slate-400 text-sm mt-3">AI is analyzing...</p>
+        {/* Recommendation */}
+        <div className="p-4 rounded-xl bg-purple-500/10 border border-purple-500/30 animate-fade-in">
+          <div className="flex items-center gap-2 mb-3">
+            <span>{recommendation.source === 'ai' ? '🤖' : '⚙️'}</span>
+            <span className="text-purple-400 font-medium">
+              {recommendation.source === 'ai' ? 'AI Recommends:' : 'Engine Recommends:'}
+            </span>
+            <span className="text-white font-semibold">
+              {recommendation.recommendation === 'throw_first' ? 'We throw first' : 'They throw first'}
+            </span>
+            {recommendation.confidence !== undefined && (
+              <span className="ml-auto text-slate-400 text-xs">
+                {Math.round(recommendation.confidence * 100)}%
+              </span>
+            )}
           </div>
+          <ul className="space-y-1">
+            {recommendation.reasoning.map((reason, i) => (
+              <li key={i} className="flex items-start gap-2 text-slate-400 text-sm">
+                <span className="text-purple-400 mt-0.5">•</span>
+                <span>{reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Both choices played out */}
+        {engineAdvice.outcomes && (
+          <CoinTossOutcomeCard outcomes={engineAdvice.outcomes} recommendation={engineAdvice.recommendation} />
         )}
 
-        {/* AI Recommendation */}
-        {showRecommendation && recommendation && (
-          <div className="p-4 rounded-xl bg-purple-500/10 border border-purple-500/30 animate-fade-in">
-            <div className="flex items-center gap-2 mb-3">
+        {/* AI Second Opinion */}
+        {secondOpinion && (
+          <div className="p-4 rounded-xl bg-slate-800/50 border border-slate-700 animate-fade-in">
+            <div className="flex items-center gap-2 mb-2">
               <span>🤖</span>
-              <span className="text-purple-400 font-medium">AI Recommends:</span>
+              <span className="text-slate-300 font-medium">AI says:</span>
               <span className="text-white font-semibold">
-                {recommendation.recommendation === 'throw_first' ? 'We throw first' : 'They throw first'}
+                {secondOpinion.recommendation === 'throw_first' ? 'We throw first' : 'They throw first'}
+              </span>
+              <span className={`ml-auto px-2 py-0.5 rounded text-xs ${
+                secondOpinion.recommendation === engineAdvice.recommendation
+                  ? 'bg-green-500/20 text-green-400'
+                  : 'bg-amber-500/20 text-amber-400'
+              }`}>
+                {secondOpinion.recommendation === engineAdvice.recommendation ? 'Agrees' : 'Disagrees'}
               </span>
             </div>
             <ul className="space-y-1">
-              {recommendation.reasoning.map((reason, i) => (
-                <li key={i} className="flex items-start gap-2 text-slate-400 text-sm">
-                  <span className="text-purple-400 mt-0.5">•</span>
-                  <span>{reason}</span>
-                </li>
+              {secondOpinion.reasoning.map((reason, i) => (
+                <li key={i} className="text-slate-400 text-sm">• {reason}</li>
               ))}
             </ul>
           </div>
         )}
 
+        {/* AI Opinion Button */}
+        {canAskAI && !aiAdvice && !isLoading && (
+          <button
+            onClick={getAIOpinion}
+            className="w-full py-3 px-4 rounded-xl bg-purple-500/20 border border-purple-500/30 text-purple-400 font-medium hover:bg-purple-500/30 transition-colors flex items-center justify-center gap-2"
+          >
+            <span>🤖</span>
+            <span>{aiUnavailable ? 'AI unavailable - Try Again' : 'Get AI Opinion'}</span>
+          </button>
+        )}
+
+        {/* Loading State */}
+        {isLoading && (
+          <div className="flex flex-col items-center justify-center py-4">
+            <div className="w-8 h-8 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 animate-pulse" />
+            <p className="text-slate-400 text-sm mt-3">AI is analyzing...</p>
+          </div>
+        )}
+
         {/* Choice Buttons */}
         <div className="grid grid-cols-1 gap-4 pt-4">
           <button
             onClick={handleWeThrowFirst}
             className={`p-6 rounded-xl border-2 transition-all ${
-              recommendation?.recommendation === 'throw_first'
+              recommendation.recommendation === 'throw_first'
                 ? 'bg-gradient-to-br from-blue-500/20 to-cyan-500/20 border-blue-500/50 hover:border-blue-400'
                 : 'bg-slate-800/50 border-slate-700 hover:border-slate-600'
             }`}
@@ -127,7 +199,7 @@ export function CoinTossScreen() {
                   <div className="text-slate-400 text-sm">We pick first, they counter-pick</div>
                 </div>
               </div>
-              {recommendation?.recommendation === 'throw_first' && (
+              {recommendation.recommendation === 'throw_first' && (
                 <span className="px-2 py-1 rounded bg-blue-500/20 text-blue-400 text-xs">Recommended</span>
               )}
             </div>
@@ -136,7 +208,7 @@ export function CoinTossScreen() {
           <button
             onClick={handleTheyThrowFirst}
             className={`p-6 rounded-xl border-2 transition-all ${
-              recommendation?.recommendation === 'defer'
+              recommendation.recommendation === 'defer'
                 ? 'bg-gradient-to-br from-blue-500/20 to-cyan-500/20 border-blue-500/50 hover:border-blue-400'
                 : 'bg-slate-800/50 border-slate-700 hover:border-slate-600'
             }`}
@@ -149,7 +221,7 @@ export function CoinTossScreen() {
                   <div className="text-slate-400 text-sm">They pick first, we counter-pick</div>
                 </div>
               </div>
-              {recommendation?.recommendation === 'defer' && (
+              {recommendation.recommendation === 'defer' && (
                 <span className="px-2 py-1 rounded bg-blue-500/20 text-blue-400 text-xs">Recommended</span>
               )}
             </div>
@@ -1,41 +1,63 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useEffectEvent, useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTeamStore } from '../../store/team-store';
 import { useMatchStore, type ChatMessage } from '../../store/match-store';
-import { getAIRecommendation, chatWithAI, type AIRecommendation } from '../../services/gemini';
+import { useSettingsStore, type CounterPickAssumption } from '../../store/settings-store';
+import { useLiveSessionStore } from '../../store/live-session-store';
+import { chatWithAI } from '../../services/gemini';
+import {
+  getEngineRecommendation,
+  getAIOpinion,
+  shouldRequestAI,
+  toGameRecommendation,
+  type ThrowAdvice,
+} from '../../services/recommendation-provider';
+import { GAMES_PER_MATCH, weThrowFirstInGame } from '../../engine/lineup-rules';
+import { getRace } from '../../engine/skill-level-tables';
 import { PlayerCard } from '../ui/PlayerCard';
 import { ScoreBadge } from '../ui/StatBadge';
-import type { Player } from '../../data/types';
+import { RecommendationModeToggle } from '../ui/RecommendationModeToggle';
+import { ObjectiveToggle } from '../ui/ObjectiveToggle';
+import { CounterPickToggle } from '../ui/CounterPickToggle';
+import { RackScorer } from '../ui/RackScorer';
+import type { Player, RackScore } from '../../data/types';
+import type { OptimizerObjective } from '../../engine/lineup-optimizer';
 
 // Updated phases to handle both scenarios
 type GamePhase = 
   | 'select_their_player'      // When they throw first - select who they threw
   | 'select_their_counter'     // When we throw first - select who they counter-picked after our throw
-  | 'ai_thinking' 
   | 'ai_recommendation' 
   | 'select_our_player' 
   | 'record_result';
 
 export function GameMatchupScreen() {
   const navigate = useNavigate();
-  const { ourTeamId, getPlayersByTeam, headToHead } = useTeamStore();
+  const { ourTeamId, getPlayersByTeam, headToHead, playerStats, ratings, throwModels } = useTeamStore();
+  const { recommendationMode, optimizerObjective, counterPickAssumption } = useSettingsStore();
   const { 
     liveMatch, 
     chatHistory,
     recordTheirPlayer,
     recordOurPlayer,
     recordGameResult,
+    recordRack,
+    undoLastRack,
     nextGame,
-    getMatchProgress,
     addChatMessage,
   } = useMatchStore();
+  const { role: liveRole, code: liveCode, status: liveStatus, lastConflict, dismissConflict } = useLiveSessionStore();
 
   const [phase, setPhase] = useState<GamePhase>('select_their_player');
   const [selectedOpponent, setSelectedOpponent] = useState<Player | null>(null);
   const [selectedPlayer, setSelectedPlayer] = useState<number | null>(null);
-  const [aiRecommendation, setAiRecommendation] = useState<AIRecommendation | null>(null);
-  const [_isLoading, setIsLoading] = useState(false);
+  const [engineRecommendation, setEngineRecommendation] = useState<ThrowAdvice | null>(null);
+  const [aiRecommendation, setAiRecommendation] = useState<ThrowAdvice | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const requestIdRef = useRef(0);
   const [error, setError] = useState<string | null>(null);
+  const [scoreByRack, setScoreByRack] = useState(true);
+  const [loserScore, setLoserScore] = useState('');
   
   // Chat state
   const [showChat, setShowChat] = useState(false);
@@ -45,15 +67,16 @@ export function GameMatchupScreen() {
 
   // Reset phase when game changes
   const initializePhase = () => {
+    // Normally finishGame already cleared these, but a co-captain may have moved us on
+    setSelectedOpponent(null);
+    setSelectedPlayer(null);
+
     // Determine who throws first THIS game
-    const weThrowFirst = liveMatch?.weThrowFirst 
-      ? (liveMatch.currentGame % 2 === 1)
-      : (liveMatch?.currentGame ?? 1) % 2 === 0;
+    const weThrowFirst = weThrowFirstInGame(liveMatch?.weThrowFirst ?? true, liveMatch?.currentGame ?? 1);
 
     if (weThrowFirst) {
-      // We throw first - show AI recommendations without knowing opponent
-      setPhase('ai_thinking');
-      generateBlindRecommendation();
+      // We throw first - show recommendations without knowing opponent
+      generateRecommendation();
     } else {
       // They throw first - wait for their pick
       setPhase('select_their_player');
@@ -68,22 +91,47 @@ export function GameMatchupScreen() {
     initializePhase();
   }, [liveMatch?.currentGame]);
 
+  // A co-captain's entries arrive through the shared session - catch this screen up with them.
+  // Also covers our own entry being undone because theirs got there first.
+  const sharedGame = liveMatch?.games.find(g => g.gameNumber === liveMatch.currentGame);
+  const onSharedGameChange = useEffectEvent(() => {
+    if (!liveMatch || !sharedGame || sharedGame.result !== 'pending') return;
+
+    const opponent = getPlayersByTeam(liveMatch.opponentTeamId).find(p => p.id === sharedGame.theirPlayerId) ?? null;
+    if (opponent && opponent.id !== selectedOpponent?.id) {
+      setSelectedOpponent(opponent);
+      if (phase === 'select_their_player' || (phase === 'ai_recommendation' && !sharedGame.ourPlayerId)) {
+        generateRecommendation(opponent);
+        return;
+      }
+    }
+    if (sharedGame.ourPlayerId && sharedGame.ourPlayerId !== selectedPlayer) {
+      setSelectedPlayer(sharedGame.ourPlayerId);
+    }
+    if (sharedGame.ourPlayerId && (phase === 'ai_recommendation' || phase === 'select_our_player')) {
+      setPhase(opponent ? 'record_result' : 'select_their_counter');
+    } else if (opponent && phase === 'select_their_counter') {
+      setPhase('record_result');
+    }
+  });
+
+  useEffect(() => {
+    if (liveRole === 'captain') onSharedGameChange();
+  }, [liveRole, sharedGame?.theirPlayerId, sharedGame?.ourPlayerId]);
+
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatHistory]);
 
   if (!liveMatch) return null;
 
-  const { ourWins, theirWins } = getMatchProgress();
-
   // Determine who throws first THIS game
   // If we threw first in game 1 (weThrowFirst=true), then:
   //   - Odd games (1, 3, 5): We throw first
   //   - Even games (2, 4): They throw first
   // If they threw first in game 1 (weThrowFirst=false), it's reversed
-  const weThrowFirstThisGame = liveMatch.weThrowFirst 
-    ? (liveMatch.currentGame % 2 === 1)  // Odd games: we throw first
-    : (liveMatch.currentGame % 2 === 0); // Even games: we throw first
+  const weThrowFirstThisGame = weThrowFirstInGame(liveMatch.weThrowFirst ?? true, liveMatch.currentGame);
+  const format = liveMatch.format ?? 'NINE';
 
   // Get available players
   const ourPlayers = getPlayersByTeam(ourTeamId)
@@ -97,69 +145,100 @@ export function GameMatchupScreen() {
   const availableOurPlayers = ourPlayers.filter(p => !ourUsedIds.has(p.id));
   const availableTheirPlayers = theirPlayers.filter(p => !theirUsedIds.has(p.id));
 
-  const generateBlindRecommendation = async () => {
-    setIsLoading(true);
+  // Pass everyone present - players already used are needed to apply the 23 rule
+  const getEngineAdvice = (
+    opponent?: Player,
+    objective: OptimizerObjective = optimizerObjective,
+    counterPick: CounterPickAssumption = counterPickAssumption
+  ) => getEngineRecommendation(
+    ourPlayers,
+    theirPlayers,
+    liveMatch,
+    headToHead,
+    playerStats,
+    ratings,
+    opponent,
+    objective,
+    throwModels.get(liveMatch.opponentTeamId),
+    counterPick
+  );
+
+  // Engine result shows instantly; the AI opinion is layered on when it arrives
+  const generateRecommendation = async (opponent?: Player) => {
+    const requestId = ++requestIdRef.current;
     setError(null);
-    try {
-      const recommendation = await getAIRecommendation(
-        availableOurPlayers,
-        availableTheirPlayers,
-        liveMatch,
-        headToHead
-      );
-      setAiRecommendation(recommendation);
-      setPhase('ai_recommendation');
-    } catch (err) {
-      console.error('AI recommendation error:', err);
-      setError(err instanceof Error ? err.message : 'Failed to get AI recommendation');
-      // Fallback to manual selection
-      setPhase('select_our_player');
-    } finally {
-      setIsLoading(false);
-    }
-  };
+    setAiRecommendation(null);
+
+    const engine = getEngineAdvice(opponent);
+    setEngineRecommendation(engine);
+    setPhase(engine ? 'ai_recommendation' : 'select_our_player');
+
+    if (!shouldRequestAI(recommendationMode)) return;
 
-  const generateCounterRecommendation = async (opponent: Player) => {
     setIsLoading(true);
-    setError(null);
     try {
-      const recommendation = await getAIRecommendation(
-        availableOurPlayers,
-        availableTheirPlayers,
+      const ai = await getAIOpinion(
+        recommendationMode,
+        ourPlayers,
+        theirPlayers,
         liveMatch,
         headToHead,
         opponent
       );
-      setAiRecommendation(recommendation);
-      setPhase('ai_recommendation');
-    } catch (err) {
-      console.error('AI recommendation error:', err);
-      setError(err instanceof Error ? err.message : 'Failed to get AI recommendation');
-      // Fallback to manual selection
-      setPhase('select_our_player');
+      // Ignore answers for a game we've already moved past
+      if (requestId !== requestIdRef.current) return;
+      setAiRecommendation(ai);
+      if (!engine && ai) {
+        setPhase('ai_recommendation');
+      }
     } finally {
-      setIsLoading(false);
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false);
+      }
     }
   };
 
+  // Re-rank the engine's pick when the objective changes; the AI opinion doesn't depend on it
+  const handleObjectiveChange = (objective: OptimizerObjective) => {
+    setEngineRecommendation(getEngineAdvice(selectedOpponent ?? undefined, objective));
+  };
+
+  const handleCounterPickChange = (counterPick: CounterPickAssumption) => {
+    setEngineRecommendation(getEngineAdvice(selectedOpponent ?? undefined, optimizerObjective, counterPick));
+  };
+
   // When they throw first - select who they threw
   const handleSelectOpponent = (player: Player) => {
     setSelectedOpponent(player);
-    recordTheirPlayer(liveMatch.currentGame, player.id);
-    setPhase('ai_thinking');
-    generateCounterRecommendation(player);
+    recordTheirPlayer(liveMatch.currentGame, player.id, player.skillLevel);
+    generateRecommendation(player);
   };
 
   // When we throw first - select who they counter-picked AFTER we threw
   const handleSelectOpponentCounter = (player: Player) => {
     setSelectedOpponent(player);
-    recordTheirPlayer(liveMatch.currentGame, player.id);
+    recordTheirPlayer(liveMatch.currentGame, player.id, player.skillLevel);
     setPhase('record_result');
   };
 
+  // In AI mode Gemini's pick takes over once it arrives; otherwise the engine stays primary
+  const primaryRecommendation = recommendationMode === 'ai' && aiRecommendation
+    ? aiRecommendation
+    : engineRecommendation ?? aiRecommendation;
+  const secondOpinion = primaryRecommendation?.source === 'ai'
+    ? engineRecommendation
+    : recommendationMode !== 'local' ? aiRecommendation : null;
+
+  // Whatever was on screen when the captain chose is kept with the game
   const handleSelectOurPlayer = (playerId: number) => {
     setSelectedPlayer(playerId);
-    recordOurPlayer(liveMatch.currentGame, playerId);
+    recordOurPlayer(
+      liveMatch.currentGame,
+      playerId,
+      ourPlayers.find(p => p.id === playerId)?.skillLevel,
+      primaryRecommendation ? toGameRecommendation(primaryRecommendation, selectedOpponent ?? undefined) : undefined,
+      secondOpinion ? toGameRecommendation(secondOpinion, selectedOpponent ?? undefined) : undefined
+    );
     
     // If we threw first this game, now we need to know who they counter-picked
     if (weThrowFirstThisGame) {
@@ -171,8 +250,8 @@ export function GameMatchupScreen() {
   };
 
   const handleAcceptRecommendation = () => {
-    if (aiRecommendation) {
-      handleSelectOurPlayer(aiRecommendation.recommendedPlayerId);
+    if (primaryRecommendation) {
+      handleSelectOurPlayer(primaryRecommendation.recommendedPlayerId);
     }
   };
 
@@ -180,13 +259,44 @@ export function GameMatchupScreen() {
     setPhase('select_our_player');
   };
 
+  // 9-ball games can be scored rack by rack; 8-ball (and a quick entry) records who won
+  // and, for team points, how far the loser got
+  const currentGame = liveMatch.games.find(g => g.gameNumber === liveMatch.currentGame);
+  const ourCurrentPlayer = ourPlayers.find(p => p.id === selectedPlayer);
+  const race = ourCurrentPlayer && selectedOpponent
+    ? getRace(ourCurrentPlayer.skillLevel, selectedOpponent.skillLevel, format)
+    : null;
+  const pointsNeeded = race ? { ours: race.player1Needs, theirs: race.player2Needs } : null;
+  const canScoreRacks = format === 'NINE' && !!pointsNeeded;
+  const scoreUnit = format === 'EIGHT' ? 'racks' : 'points';
+
+  const handleRecordRack = (rack: RackScore) => {
+    if (pointsNeeded) {
+      recordRack(liveMatch.currentGame, rack, pointsNeeded);
+    }
+  };
+
   const handleRecordResult = (won: boolean) => {
-    recordGameResult(liveMatch.currentGame, won);
-    
-    const newOurWins = won ? ourWins + 1 : ourWins;
-    const newTheirWins = won ? theirWins : theirWins + 1;
-    
-    if (newOurWins >= 3 || newTheirWins >= 3) {
+    const loserPoints = loserScore.trim() === '' ? undefined : Math.max(0, parseInt(loserScore, 10) || 0);
+    if (pointsNeeded && loserPoints !== undefined) {
+      // The winner finished their race; the loser's score decides the team points split
+      recordGameResult(
+        liveMatch.currentGame,
+        won,
+        won ? pointsNeeded.ours : Math.min(loserPoints, pointsNeeded.ours - 1),
+        won ? Math.min(loserPoints, pointsNeeded.theirs - 1) : pointsNeeded.theirs,
+        pointsNeeded
+      );
+    } else {
+      recordGameResult(liveMatch.currentGame, won, undefined, undefined, pointsNeeded ?? undefined);
+    }
+    finishGame();
+  };
+
+  // The game's result is already in the store - move on to the next game or the summary.
+  // Every game is played out because each one is worth team points.
+  const finishGame = () => {
+    if (liveMatch.currentGame >= GAMES_PER_MATCH) {
       navigate('/match/summary');
       return;
     }
@@ -194,7 +304,10 @@ export function GameMatchupScreen() {
     // Reset state for next game
     setSelectedOpponent(null);
     setSelectedPlayer(null);
+    setEngineRecommendation(null);
     setAiRecommendation(null);
+    setScoreByRack(true);
+    setLoserScore('');
     
     // Move to next game - useEffect will handle setting the correct phase
     nextGame();
@@ -249,11 +362,18 @@ export function GameMatchupScreen() {
           >
             ← Exit
           </button>
-          <ScoreBadge ourScore={liveMatch.ourScore} theirScore={liveMatch.theirScore} />
+          <div className="text-right">
+            <ScoreBadge ourScore={liveMatch.ourScore} theirScore={liveMatch.theirScore} />
+            <p className="text-slate-400 text-xs">
+              {liveMatch.ourMatchPoints ?? 0} - {liveMatch.theirMatchPoints ?? 0} team pts
+            </p>
+          </div>
         </div>
         <div className="text-center">
           <h1 className="text-xl font-bold text-white">Game {liveMatch.currentGame}</h1>
-          <p className="text-slate-400 text-sm">vs {liveMatch.opponentTeamName}</p>
+          <p className="text-slate-400 text-sm">
+            vs {liveMatch.opponentTeamName} • {format === 'EIGHT' ? '8-Ball' : '9-Ball'}
+          </p>
           <p className={`text-xs mt-1 ${weThrowFirstThisGame ? 'text-blue-400' : 'text-orange-400'}`}>
             {weThrowFirstThisGame ? '🎯 Our throw' : '🛡️ Their throw'}
           </p>
@@ -267,6 +387,33 @@ export function GameMatchupScreen() {
         </div>
       )}
 
+      {/* Shared live session */}
+      {liveRole === 'captain' && (
+        <div className="mb-4 p-3 rounded-lg bg-slate-800/50 border border-slate-700">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-400 flex items-center gap-2">
+              <span className={`w-2 h-2 rounded-full ${liveStatus === 'live' ? 'bg-green-400 animate-pulse' : 'bg-amber-400'}`} />
+              {liveStatus === 'live' ? 'Shared live' : liveStatus === 'ended' ? 'Sharing ended' : 'Reconnecting...'}
+            </span>
+            <span className="text-slate-300 font-mono">{liveCode}</span>
+          </div>
+          {lastConflict && (
+            <div className="mt-2 flex items-start justify-between gap-2">
+              <p className="text-amber-400 text-sm">{lastConflict}</p>
+              <button onClick={dismissConflict} className="text-slate-400 hover:text-white text-sm">✕</button>
+            </div>
+          )}
+          {liveMatch.status === 'completed' && (
+            <button
+              onClick={() => navigate('/match/summary')}
+              className="mt-2 w-full py-2 px-4 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors"
+            >
+              Match Complete - View Summary
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Phase: Select Their Player (when they throw first) */}
       {phase === 'select_their_player' && (
         <div className="animate-fade-in">
@@ -277,6 +424,7 @@ export function GameMatchupScreen() {
               <PlayerCard
                 key={player.id}
                 player={player}
+                format={format}
                 onClick={() => handleSelectOpponent(player)}
               />
             ))}
@@ -299,6 +447,8 @@ export function GameMatchupScreen() {
               <PlayerCard
                 key={player.id}
                 player={player}
+                format={format}
+                opponentSkillLevel={ourPlayers.find(p => p.id === selectedPlayer)?.skillLevel}
                 onClick={() => handleSelectOpponentCounter(player)}
               />
             ))}
@@ -306,22 +456,8 @@ export function GameMatchupScreen() {
         </div>
       )}
 
-      {/* Phase: AI Thinking */}
-      {phase === 'ai_thinking' && (
-        <div className="flex flex-col items-center justify-center py-16 animate-fade-in">
-          <div className="relative">
-            <div className="w-20 h-20 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 animate-pulse" />
-            <div className="absolute inset-0 flex items-center justify-center">
-              <span className="text-3xl">🤖</span>
-            </div>
-          </div>
-          <p className="text-white font-medium mt-6">AI is analyzing matchups...</p>
-          <p className="text-slate-400 text-sm mt-2">Powered by Gemini</p>
-        </div>
-      )}
-
       {/* Phase: AI Recommendation */}
-      {phase === 'ai_recommendation' && aiRecommendation && (
+      {phase === 'ai_recommendation' && primaryRecommendation && (
         <div className="animate-fade-in space-y-4">
           {selectedOpponent && (
             <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-700">
@@ -336,18 +472,24 @@ export function GameMatchupScreen() {
             </div>
           )}
 
-          {/* AI Recommendation Card */}
+          <RecommendationModeToggle />
+          <ObjectiveToggle onChange={handleObjectiveChange} />
+          {!selectedOpponent && <CounterPickToggle onChange={handleCounterPickChange} />}
+
+          {/* Recommendation Card */}
           <div className="rounded-xl bg-gradient-to-br from-purple-500/20 via-blue-500/20 to-cyan-500/20 border border-purple-500/30 overflow-hidden">
             <div className="p-4 border-b border-purple-500/20">
               <div className="flex items-center gap-2 mb-2">
-                <span className="text-2xl">🤖</span>
-                <span className="text-purple-400 font-medium">AI Recommendation</span>
+                <span className="text-2xl">{primaryRecommendation.source === 'ai' ? '🤖' : '⚙️'}</span>
+                <span className="text-purple-400 font-medium">
+                  {primaryRecommendation.source === 'ai' ? 'AI Recommendation' : 'Engine Recommendation'}
+                </span>
                 <span className={`ml-auto px-2 py-0.5 rounded text-xs font-medium ${
-                  aiRecommendation.confidence === 'high' ? 'bg-green-500/20 text-green-400' :
-                  aiRecommendation.confidence === 'medium' ? 'bg-yellow-500/20 text-yellow-400' :
+                  primaryRecommendation.confidence === 'high' ? 'bg-green-500/20 text-green-400' :
+                  primaryRecommendation.confidence === 'medium' ? 'bg-yellow-500/20 text-yellow-400' :
                   'bg-red-500/20 text-red-400'
                 }`}>
-                  {aiRecommendation.confidence.toUpperCase()} CONFIDENCE
+                  {primaryRecommendation.confidence.toUpperCase()} CONFIDENCE
                 </span>
               </div>
             </div>
@@ -356,28 +498,35 @@ export function GameMatchupScreen() {
               {/* Recommended Player Card */}
               <div className="flex items-center gap-4 mb-4">
                 <div className={`w-16 h-16 rounded-full flex items-center justify-center text-white font-bold text-2xl ${
-                  getSkillLevelColor(availableOurPlayers.find(p => p.id === aiRecommendation.recommendedPlayerId)?.skillLevel || 5)
+                  getSkillLevelColor(availableOurPlayers.find(p => p.id === primaryRecommendation.recommendedPlayerId)?.skillLevel || 5)
                 }`}>
-                  {availableOurPlayers.find(p => p.id === aiRecommendation.recommendedPlayerId)?.skillLevel || '?'}
+                  {availableOurPlayers.find(p => p.id === primaryRecommendation.recommendedPlayerId)?.skillLevel || '?'}
                 </div>
                 <div className="flex-1">
-                  <h3 className="text-2xl font-bold text-white">{aiRecommendation.recommendedPlayerName}</h3>
+                  <h3 className="text-2xl font-bold text-white">{primaryRecommendation.recommendedPlayerName}</h3>
                   <div className="flex items-center gap-3 mt-1">
                     <span className={`text-2xl font-bold ${
-                      aiRecommendation.winProbability >= 0.6 ? 'text-green-400' :
-                      aiRecommendation.winProbability >= 0.45 ? 'text-yellow-400' :
+                      primaryRecommendation.winProbability >= 0.6 ? 'text-green-400' :
+                      primaryRecommendation.winProbability >= 0.45 ? 'text-yellow-400' :
                       'text-red-400'
                     }`}>
-                      {Math.round(aiRecommendation.winProbability * 100)}%
+                      {Math.round(primaryRecommendation.winProbability * 100)}%
                     </span>
                     <span className="text-slate-400 text-sm">win probability</span>
                   </div>
+                  {primaryRecommendation.expectedCounter && (
+                    <p className="text-slate-400 text-sm mt-1">
+                      Likely counter: <span className="text-white">{primaryRecommendation.expectedCounter.playerName}</span>
+                      {' '}({Math.round(primaryRecommendation.expectedCounter.likelihood * 100)}% likely,
+                      {' '}we win {Math.round(primaryRecommendation.expectedCounter.winProbability * 100)}%)
+                    </p>
+                  )}
                 </div>
               </div>
 
               {/* Reasoning */}
               <div className="space-y-2 mb-4">
-                {aiRecommendation.reasoning.map((reason, i) => (
+                {primaryRecommendation.reasoning.map((reason, i) => (
                   <div key={i} className="flex items-start gap-2">
                     <span className="text-purple-400 mt-0.5">•</span>
                     <p className="text-slate-300 text-sm">{reason}</p>
@@ -386,10 +535,10 @@ export function GameMatchupScreen() {
               </div>
 
               {/* Strategic Notes */}
-              {aiRecommendation.strategicNotes && (
+              {primaryRecommendation.strategicNotes && (
                 <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-600">
                   <p className="text-slate-400 text-xs mb-1">💡 Strategic Note</p>
-                  <p className="text-slate-300 text-sm">{aiRecommendation.strategicNotes}</p>
+                  <p className="text-slate-300 text-sm">{primaryRecommendation.strategicNotes}</p>
                 </div>
               )}
             </div>
@@ -400,7 +549,7 @@ export function GameMatchupScreen() {
                 onClick={handleAcceptRecommendation}
                 className="w-full py-3 px-4 rounded-lg bg-gradient-to-r from-purple-500 to-blue-500 text-white font-semibold hover:from-purple-400 hover:to-blue-400 transition-all"
               >
-                Play {aiRecommendation.recommendedPlayerName}
+                Play {primaryRecommendation.recommendedPlayerName}
               </button>
               <button
                 onClick={handleShowAllPlayers}
@@ -411,12 +560,41 @@ export function GameMatchupScreen() {
             </div>
           </div>
 
+          {/* Second Opinion */}
+          {isLoading && !secondOpinion && primaryRecommendation.source === 'engine' && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-slate-800/50 border border-slate-700">
+              <div className="w-4 h-4 rounded-full bg-gradient-to-br from-purple-500 to-blue-500 animate-pulse" />
+              <p className="text-slate-400 text-sm">Asking Gemini for a second opinion...</p>
+            </div>
+          )}
+          {secondOpinion && (
+            <div className="p-3 rounded-lg bg-slate-800/50 border border-slate-700">
+              <div className="flex items-center gap-2 mb-1">
+                <span>{secondOpinion.source === 'ai' ? '🤖' : '⚙️'}</span>
+                <span className="text-slate-400 text-sm">
+                  {secondOpinion.source === 'ai' ? 'AI' : 'Engine'} picks
+                </span>
+                <span className="text-white text-sm font-medium">{secondOpinion.recommendedPlayerName}</span>
+                <span className={`ml-auto px-2 py-0.5 rounded text-xs ${
+                  secondOpinion.recommendedPlayerId === primaryRecommendation.recommendedPlayerId
+                    ? 'bg-green-500/20 text-green-400'
+                    : 'bg-amber-500/20 text-amber-400'
+                }`}>
+                  {secondOpinion.recommendedPlayerId === primaryRecommendation.recommendedPlayerId ? 'Agrees' : 'Disagrees'}
+                </span>
+              </div>
+              {secondOpinion.reasoning[0] && (
+                <p className="text-slate-400 text-sm">{secondOpinion.reasoning[0]}</p>
+              )}
+            </div>
+          )}
+
           {/* Alternative Picks */}
-          {aiRecommendation.alternativePicks.length > 0 && (
+          {primaryRecommendation.alternativePicks.length > 0 && (
             <div className="mt-4">
               <p className="text-slate-400 text-sm mb-2">Other options:</p>
               <div className="space-y-2">
-                {aiRecommendation.alternativePicks.map((alt) => (
+                {primaryRecommendation.alternativePicks.map((alt) => (
                   <button
                     key={alt.playerId}
                     onClick={() => handleSelectOurPlayer(alt.playerId)}
@@ -450,6 +628,8 @@ export function GameMatchupScreen() {
               <PlayerCard
                 key={player.id}
                 player={player}
+                format={format}
+                opponentSkillLevel={selectedOpponent?.skillLevel}
                 onClick={() => handleSelectOurPlayer(player.id)}
               />
             ))}
@@ -478,23 +658,64 @@ export function GameMatchupScreen() {
             </div>
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <button
-              onClick={() => handleRecordResult(true)}
-              className="p-6 rounded-xl bg-gradient-to-br from-green-500/20 to-emerald-500/20 border-2 border-green-500/50 hover:border-green-400 transition-all"
-            >
-              <div className="text-4xl mb-2">🎉</div>
-              <div className="text-white font-semibold text-lg">We Won</div>
-            </button>
+          {canScoreRacks && pointsNeeded && currentGame && scoreByRack ? (
+            <>
+              <RackScorer
+                key={currentGame.gameNumber}
+                game={currentGame}
+                ourPlayer={ourCurrentPlayer}
+                theirPlayer={selectedOpponent ?? undefined}
+                pointsNeeded={pointsNeeded}
+                onRecordRack={handleRecordRack}
+                onUndoRack={() => undoLastRack(liveMatch.currentGame)}
+                onFinish={finishGame}
+              />
+              {!currentGame.racks?.length && (
+                <button
+                  onClick={() => setScoreByRack(false)}
+                  className="w-full mt-4 py-2 text-slate-400 text-sm hover:text-white transition-colors"
+                >
+                  Just record who won
+                </button>
+              )}
+            </>
+          ) : (
+            <>
+              {pointsNeeded && (
+                <div className="mb-4 p-3 rounded-lg bg-slate-800/50 border border-slate-700">
+                  <label className="block text-slate-400 text-sm mb-2">
+                    Loser's {scoreUnit} (for team points)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    inputMode="numeric"
+                    value={loserScore}
+                    onChange={(e) => setLoserScore(e.target.value)}
+                    placeholder="Leave blank if unknown"
+                    className="w-full px-3 py-2 rounded-lg bg-slate-700 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  />
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  onClick={() => handleRecordResult(true)}
+                  className="p-6 rounded-xl bg-gradient-to-br from-green-500/20 to-emerald-500/20 border-2 border-green-500/50 hover:border-green-400 transition-all"
+                >
+                  <div className="text-4xl mb-2">🎉</div>
+                  <div className="text-white font-semibold text-lg">We Won</div>
+                </button>
 
-            <button
-              onClick={() => handleRecordResult(false)}
-              className="p-6 rounded-xl bg-gradient-to-br from-red-500/20 to-rose-500/20 border-2 border-red-500/50 hover:border-red-400 transition-all"
-            >
-              <div className="text-4xl mb-2">😔</div>
-              <div className="text-white font-semibold text-lg">They Won</div>
-            </button>
-          </div>
+                <button
+                  onClick={() => handleRecordResult(false)}
+                  className="p-6 rounded-xl bg-gradient-to-br from-red-500/20 to-rose-500/20 border-2 border-red-500/50 hover:border-red-400 transition-all"
+                >
+                  <div className="text-4xl mb-2">😔</div>
+                  <div className="text-white font-semibold text-lg">They Won</div>
+                </button>
+              </div>
+            </>
+          )}
         </div>
       )}
 
@@ -4,10 +4,13 @@ import { useTeamStore } from '../../store/team-store';
 import { useMatchStore } from '../../store/match-store';
 import { useSyncStore } from '../../store/sync-store';
 import { ScoreBadge } from '../ui/StatBadge';
+import { TeamSwitcher } from '../ui/TeamSwitcher';
+import { LiveSessionCard } from '../ui/LiveSessionCard';
+import { OfflineNotice } from '../ui/OfflineNotice';
 
 export function HomeScreen() {
   const navigate = useNavigate();
-  const { ourTeamId, loadTeams, getOurTeam } = useTeamStore();
+  const { ourTeamId, profiles, loadTeams, getOurTeam } = useTeamStore();
   const { liveMatch, upcomingMatches, loadUpcomingMatches, resetMatch } = useMatchStore();
   const { syncStatus } = useSyncStore();
   
@@ -36,13 +39,33 @@ export function HomeScreen() {
             <SyncIcon />
           </button>
         </div>
-        <p className="text-slate-400">
-          {ourTeam ? ourTeam.name : 'Loading...'}
-        </p>
+        {profiles.length > 1 ? (
+          <TeamSwitcher disabled={!!liveMatch && liveMatch.status !== 'completed'} />
+        ) : (
+          <p className="text-slate-400">
+            {ourTeam?.name ?? profiles[0]?.ourTeamName ?? 'No team set up'}
+          </p>
+        )}
       </header>
 
+      <OfflineNotice />
+
+      {/* Team Setup Banner */}
+      {profiles.length === 0 && (
+        <div className="mb-6 p-4 rounded-xl bg-blue-500/10 border border-blue-500/30">
+          <p className="text-blue-400 font-medium">Set up your teams</p>
+          <p className="text-blue-400/70 text-sm">Connect to APA and pick the teams you play on</p>
+          <button
+            onClick={() => navigate('/sync')}
+            className="mt-3 w-full py-2 px-4 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors"
+          >
+            Get Started
+          </button>
+        </div>
+      )}
+
       {/* Sync Status Banner */}
-      {!syncStatus.lastSyncTime && (
+      {profiles.length > 0 && !syncStatus.lastSyncTime && (
         <div className="mb-6 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
           <div className="flex items-center gap-3">
             <div className="text-amber-500">⚠️</div>
@@ -93,6 +116,9 @@ export function HomeScreen() {
         </div>
       )}
 
+      {/* Live Match Sharing */}
+      <LiveSessionCard />
+
       {/* Next Match Card */}
       {nextMatch && !liveMatch && (
         <div className={`mb-6 p-4 rounded-xl border ${
@@ -149,6 +175,33 @@ export function HomeScreen() {
           <div className="text-white font-medium">Teams</div>
           <div className="text-slate-400 text-sm">View all teams</div>
         </button>
+
+        <button
+          onClick={() => navigate('/backtest')}
+          className="p-4 rounded-xl bg-slate-800 border border-slate-700 hover:border-slate-600 transition-colors text-left"
+        >
+          <div className="text-2xl mb-2">📈</div>
+          <div className="text-white font-medium">Backtest</div>
+          <div className="text-slate-400 text-sm">Check model accuracy</div>
+        </button>
+
+        <button
+          onClick={() => navigate('/report')}
+          className="p-4 rounded-xl bg-slate-800 border border-slate-700 hover:border-slate-600 transition-colors text-left"
+        >
+          <div className="text-2xl mb-2">🧾</div>
+          <div className="text-white font-medium">Pick Report</div>
+          <div className="text-slate-400 text-sm">Followed vs. overrode</div>
+        </button>
+
+        <button
+          onClick={() => navigate('/standings')}
+          className="col-span-2 p-4 rounded-xl bg-slate-800 border border-slate-700 hover:border-slate-600 transition-colors text-left"
+        >
+          <div className="text-2xl mb-2">🏆</div>
+          <div className="text-white font-medium">Standings</div>
+          <div className="text-slate-400 text-sm">Projected finish and playoff odds</div>
+        </button>
       </div>
 
       {/* Last Sync Info */}
@@ -0,0 +1,111 @@
+import { useNavigate } from 'react-router-dom';
+import { useLiveSessionStore } from '../../store/live-session-store';
+import { ScoreBadge, SkillLevelBadge } from '../ui/StatBadge';
+
+// Read-only view of a match someone else is running, updated as the captains enter it
+export function LiveMatchScreen() {
+  const navigate = useNavigate();
+  const { match, roster, status, code, error, leaveSession } = useLiveSessionStore();
+
+  const player = (playerId: number | null) => roster.find(p => p.id === playerId);
+
+  const handleLeave = () => {
+    leaveSession();
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 pb-24">
+      <header className="mb-6">
+        <div className="flex items-center justify-between mb-2">
+          <button
+            onClick={() => navigate('/')}
+            className="text-slate-400 hover:text-white"
+          >
+            ← Back
+          </button>
+          <span className="text-slate-400 text-sm flex items-center gap-2">
+            <span className={`w-2 h-2 rounded-full ${status === 'live' ? 'bg-green-400 animate-pulse' : 'bg-amber-400'}`} />
+            {status === 'live' ? 'Live' : status === 'ended' ? 'Sharing ended' : 'Connecting...'}
+            <span className="font-mono text-slate-300">{code}</span>
+          </span>
+        </div>
+        {match && (
+          <div className="text-center">
+            <h1 className="text-xl font-bold text-white">vs {match.opponentTeamName}</h1>
+            <div className="flex justify-center my-2">
+              <ScoreBadge ourScore={match.ourScore} theirScore={match.theirScore} size="lg" />
+            </div>
+            <p className="text-slate-400 text-sm">
+              {match.ourMatchPoints ?? 0} - {match.theirMatchPoints ?? 0} team pts •{' '}
+              {match.status === 'completed' ? 'Final' : `Game ${match.currentGame} of 5`}
+            </p>
+          </div>
+        )}
+      </header>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {match ? (
+        <div className="space-y-3">
+          {match.games.map(game => {
+            const ours = player(game.ourPlayerId);
+            const theirs = player(game.theirPlayerId);
+            const isCurrent = game.gameNumber === match.currentGame && match.status !== 'completed';
+
+            return (
+              <div
+                key={game.gameNumber}
+                className={`p-4 rounded-xl border ${
+                  game.result === 'win'
+                    ? 'bg-green-500/10 border-green-500/30'
+                    : game.result === 'loss'
+                      ? 'bg-red-500/10 border-red-500/30'
+                      : isCurrent
+                        ? 'bg-blue-500/10 border-blue-500/30'
+                        : 'bg-slate-800/50 border-slate-700'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-slate-400 text-sm">Game {game.gameNumber}</span>
+                  <span className="text-sm font-medium text-slate-300">
+                    {game.result === 'win' ? 'Won' : game.result === 'loss' ? 'Lost' : isCurrent ? 'In play' : ''}
+                    {game.ourPoints !== undefined && game.theirPoints !== undefined && ` ${game.ourPoints}-${game.theirPoints}`}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {ours && <SkillLevelBadge level={ours.skillLevel} size="sm" format={match.format} />}
+                    <span className="text-white truncate">{ours?.name ?? (game.ourPlayerId ? 'Unknown' : '—')}</span>
+                  </div>
+                  <span className="text-slate-500 text-sm">vs</span>
+                  <div className="flex items-center gap-2 min-w-0 justify-end">
+                    <span className="text-white truncate">{theirs?.name ?? (game.theirPlayerId ? 'Unknown' : '—')}</span>
+                    {theirs && <SkillLevelBadge level={theirs.skillLevel} size="sm" format={match.format} />}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-slate-400 text-center py-12">
+          {status === 'idle' ? 'Not following a match - join one from the home screen.' : 'Waiting for the match...'}
+        </p>
+      )}
+
+      {code && (
+        <button
+          onClick={handleLeave}
+          className="w-full mt-6 py-3 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors"
+        >
+          Stop Watching
+        </button>
+      )}
+    </div>
+  );
+}
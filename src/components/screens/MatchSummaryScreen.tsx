@@ -2,6 +2,7 @@ import { useNavigate } from 'react-router-dom';
 import { useMatchStore } from '../../store/match-store';
 import { useTeamStore } from '../../store/team-store';
 import { ScoreBadge, SkillLevelBadge } from '../ui/StatBadge';
+import { getRaceFormat } from '../../engine/skill-level-tables';
 
 export function MatchSummaryScreen() {
   const navigate = useNavigate();
@@ -14,7 +15,15 @@ export function MatchSummaryScreen() {
   }
 
   const { ourWins, theirWins } = getMatchProgress();
-  const weWon = ourWins >= 3;
+  const ourMatchPoints = liveMatch.ourMatchPoints ?? 0;
+  const theirMatchPoints = liveMatch.theirMatchPoints ?? 0;
+  // Standings go by team points; fall back to games when some scores weren't entered
+  const hasAllMatchPoints = liveMatch.games.every(g => g.result === 'pending' || g.ourMatchPoints !== undefined);
+  const weWon = hasAllMatchPoints && ourMatchPoints !== theirMatchPoints
+    ? ourMatchPoints > theirMatchPoints
+    : ourWins > theirWins;
+  const format = liveMatch.format ?? 'NINE';
+  const pointsLabel = format === 'EIGHT' ? 'racks' : 'pts';
 
   const handleDone = () => {
     resetMatch();
@@ -42,11 +51,16 @@ export function MatchSummaryScreen() {
         <h1 className="text-3xl font-bold text-white mb-2">
           {weWon ? 'Victory!' : 'Tough Loss'}
         </h1>
-        <p className="text-slate-400 mb-4">vs {liveMatch.opponentTeamName}</p>
+        <p className="text-slate-400 mb-4">
+          vs {liveMatch.opponentTeamName} • {format === 'EIGHT' ? '8-Ball' : '9-Ball'}
+        </p>
         
         <div className="flex justify-center">
           <ScoreBadge ourScore={liveMatch.ourScore} theirScore={liveMatch.theirScore} size="lg" />
         </div>
+        <p className="text-slate-400 text-sm mt-2">
+          {ourMatchPoints} - {theirMatchPoints} team points{!hasAllMatchPoints && ' (some games missing scores)'}
+        </p>
       </header>
 
       {/* Game-by-Game Breakdown */}
@@ -57,6 +71,8 @@ export function MatchSummaryScreen() {
             if (game.result === 'pending') return null;
             
             const won = game.result === 'win';
+            const ourSkillLevel = getPlayerSkillLevel(game.ourPlayerId);
+            const theirSkillLevel = getPlayerSkillLevel(game.theirPlayerId);
             
             return (
               <div 
@@ -76,17 +92,35 @@ export function MatchSummaryScreen() {
                       {won ? '✓ WIN' : '✗ LOSS'}
                     </span>
                   </div>
+                  <div className="text-right">
+                    {ourSkillLevel > 0 && theirSkillLevel > 0 && (
+                      <p className="text-slate-500 text-xs">
+                        {getRaceFormat(ourSkillLevel, theirSkillLevel, format)}
+                      </p>
+                    )}
+                    {game.ourMatchPoints !== undefined && (
+                      <p className="text-slate-300 text-xs">
+                        {game.ourMatchPoints} - {game.theirMatchPoints} team pts
+                      </p>
+                    )}
+                  </div>
                 </div>
                 
                 <div className="mt-3 flex items-center justify-between text-sm">
                   <div className="flex items-center gap-2">
-                    <SkillLevelBadge level={getPlayerSkillLevel(game.ourPlayerId)} size="sm" />
+                    <SkillLevelBadge level={ourSkillLevel} size="sm" format={format} />
                     <span className="text-slate-300">{getPlayerName(game.ourPlayerId)}</span>
+                    {game.ourPoints !== undefined && (
+                      <span className="text-slate-500 text-xs">{game.ourPoints} {pointsLabel}</span>
+                    )}
                   </div>
                   <span className="text-slate-500">vs</span>
                   <div className="flex items-center gap-2">
+                    {game.theirPoints !== undefined && (
+                      <span className="text-slate-500 text-xs">{game.theirPoints} {pointsLabel}</span>
+                    )}
                     <span className="text-slate-300">{getPlayerName(game.theirPlayerId)}</span>
-                    <SkillLevelBadge level={getPlayerSkillLevel(game.theirPlayerId)} size="sm" />
+                    <SkillLevelBadge level={theirSkillLevel} size="sm" format={format} />
                   </div>
                 </div>
               </div>
@@ -99,6 +133,14 @@ export function MatchSummaryScreen() {
       <div className="mb-8 p-4 rounded-xl bg-slate-800/50 border border-slate-700">
         <h2 className="text-white font-semibold mb-3">Match Stats</h2>
         <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-slate-400 text-sm">Team Points</p>
+            <p className="text-2xl font-bold text-green-400">{ourMatchPoints}</p>
+          </div>
+          <div>
+            <p className="text-slate-400 text-sm">Opponent Points</p>
+            <p className="text-2xl font-bold text-red-400">{theirMatchPoints}</p>
+          </div>
           <div>
             <p className="text-slate-400 text-sm">Games Won</p>
             <p className="text-2xl font-bold text-green-400">{ourWins}</p>
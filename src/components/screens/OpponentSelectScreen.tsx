@@ -2,10 +2,12 @@ import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTeamStore } from '../../store/team-store';
 import { useMatchStore } from '../../store/match-store';
+import { DataAge } from '../ui/DataAge';
+import type { Team } from '../../data/types';
 
 export function OpponentSelectScreen() {
   const navigate = useNavigate();
-  const { ourTeamId, loadTeams, getOpponentTeams } = useTeamStore();
+  const { ourTeamId, loadTeams, getOpponentTeams, getRosterFetchedAt } = useTeamStore();
   const { upcomingMatches, startMatch, loadUpcomingMatches } = useMatchStore();
 
   useEffect(() => {
@@ -26,8 +28,8 @@ export function OpponentSelectScreen() {
     ? (nextMatch.homeTeamId === ourTeamId ? nextMatch.awayTeamId : nextMatch.homeTeamId)
     : null;
 
-  const handleSelectOpponent = (teamId: number, teamName: string) => {
-    startMatch(teamId, teamName);
+  const handleSelectOpponent = (team: Team) => {
+    startMatch(team.id, team.name, team.format, ourTeamId);
     navigate('/match/attendance');
   };
 
@@ -54,13 +56,14 @@ export function OpponentSelectScreen() {
             .map(team => (
               <button
                 key={team.id}
-                onClick={() => handleSelectOpponent(team.id, team.name)}
+                onClick={() => handleSelectOpponent(team)}
                 className="w-full p-4 rounded-xl bg-gradient-to-br from-green-500/20 to-emerald-500/20 border border-green-500/30 text-left hover:border-green-400 transition-colors"
               >
                 <div className="flex items-center justify-between">
                   <div>
                     <div className="text-white font-semibold text-lg">{team.name}</div>
                     <div className="text-green-400 text-sm">Week {nextMatch.week} • {nextMatch.hostLocationName}</div>
+                    <DataAge fetchedAt={getRosterFetchedAt(team.id)} label="Roster updated" />
                   </div>
                   <div className="text-green-400 text-2xl">→</div>
                 </div>
@@ -80,13 +83,16 @@ export function OpponentSelectScreen() {
             .map(team => (
               <button
                 key={team.id}
-                onClick={() => handleSelectOpponent(team.id, team.name)}
+                onClick={() => handleSelectOpponent(team)}
                 className="w-full p-4 rounded-xl bg-slate-800/50 border border-slate-700 text-left hover:border-slate-600 transition-colors"
               >
                 <div className="flex items-center justify-between">
                   <div>
                     <div className="text-white font-medium">{team.name}</div>
-                    <div className="text-slate-400 text-sm">Team #{team.number}</div>
+                    <div className="text-slate-400 text-sm">
+                      Team #{team.number}{team.format === 'EIGHT' ? ' • 8-Ball' : ''}
+                    </div>
+                    <DataAge fetchedAt={getRosterFetchedAt(team.id)} label="Roster updated" />
                   </div>
                   <div className="text-slate-400">→</div>
                 </div>
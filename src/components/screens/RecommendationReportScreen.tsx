@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { db } from '../../data/db';
+import { useTeamStore } from '../../store/team-store';
+import {
+  buildFollowThroughReport,
+  type FollowThroughReport,
+  type FollowThroughSplit,
+  type WinRecord,
+} from '../../engine/follow-through';
+
+const formatRecord = (record: WinRecord) =>
+  record.games > 0 ? `${Math.round(record.winRate * 100)}% (${record.wins}/${record.games})` : '—';
+
+function SplitTable({ title, splits }: { title: string; splits: FollowThroughSplit[] }) {
+  if (splits.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+      <h2 className="text-white font-semibold mb-3">{title}</h2>
+      <div className="grid grid-cols-3 gap-2 text-xs text-slate-500 mb-2">
+        <span />
+        <span className="text-right">Followed</span>
+        <span className="text-right">Overrode</span>
+      </div>
+      <div className="space-y-2 text-sm">
+        {splits.map(split => (
+          <div key={split.label} className="grid grid-cols-3 gap-2">
+            <span className="text-slate-400">{split.label}</span>
+            <span className="text-right text-green-400">{formatRecord(split.followed)}</span>
+            <span className="text-right text-amber-400">{formatRecord(split.overridden)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function RecommendationReportScreen() {
+  const navigate = useNavigate();
+  const { ourTeamId } = useTeamStore();
+  const [report, setReport] = useState<FollowThroughReport | null>(null);
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        const [completed, players] = await Promise.all([
+          db.liveMatches.where('status').equals('completed').toArray(),
+          db.players.toArray(),
+        ]);
+        // Matches from before team profiles have no team - they're from the original one
+        const matches = completed.filter(m => m.ourTeamId === undefined || m.ourTeamId === ourTeamId);
+        setReport(buildFollowThroughReport(matches, new Map(players.map(p => [p.id, p.skillLevel]))));
+      } catch (error) {
+        console.error('Failed to load recommendation report:', error);
+      }
+    };
+    loadReport();
+  }, [ourTeamId]);
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 pb-24">
+      {/* Header */}
+      <header className="mb-6">
+        <button
+          onClick={() => navigate('/')}
+          className="text-slate-400 hover:text-white mb-2 flex items-center gap-1"
+        >
+          ← Back
+        </button>
+        <h1 className="text-2xl font-bold text-white">Recommendation Report</h1>
+        <p className="text-slate-400">How we did when we followed the pick vs. overrode it</p>
+      </header>
+
+      {report && report.trackedGames === 0 && (
+        <div className="mb-6 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+          <p className="text-amber-400 text-sm">
+            No tracked games yet. Picks are recorded from matches played with recommendations on.
+          </p>
+        </div>
+      )}
+
+      {report && report.trackedGames > 0 && (
+        <>
+          <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700 text-sm">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Completed matches</span>
+              <span className="text-slate-300">{report.matches}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Games with a recommendation</span>
+              <span className="text-slate-300">{report.trackedGames}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Followed</span>
+              <span className="text-slate-300">
+                {Math.round((report.overall.followed.games / report.trackedGames) * 100)}%
+              </span>
+            </div>
+          </div>
+
+          <SplitTable title="📊 Overall" splits={[report.overall, ...report.bySource]} />
+          <SplitTable title="🎱 By Game" splits={report.byGameNumber} />
+          <SplitTable title="⚖️ By Skill Level Gap" splits={report.bySkillGap} />
+          <p className="text-slate-500 text-xs text-center">Skill level gap uses the levels players were thrown at (current levels for older games).</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { db, getProfile } from '../../data/db';
+import { useTeamStore } from '../../store/team-store';
+import type { Player } from '../../data/types';
+import {
+  simulateSeason,
+  getPlayoffOdds,
+  DEFAULT_PLAYOFF_SPOTS,
+  type SeasonProjection,
+  type TeamProjection,
+} from '../../engine/season-simulation';
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const PLAYOFF_SPOT_CHOICES = [1, 2, 3, 4];
+
+function TeamRow({ team, rank, isOurTeam, playoffSpots }: {
+  team: TeamProjection;
+  rank: number;
+  isOurTeam: boolean;
+  playoffSpots: number;
+}) {
+  // Places are simulated once; the playoff line can move without running it again
+  const playoffOdds = getPlayoffOdds(team.positionOdds, playoffSpots);
+
+  return (
+    <div className={`p-3 rounded-lg ${isOurTeam ? 'bg-blue-500/10 border border-blue-500/30' : 'bg-slate-800 border border-slate-700'}`}>
+      <div className="flex items-center gap-3">
+        <span className="w-5 text-slate-500 text-sm">{rank}</span>
+        <div className="flex-1 min-w-0">
+          <div className="text-white font-medium truncate">{team.teamName}</div>
+          <div className="text-slate-500 text-xs">
+            {team.currentPoints} pts · {team.matchesPlayed} played · {team.matchesLeft} left
+          </div>
+        </div>
+        <div className="text-right">
+          <div className="text-white font-semibold">{Math.round(team.projectedPoints)}</div>
+          <div className="text-slate-500 text-xs">{team.pointsRange.low}–{team.pointsRange.high}</div>
+        </div>
+        <div className="w-14 text-right">
+          <div className={`font-semibold ${playoffOdds >= 0.5 ? 'text-green-400' : 'text-slate-300'}`}>
+            {pct(playoffOdds)}
+          </div>
+          <div className="text-slate-500 text-xs">playoffs</div>
+        </div>
+      </div>
+
+      {/* Finishing position: one cell per place, shaded by how often the team ends there */}
+      <div className="flex gap-0.5 mt-2 ml-8">
+        {team.positionOdds.map((odds, position) => (
+          <div
+            key={position}
+            title={`${position + 1}: ${pct(odds)}`}
+            className={`flex-1 h-2 rounded-sm ${position < playoffSpots ? 'bg-green-500' : 'bg-blue-500'}`}
+            style={{ opacity: Math.max(0.08, odds) }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function StandingsScreen() {
+  const navigate = useNavigate();
+  const { ourTeamId, teams, players, playerStats, headToHead, ratings } = useTeamStore();
+  const [playoffSpots, setPlayoffSpots] = useState(DEFAULT_PLAYOFF_SPOTS);
+  const [projection, setProjection] = useState<SeasonProjection | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    const run = async () => {
+      setIsRunning(true);
+      try {
+        const profile = await getProfile(ourTeamId);
+        const divisionId = profile?.divisionId ?? teams.find(t => t.id === ourTeamId)?.divisionId;
+        if (divisionId === undefined) {
+          setProjection(null);
+          return;
+        }
+
+        const matches = await db.matches.where('divisionId').equals(divisionId).toArray();
+        const toInput = (p: Player) => ({ player: p, stats: playerStats.get(p.id), rating: ratings.get(p.id) });
+        setProjection(simulateSeason({
+          teams: teams
+            .filter(t => t.divisionId === divisionId)
+            .map(team => ({ team, roster: players.filter(p => p.teamId === team.id).map(toInput) })),
+          matches,
+          headToHeadData: headToHead,
+          format: profile?.format,
+        }));
+      } catch (error) {
+        console.error('Standings projection failed:', error);
+      } finally {
+        setIsRunning(false);
+      }
+    };
+    run();
+  }, [ourTeamId, teams, players, playerStats, headToHead, ratings]);
+
+  return (
+    <div className="min-h-screen bg-slate-900 p-4 pb-24">
+      {/* Header */}
+      <header className="mb-6">
+        <button
+          onClick={() => navigate('/')}
+          className="text-slate-400 hover:text-white mb-2 flex items-center gap-1"
+        >
+          ← Back
+        </button>
+        <h1 className="text-2xl font-bold text-white">Standings</h1>
+        <p className="text-slate-400">The rest of the session played out from each roster</p>
+      </header>
+
+      <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+        <div className="flex items-center gap-2">
+          <span className="text-slate-400 text-sm whitespace-nowrap">Playoff spots</span>
+          <div className="flex flex-1 rounded-lg bg-slate-800/50 border border-slate-700 p-1">
+            {PLAYOFF_SPOT_CHOICES.map(spots => (
+              <button
+                key={spots}
+                onClick={() => setPlayoffSpots(spots)}
+                className={`flex-1 py-1 px-2 rounded-md text-xs font-medium transition-colors ${
+                  playoffSpots === spots ? 'bg-purple-500 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {spots}
+              </button>
+            ))}
+          </div>
+        </div>
+        {projection && (
+          <p className="text-slate-500 text-xs mt-3">
+            {projection.unplayedMatches} unplayed matches simulated {projection.simulations} times.
+            Projected points are the average finish, with the middle 80% of outcomes underneath.
+          </p>
+        )}
+      </div>
+
+      {isRunning && !projection && (
+        <p className="text-slate-400 text-sm text-center py-6">Simulating the session...</p>
+      )}
+
+      {projection && projection.teams.length === 0 && !isRunning && (
+        <div className="mb-6 p-4 rounded-xl bg-amber-500/10 border border-amber-500/30">
+          <p className="text-amber-400 text-sm">No division teams yet - sync first.</p>
+        </div>
+      )}
+
+      {projection && projection.teams.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-3 px-3 text-slate-500 text-xs uppercase tracking-wide">
+            <span className="flex-1 ml-8">Team</span>
+            <span>Projected</span>
+            <span className="w-14 text-right">Odds</span>
+          </div>
+          {projection.teams.map((team, k) => (
+            <TeamRow
+              key={team.teamId}
+              team={team}
+              rank={k + 1}
+              isOurTeam={team.teamId === ourTeamId}
+              playoffSpots={playoffSpots}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
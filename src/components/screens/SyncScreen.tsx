@@ -3,6 +3,13 @@ import { useNavigate } from 'react-router-dom';
 import { useSyncStore } from '../../store/sync-store';
 import { useTeamStore } from '../../store/team-store';
 import { LinearConfidence } from '../ui/ConfidenceMeter';
+import { TeamProfiles } from '../ui/TeamProfiles';
+import { SyncReportCard } from '../ui/SyncReportCard';
+import { APASignIn } from '../ui/APASignIn';
+import { SharedDivisionCard } from '../ui/SharedDivisionCard';
+import { OfflineNotice } from '../ui/OfflineNotice';
+import { DataHealthCard } from '../ui/DataHealthCard';
+import { BackupCard } from '../ui/BackupCard';
 import { apaClient } from '../../scraper/apa-client';
 import { db } from '../../data/db';
 import type { Player } from '../../data/types';
@@ -12,17 +19,24 @@ export function SyncScreen() {
   const { 
     syncStatus, 
     isValidToken,
+    authSessionId,
     syncProgress, 
     syncMessage, 
     syncError,
     lastRosterSync,
+    lastSyncReport,
     loadSyncStatus,
     setAuthToken,
     syncAll,
     testConnection,
+    signOut,
+    loadSharedDivisions,
+    pullSharedData,
+    loadQueue,
   } = useSyncStore();
   
-  const { loadTeams, loadAllPlayers } = useTeamStore();
+  const { profiles, ourTeamId, loadProfiles, loadTeams, loadAllPlayers, loadHeadToHead, loadRatings, loadThrowModels } = useTeamStore();
+  const activeProfile = profiles.find(p => p.ourTeamId === ourTeamId);
   
   const [tokenInput, setTokenInput] = useState('');
   const [isSyncing, setIsSyncing] = useState(false);
@@ -37,6 +51,7 @@ export function SyncScreen() {
     await loadSyncStatus();
     await loadTeams();
     await loadAllPlayers();
+    await loadSharedDivisions();
   };
 
   const handleSetToken = async () => {
@@ -56,14 +71,40 @@ export function SyncScreen() {
     setTestResult(result);
   };
 
-  const handleSync = async () => {
+  const reloadSyncedData = async () => {
+    await loadTeams();
+    await loadAllPlayers();
+    await loadHeadToHead();
+    await loadRatings();
+    await loadThrowModels();
+  };
+
+  // After a clean-up or reset - profiles and counts may have changed too
+  const reloadAllData = async () => {
+    await loadProfiles();
+    await loadSyncStatus();
+    await loadQueue();
+    await reloadSyncedData();
+  };
+
+  const handlePullShared = async () => {
+    setIsSyncing(true);
+    setTestResult(null);
+    try {
+      await pullSharedData();
+      await reloadSyncedData();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleSync = async (fullResync = false) => {
     setIsSyncing(true);
     setTestResult(null);
     setDebugPlayer(null);
     try {
-      await syncAll(true);
-      await loadTeams();
-      await loadAllPlayers();
+      await syncAll(fullResync);
+      await reloadSyncedData();
       
       // Pick a random player to show debug stats
       const allPlayers = await db.players.toArray();
@@ -93,6 +134,8 @@ export function SyncScreen() {
         <p className="text-slate-400">Update player stats and rosters from APA</p>
       </header>
 
+      <OfflineNotice />
+
       {/* Sync Status */}
       <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700">
         <h2 className="text-white font-semibold mb-3">📊 Current Data</h2>
@@ -139,6 +182,9 @@ export function SyncScreen() {
         </div>
       )}
 
+      {/* Sync Report */}
+      {lastSyncReport && !isSyncing && <SyncReportCard report={lastSyncReport} />}
+
       {/* Debug Player Stats - shows after sync */}
       {debugPlayer && !isSyncing && (
         <div className="mb-6 p-4 rounded-xl bg-purple-500/10 border border-purple-500/30">
@@ -185,16 +231,25 @@ export function SyncScreen() {
         </div>
       )}
 
+      {/* Team Profiles */}
+      <TeamProfiles />
+
+      {/* Shared Division Data */}
+      {activeProfile && (
+        <SharedDivisionCard divisionId={activeProfile.divisionId} isBusy={isSyncing} onPull={handlePullShared} />
+      )}
+
       {/* Full Sync Button */}
       {isValidToken && (
         <div className="mb-6 p-4 rounded-xl bg-gradient-to-br from-green-500/20 to-emerald-500/20 border border-green-500/30">
           <h2 className="text-white font-semibold mb-2">🚀 Sync All Data</h2>
           <p className="text-slate-400 text-sm mb-4">
-            Fetches your team roster, all opponent rosters, and full match schedule from APA.
+            Fetches your schedule and anything that changed since the last sync - new scores,
+            stale rosters and histories. An interrupted sync picks up where it stopped.
           </p>
           <div className="flex gap-2">
             <button
-              onClick={handleSync}
+              onClick={() => handleSync()}
               disabled={isSyncing}
               className="flex-1 py-3 px-4 rounded-lg bg-green-500 text-white font-medium hover:bg-green-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -208,6 +263,13 @@ export function SyncScreen() {
               Test
             </button>
           </div>
+          <button
+            onClick={() => handleSync(true)}
+            disabled={isSyncing}
+            className="w-full mt-2 py-2 px-4 rounded-lg bg-slate-700/50 text-slate-300 text-sm hover:bg-slate-700 transition-colors disabled:opacity-50"
+          >
+            Full Resync (refetch everything)
+          </button>
         </div>
       )}
 
@@ -218,45 +280,72 @@ export function SyncScreen() {
           {isValidToken && <TokenExpiryBadge />}
         </div>
         <p className="text-slate-400 text-sm mb-4">
-          {isValidToken 
-            ? 'Connected to APA. You can sync all player stats and rosters.'
-            : 'To sync data, you\'ll need your APA auth token (takes ~30 seconds).'}
+          {authSessionId
+            ? 'Signed in to APA. Tokens refresh automatically, so syncs can run any time.'
+            : isValidToken 
+              ? 'Connected to APA. You can sync all player stats and rosters.'
+              : 'Sign in with your APA member account to sync data.'}
         </p>
-        
-        {!isValidToken && (
-          <div className="mb-4 p-3 rounded-lg bg-blue-500/10 border border-blue-500/20">
-            <p className="text-blue-400 text-sm font-medium mb-2">How to get your token:</p>
-            <ol className="text-slate-400 text-sm space-y-1 list-decimal ml-4">
-              <li>Go to <a href="https://members.poolplayers.com" target="_blank" rel="noopener" className="text-blue-400 underline">members.poolplayers.com</a> and log in</li>
-              <li>Open Developer Tools (<span className="text-slate-300 font-mono">F12</span>)</li>
-              <li>Click the <span className="text-slate-300">Network</span> tab</li>
-              <li>Click on your team name or any page</li>
-              <li>Find a request to <span className="text-slate-300 font-mono">gql.poolplayers.com</span></li>
-              <li>Click it → Headers → find <span className="text-slate-300">Authorization</span></li>
-              <li>Copy the <span className="text-emerald-400">eyJ...</span> part (not "Bearer ")</li>
-            </ol>
-            <p className="text-amber-400 text-xs mt-3">⚠️ Token expires in ~15 minutes. Sync immediately after copying!</p>
-          </div>
-        )}
 
-        <div className="flex gap-2">
-          <input
-            type="password"
-            value={tokenInput}
-            onChange={(e) => setTokenInput(e.target.value)}
-            placeholder={isValidToken ? "Paste new token to replace..." : "Paste your token here (eyJ...)"}
-            className="flex-1 px-3 py-2 rounded-lg bg-slate-700 border border-slate-600 text-white placeholder-slate-400 focus:border-blue-500 focus:outline-none font-mono text-sm"
-          />
+        {authSessionId ? (
           <button
-            onClick={handleSetToken}
-            disabled={!tokenInput.trim()}
-            className="px-4 py-2 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors disabled:opacity-50"
+            onClick={signOut}
+            className="w-full py-2 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors"
           >
-            {isValidToken ? 'Update' : 'Set Token'}
+            Sign Out
           </button>
-        </div>
+        ) : (
+          <>
+            <APASignIn />
+
+            {/* Fallback for when the backend isn't reachable */}
+            <details className="mt-4">
+              <summary className="text-slate-400 text-sm cursor-pointer">Paste a token instead</summary>
+              <div className="mt-3">
+                {!isValidToken && (
+                  <div className="mb-4 p-3 rounded-lg bg-blue-500/10 border border-blue-500/20">
+                    <p className="text-blue-400 text-sm font-medium mb-2">How to get your token:</p>
+                    <ol className="text-slate-400 text-sm space-y-1 list-decimal ml-4">
+                      <li>Go to <a href="https://members.poolplayers.com" target="_blank" rel="noopener" className="text-blue-400 underline">members.poolplayers.com</a> and log in</li>
+                      <li>Open Developer Tools (<span className="text-slate-300 font-mono">F12</span>)</li>
+                      <li>Click the <span className="text-slate-300">Network</span> tab</li>
+                      <li>Click on your team name or any page</li>
+                      <li>Find a request to <span className="text-slate-300 font-mono">gql.poolplayers.com</span></li>
+                      <li>Click it → Headers → find <span className="text-slate-300">Authorization</span></li>
+                      <li>Copy the <span className="text-emerald-400">eyJ...</span> part (not "Bearer ")</li>
+                    </ol>
+                    <p className="text-amber-400 text-xs mt-3">⚠️ Token expires in ~15 minutes. Sync immediately after copying!</p>
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <input
+                    type="password"
+                    value={tokenInput}
+                    onChange={(e) => setTokenInput(e.target.value)}
+                    placeholder={isValidToken ? "Paste new token to replace..." : "Paste your token here (eyJ...)"}
+                    className="flex-1 px-3 py-2 rounded-lg bg-slate-700 border border-slate-600 text-white placeholder-slate-400 focus:border-blue-500 focus:outline-none font-mono text-sm"
+                  />
+                  <button
+                    onClick={handleSetToken}
+                    disabled={!tokenInput.trim()}
+                    className="px-4 py-2 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors disabled:opacity-50"
+                  >
+                    {isValidToken ? 'Update' : 'Set Token'}
+                  </button>
+                </div>
+              </div>
+            </details>
+          </>
+        )}
       </div>
 
+      {/* Backup */}
+      <BackupCard onDataChanged={reloadAllData} />
+
+      {/* Data Health */}
+      <DataHealthCard onDataChanged={reloadAllData} />
+
       {/* Info about data */}
       {syncStatus.playersCount > 0 && (
         <div className="p-4 rounded-xl bg-slate-800/30 border border-slate-700/50">
@@ -286,6 +375,7 @@ function formatRelativeTime(date: Date): string {
 
 function TokenExpiryBadge() {
   const [expiryInfo, setExpiryInfo] = useState<{ minutesRemaining: number } | null>(null);
+  const { authSessionId } = useSyncStore();
 
   useEffect(() => {
     const updateExpiry = () => {
@@ -298,6 +388,14 @@ function TokenExpiryBadge() {
     return () => clearInterval(interval);
   }, []);
 
+  if (authSessionId) {
+    return (
+      <span className="px-2 py-0.5 rounded bg-green-500/20 text-green-400 text-xs">
+        ✓ Signed in
+      </span>
+    );
+  }
+
   if (!expiryInfo) return null;
 
   const { minutesRemaining } = expiryInfo;
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { useSyncStore } from '../../store/sync-store';
+
+// Email/password sign-in through the backend, which keeps the refresh token so syncs
+// can run without pasting a new token every 15 minutes
+export function APASignIn() {
+  const { signIn } = useSyncStore();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const handleSignIn = async () => {
+    if (!email.trim() || !password) return;
+    setIsSigningIn(true);
+    try {
+      if (await signIn(email.trim(), password)) {
+        setPassword('');
+      }
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSignIn();
+      }}
+      className="space-y-2"
+    >
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="APA member email"
+        autoComplete="username"
+        className="w-full px-3 py-2 rounded-lg bg-slate-700 border border-slate-600 text-white placeholder-slate-400 focus:border-blue-500 focus:outline-none text-sm"
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoComplete="current-password"
+        className="w-full px-3 py-2 rounded-lg bg-slate-700 border border-slate-600 text-white placeholder-slate-400 focus:border-blue-500 focus:outline-none text-sm"
+      />
+      <button
+        type="submit"
+        disabled={!email.trim() || !password || isSigningIn}
+        className="w-full py-2 px-4 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors disabled:opacity-50"
+      >
+        {isSigningIn ? 'Signing in...' : 'Sign In'}
+      </button>
+      <p className="text-slate-500 text-xs">
+        Your password goes straight to APA and isn't stored. The server keeps only the sign-in session.
+      </p>
+    </form>
+  );
+}
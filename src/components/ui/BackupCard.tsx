@@ -0,0 +1,146 @@
+import { useRef, useState } from 'react';
+import { exportBackup, importBackup, parseBackup, backupFileName } from '../../data/backup';
+import { exportGameResultsCsv, exportMatchesCsv, exportPlayersCsv } from '../../data/csv';
+import { useTeamStore } from '../../store/team-store';
+import { useSettingsStore } from '../../store/settings-store';
+
+interface BackupCardProps {
+  onDataChanged: () => Promise<void>;
+}
+
+function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const CSV_EXPORTS = [
+  { label: 'Players', file: 'players', build: exportPlayersCsv },
+  { label: 'Matches', file: 'matches', build: exportMatchesCsv },
+  { label: 'Game Results', file: 'game-results', build: exportGameResultsCsv },
+];
+
+// Everything lives in this browser - a backup file is the only copy that survives losing the phone
+export function BackupCard({ onDataChanged }: BackupCardProps) {
+  const { ourTeamId, profiles, setOurTeam } = useTeamStore();
+  const {
+    recommendationMode,
+    optimizerObjective,
+    counterPickAssumption,
+    setRecommendationMode,
+    setOptimizerObjective,
+    setCounterPickAssumption,
+  } = useSettingsStore();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const bundle = await exportBackup({ ourTeamId, recommendationMode, optimizerObjective, counterPickAssumption });
+      downloadFile(backupFileName(), JSON.stringify(bundle), 'application/json');
+      setMessage(`Backed up ${bundle.tables.liveMatches.length} recorded matches and ${bundle.tables.players.length} players`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Backup failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCsv = async (file: string, build: () => Promise<string>) => {
+    setError(null);
+    try {
+      downloadFile(`matchup-${file}.csv`, await build(), 'text/csv');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const bundle = parseBackup(await file.text());
+      const hadProfiles = profiles.length > 0;
+      const summary = await importBackup(bundle);
+      const { preferences } = summary;
+
+      // Settings come back as they were; the active team only if this device had none
+      if (preferences.recommendationMode) setRecommendationMode(preferences.recommendationMode);
+      if (preferences.optimizerObjective) setOptimizerObjective(preferences.optimizerObjective);
+      if (preferences.counterPickAssumption) setCounterPickAssumption(preferences.counterPickAssumption);
+      if (!hadProfiles && preferences.ourTeamId) await setOurTeam(preferences.ourTeamId);
+      await onDataChanged();
+
+      const added = Object.values(summary.added).reduce((sum, n) => sum + (n ?? 0), 0);
+      setMessage(
+        `Restored ${added} rows (${summary.added.liveMatches ?? 0} recorded matches)` +
+        (summary.kept > 0 ? `, ${summary.kept} already here` : '')
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Restore failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+      <h2 className="text-white font-semibold mb-2">💾 Backup</h2>
+      <p className="text-slate-400 text-sm mb-3">
+        Save all teams, stats and recorded matches to a file, or restore one on a new phone.
+      </p>
+
+      {message && <p className="text-green-400 text-sm mb-3">✓ {message}</p>}
+      {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleExport}
+          disabled={isBusy}
+          className="flex-1 py-2 px-4 rounded-lg bg-green-500 text-white font-medium hover:bg-green-400 transition-colors disabled:opacity-50"
+        >
+          Export Backup
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={isBusy}
+          className="flex-1 py-2 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors disabled:opacity-50"
+        >
+          Restore
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+
+      <p className="text-slate-500 text-xs mt-3 mb-2">Spreadsheet (CSV)</p>
+      <div className="flex gap-2">
+        {CSV_EXPORTS.map(({ label, file, build }) => (
+          <button
+            key={file}
+            onClick={() => handleCsv(file, build)}
+            className="flex-1 py-1.5 px-2 rounded-lg bg-slate-700/50 text-slate-400 text-sm hover:bg-slate-700 transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import type { CoinTossDecision, CoinTossOutcome } from '../../data/types';
+import { GAMES_PER_MATCH, GAMES_TO_WIN } from '../../engine/lineup-rules';
+
+interface CoinTossOutcomeCardProps {
+  outcomes: NonNullable<CoinTossDecision['outcomes']>;
+  recommendation: CoinTossDecision['recommendation'];
+}
+
+const pct = (p: number) => `${Math.round(p * 100)}%`;
+
+const CHOICES = [
+  { key: 'throwFirst', label: 'We throw first', bar: 'bg-blue-500' },
+  { key: 'defer', label: 'They throw first', bar: 'bg-cyan-400' },
+] as const;
+
+function OutcomeSummary({ outcome, label, isRecommended }: { outcome: CoinTossOutcome; label: string; isRecommended: boolean }) {
+  return (
+    <div className={`p-3 rounded-lg border ${isRecommended ? 'bg-blue-500/10 border-blue-500/40' : 'bg-slate-800 border-slate-700'}`}>
+      <div className="text-slate-400 text-xs mb-1">{label}</div>
+      <div className="text-white text-xl font-bold">{pct(outcome.matchWinProbability)}</div>
+      <div className="text-slate-500 text-xs mb-2">match win</div>
+      <div className="text-slate-300 text-sm">{outcome.expectedTeamPoints.toFixed(1)} pts</div>
+      <div className="text-slate-500 text-xs">usually {outcome.teamPointsRange.low}–{outcome.teamPointsRange.high}</div>
+    </div>
+  );
+}
+
+// Both coin-toss choices side by side: how often each wins, and how the nights finished
+export function CoinTossOutcomeCard({ outcomes, recommendation }: CoinTossOutcomeCardProps) {
+  // Final scores from a sweep for us down to a sweep for them
+  const scores = Array.from({ length: GAMES_PER_MATCH + 1 }, (_, k) => GAMES_PER_MATCH - k);
+
+  return (
+    <div className="p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+      <h2 className="text-white font-semibold mb-3">📊 Simulated Match</h2>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        {CHOICES.map(({ key, label }) => (
+          <OutcomeSummary
+            key={key}
+            outcome={outcomes[key]}
+            label={label}
+            isRecommended={(key === 'throwFirst') === (recommendation === 'throw_first')}
+          />
+        ))}
+      </div>
+
+      <h3 className="text-slate-500 text-xs uppercase tracking-wide mb-2">Final score</h3>
+      <div className="space-y-2">
+        {scores.map(ourWins => (
+          <div key={ourWins} className="flex items-center gap-2 text-xs">
+            <span className={`w-8 ${ourWins >= GAMES_TO_WIN ? 'text-green-400' : 'text-red-400'}`}>
+              {ourWins}–{GAMES_PER_MATCH - ourWins}
+            </span>
+            <div className="flex-1 space-y-0.5">
+              {CHOICES.map(({ key, bar }) => (
+                <div key={key} className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+                  <div className={`h-full rounded-full ${bar}`} style={{ width: pct(outcomes[key].gamesWon[ourWins] ?? 0) }} />
+                </div>
+              ))}
+            </div>
+            <span className="w-16 text-right text-slate-400">
+              {pct(outcomes.throwFirst.gamesWon[ourWins] ?? 0)} · {pct(outcomes.defer.gamesWon[ourWins] ?? 0)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-4 mt-3 text-xs text-slate-500">
+        {CHOICES.map(({ key, label, bar }) => (
+          <span key={key} className="flex items-center gap-1">
+            <span className={`w-2 h-2 rounded-full ${bar}`} />
+            {label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
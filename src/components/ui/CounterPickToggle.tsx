@@ -0,0 +1,42 @@
+import { useSettingsStore, type CounterPickAssumption } from '../../store/settings-store';
+
+const ASSUMPTIONS: { assumption: CounterPickAssumption; label: string }[] = [
+  { assumption: 'best_counter', label: '🛡️ Best' },
+  { assumption: 'mixed', label: '⚖️ Mixed' },
+  { assumption: 'habits', label: '🔮 Habits' },
+];
+
+interface CounterPickToggleProps {
+  onChange?: (assumption: CounterPickAssumption) => void;
+}
+
+// How they're expected to answer a blind throw - only matters when we throw first
+export function CounterPickToggle({ onChange }: CounterPickToggleProps) {
+  const { counterPickAssumption, setCounterPickAssumption } = useSettingsStore();
+
+  const handleSelect = (assumption: CounterPickAssumption) => {
+    setCounterPickAssumption(assumption);
+    onChange?.(assumption);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-slate-500 text-xs whitespace-nowrap">They counter</span>
+      <div className="flex flex-1 rounded-lg bg-slate-800/50 border border-slate-700 p-1">
+        {ASSUMPTIONS.map(({ assumption, label }) => (
+          <button
+            key={assumption}
+            onClick={() => handleSelect(assumption)}
+            className={`flex-1 py-1 px-2 rounded-md text-xs font-medium transition-colors ${
+              counterPickAssumption === assumption
+                ? 'bg-purple-500 text-white'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+interface DataAgeProps {
+  fetchedAt: Date | undefined;
+  label?: string;
+}
+
+// Older than a league week means at least one match night is missing
+const STALE_AFTER_DAYS = 7;
+
+function describeAge(date: Date): { text: string; isStale: boolean } {
+  const diffMins = Math.floor((Date.now() - date.getTime()) / 60000);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+  const isStale = diffDays >= STALE_AFTER_DAYS;
+
+  if (diffMins < 1) return { text: 'just now', isStale };
+  if (diffMins < 60) return { text: `${diffMins}m ago`, isStale };
+  if (diffHours < 24) return { text: `${diffHours}h ago`, isStale };
+  return { text: `${diffDays}d ago`, isStale };
+}
+
+// How old the saved data behind a team or player is - the app runs from IndexedDB, so it can be well behind APA
+export function DataAge({ fetchedAt, label = 'Updated' }: DataAgeProps) {
+  if (!fetchedAt) {
+    return <span className="text-amber-400 text-xs">Never synced</span>;
+  }
+
+  const date = new Date(fetchedAt);
+  const { text, isStale } = describeAge(date);
+
+  return (
+    <span
+      className={`text-xs ${isStale ? 'text-amber-400' : 'text-slate-500'}`}
+      title={date.toLocaleString()}
+    >
+      {isStale && '⚠ '}{label} {text}
+    </span>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { clearAllData } from '../../data/db';
+import { checkIntegrity, removeOrphans, type IntegrityReport } from '../../data/integrity';
+
+interface DataHealthCardProps {
+  onDataChanged: () => Promise<void>;
+}
+
+// Look for rows that point at nothing, clean them up, or start over without losing match history
+export function DataHealthCard({ onDataChanged }: DataHealthCardProps) {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleCheck = async () => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      setReport(await checkIntegrity());
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCleanUp = async () => {
+    if (!report) return;
+    setIsBusy(true);
+    try {
+      const removed = await removeOrphans(report);
+      await onDataChanged();
+      setReport(await checkIntegrity());
+      setMessage(`Removed ${removed} orphaned row${removed === 1 ? '' : 's'}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Delete all synced data and team profiles? Your recorded matches are kept.')) return;
+    setIsBusy(true);
+    try {
+      await clearAllData();
+      await onDataChanged();
+      setReport(null);
+      setMessage('Synced data cleared - find your teams and sync again');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-white font-semibold">🩺 Data Health</h2>
+        {report && <span className="text-slate-500 text-xs">Schema v{report.schemaVersion}</span>}
+      </div>
+
+      {report && (
+        report.issues.length === 0 ? (
+          <p className="text-green-400 text-sm mb-3">✓ No orphaned rows</p>
+        ) : (
+          <ul className="text-amber-400 text-sm space-y-1 mb-3">
+            {report.issues.map(issue => (
+              <li key={issue.kind}>⚠ {issue.description}</li>
+            ))}
+          </ul>
+        )
+      )}
+      {message && <p className="text-slate-400 text-sm mb-3">{message}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleCheck}
+          disabled={isBusy}
+          className="flex-1 py-2 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors disabled:opacity-50"
+        >
+          Check
+        </button>
+        {report && report.issues.length > 0 && (
+          <button
+            onClick={handleCleanUp}
+            disabled={isBusy}
+            className="flex-1 py-2 px-4 rounded-lg bg-amber-500 text-slate-900 font-medium hover:bg-amber-400 transition-colors disabled:opacity-50"
+          >
+            Clean Up
+          </button>
+        )}
+      </div>
+      <button
+        onClick={handleReset}
+        disabled={isBusy}
+        className="w-full mt-2 py-2 px-4 rounded-lg bg-slate-700/50 text-slate-400 text-sm hover:bg-slate-700 transition-colors disabled:opacity-50"
+      >
+        Reset Synced Data
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLiveSessionStore } from '../../store/live-session-store';
+import { useMatchStore } from '../../store/match-store';
+import { useTeamStore } from '../../store/team-store';
+import type { LiveRosterPlayer } from '../../scraper/apa-client';
+
+const STATUS_LABELS = {
+  idle: '',
+  connecting: 'Connecting...',
+  live: 'Live',
+  reconnecting: 'Reconnecting...',
+  ended: 'Sharing ended',
+};
+
+// Share the match in progress with a co-captain, or follow one someone else is running
+export function LiveSessionCard() {
+  const navigate = useNavigate();
+  const { liveMatch } = useMatchStore();
+  const { ourTeamId, getPlayersByTeam } = useTeamStore();
+  const {
+    code,
+    captainCode,
+    role,
+    status,
+    error,
+    hostSession,
+    joinSession,
+    leaveSession,
+    endSession,
+  } = useLiveSessionStore();
+  const [joinCode, setJoinCode] = useState('');
+
+  const canHost = !!liveMatch && liveMatch.status !== 'completed';
+
+  // Names go along so teammates without synced data can still follow. Whole rosters, since
+  // attendance may not be taken yet.
+  const handleHost = () => {
+    if (!liveMatch) return;
+    const toRoster = (teamId: number | undefined, side: LiveRosterPlayer['side']) =>
+      teamId === undefined ? [] : getPlayersByTeam(teamId)
+        .map(p => ({ id: p.id, name: p.name, skillLevel: p.skillLevel, side }));
+    hostSession([
+      ...toRoster(liveMatch.ourTeamId ?? ourTeamId, 'ours'),
+      ...toRoster(liveMatch.opponentTeamId, 'theirs'),
+    ]);
+  };
+
+  const handleJoin = async () => {
+    if (!joinCode.trim()) return;
+    await joinSession(joinCode);
+    // Captains pick up the match from the home screen once it arrives
+    const joined = useLiveSessionStore.getState().role;
+    if (joined) setJoinCode('');
+    if (joined === 'viewer') navigate('/live');
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-white font-semibold">📡 Live Match Sharing</h2>
+        {role && (
+          <span className={`text-xs ${status === 'live' ? 'text-green-400' : 'text-amber-400'}`}>
+            {STATUS_LABELS[status]}
+          </span>
+        )}
+      </div>
+
+      {role ? (
+        <>
+          <div className="space-y-1 text-sm mb-4">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Match code (watch only)</span>
+              <span className="text-white font-mono">{code}</span>
+            </div>
+            {captainCode && (
+              <div className="flex justify-between">
+                <span className="text-slate-400">Captain code (can edit)</span>
+                <span className="text-white font-mono">{captainCode}</span>
+              </div>
+            )}
+            {role === 'viewer' && (
+              <p className="text-slate-500 text-xs">You're watching - only captains can make changes.</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {role === 'viewer' && status !== 'ended' && (
+              <button
+                onClick={() => navigate('/live')}
+                className="flex-1 py-2 px-4 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors"
+              >
+                Watch
+              </button>
+            )}
+            {role === 'captain' && status !== 'ended' ? (
+              <button
+                onClick={() => {
+                  if (confirm('Stop sharing this match? Everyone following it will be disconnected.')) {
+                    endSession();
+                  }
+                }}
+                className="flex-1 py-2 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors"
+              >
+                Stop Sharing
+              </button>
+            ) : (
+              <button
+                onClick={leaveSession}
+                className="flex-1 py-2 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors"
+              >
+                Leave
+              </button>
+            )}
+          </div>
+        </>
+      ) : (
+        <>
+          {canHost && (
+            <button
+              onClick={handleHost}
+              disabled={status === 'connecting'}
+              className="w-full mb-3 py-2 px-4 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors disabled:opacity-50"
+            >
+              Share This Match
+            </button>
+          )}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+              placeholder="Match or captain code"
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-slate-700 text-white font-mono placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleJoin}
+              disabled={!joinCode.trim() || status === 'connecting'}
+              className="py-2 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors disabled:opacity-50"
+            >
+              Join
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
+    </div>
+  );
+}
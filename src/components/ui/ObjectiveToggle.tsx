@@ -0,0 +1,41 @@
+import { useSettingsStore } from '../../store/settings-store';
+import type { OptimizerObjective } from '../../engine/lineup-optimizer';
+
+const OBJECTIVES: { objective: OptimizerObjective; label: string }[] = [
+  { objective: 'team_points', label: '📊 Team Points' },
+  { objective: 'match_win', label: '🏆 Match Win' },
+];
+
+interface ObjectiveToggleProps {
+  onChange?: (objective: OptimizerObjective) => void;
+}
+
+export function ObjectiveToggle({ onChange }: ObjectiveToggleProps) {
+  const { optimizerObjective, setOptimizerObjective } = useSettingsStore();
+
+  const handleSelect = (objective: OptimizerObjective) => {
+    setOptimizerObjective(objective);
+    onChange?.(objective);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-slate-500 text-xs whitespace-nowrap">Optimize for</span>
+      <div className="flex flex-1 rounded-lg bg-slate-800/50 border border-slate-700 p-1">
+        {OBJECTIVES.map(({ objective, label }) => (
+          <button
+            key={objective}
+            onClick={() => handleSelect(objective)}
+            className={`flex-1 py-1 px-2 rounded-md text-xs font-medium transition-colors ${
+              optimizerObjective === objective
+                ? 'bg-purple-500 text-white'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useSyncStore } from '../../store/sync-store';
+
+const OPERATION_LABELS = {
+  sync: 'Sync',
+  'pull-shared': 'Shared data pull',
+  'shared-sync': 'Shared sync change',
+};
+
+// Offline, or work waiting on the connection - everything else keeps running from saved data
+export function OfflineNotice() {
+  const { isOnline, queuedOperations } = useSyncStore();
+
+  if (isOnline && queuedOperations.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-3 rounded-xl bg-slate-800/50 border border-slate-700">
+      <div className="flex items-center gap-2">
+        <span className={`w-2 h-2 rounded-full ${isOnline ? 'bg-green-400' : 'bg-amber-400'}`} />
+        <p className="text-slate-300 text-sm font-medium">
+          {isOnline ? 'Back online' : 'Offline - using saved data'}
+        </p>
+      </div>
+      {queuedOperations.length > 0 && (
+        <p className="text-slate-400 text-xs mt-1">
+          Waiting to run: {queuedOperations.map(item => OPERATION_LABELS[item.operation.kind]).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
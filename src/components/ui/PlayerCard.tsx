@@ -1,4 +1,7 @@
-import type { Player, PlayerStats } from '../../data/types';
+import type { Player, PlayerStats, GameFormat } from '../../data/types';
+import { getRaceFormat } from '../../engine/skill-level-tables';
+import { useTeamStore } from '../../store/team-store';
+import { DataAge } from './DataAge';
 
 interface PlayerCardProps {
   player: Player;
@@ -8,6 +11,8 @@ interface PlayerCardProps {
   variant?: 'default' | 'compact' | 'recommendation';
   winProbability?: number;
   showStats?: boolean;
+  format?: GameFormat;
+  opponentSkillLevel?: number;   // Shows the race against this opponent
 }
 
 export function PlayerCard({
@@ -18,7 +23,11 @@ export function PlayerCard({
   variant = 'default',
   winProbability,
   showStats = true,
+  format = 'NINE',
+  opponentSkillLevel,
 }: PlayerCardProps) {
+  // Season stats come in with the team's roster
+  const statsFetchedAt = useTeamStore(state => state.getRosterFetchedAt(player.teamId));
   // Use player's built-in stats as fallback if no separate stats provided
   const displayStats = stats || {
     winPct: player.winPct,
@@ -36,12 +45,23 @@ export function PlayerCard({
   `;
 
   const getSkillLevelColor = (sl: number) => {
+    // 8-ball tops out at SL7
+    if (format === 'EIGHT') {
+      if (sl <= 3) return 'bg-green-500';
+      if (sl <= 5) return 'bg-yellow-500';
+      if (sl <= 6) return 'bg-orange-500';
+      return 'bg-red-500';
+    }
     if (sl <= 3) return 'bg-green-500';
     if (sl <= 5) return 'bg-yellow-500';
     if (sl <= 7) return 'bg-orange-500';
     return 'bg-red-500';
   };
 
+  const skillLevelLine = opponentSkillLevel !== undefined
+    ? `Skill Level ${player.skillLevel} • ${getRaceFormat(player.skillLevel, opponentSkillLevel, format)}`
+    : `Skill Level ${player.skillLevel}`;
+
   if (variant === 'compact') {
     return (
       <button
@@ -69,7 +89,7 @@ export function PlayerCard({
             </div>
             <div>
               <div className="text-slate-200 font-semibold">{player.name}</div>
-              <div className="text-slate-400 text-sm">Skill Level {player.skillLevel}</div>
+              <div className="text-slate-400 text-sm">{skillLevelLine}</div>
             </div>
           </div>
           {winProbability !== undefined && (
@@ -102,6 +122,11 @@ export function PlayerCard({
             </div>
           </div>
         )}
+        {showStats && (
+          <div className="mt-2 text-right">
+            <DataAge fetchedAt={statsFetchedAt} label="Stats from" />
+          </div>
+        )}
       </button>
     );
   }
@@ -118,7 +143,7 @@ export function PlayerCard({
         </div>
         <div>
           <div className="text-slate-200 font-semibold text-lg">{player.name}</div>
-          <div className="text-slate-400 text-sm">Skill Level {player.skillLevel}</div>
+          <div className="text-slate-400 text-sm">{skillLevelLine}</div>
         </div>
       </div>
       
@@ -144,6 +169,11 @@ export function PlayerCard({
           </div>
         </div>
       )}
+      {showStats && (
+        <div className="mt-2">
+          <DataAge fetchedAt={statsFetchedAt} label="Stats from" />
+        </div>
+      )}
     </button>
   );
 }
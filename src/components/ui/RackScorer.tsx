@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import type { LiveGame, Player, RackScore } from '../../data/types';
+import {
+  RACK_POINTS,
+  getGameScore,
+  getGameWinner,
+  validateRack,
+  type PointsNeeded,
+} from '../../engine/scorekeeping';
+
+interface RackScorerProps {
+  game: LiveGame;
+  ourPlayer?: Player;
+  theirPlayer?: Player;
+  pointsNeeded: PointsNeeded;
+  onRecordRack: (rack: RackScore) => void;
+  onUndoRack: () => void;
+  onFinish: () => void;
+}
+
+type RackCount = 'ourPoints' | 'theirPoints' | 'deadBalls' | 'innings' | 'ourDefensiveShots' | 'theirDefensiveShots';
+
+const emptyRack = (rackNumber: number): RackScore => ({
+  rackNumber,
+  ourPoints: 0,
+  theirPoints: 0,
+  deadBalls: 0,
+  innings: 0,
+  ourDefensiveShots: 0,
+  theirDefensiveShots: 0,
+});
+
+function Stepper({ label, value, onChange }: { label: string; value: number; onChange: (delta: number) => void }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-slate-400 text-sm">{label}</span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange(-1)}
+          className="w-8 h-8 rounded-lg bg-slate-700 text-white hover:bg-slate-600 transition-colors"
+        >
+          −
+        </button>
+        <span className="w-6 text-center text-white font-semibold">{value}</span>
+        <button
+          onClick={() => onChange(1)}
+          className="w-8 h-8 rounded-lg bg-slate-700 text-white hover:bg-slate-600 transition-colors"
+        >
+          +
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PointsProgress({ name, points, needed, color }: { name: string; points: number; needed: number; color: string }) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-white font-medium">{name}</span>
+        <span className="text-slate-300 text-sm">{points} / {needed}</span>
+      </div>
+      <div className="h-2 rounded-full bg-slate-700 overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${Math.min(100, (points / needed) * 100)}%` }} />
+      </div>
+    </div>
+  );
+}
+
+export function RackScorer({
+  game,
+  ourPlayer,
+  theirPlayer,
+  pointsNeeded,
+  onRecordRack,
+  onUndoRack,
+  onFinish,
+}: RackScorerProps) {
+  const racks = game.racks ?? [];
+  const [draft, setDraft] = useState<RackScore>(() => emptyRack(racks.length + 1));
+
+  const score = getGameScore(racks);
+  const winner = getGameWinner(score, pointsNeeded);
+  const error = validateRack(draft, racks, pointsNeeded);
+  const tableTotal = draft.ourPoints + draft.theirPoints + draft.deadBalls;
+
+  const adjust = (key: RackCount, delta: number) => {
+    setDraft(d => ({ ...d, [key]: Math.max(0, d[key] + delta) }));
+  };
+
+  const handleSaveRack = () => {
+    if (error) return;
+    onRecordRack(draft);
+    setDraft(emptyRack(racks.length + 2));
+  };
+
+  const handleUndo = () => {
+    onUndoRack();
+    setDraft(emptyRack(Math.max(1, racks.length)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Running score */}
+      <div className="p-4 rounded-xl bg-slate-800/50 border border-slate-700 space-y-3">
+        <PointsProgress name={ourPlayer?.name ?? 'Us'} points={score.ourPoints} needed={pointsNeeded.ours} color="bg-green-500" />
+        <PointsProgress name={theirPlayer?.name ?? 'Them'} points={score.theirPoints} needed={pointsNeeded.theirs} color="bg-red-500" />
+        <div className="flex justify-between text-slate-500 text-xs pt-1">
+          <span>Innings: {score.innings}</span>
+          <span>Dead balls: {score.deadBalls}</span>
+          <span>Defense: {score.ourDefensiveShots} - {score.theirDefensiveShots}</span>
+        </div>
+      </div>
+
+      {winner ? (
+        <div className={`p-4 rounded-xl border-2 text-center ${
+          winner === 'win' ? 'bg-green-500/10 border-green-500/50' : 'bg-red-500/10 border-red-500/50'
+        }`}>
+          <div className="text-4xl mb-2">{winner === 'win' ? '🎉' : '😔'}</div>
+          <p className="text-white font-semibold text-lg mb-4">
+            {winner === 'win' ? ourPlayer?.name ?? 'We' : theirPlayer?.name ?? 'They'} reached {winner === 'win' ? pointsNeeded.ours : pointsNeeded.theirs}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={handleUndo}
+              className="py-3 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors"
+            >
+              Undo Last Rack
+            </button>
+            <button
+              onClick={onFinish}
+              className="py-3 px-4 rounded-lg bg-gradient-to-r from-purple-500 to-blue-500 text-white font-semibold hover:from-purple-400 hover:to-blue-400 transition-all"
+            >
+              Continue
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="p-4 rounded-xl bg-slate-800/50 border border-slate-700 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-white font-semibold">Rack {draft.rackNumber}</h3>
+            <span className={`text-xs ${tableTotal === RACK_POINTS ? 'text-green-400' : 'text-slate-500'}`}>
+              {tableTotal} / {RACK_POINTS} points
+            </span>
+          </div>
+
+          <Stepper label={`${ourPlayer?.name ?? 'Our'} points`} value={draft.ourPoints} onChange={delta => adjust('ourPoints', delta)} />
+          <Stepper label={`${theirPlayer?.name ?? 'Their'} points`} value={draft.theirPoints} onChange={delta => adjust('theirPoints', delta)} />
+          <Stepper label="Dead balls" value={draft.deadBalls} onChange={delta => adjust('deadBalls', delta)} />
+          <Stepper label="Innings" value={draft.innings} onChange={delta => adjust('innings', delta)} />
+          <Stepper label="Our defensive shots" value={draft.ourDefensiveShots} onChange={delta => adjust('ourDefensiveShots', delta)} />
+          <Stepper label="Their defensive shots" value={draft.theirDefensiveShots} onChange={delta => adjust('theirDefensiveShots', delta)} />
+
+          {error && tableTotal > 0 && (
+            <p className="text-amber-400 text-xs">{error}</p>
+          )}
+
+          <div className="grid grid-cols-2 gap-2 pt-1">
+            <button
+              onClick={handleUndo}
+              disabled={racks.length === 0}
+              className="py-2 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Undo Last Rack
+            </button>
+            <button
+              onClick={handleSaveRack}
+              disabled={!!error}
+              className="py-2 px-4 rounded-lg bg-blue-500 text-white font-semibold hover:bg-blue-400 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Rack
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Rack history */}
+      {racks.length > 0 && (
+        <div className="space-y-1">
+          {racks.map(rack => (
+            <div key={rack.rackNumber} className="flex items-center justify-between px-3 py-2 rounded-lg bg-slate-800/30 text-sm">
+              <span className="text-slate-400">Rack {rack.rackNumber}</span>
+              <span className="text-white">{rack.ourPoints} - {rack.theirPoints}</span>
+              <span className="text-slate-500 text-xs">
+                {rack.deadBalls > 0 ? `${rack.deadBalls} dead • ` : ''}{rack.innings} inn
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
-import type { MatchupRecommendation } from '../../data/types';
+import type { MatchupRecommendation, GameFormat } from '../../data/types';
+import { getRaceFormat } from '../../engine/skill-level-tables';
 
 interface RecommendationCardProps {
   recommendation: MatchupRecommendation;
   rank: number;
   selected?: boolean;
   onClick?: () => void;
+  format?: GameFormat;
+  playerSkillLevel?: number;     // With opponentSkillLevel, shows the race
+  opponentSkillLevel?: number;
 }
 
 export function RecommendationCard({
@@ -12,6 +16,9 @@ export function RecommendationCard({
   rank,
   selected = false,
   onClick,
+  format = 'NINE',
+  playerSkillLevel,
+  opponentSkillLevel,
 }: RecommendationCardProps) {
   const getProbabilityColor = (prob: number) => {
     if (prob >= 0.55) return 'text-green-400';
@@ -60,6 +67,17 @@ export function RecommendationCard({
               <div className="text-slate-400 text-sm">
                 Confidence: {Math.round(recommendation.confidence * 100)}%
               </div>
+              {playerSkillLevel !== undefined && opponentSkillLevel !== undefined && (
+                <div className="text-slate-500 text-xs">
+                  {getRaceFormat(playerSkillLevel, opponentSkillLevel, format)}
+                </div>
+              )}
+              {recommendation.expectedCounter && (
+                <div className="text-slate-400 text-xs mt-0.5">
+                  Likely counter: <span className="text-slate-200">{recommendation.expectedCounter.playerName}</span>
+                  {' '}({Math.round(recommendation.expectedCounter.likelihood * 100)}%, we win {Math.round(recommendation.expectedCounter.winProbability * 100)}%)
+                </div>
+              )}
             </div>
           </div>
           <div className="text-right">
@@ -73,7 +91,7 @@ export function RecommendationCard({
         {/* Factor bars */}
         <div className="space-y-2 mb-3">
           <FactorBar 
-            label="Skill Level" 
+            label={format === 'EIGHT' ? 'Race Chart' : 'Skill Level'} 
             value={recommendation.factors.skillLevelAdvantage} 
           />
           <FactorBar 
@@ -0,0 +1,38 @@
+import { useSettingsStore, type RecommendationMode } from '../../store/settings-store';
+import { isAIAvailable } from '../../services/recommendation-provider';
+
+const MODES: { mode: RecommendationMode; label: string }[] = [
+  { mode: 'local', label: '⚙️ Engine' },
+  { mode: 'hybrid', label: '🤝 Hybrid' },
+  { mode: 'ai', label: '🤖 AI' },
+];
+
+export function RecommendationModeToggle() {
+  const { recommendationMode, setRecommendationMode } = useSettingsStore();
+  const aiAvailable = isAIAvailable();
+
+  return (
+    <div>
+      <div className="flex rounded-lg bg-slate-800/50 border border-slate-700 p-1">
+        {MODES.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => setRecommendationMode(mode)}
+            className={`flex-1 py-1.5 px-2 rounded-md text-xs font-medium transition-colors ${
+              recommendationMode === mode
+                ? 'bg-blue-500 text-white'
+                : 'text-slate-400 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {recommendationMode !== 'local' && !aiAvailable && (
+        <p className="text-amber-400 text-xs mt-1 text-center">
+          AI unavailable (offline or no API key) - using the engine only
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useSyncStore } from '../../store/sync-store';
+import { useTeamStore } from '../../store/team-store';
+
+interface SharedDivisionCardProps {
+  divisionId: number;
+  isBusy: boolean;
+  onPull: () => void;
+}
+
+const formatTime = (iso: string | null | undefined) => (iso ? new Date(iso).toLocaleString() : '—');
+
+// Division data the backend keeps synced on a schedule - pulling it needs no APA token
+export function SharedDivisionCard({ divisionId, isBusy, onPull }: SharedDivisionCardProps) {
+  const { sharedDivisions, authSessionId, setSharedSync } = useSyncStore();
+  const { ourTeamId } = useTeamStore();
+  const shared = sharedDivisions.find(d => d.divisionId === divisionId);
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+      <h2 className="text-white font-semibold mb-2">🌐 Shared Division Data</h2>
+
+      {shared ? (
+        <div className="space-y-1 text-sm mb-4">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Last updated</span>
+            <span className="text-slate-300">{shared.isRunning ? 'Updating now...' : formatTime(shared.generatedAt)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Next update</span>
+            <span className="text-slate-300">{formatTime(shared.nextRunAt)}</span>
+          </div>
+          {shared.lastError && (
+            <p className="text-amber-400 text-xs">Last run failed: {shared.lastError}</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-slate-400 text-sm mb-4">
+          Nobody is sharing a scheduled sync for this division yet.
+          {authSessionId && ' Share yours so teammates can pull the data without an APA login.'}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        {shared?.generatedAt && (
+          <button
+            onClick={onPull}
+            disabled={isBusy}
+            className="flex-1 py-2 px-4 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors disabled:opacity-50"
+          >
+            Pull Shared Data
+          </button>
+        )}
+        {authSessionId && (
+          <button
+            onClick={() => setSharedSync(!(shared && shared.teamId === ourTeamId))}
+            disabled={isBusy}
+            className="flex-1 py-2 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors disabled:opacity-50"
+          >
+            {shared && shared.teamId === ourTeamId ? 'Stop Sharing' : 'Share My Sync'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+import type { GameFormat } from '../../data/types';
+
 interface StatBadgeProps {
   label: string;
   value: string | number;
@@ -65,10 +67,18 @@ export function ScoreBadge({ ourScore, theirScore, size = 'md' }: ScoreBadgeProp
 interface SkillLevelBadgeProps {
   level: number;
   size?: 'sm' | 'md' | 'lg';
+  format?: GameFormat;
 }
 
-export function SkillLevelBadge({ level, size = 'md' }: SkillLevelBadgeProps) {
+export function SkillLevelBadge({ level, size = 'md', format = 'NINE' }: SkillLevelBadgeProps) {
   const getColor = (sl: number) => {
+    // 8-ball tops out at SL7
+    if (format === 'EIGHT') {
+      if (sl <= 3) return 'bg-green-500';
+      if (sl <= 5) return 'bg-yellow-500';
+      if (sl <= 6) return 'bg-orange-500';
+      return 'bg-red-500';
+    }
     if (sl <= 3) return 'bg-green-500';
     if (sl <= 5) return 'bg-yellow-500';
     if (sl <= 7) return 'bg-orange-500';
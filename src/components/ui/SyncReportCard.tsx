@@ -0,0 +1,75 @@
+import type { SyncEntity, SyncReport } from '../../data/types';
+
+const ENTITY_LABELS: Record<SyncEntity, string> = {
+  team: 'Rosters',
+  schedule: 'Team schedules',
+  player: 'Match histories',
+  match: 'Newly scored matches',
+  member: 'Alias lookups',
+  alias: 'Lifetime stats',
+};
+
+const ENTITY_ORDER: SyncEntity[] = ['schedule', 'team', 'player', 'match', 'member', 'alias'];
+
+interface SyncReportCardProps {
+  report: SyncReport;
+}
+
+export function SyncReportCard({ report }: SyncReportCardProps) {
+  const seconds = report.finishedAt
+    ? Math.round((new Date(report.finishedAt).getTime() - new Date(report.startedAt).getTime()) / 1000)
+    : null;
+
+  return (
+    <div className={`mb-6 p-4 rounded-xl border ${
+      report.failures.length > 0 || report.stoppedEarly
+        ? 'bg-amber-500/10 border-amber-500/30'
+        : 'bg-slate-800/50 border-slate-700'
+    }`}>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-white font-semibold">📋 Last Sync Report</h2>
+        {seconds !== null && <span className="text-slate-500 text-xs">{seconds}s</span>}
+      </div>
+
+      {report.stoppedEarly && (
+        <p className="text-amber-400 text-sm mb-3">Stopped early: {report.stoppedEarly}</p>
+      )}
+
+      <div className="space-y-1 text-sm mb-3">
+        {ENTITY_ORDER.map(entityType => {
+          const failed = report.failures.filter(f => f.entityType === entityType).length;
+          const fetched = report.fetched[entityType] ?? 0;
+          if (fetched === 0 && failed === 0) return null;
+          return (
+            <div key={entityType} className="flex justify-between">
+              <span className="text-slate-400">{ENTITY_LABELS[entityType]}</span>
+              <span className="text-slate-300">
+                {fetched} fetched{failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {report.failures.length === 0 ? (
+        <p className="text-green-400 text-sm">✓ Nothing failed</p>
+      ) : (
+        <div className="space-y-2">
+          <h3 className="text-slate-500 text-xs uppercase tracking-wide">Failed (retried next sync)</h3>
+          {report.failures.map(failure => (
+            <div
+              key={`${failure.entityType}-${failure.entityId}`}
+              className="p-2 rounded-lg bg-slate-800 border border-slate-700 text-sm"
+            >
+              <div className="flex justify-between">
+                <span className="text-white">{failure.label}</span>
+                <span className="text-slate-500 text-xs">{ENTITY_LABELS[failure.entityType]}</span>
+              </div>
+              <p className="text-red-400 text-xs break-words">{failure.reason}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useTeamStore } from '../../store/team-store';
+import { useSyncStore } from '../../store/sync-store';
+import type { AppConfig } from '../../data/types';
+import type { SharedDivision } from '../../scraper/apa-client';
+
+type DiscoveredTeam = Omit<AppConfig, 'id'>;
+
+const formatName = (format: AppConfig['format']) => (format === 'EIGHT' ? '8-Ball' : '9-Ball');
+
+// Profile for a team picked out of a shared division snapshot
+const profileFromShared = (division: SharedDivision, team: { id: number; name: string; number: string }): DiscoveredTeam => ({
+  ourTeamId: team.id,
+  ourTeamNumber: team.number,
+  ourTeamName: team.name,
+  divisionId: division.divisionId,
+  divisionName: division.divisionName ?? undefined,
+  leagueId: division.leagueId ?? undefined,
+  leagueSlug: division.leagueSlug ?? undefined,
+  format: division.format ?? 'NINE',
+});
+
+export function TeamProfiles() {
+  const { profiles, ourTeamId, saveProfiles, setOurTeam } = useTeamStore();
+  const { isValidToken, discoverTeams, sharedDivisions } = useSyncStore();
+
+  const [discovered, setDiscovered] = useState<DiscoveredTeam[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [isSearching, setIsSearching] = useState(false);
+
+  const handleDiscover = async () => {
+    setIsSearching(true);
+    try {
+      const teams = await discoverTeams();
+      setDiscovered(teams);
+      // Keep whatever is already saved ticked; a first-time setup ticks everything
+      const saved = new Set(profiles.map(p => p.ourTeamId));
+      setSelectedIds(new Set(teams.filter(t => saved.size === 0 || saved.has(t.ourTeamId)).map(t => t.ourTeamId)));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const toggle = (teamId: number) => {
+    setSelectedIds(ids => {
+      const next = new Set(ids);
+      if (next.has(teamId)) next.delete(teamId);
+      else next.add(teamId);
+      return next;
+    });
+  };
+
+  // No APA login needed - the team comes from data someone else is sharing
+  const handlePickShared = async (profile: DiscoveredTeam) => {
+    await saveProfiles([...profiles.filter(p => p.ourTeamId !== profile.ourTeamId), profile]);
+    await setOurTeam(profile.ourTeamId);
+  };
+
+  const sharedTeams = sharedDivisions.flatMap(division =>
+    (division.teams ?? [])
+      .filter(team => !profiles.some(p => p.ourTeamId === team.id))
+      .map(team => ({ division, profile: profileFromShared(division, team) }))
+  );
+
+  const handleSave = async () => {
+    if (!discovered) return;
+    await saveProfiles(discovered.filter(t => selectedIds.has(t.ourTeamId)));
+    // Reload scoped data for whichever team ended up active
+    await setOurTeam(useTeamStore.getState().ourTeamId);
+    setDiscovered(null);
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+      <h2 className="text-white font-semibold mb-3">👥 Your Teams</h2>
+
+      {profiles.length === 0 && !discovered && (
+        <p className="text-slate-400 text-sm mb-3">
+          {isValidToken
+            ? 'Find the teams you play on to get started.'
+            : 'Set your APA token below, then find the teams you play on.'}
+        </p>
+      )}
+
+      {!discovered && profiles.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              onClick={() => setOurTeam(profile.ourTeamId)}
+              className={`w-full p-3 rounded-lg border text-left transition-colors ${
+                profile.ourTeamId === ourTeamId
+                  ? 'bg-blue-500/10 border-blue-500/50'
+                  : 'bg-slate-800 border-slate-700 hover:border-slate-600'
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-white font-medium">{profile.ourTeamName}</span>
+                {profile.ourTeamId === ourTeamId && <span className="text-blue-400 text-xs">Active</span>}
+              </div>
+              <div className="text-slate-400 text-xs">
+                {formatName(profile.format)} • #{profile.ourTeamNumber}{profile.divisionName ? ` • ${profile.divisionName}` : ''}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {discovered && (
+        <div className="space-y-2 mb-3">
+          {discovered.length === 0 && (
+            <p className="text-amber-400 text-sm">No teams found for this member.</p>
+          )}
+          {discovered.map(team => (
+            <label
+              key={team.ourTeamId}
+              className="flex items-center gap-3 p-3 rounded-lg bg-slate-800 border border-slate-700 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.has(team.ourTeamId)}
+                onChange={() => toggle(team.ourTeamId)}
+                className="w-4 h-4"
+              />
+              <div>
+                <div className="text-white font-medium">{team.ourTeamName}</div>
+                <div className="text-slate-400 text-xs">
+                  {formatName(team.format)} • #{team.ourTeamNumber}{team.divisionName ? ` • ${team.divisionName}` : ''}
+                </div>
+              </div>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {!isValidToken && !discovered && sharedTeams.length > 0 && (
+        <div className="mb-3">
+          <p className="text-slate-400 text-sm mb-2">Or pick your team from shared division data:</p>
+          <div className="space-y-2">
+            {sharedTeams.map(({ division, profile }) => (
+              <button
+                key={profile.ourTeamId}
+                onClick={() => handlePickShared(profile)}
+                className="w-full p-3 rounded-lg bg-slate-800 border border-slate-700 hover:border-slate-600 text-left transition-colors"
+              >
+                <div className="text-white font-medium">{profile.ourTeamName}</div>
+                <div className="text-slate-400 text-xs">
+                  {formatName(profile.format)} • #{profile.ourTeamNumber}{division.divisionName ? ` • ${division.divisionName}` : ''}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {discovered ? (
+          <>
+            <button
+              onClick={() => setDiscovered(null)}
+              className="py-2 px-4 rounded-lg bg-slate-700 text-slate-300 font-medium hover:bg-slate-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={selectedIds.size === 0}
+              className="flex-1 py-2 px-4 rounded-lg bg-blue-500 text-white font-medium hover:bg-blue-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save {selectedIds.size} {selectedIds.size === 1 ? 'Team' : 'Teams'}
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleDiscover}
+            disabled={!isValidToken || isSearching}
+            className="flex-1 py-2 px-4 rounded-lg bg-slate-700 text-white font-medium hover:bg-slate-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSearching ? 'Searching...' : profiles.length > 0 ? 'Refresh My Teams' : 'Find My Teams'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
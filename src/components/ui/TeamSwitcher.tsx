@@ -0,0 +1,32 @@
+import { useTeamStore } from '../../store/team-store';
+
+interface TeamSwitcherProps {
+  disabled?: boolean;       // e.g. while a match is in progress
+  onSwitch?: (teamId: number) => void;
+}
+
+export function TeamSwitcher({ disabled = false, onSwitch }: TeamSwitcherProps) {
+  const { profiles, ourTeamId, setOurTeam } = useTeamStore();
+
+  if (profiles.length < 2) return null;
+
+  const handleChange = async (teamId: number) => {
+    await setOurTeam(teamId);
+    onSwitch?.(teamId);
+  };
+
+  return (
+    <select
+      value={ourTeamId}
+      onChange={(e) => handleChange(Number(e.target.value))}
+      disabled={disabled}
+      className="w-full px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 text-white text-sm focus:border-blue-500 focus:outline-none disabled:opacity-50"
+    >
+      {profiles.map(profile => (
+        <option key={profile.id} value={profile.ourTeamId}>
+          {profile.ourTeamName} • {profile.format === 'EIGHT' ? '8-Ball' : '9-Ball'}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,271 @@
+// Runtime schemas for backup bundles
+// A bundle is a JSON file the user picked - possibly from an older version of the app, hand
+// edited, or not ours at all - so every row is checked before it goes near the database.
+// Dates were written as ISO strings and come back as Dates. Each schema is annotated with the
+// row type it produces, so a field added to a type without a schema entry fails the build.
+
+import { z } from 'zod';
+import type {
+  AppConfig,
+  Division,
+  FreshnessRecord,
+  GameResult,
+  LiveMatch,
+  Match,
+  Player,
+  PlayerMatchRecord,
+  PlayerSessionStats,
+  PlayerStats,
+  Team,
+} from './types';
+
+// Bumped when the bundle layout changes - older bundles stay importable
+export const BACKUP_VERSION = 1;
+
+const id = z.number();
+const date = z.coerce.date();
+const formatSchema = z.enum(['NINE', 'EIGHT']);
+
+const teamSchema: z.ZodType<Team> = z.object({
+  id,
+  number: z.string(),
+  name: z.string(),
+  divisionId: id,
+  leagueId: id.optional(),
+  leagueSlug: z.string().optional(),
+  format: formatSchema,
+  isOurTeam: z.boolean(),
+  sessionPoints: z.number().optional(),
+  lastSynced: date.optional(),
+});
+
+const playerSchema: z.ZodType<Player> = z.object({
+  id,
+  aliasId: id,
+  memberId: id,
+  memberNumber: z.string(),
+  name: z.string(),
+  skillLevel: z.number(),
+  teamId: id,
+  matchesPlayed: z.number(),
+  matchesWon: z.number(),
+  ppm: z.number(),
+  pa: z.number(),
+  winPct: z.number(),
+  lifetimeMatchesPlayed: z.number().optional(),
+  lifetimeMatchesWon: z.number().optional(),
+  lifetimeWinPct: z.number().optional(),
+  lifetimeDefensiveAvg: z.number().optional(),
+});
+
+const playerStatsSchema: z.ZodType<PlayerStats> = z.object({
+  id: id.optional(),
+  playerId: id,
+  sessionId: z.string(),
+  sessionName: z.string().optional(),
+  skillLevel: z.number(),
+  matchesPlayed: z.number(),
+  matchesWon: z.number(),
+  gamesPlayed: z.number(),
+  gamesWon: z.number(),
+  totalPoints: z.number(),
+  pointsAwarded: z.number(),
+  ppm: z.number(),
+  winPct: z.number(),
+  defensiveShotAvg: z.number().optional(),
+  breakAndRunPct: z.number().optional(),
+  miniSlams: z.number().optional(),
+  nineOnSnap: z.number().optional(),
+  shutouts: z.number().optional(),
+});
+
+const playerMatchRecordSchema: z.ZodType<PlayerMatchRecord> = z.object({
+  id,
+  playerId: id,
+  datePlayed: date,
+  won: z.boolean(),
+  skillLevel: z.number(),
+  pointsAwarded: z.number(),
+  pointsNeeded: z.number(),
+  opponentId: id,
+  opponentName: z.string(),
+  opponentSkillLevel: z.number(),
+  matchWeek: z.number().optional(),
+  matchId: id.optional(),
+  teamId: id.optional(),
+});
+
+const playerSessionStatsSchema: z.ZodType<PlayerSessionStats> = z.object({
+  id: id.optional(),
+  playerId: id,
+  memberId: id,
+  sessionId: id,
+  sessionName: z.string(),
+  sessionYear: z.number(),
+  teamId: id,
+  teamName: z.string(),
+  skillLevel: z.number(),
+  matchesPlayed: z.number(),
+  matchesWon: z.number(),
+  ppm: z.number(),
+  pa: z.number(),
+  winPct: z.number(),
+});
+
+const matchSchema: z.ZodType<Match> = z.object({
+  id,
+  divisionId: id,
+  week: z.number().nullable(),
+  homeTeamId: id,
+  homeTeamName: z.string(),
+  homeTeamNumber: z.string(),
+  awayTeamId: id,
+  awayTeamName: z.string(),
+  awayTeamNumber: z.string(),
+  scheduledDate: date,
+  hostLocationName: z.string(),
+  hostLocationId: id.nullable(),
+  isScored: z.boolean(),
+  status: z.enum(['COMPLETED', 'UNPLAYED']),
+  homePoints: z.number().optional(),
+  awayPoints: z.number().optional(),
+  description: z.string().optional(),
+});
+
+const gameResultSchema: z.ZodType<GameResult> = z.object({
+  id: id.optional(),
+  matchId: id,
+  gameNumber: z.number(),
+  playerId: id,
+  playerName: z.string(),
+  playerTeamId: id,
+  playerSkillLevel: z.number(),
+  opponentId: id,
+  opponentName: z.string(),
+  opponentTeamId: id,
+  opponentSkillLevel: z.number(),
+  pointsScored: z.number(),
+  pointsNeeded: z.number(),
+  won: z.boolean(),
+  playedAt: date,
+});
+
+const gameRecommendationSchema = z.object({
+  source: z.enum(['engine', 'ai']),
+  playerId: id,
+  playerName: z.string(),
+  winProbability: z.number(),
+  confidence: z.enum(['low', 'medium', 'high']),
+  opponentId: id.optional(),
+});
+
+const rackScoreSchema = z.object({
+  rackNumber: z.number(),
+  ourPoints: z.number(),
+  theirPoints: z.number(),
+  deadBalls: z.number(),
+  innings: z.number(),
+  ourDefensiveShots: z.number(),
+  theirDefensiveShots: z.number(),
+});
+
+const liveGameSchema = z.object({
+  gameNumber: z.number(),
+  ourPlayerId: id.nullable(),
+  theirPlayerId: id.nullable(),
+  ourSkillLevel: z.number().optional(),
+  theirSkillLevel: z.number().optional(),
+  result: z.enum(['win', 'loss', 'pending']),
+  ourPoints: z.number().optional(),
+  theirPoints: z.number().optional(),
+  ourPointsNeeded: z.number().optional(),
+  theirPointsNeeded: z.number().optional(),
+  racks: z.array(rackScoreSchema).optional(),
+  ourMatchPoints: z.number().optional(),
+  theirMatchPoints: z.number().optional(),
+  recommendation: gameRecommendationSchema.optional(),
+  secondOpinion: gameRecommendationSchema.optional(),
+  wasRecommendationFollowed: z.boolean().optional(),
+});
+
+const liveMatchSchema: z.ZodType<LiveMatch> = z.object({
+  id: z.string(),
+  opponentTeamId: id,
+  opponentTeamName: z.string(),
+  scheduledDate: date,
+  ourPlayersPresent: z.array(id),
+  theirPlayersPresent: z.array(id),
+  coinTossWinner: z.enum(['us', 'them']).nullable(),
+  weThrowFirst: z.boolean().nullable(),
+  games: z.array(liveGameSchema),
+  currentGame: z.number(),
+  ourScore: z.number(),
+  theirScore: z.number(),
+  ourMatchPoints: z.number(),
+  theirMatchPoints: z.number(),
+  status: z.enum(['setup', 'attendance', 'coin_toss', 'in_progress', 'completed']),
+  format: formatSchema.optional(),
+  ourTeamId: id.optional(),
+});
+
+const configSchema: z.ZodType<AppConfig> = z.object({
+  id: z.string(),
+  ourTeamId: id,
+  ourTeamNumber: z.string(),
+  ourTeamName: z.string(),
+  divisionId: id,
+  divisionName: z.string().optional(),
+  leagueId: id.optional(),
+  leagueSlug: z.string().optional(),
+  format: formatSchema,
+});
+
+const divisionSchema: z.ZodType<Division> = z.object({
+  id,
+  name: z.string().optional(),
+  sessionId: z.string().optional(),
+  sessionName: z.string().optional(),
+  leagueId: id.optional(),
+  format: formatSchema,
+});
+
+const freshnessSchema: z.ZodType<FreshnessRecord> = z.object({
+  entityType: z.enum(['team', 'player', 'match', 'member', 'alias']),
+  entityId: id,
+  fetchedAt: date,
+  pending: z.boolean().optional(),
+});
+
+// Tables missing from a bundle import as empty, so a bundle from before a table existed still loads
+const rows = <T>(schema: z.ZodType<T>) => z.array(schema).default([]);
+
+export const backupBundleSchema = z.object({
+  app: z.literal('matchup'),
+  version: z.number().int().min(1).max(BACKUP_VERSION),
+  schemaVersion: z.number(),          // Database version it was exported from - informational
+  exportedAt: date,
+  tables: z.object({
+    teams: rows(teamSchema),
+    players: rows(playerSchema),
+    playerStats: rows(playerStatsSchema),
+    playerMatchRecords: rows(playerMatchRecordSchema),
+    playerSessionStats: rows(playerSessionStatsSchema),
+    matches: rows(matchSchema),
+    gameResults: rows(gameResultSchema),
+    liveMatches: rows(liveMatchSchema),
+    config: rows(configSchema),
+    divisions: rows(divisionSchema),
+    freshness: rows(freshnessSchema),
+  }),
+  // What the persisted stores hold that's worth carrying to a new phone - never the APA sign-in
+  preferences: z.object({
+    ourTeamId: id.nullable(),
+    recommendationMode: z.enum(['local', 'ai', 'hybrid']),
+    optimizerObjective: z.enum(['team_points', 'match_win']),
+    counterPickAssumption: z.enum(['best_counter', 'mixed', 'habits']),
+  }).partial().default({}),
+});
+
+export type BackupBundle = z.infer<typeof backupBundleSchema>;
+export type BackupTables = BackupBundle['tables'];
+export type BackupPreferences = BackupBundle['preferences'];
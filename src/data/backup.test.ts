@@ -0,0 +1,49 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db } from './db';
+import { exportBackup, importBackup, parseBackup } from './backup';
+
+const playedAt = new Date(Date.UTC(2025, 8, 16));
+
+async function seed(): Promise<void> {
+  await db.teams.put({ id: 7, number: '40103', name: 'Rack City', divisionId: 9, format: 'NINE', isOurTeam: true });
+  await db.players.put({
+    id: 1, aliasId: 0, memberId: 101, memberNumber: '101', name: 'Player 1', skillLevel: 5, teamId: 7,
+    matchesPlayed: 4, matchesWon: 2, ppm: 12, pa: 0.5, winPct: 50,
+  });
+  await db.playerStats.add({
+    playerId: 1, sessionId: 'fall-2025', skillLevel: 5, matchesPlayed: 4, matchesWon: 2,
+    gamesPlayed: 4, gamesWon: 2, totalPoints: 48, pointsAwarded: 48, ppm: 12, winPct: 50,
+  });
+  await db.gameResults.add({
+    matchId: 501, gameNumber: 0, playerId: 1, playerName: 'Player 1', playerTeamId: 7, playerSkillLevel: 5,
+    opponentId: 2, opponentName: 'Player 2', opponentTeamId: 8, opponentSkillLevel: 5,
+    pointsScored: 38, pointsNeeded: 38, won: true, playedAt,
+  });
+  await db.config.put({ id: 'team-7', ourTeamId: 7, ourTeamNumber: '40103', ourTeamName: 'Rack City', divisionId: 9, format: 'NINE' });
+  await db.freshness.put({ entityType: 'team', entityId: 7, fetchedAt: playedAt });
+}
+
+describe('importBackup', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map(table => table.clear()));
+  });
+
+  it('adds only what the device is missing, so restoring twice adds nothing the second time', async () => {
+    await seed();
+    const bundle = parseBackup(JSON.stringify(await exportBackup({ recommendationMode: 'local' })));
+    await Promise.all(db.tables.map(table => table.clear()));
+
+    const first = await importBackup(bundle);
+    expect(first.added).toMatchObject({ teams: 1, players: 1, playerStats: 1, gameResults: 1, config: 1, freshness: 1 });
+    expect(await db.headToHead.count()).toBe(2);
+
+    const second = await importBackup(bundle);
+    expect(Object.keys(second.added)).toHaveLength(11);
+    expect(Object.values(second.added).every(n => n === 0)).toBe(true);
+    expect(second.kept).toBe(6);
+    expect(second.preferences).toEqual({ recommendationMode: 'local' });
+    expect(await db.gameResults.count()).toBe(1);
+    expect(await db.playerStats.count()).toBe(1);
+  });
+});
@@ -0,0 +1,126 @@
+// Backup and restore for everything the app keeps on this device
+// A bundle holds every synced table, the completed match history and the preferences from the
+// persisted stores. Restoring merges rather than replaces: rows already on this device win, and
+// a fresh sync is what updates them. Sync bookkeeping (status, outbox) and head-to-head, which
+// is rebuilt from game results, are left out.
+
+import type { Table } from 'dexie';
+import { db } from './db';
+import { SCHEMA_VERSION } from './migrations';
+import { BACKUP_VERSION, backupBundleSchema, type BackupBundle, type BackupPreferences, type BackupTables } from './backup-schema';
+import { buildHeadToHeadRecords } from '../scraper/data-transformer';
+
+export type { BackupBundle, BackupPreferences } from './backup-schema';
+
+export class BackupError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+    this.issues = issues;
+  }
+}
+
+export interface ImportSummary {
+  added: Partial<Record<keyof BackupTables, number>>;
+  kept: number;                 // Rows in the bundle that were already on this device
+  preferences: BackupPreferences;
+}
+
+export async function exportBackup(preferences: BackupPreferences): Promise<BackupBundle> {
+  return {
+    app: 'matchup',
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date(),
+    tables: {
+      teams: await db.teams.toArray(),
+      players: await db.players.toArray(),
+      playerStats: await db.playerStats.toArray(),
+      playerMatchRecords: await db.playerMatchRecords.toArray(),
+      playerSessionStats: await db.playerSessionStats.toArray(),
+      matches: await db.matches.toArray(),
+      gameResults: await db.gameResults.toArray(),
+      liveMatches: await db.liveMatches.where('status').equals('completed').toArray(),
+      config: await db.config.toArray(),
+      divisions: await db.divisions.toArray(),
+      freshness: await db.freshness.toArray(),
+    },
+    preferences,
+  };
+}
+
+// Read a bundle from a file's text, rejecting anything that isn't a valid bundle
+export function parseBackup(text: string): BackupBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupError("This file isn't a MatchUp backup (not JSON)");
+  }
+
+  const result = backupBundleSchema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issues = result.error.issues.map(issue =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+  if (issues.length > 0 && result.error.issues.every(issue => issue.path[0] === 'version')) {
+    throw new BackupError(`This backup is from a newer version of the app - update before restoring it`, issues);
+  }
+  console.error('Invalid backup:', issues);
+  throw new BackupError(`This backup can't be restored: ${issues[0]}`, issues);
+}
+
+// Add the bundle's rows that this device doesn't have yet. Synced rows match on their APA
+// ids; rows with local ids match on what they describe, since the ids differ between devices.
+export async function importBackup(bundle: BackupBundle): Promise<ImportSummary> {
+  const { tables } = bundle;
+  const added: ImportSummary['added'] = {};
+  let kept = 0;
+
+  const merge = async <T>(name: keyof BackupTables, table: Table<T>, rows: T[], keyOf: (row: T) => string) => {
+    const stored = new Set((await table.toArray()).map(keyOf));
+    const missing = new Map<string, T>();
+    for (const row of rows) {
+      const key = keyOf(row);
+      if (!stored.has(key)) missing.set(key, row);
+    }
+    await table.bulkAdd([...missing.values()]);
+    added[name] = missing.size;
+    kept += rows.length - missing.size;
+  };
+
+  // Local auto-increment ids would collide with this device's own
+  const withoutId = <T extends { id?: number }>(rows: T[]): T[] => rows.map(row => ({ ...row, id: undefined }));
+
+  await db.transaction('rw', [
+    db.teams, db.players, db.playerStats, db.playerMatchRecords, db.playerSessionStats, db.matches,
+    db.gameResults, db.headToHead, db.liveMatches, db.config, db.divisions, db.freshness,
+  ], async () => {
+    await merge('teams', db.teams, tables.teams, t => `${t.id}`);
+    await merge('players', db.players, tables.players, p => `${p.id}`);
+    await merge('playerMatchRecords', db.playerMatchRecords, tables.playerMatchRecords, r => `${r.id}`);
+    await merge('matches', db.matches, tables.matches, m => `${m.id}`);
+    await merge('divisions', db.divisions, tables.divisions, d => `${d.id}`);
+    await merge('playerStats', db.playerStats, withoutId(tables.playerStats), s => `${s.playerId}-${s.sessionId}`);
+    await merge('playerSessionStats', db.playerSessionStats, withoutId(tables.playerSessionStats), s => `${s.playerId}-${s.sessionId}`);
+    // Same key the sync uses to keep one result per pairing per match
+    await merge('gameResults', db.gameResults, withoutId(tables.gameResults), r => `${r.matchId}-${r.playerId}-${r.opponentId}`);
+    await merge('liveMatches', db.liveMatches, tables.liveMatches, m => `${m.id}`);
+    await merge('config', db.config, tables.config, c => `${c.id}`);
+    await merge('freshness', db.freshness, tables.freshness, f => `${f.entityType}-${f.entityId}`);
+
+    if (added.gameResults) {
+      await db.headToHead.clear();
+      await db.headToHead.bulkAdd(buildHeadToHeadRecords(await db.gameResults.toArray()));
+    }
+  });
+
+  return { added, kept, preferences: bundle.preferences };
+}
+
+export function backupFileName(date = new Date()): string {
+  return `matchup-backup-${date.toISOString().slice(0, 10)}.json`;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  const columns: Array<[string, (row: { name: string; points: number }) => string | number]> = [
+    ['Name', r => r.name],
+    ['Points', r => r.points],
+  ];
+
+  it('quotes commas, quotes and line breaks', () => {
+    expect(toCsv([{ name: 'Smith, "Slim"', points: 12 }], columns)).toBe('Name,Points\r\n"Smith, ""Slim""",12\r\n');
+  });
+
+  it('keeps names a spreadsheet would run as formulas as text', () => {
+    const rows = ['=HYPERLINK("x")', '+1', '-SUM(A1)', '@cmd'].map(name => ({ name, points: -3 }));
+    expect(toCsv(rows, columns).split('\r\n').slice(1, 5)).toEqual([
+      `"'=HYPERLINK(""x"")",-3`,
+      `'+1,-3`,
+      `'-SUM(A1),-3`,
+      `'@cmd,-3`,
+    ]);
+  });
+});
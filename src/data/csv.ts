@@ -0,0 +1,86 @@
+// CSV exports for spreadsheets
+// One row per player, match or game result, with team names filled in so the sheet reads on
+// its own. Dates are written as YYYY-MM-DD, which every spreadsheet parses.
+
+import { db } from './db';
+import type { GameResult, Match, Player } from './types';
+
+type Column<T> = [header: string, value: (row: T) => string | number | boolean | null | undefined];
+
+// Text a spreadsheet would run as a formula. Names are typed by users, so they're kept as text.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(rows: T[], columns: Column<T>[]): string {
+  const lines = [
+    columns.map(([header]) => escapeCell(header)).join(','),
+    ...rows.map(row => columns.map(([, value]) => escapeCell(value(row))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+const day = (date: Date | undefined) => (date ? new Date(date).toISOString().slice(0, 10) : '');
+
+async function teamNames(): Promise<Map<number, string>> {
+  return new Map((await db.teams.toArray()).map(t => [t.id, t.name]));
+}
+
+export async function exportPlayersCsv(): Promise<string> {
+  const names = await teamNames();
+  const players = (await db.players.toArray())
+    .sort((a, b) => (names.get(a.teamId) ?? '').localeCompare(names.get(b.teamId) ?? '') || a.name.localeCompare(b.name));
+  return toCsv<Player>(players, [
+    ['Player ID', p => p.id],
+    ['Member Number', p => p.memberNumber],
+    ['Name', p => p.name],
+    ['Team', p => names.get(p.teamId)],
+    ['Skill Level', p => p.skillLevel],
+    ['Matches Played', p => p.matchesPlayed],
+    ['Matches Won', p => p.matchesWon],
+    ['Win %', p => p.winPct.toFixed(1)],
+    ['PPM', p => p.ppm.toFixed(2)],
+    ['PA %', p => (p.pa * 100).toFixed(1)],
+    ['Lifetime Played', p => p.lifetimeMatchesPlayed],
+    ['Lifetime Won', p => p.lifetimeMatchesWon],
+  ]);
+}
+
+export async function exportMatchesCsv(): Promise<string> {
+  const matches = (await db.matches.toArray())
+    .sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime());
+  return toCsv<Match>(matches, [
+    ['Match ID', m => m.id],
+    ['Date', m => day(m.scheduledDate)],
+    ['Week', m => m.week],
+    ['Home Team', m => m.homeTeamName],
+    ['Away Team', m => m.awayTeamName],
+    ['Home Points', m => m.homePoints],
+    ['Away Points', m => m.awayPoints],
+    ['Status', m => m.status],
+    ['Location', m => m.hostLocationName],
+  ]);
+}
+
+export async function exportGameResultsCsv(): Promise<string> {
+  const names = await teamNames();
+  const results = (await db.gameResults.toArray())
+    .sort((a, b) => new Date(a.playedAt).getTime() - new Date(b.playedAt).getTime() || a.matchId - b.matchId);
+  return toCsv<GameResult>(results, [
+    ['Match ID', r => r.matchId],
+    ['Date', r => day(r.playedAt)],
+    ['Player', r => r.playerName],
+    ['Team', r => names.get(r.playerTeamId)],
+    ['Skill Level', r => r.playerSkillLevel],
+    ['Opponent', r => r.opponentName],
+    ['Opponent Team', r => names.get(r.opponentTeamId)],
+    ['Opponent Skill Level', r => r.opponentSkillLevel],
+    ['Points', r => r.pointsScored],
+    ['Points Needed', r => r.pointsNeeded],
+    ['Won', r => (r.won ? 'Y' : 'N')],
+  ]);
+}
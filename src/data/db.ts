@@ -1,4 +1,4 @@
-import Dexie, { type EntityTable } from 'dexie';
+import Dexie, { type EntityTable, type Table } from 'dexie';
 import type {
   Team,
   Player,
@@ -12,7 +12,12 @@ import type {
   LiveMatch,
   AppConfig,
   Division,
+  FreshnessRecord,
+  SyncEntity,
+  OutboxItem,
+  OutboxOperation,
 } from './types';
+import { applyMigrations } from './migrations';
 
 // Define the database
 class MatchUpDatabase extends Dexie {
@@ -28,25 +33,12 @@ class MatchUpDatabase extends Dexie {
   liveMatches!: EntityTable<LiveMatch, 'id'>;
   config!: EntityTable<AppConfig, 'id'>;
   divisions!: EntityTable<Division, 'id'>;
+  freshness!: Table<FreshnessRecord, [SyncEntity, number]>;
+  outbox!: EntityTable<OutboxItem, 'id'>;
 
   constructor() {
     super('MatchUpDB');
-    
-    // Version 4: Added aliasId to players for lifetime stats
-    this.version(4).stores({
-      teams: 'id, number, divisionId, isOurTeam',
-      players: 'id, aliasId, memberId, memberNumber, teamId',
-      playerStats: '++id, playerId, sessionId, [playerId+sessionId]',
-      playerMatchRecords: 'id, playerId, opponentId, datePlayed',
-      playerSessionStats: '++id, playerId, memberId, sessionId, [playerId+sessionId]',
-      matches: 'id, divisionId, homeTeamId, awayTeamId, week, scheduledDate',
-      gameResults: '++id, matchId, playerId, opponentId, [playerId+opponentId]',
-      headToHead: '++id, [playerId+opponentId]',
-      syncStatus: 'id',
-      liveMatches: 'id, status',
-      config: 'id',
-      divisions: 'id',
-    });
+    applyMigrations(this);
   }
 }
 
@@ -134,12 +126,49 @@ export async function getAllMatches(): Promise<Match[]> {
   return await db.matches.toArray();
 }
 
-export async function getConfig(): Promise<AppConfig | undefined> {
-  return await db.config.get('main');
+export function profileId(teamId: number): string {
+  return `team-${teamId}`;
 }
 
-export async function saveConfig(config: Omit<AppConfig, 'id'>): Promise<void> {
-  await db.config.put({ ...config, id: 'main' });
+export async function getProfiles(): Promise<AppConfig[]> {
+  return await db.config.toArray();
+}
+
+export async function getProfile(teamId: number): Promise<AppConfig | undefined> {
+  return await db.config.get(profileId(teamId));
+}
+
+// Replace the saved profiles with the teams the user picked
+export async function saveProfiles(profiles: Omit<AppConfig, 'id'>[]): Promise<void> {
+  await db.transaction('rw', db.config, async () => {
+    await db.config.clear();
+    await db.config.bulkPut(profiles.map(p => ({ ...p, id: profileId(p.ourTeamId) })));
+  });
+}
+
+export async function getFreshness(entityType: SyncEntity): Promise<Map<number, FreshnessRecord>> {
+  const records = await db.freshness.where('entityType').equals(entityType).toArray();
+  return new Map(records.map(r => [r.entityId, r]));
+}
+
+export async function markFresh(entityType: SyncEntity, entityIds: number[], fetchedAt = new Date()): Promise<void> {
+  await db.freshness.bulkPut(entityIds.map(entityId => ({ entityType, entityId, fetchedAt })));
+}
+
+// Oldest first, the order they'll be replayed in
+export async function getOutbox(): Promise<OutboxItem[]> {
+  return await db.outbox.orderBy('id').toArray();
+}
+
+export async function queueOutbox(key: string, operation: OutboxOperation): Promise<void> {
+  await db.transaction('rw', db.outbox, async () => {
+    await db.outbox.where('key').equals(key).delete();
+    await db.outbox.add({ key, operation, queuedAt: new Date() });
+  });
+}
+
+export async function removeOutboxItem(key: string): Promise<void> {
+  await db.outbox.where('key').equals(key).delete();
 }
 
 export async function getSyncStatus(): Promise<SyncStatus> {
@@ -163,15 +192,22 @@ export async function updateSyncStatus(updates: Partial<SyncStatus>): Promise<vo
   });
 }
 
+// Start over: every synced table, the team profiles and anything queued. Completed live
+// matches are our own history, not synced data - they stay.
 export async function clearAllData(): Promise<void> {
   await Promise.all([
     db.teams.clear(),
     db.players.clear(),
     db.playerStats.clear(),
+    db.playerMatchRecords.clear(),
+    db.playerSessionStats.clear(),
     db.matches.clear(),
     db.gameResults.clear(),
     db.headToHead.clear(),
-    db.liveMatches.clear(),
+    db.freshness.clear(),
+    db.config.clear(),
+    db.divisions.clear(),
+    db.outbox.clear(),
   ]);
   await updateSyncStatus({
     lastSyncTime: null,
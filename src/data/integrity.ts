@@ -0,0 +1,112 @@
+// Integrity checks for the local database
+// Synced tables reference each other by APA id with nothing enforcing it, so an interrupted
+// sync, a team dropped from a division or an old bug can leave rows pointing at nothing.
+// The checker only reports; removeOrphans() deletes what it found. Live matches are our own
+// history and are never touched.
+
+import { db } from './db';
+import { SCHEMA_VERSION } from './migrations';
+import type { SyncEntity } from './types';
+
+export type IntegrityIssueKind =
+  | 'player-without-team'
+  | 'match-without-teams'
+  | 'record-without-player'
+  | 'result-without-player'
+  | 'head-to-head-without-player'
+  | 'freshness-without-row';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  table: 'players' | 'matches' | 'playerMatchRecords' | 'gameResults' | 'headToHead' | 'freshness';
+  keys: Array<number | [string, number]>;
+  description: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: Date;
+  schemaVersion: number;
+  issues: IntegrityIssue[];
+}
+
+export async function checkIntegrity(): Promise<IntegrityReport> {
+  const [teams, players, matches, records, results, headToHead, freshness] = await Promise.all([
+    db.teams.toArray(),
+    db.players.toArray(),
+    db.matches.toArray(),
+    db.playerMatchRecords.toArray(),
+    db.gameResults.toArray(),
+    db.headToHead.toArray(),
+    db.freshness.toArray(),
+  ]);
+  const teamIds = new Set(teams.map(t => t.id));
+  const playerIds = new Set(players.map(p => p.id));
+  const matchIds = new Set(matches.map(m => m.id));
+  const issues: IntegrityIssue[] = [];
+
+  const report = (issue: Omit<IntegrityIssue, 'description'>, description: (count: number) => string) => {
+    if (issue.keys.length > 0) issues.push({ ...issue, description: description(issue.keys.length) });
+  };
+
+  report(
+    { kind: 'player-without-team', table: 'players', keys: players.filter(p => !teamIds.has(p.teamId)).map(p => p.id) },
+    n => `${n} player${n === 1 ? '' : 's'} on a team that isn't stored`
+  );
+  // One missing side is just an opponent that hasn't synced - neither means the match is stranded
+  report(
+    {
+      kind: 'match-without-teams',
+      table: 'matches',
+      keys: matches.filter(m => !teamIds.has(m.homeTeamId) && !teamIds.has(m.awayTeamId)).map(m => m.id),
+    },
+    n => `${n} match${n === 1 ? '' : 'es'} between teams that aren't stored`
+  );
+  report(
+    { kind: 'record-without-player', table: 'playerMatchRecords', keys: records.filter(r => !playerIds.has(r.playerId)).map(r => r.id) },
+    n => `${n} match history record${n === 1 ? '' : 's'} for players that aren't stored`
+  );
+  report(
+    {
+      kind: 'result-without-player',
+      table: 'gameResults',
+      keys: results.filter(r => r.id !== undefined && !playerIds.has(r.playerId)).map(r => r.id!),
+    },
+    n => `${n} game result${n === 1 ? '' : 's'} for players that aren't stored`
+  );
+  report(
+    {
+      kind: 'head-to-head-without-player',
+      table: 'headToHead',
+      keys: headToHead.filter(h => h.id !== undefined && !playerIds.has(h.playerId)).map(h => h.id!),
+    },
+    n => `${n} head-to-head record${n === 1 ? '' : 's'} for players that aren't stored`
+  );
+
+  // Freshness for something that's gone would stop the next sync from fetching it again
+  const stored: Partial<Record<SyncEntity, Set<number>>> = { team: teamIds, player: playerIds, match: matchIds };
+  report(
+    {
+      kind: 'freshness-without-row',
+      table: 'freshness',
+      keys: freshness
+        .filter(f => stored[f.entityType]?.has(f.entityId) === false)
+        .map(f => [f.entityType, f.entityId] as [string, number]),
+    },
+    n => `${n} sync timestamp${n === 1 ? '' : 's'} for teams, players or matches that aren't stored`
+  );
+
+  return { checkedAt: new Date(), schemaVersion: SCHEMA_VERSION, issues };
+}
+
+// Delete the rows a check turned up. Returns how many went.
+export async function removeOrphans(report: IntegrityReport): Promise<number> {
+  let removed = 0;
+  await db.transaction('rw', [db.players, db.matches, db.playerMatchRecords, db.gameResults, db.headToHead, db.freshness], async () => {
+    for (const issue of report.issues) {
+      // bulkDelete takes the table's own key type; the checker built them from the same table
+      await db.table(issue.table).bulkDelete(issue.keys);
+      removed += issue.keys.length;
+    }
+  });
+  return removed;
+}
@@ -0,0 +1,63 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it } from 'vitest';
+import { applyMigrations, MIGRATIONS, SCHEMA_VERSION } from './migrations';
+
+const NAME = 'MigrationTestDB';
+
+afterEach(() => Dexie.delete(NAME));
+
+// A database as an install on version 4 left it
+async function createVersion4(): Promise<void> {
+  const old = new Dexie(NAME);
+  applyMigrations(old, MIGRATIONS.filter(m => m.version <= 4));
+  await old.open();
+  await old.table('config').put({
+    id: 'main',
+    ourTeamId: 12010455,
+    ourTeamNumber: '40103',
+    ourTeamName: 'Rack City',
+    divisionId: 338802,
+  });
+  await old.table('players').bulkPut([
+    { id: 1, memberId: 101, memberNumber: '101', name: 'Old Timer', skillLevel: 5, teamId: 12010455, matchesPlayed: 8, matchesWon: 6, ppm: 12, pa: 0.6 },
+    { id: 2, memberId: 102, memberNumber: '102', name: 'New Face', skillLevel: 3, teamId: 12010455, matchesPlayed: 0, matchesWon: 0, ppm: 0, pa: 0 },
+  ]);
+  await old.table('teams').put({ id: 12010455, number: '40103', name: 'Rack City', divisionId: 338802, lastSynced: new Date(2025, 8, 1) });
+  await old.table('liveMatches').put({
+    id: 'match-1',
+    status: 'completed',
+    games: [{ gameNumber: 1, ourPlayerId: 1, theirPlayerId: 11, result: 'win', ourMatchPoints: 15, theirMatchPoints: 5 }],
+  });
+  old.close();
+}
+
+describe('migrations', () => {
+  it('upgrades a version 4 database without losing its match history', async () => {
+    await createVersion4();
+
+    const db = new Dexie(NAME);
+    applyMigrations(db);
+    await db.open();
+    expect(db.verno).toBe(SCHEMA_VERSION);
+
+    // The single 'main' config row became a team profile
+    expect(await db.table('config').get('main')).toBeUndefined();
+    expect(await db.table('config').get('team-12010455')).toMatchObject({ ourTeamId: 12010455, ourTeamName: 'Rack City' });
+
+    const players = await db.table('players').toArray();
+    expect(players.map(p => [p.id, p.aliasId, p.winPct])).toEqual([[1, 0, 75], [2, 0, 0]]);
+
+    expect(await db.table('teams').get(12010455)).toMatchObject({ format: 'NINE', isOurTeam: false });
+    expect(await db.table('freshness').get(['team', 12010455])).toMatchObject({ fetchedAt: new Date(2025, 8, 1) });
+
+    expect(await db.table('liveMatches').get('match-1')).toMatchObject({
+      format: 'NINE',
+      ourTeamId: 12010455,
+      ourMatchPoints: 15,
+      theirMatchPoints: 5,
+      games: [{ gameNumber: 1, ourPlayerId: 1, result: 'win' }],
+    });
+    db.close();
+  });
+});
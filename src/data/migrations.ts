@@ -0,0 +1,129 @@
+// Versioned schema for MatchUpDB
+// Each step lists only the tables it adds or re-indexes (Dexie carries the rest forward) and
+// can carry an upgrade that runs once, inside the version change, for databases coming from an
+// older version. Steps are never edited once shipped - a fix is a new version. Upgrades see
+// rows as they were saved, so they must cope with anything missing.
+
+import type { Dexie, Transaction } from 'dexie';
+import type { AppConfig, FreshnessRecord, LiveMatch, Player, Team } from './types';
+import { getTeamMatchPoints } from '../engine/match-points';
+
+export interface Migration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>;
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // Oldest schema still declared - versions 1-3 had no upgrades, so Dexie moves them here
+    // directly and the backfill in version 8 fills in what they're missing
+    version: 4,
+    description: 'Added aliasId to players for lifetime stats',
+    stores: {
+      teams: 'id, number, divisionId, isOurTeam',
+      players: 'id, aliasId, memberId, memberNumber, teamId',
+      playerStats: '++id, playerId, sessionId, [playerId+sessionId]',
+      playerMatchRecords: 'id, playerId, opponentId, datePlayed',
+      playerSessionStats: '++id, playerId, memberId, sessionId, [playerId+sessionId]',
+      matches: 'id, divisionId, homeTeamId, awayTeamId, week, scheduledDate',
+      gameResults: '++id, matchId, playerId, opponentId, [playerId+opponentId]',
+      headToHead: '++id, [playerId+opponentId]',
+      syncStatus: 'id',
+      liveMatches: 'id, status',
+      config: 'id',
+      divisions: 'id',
+    },
+  },
+  {
+    version: 5,
+    description: "One config row per team profile instead of a single 'main' row",
+    stores: {},
+    upgrade: async tx => {
+      const legacy = await tx.table<AppConfig, string>('config').get('main');
+      if (!legacy) return;
+      await tx.table('config').delete('main');
+      await tx.table('config').put({ ...legacy, id: `team-${legacy.ourTeamId}` });   // profileId()
+    },
+  },
+  {
+    version: 6,
+    description: 'Per-entity last-fetched times for incremental sync',
+    stores: {
+      freshness: '[entityType+entityId], entityType',
+    },
+  },
+  {
+    version: 7,
+    description: 'Syncs and backend writes queued while offline',
+    stores: {
+      outbox: '++id, &key',
+    },
+  },
+  {
+    version: 8,
+    description: 'Backfill fields added after rows were first saved',
+    stores: {},
+    upgrade: backfillFields,
+  },
+];
+
+// Fields that were bolted on without touching existing rows: fill them in from what the row
+// (or the rest of the database) already knows, so nothing downstream needs a fallback
+async function backfillFields(tx: Transaction): Promise<void> {
+  await tx.table<Player, number>('players').toCollection().modify(player => {
+    player.aliasId ??= 0;
+    if (!Number.isFinite(player.winPct)) {
+      player.winPct = player.matchesPlayed > 0 ? (player.matchesWon / player.matchesPlayed) * 100 : 0;
+    }
+    if (player.lifetimeMatchesPlayed !== undefined && player.lifetimeWinPct === undefined) {
+      player.lifetimeWinPct = player.lifetimeMatchesPlayed > 0
+        ? ((player.lifetimeMatchesWon ?? 0) / player.lifetimeMatchesPlayed) * 100
+        : 0;
+    }
+  });
+
+  // Everything before 8-ball support was 9-ball
+  await tx.table<Team, number>('teams').toCollection().modify(team => {
+    team.format ??= 'NINE';
+    team.isOurTeam ??= false;
+  });
+
+  // Matches from before team profiles belong to the one team there was, if there's still just one
+  const profiles = await tx.table<AppConfig, string>('config').toArray();
+  const onlyTeamId = profiles.length === 1 ? profiles[0].ourTeamId : undefined;
+  await tx.table<LiveMatch, string>('liveMatches').toCollection().modify(match => {
+    match.format ??= 'NINE';
+    if (match.ourTeamId === undefined && onlyTeamId !== undefined) {
+      match.ourTeamId = onlyTeamId;
+    }
+    if (match.ourMatchPoints === undefined || match.theirMatchPoints === undefined) {
+      const points = getTeamMatchPoints(match.games ?? []);
+      match.ourMatchPoints = points.ours;
+      match.theirMatchPoints = points.theirs;
+    }
+  });
+
+  // Rosters synced before freshness tracking would otherwise read as never synced
+  const freshness = tx.table<FreshnessRecord, [string, number]>('freshness');
+  const tracked = new Set(
+    (await freshness.where('entityType').equals('team').toArray()).map(r => r.entityId)
+  );
+  const untracked = (await tx.table<Team, number>('teams').toArray())
+    .filter(team => team.lastSynced && !tracked.has(team.id));
+  await freshness.bulkPut(untracked.map(team => ({
+    entityType: 'team' as const,
+    entityId: team.id,
+    fetchedAt: new Date(team.lastSynced!),
+  })));
+}
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function applyMigrations(db: Dexie, migrations: Migration[] = MIGRATIONS): void {
+  for (const { version, stores, upgrade } of migrations) {
+    const declared = db.version(version).stores(stores);
+    if (upgrade) declared.upgrade(upgrade);
+  }
+}
@@ -1,5 +1,7 @@
 // Core data types for APA Match-Up App
 
+export type GameFormat = 'NINE' | 'EIGHT';
+
 export interface Team {
   id: number; // Internal APA ID (e.g., 12851377)
   number: string; // Team number (e.g., "84301")
@@ -7,7 +9,7 @@ export interface Team {
   divisionId: number;
   leagueId?: number;
   leagueSlug?: string;
-  format: 'NINE' | 'EIGHT';
+  format: GameFormat;
   isOurTeam: boolean;
   sessionPoints?: number;
   lastSynced?: Date;
@@ -47,6 +49,8 @@ export interface PlayerMatchRecord {
   opponentName: string;
   opponentSkillLevel: number;
   matchWeek?: number;
+  matchId?: number;
+  teamId?: number;
 }
 
 // Session history for a player (stats per session)
@@ -133,11 +137,20 @@ export interface HeadToHead {
   totalGames: number;
   wins: number;
   losses: number;
-  avgPointsScored: number;
-  avgPointsNeeded: number;
+  avgPointsScored?: number;     // Missing until a game is seen from this player's side with its points
+  avgPointsNeeded?: number;
   lastPlayed: Date;
 }
 
+// Posterior skill estimate from the rating model, on top of what the handicap already accounts for
+export interface PlayerRating {
+  playerId: number;
+  rating: number;       // 1500 = plays exactly to their skill level
+  deviation: number;    // Rating uncertainty (one standard deviation)
+  gamesPlayed: number;
+  lastPlayed?: Date;
+}
+
 export interface SyncStatus {
   id: string;
   lastSyncTime: Date | null;
@@ -148,6 +161,51 @@ export interface SyncStatus {
   matchesCount: number;
 }
 
+// What the sync planner tracks freshness for
+export type SyncEntity =
+  | 'team'      // Roster
+  | 'schedule'  // A division team's schedule - pulled every sync, never marked fresh
+  | 'player'    // Match history
+  | 'match'     // Game results captured once the match is scored
+  | 'member'    // Member -> alias lookup
+  | 'alias';    // Lifetime stats
+
+export interface FreshnessRecord {
+  entityType: SyncEntity;
+  entityId: number;
+  fetchedAt: Date;              // Last successful fetch (for matches: when first seen scored)
+  pending?: boolean;            // Matches: scored but results not fully pulled yet
+}
+
+// Something a sync couldn't fetch, and why
+export interface SyncFailure {
+  entityType: SyncEntity;
+  entityId: number;
+  label: string;                // Team or player name where we know it
+  reason: string;
+}
+
+export interface SyncReport {
+  startedAt: Date;
+  finishedAt: Date | null;
+  fetched: Partial<Record<SyncEntity, number>>;
+  failures: SyncFailure[];
+  stoppedEarly: string | null;  // Why the run ended before finishing, e.g. token expiry
+}
+
+// Network work that couldn't run offline, replayed once the connection is back
+export type OutboxOperation =
+  | { kind: 'sync'; forceRefresh: boolean }
+  | { kind: 'pull-shared' }
+  | { kind: 'shared-sync'; divisionId: number; teamId: number; enabled: boolean };
+
+export interface OutboxItem {
+  id?: number;
+  key: string;                  // Queuing the same key again replaces the earlier item
+  operation: OutboxOperation;
+  queuedAt: Date;
+}
+
 // Match night types
 export type MatchStatus = 'setup' | 'attendance' | 'coin_toss' | 'in_progress' | 'completed';
 
@@ -162,26 +220,67 @@ export interface LiveMatch {
   weThrowFirst: boolean | null;
   games: LiveGame[];
   currentGame: number;
-  ourScore: number;
+  ourScore: number;             // Games won
   theirScore: number;
+  ourMatchPoints: number;       // Team points from the APA points-awarded chart
+  theirMatchPoints: number;
   status: MatchStatus;
+  format?: GameFormat;          // Missing on matches started before 8-ball support (9-ball)
+  ourTeamId?: number;           // Missing on matches started before team profiles
 }
 
 export interface LiveGame {
   gameNumber: number;
   ourPlayerId: number | null;
   theirPlayerId: number | null;
+  ourSkillLevel?: number;       // Each player's SL when thrown - missing on games recorded before it was kept
+  theirSkillLevel?: number;
   result: 'win' | 'loss' | 'pending';
   ourPoints?: number;
   theirPoints?: number;
-  recommendation?: MatchupRecommendation;
+  ourPointsNeeded?: number;     // Set once live scoring starts for the game
+  theirPointsNeeded?: number;
+  racks?: RackScore[];          // Rack-by-rack detail when the game was scored live
+  ourMatchPoints?: number;      // Set once the game is over and the loser's score is known
+  theirMatchPoints?: number;
+  recommendation?: GameRecommendation;       // The pick we were told to throw
+  secondOpinion?: GameRecommendation;        // The other source's pick in hybrid mode
   wasRecommendationFollowed?: boolean;
 }
 
+// A suggestion shown for a game, kept with it so we can see how following it worked out
+export interface GameRecommendation {
+  source: 'engine' | 'ai';
+  playerId: number;
+  playerName: string;
+  winProbability: number;
+  confidence: 'low' | 'medium' | 'high';
+  opponentId?: number;          // Who they threw, when the pick was a counter
+}
+
+// One 9-ball rack: 10 points on the table (1 per ball, 2 for the 9), minus dead balls
+export interface RackScore {
+  rackNumber: number;
+  ourPoints: number;
+  theirPoints: number;
+  deadBalls: number;
+  innings: number;
+  ourDefensiveShots: number;
+  theirDefensiveShots: number;
+}
+
 export interface MatchupRecommendation {
   playerId: number;
   playerName: string;
   winProbability: number;
+  matchWinProbability?: number; // From the whole-match optimizer, when available
+  expectedTeamPoints?: number;  // Team points the optimizer expects us to finish the match with
+  expectedCounter?: {           // Throwing blind: who they're expected to answer with
+    playerId: number;
+    playerName: string;
+    likelihood: number;
+    winProbability: number;     // Ours against them
+  };
   confidence: number;
   reasoning: string[];
   factors: {
@@ -193,11 +292,21 @@ export interface MatchupRecommendation {
   };
 }
 
+// How the match played out over the simulated nights under one coin-toss choice
+export interface CoinTossOutcome {
+  weThrowFirst: boolean;
+  matchWinProbability: number;
+  expectedTeamPoints: number;
+  teamPointsRange: { low: number; high: number };   // Middle 80% of simulated nights
+  gamesWon: number[];           // Index = games we win (0-5) -> share of simulated nights
+}
+
 export interface CoinTossDecision {
   recommendation: 'throw_first' | 'defer';
   confidence: number;
   reasoning: string[];
   suggestedFirstPlayer?: number;
+  outcomes?: { throwFirst: CoinTossOutcome; defer: CoinTossOutcome };
 }
 
 // 9-ball specific
@@ -213,16 +322,18 @@ export interface Division {
   sessionId?: string;
   sessionName?: string;
   leagueId?: number;
-  format: 'NINE' | 'EIGHT';
+  format: GameFormat;
 }
 
-// App Config stored in DB
+// App Config stored in DB - one profile per team we play on
 export interface AppConfig {
-  id: string;
+  id: string;                   // `team-<ourTeamId>`
   ourTeamId: number;
   ourTeamNumber: string;
   ourTeamName: string;
   divisionId: number;
+  divisionName?: string;
   leagueId?: number;
-  format: 'NINE' | 'EIGHT';
+  leagueSlug?: string;
+  format: GameFormat;
 }
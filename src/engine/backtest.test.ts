@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { runBacktest } from './backtest';
+import type { GameRecommendation, LiveGame, LiveMatch } from '../data/types';
+
+const pick = (source: GameRecommendation['source'], playerId: number, winProbability: number): GameRecommendation => ({
+  source,
+  playerId,
+  playerName: `Player ${playerId}`,
+  winProbability,
+  confidence: 'medium',
+});
+
+const liveMatch = (games: LiveGame[]): LiveMatch => ({
+  id: 'match',
+  opponentTeamId: 2,
+  opponentTeamName: 'Them',
+  scheduledDate: new Date(2025, 0, 1),
+  ourPlayersPresent: [1, 2, 3, 4, 5],
+  theirPlayersPresent: [11, 12, 13, 14, 15],
+  coinTossWinner: 'us',
+  weThrowFirst: false,
+  games,
+  currentGame: 5,
+  ourScore: 0,
+  theirScore: 0,
+  ourMatchPoints: 0,
+  theirMatchPoints: 0,
+  status: 'completed',
+  format: 'NINE',
+});
+
+describe('runBacktest stored picks', () => {
+  it('scores the engine and AI picks that were thrown against how those games went', () => {
+    const games: LiveGame[] = [
+      // Engine pick thrown and won, the AI wanted someone else
+      { gameNumber: 1, ourPlayerId: 1, theirPlayerId: 11, result: 'win', recommendation: pick('engine', 1, 0.6), secondOpinion: pick('ai', 2, 0.7) },
+      // AI pick thrown and lost
+      { gameNumber: 2, ourPlayerId: 2, theirPlayerId: 12, result: 'loss', recommendation: pick('engine', 3, 0.55), secondOpinion: pick('ai', 2, 0.8) },
+      // A counter for a different opponent than they ended up throwing
+      { gameNumber: 3, ourPlayerId: 3, theirPlayerId: 13, result: 'win', recommendation: { ...pick('engine', 3, 0.5), opponentId: 14 } },
+      { gameNumber: 4, ourPlayerId: 4, theirPlayerId: 14, result: 'pending', recommendation: pick('engine', 4, 0.5) },
+    ];
+
+    const report = runBacktest({ matches: [], gameResults: [], records: [], models: [], liveMatches: [liveMatch(games)] });
+
+    expect(report.storedPicks.map(r => [r.model, r.games, r.recommendedPickWinRate])).toEqual([
+      ['Engine picks as shown', 1, 1],
+      ['AI picks as shown', 1, 0],
+    ]);
+    expect(report.storedPicks[0].brierScore).toBeCloseTo(0.16);
+    expect(report.storedPicks[1].brierScore).toBeCloseTo(0.64);
+  });
+});
@@ -0,0 +1,381 @@
+// Backtesting harness
+// Replays completed matches through win-probability models, giving each model only the
+// match history from before the night being predicted, and scores the predictions:
+// Brier score, log loss, calibration, and how often the recommended player won.
+// Picks the app actually showed during live matches, engine and AI, are scored alongside.
+
+import type { GameFormat, GameRecommendation, GameResult, HeadToHead, LiveMatch, Match, Player, PlayerMatchRecord, PlayerStats } from '../data/types';
+import { getBaseWinProbability } from './skill-level-tables';
+import { fitRatings, getRatingWinProbability } from './rating-model';
+import { calculateWinProbability, type WinProbabilityFactors } from './win-probability';
+
+// Chance that game.playerId beats game.opponentId
+export type GamePredictor = (game: GameResult) => number;
+
+export interface BacktestModel {
+  name: string;
+  // Build a predictor from the history available before `asOf`
+  train: (history: PlayerMatchRecord[], asOf: Date, teamFormats: Map<number, GameFormat>) => GamePredictor;
+}
+
+export interface BacktestInput {
+  matches: Match[];
+  gameResults: GameResult[];
+  records: PlayerMatchRecord[];
+  teamFormats?: Map<number, GameFormat>;
+  models: BacktestModel[];
+  liveMatches?: LiveMatch[];    // Scored matches whose games kept the recommendations shown
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedWinRate: number;
+}
+
+export interface ModelReport {
+  model: string;
+  games: number;
+  brierScore: number;           // Mean squared error, 0.25 = coin flip
+  logLoss: number;              // 0.693 = coin flip
+  favoriteWinRate: number;      // How often the player given > 50% won
+  calibration: CalibrationBin[];
+  recommendedPicks: number;     // Games where the player who played was the model's pick from that night's lineup
+  recommendedPickWinRate: number;
+}
+
+export interface BacktestReport {
+  matches: number;
+  games: number;
+  models: ModelReport[];
+  storedPicks: ModelReport[];   // The engine and AI picks shown during live matches, one report per source
+}
+
+export type FactorWeights = Record<keyof WinProbabilityFactors, number>;
+
+// The hand-tuned blend the engine used before the rating model
+export const LEGACY_FACTOR_WEIGHTS: FactorWeights = {
+  skillLevelAdvantage: 0.35,
+  winPercentageDelta: 0.25,
+  headToHeadRecord: 0.20,
+  recentFormTrend: 0.15,
+  ppmEfficiency: 0.05,
+};
+
+const CALIBRATION_BINS = 10;
+const RECENT_WINDOW_MS = 28 * 24 * 60 * 60 * 1000;
+const EPSILON = 1e-6;
+
+const formatOf = (game: GameResult, teamFormats: Map<number, GameFormat>): GameFormat =>
+  teamFormats.get(game.playerTeamId) ?? 'NINE';
+
+// Only the skill level matters to the factor calculation
+const asPlayer = (id: number, name: string, teamId: number, skillLevel: number): Player => ({
+  id,
+  aliasId: id,
+  memberId: id,
+  memberNumber: '',
+  name,
+  skillLevel,
+  teamId,
+  matchesPlayed: 0,
+  matchesWon: 0,
+  ppm: 0,
+  pa: 0,
+  winPct: 0,
+});
+
+/**
+ * Skill levels only - what the APA handicap alone predicts
+ */
+export const handicapModel: BacktestModel = {
+  name: 'Handicap only',
+  train: (_history, _asOf, teamFormats) => game =>
+    getBaseWinProbability(game.playerSkillLevel, game.opponentSkillLevel, formatOf(game, teamFormats)),
+};
+
+/**
+ * The Glicko rating model the engine uses
+ */
+export const ratingModel: BacktestModel = {
+  name: 'Glicko ratings',
+  train: (history, asOf, teamFormats) => {
+    const ratings = fitRatings(history, { teamFormats, asOf });
+    return game => getRatingWinProbability(
+      game.playerSkillLevel,
+      game.opponentSkillLevel,
+      ratings.get(game.playerId),
+      ratings.get(game.opponentId),
+      formatOf(game, teamFormats)
+    );
+  },
+};
+
+/**
+ * A weighted blend of the engine's matchup factors, rebuilt from history alone -
+ * for comparing weight variants against the rating model
+ */
+export function createFactorModel(weights: FactorWeights, name = 'Weighted factors'): BacktestModel {
+  return {
+    name,
+    train: (history, asOf, teamFormats) => {
+      const byPlayer = new Map<number, PlayerMatchRecord[]>();
+      for (const record of history) {
+        byPlayer.set(record.playerId, [...(byPlayer.get(record.playerId) ?? []), record]);
+      }
+
+      const statsFrom = (playerId: number, records: PlayerMatchRecord[]): PlayerStats => {
+        const wins = records.filter(r => r.won).length;
+        const points = records.reduce((sum, r) => sum + r.pointsAwarded, 0);
+        return {
+          playerId,
+          sessionId: 'backtest',
+          skillLevel: records[records.length - 1]?.skillLevel ?? 0,
+          matchesPlayed: records.length,
+          matchesWon: wins,
+          gamesPlayed: records.length,
+          gamesWon: wins,
+          totalPoints: points,
+          pointsAwarded: points,
+          ppm: records.length > 0 ? points / records.length : 0,
+          winPct: records.length > 0 ? (wins / records.length) * 100 : 0,
+        };
+      };
+      const recentCutoff = asOf.getTime() - RECENT_WINDOW_MS;
+
+      return game => {
+        const playerRecords = byPlayer.get(game.playerId) ?? [];
+        const opponentRecords = byPlayer.get(game.opponentId) ?? [];
+        const meetings = playerRecords.filter(r => r.opponentId === game.opponentId);
+        const headToHead: HeadToHead | undefined = meetings.length > 0 ? {
+          playerId: game.playerId,
+          opponentId: game.opponentId,
+          totalGames: meetings.length,
+          wins: meetings.filter(r => r.won).length,
+          losses: meetings.filter(r => !r.won).length,
+          lastPlayed: meetings[meetings.length - 1].datePlayed,
+        } : undefined;
+        const recent = (records: PlayerMatchRecord[], playerId: number) => {
+          const inWindow = records.filter(r => new Date(r.datePlayed).getTime() >= recentCutoff);
+          return inWindow.length > 0 ? [statsFrom(playerId, inWindow)] : undefined;
+        };
+
+        const { factors } = calculateWinProbability(
+          asPlayer(game.playerId, game.playerName, game.playerTeamId, game.playerSkillLevel),
+          playerRecords.length > 0 ? statsFrom(game.playerId, playerRecords) : undefined,
+          asPlayer(game.opponentId, game.opponentName, game.opponentTeamId, game.opponentSkillLevel),
+          opponentRecords.length > 0 ? statsFrom(game.opponentId, opponentRecords) : undefined,
+          headToHead,
+          recent(playerRecords, game.playerId),
+          recent(opponentRecords, game.opponentId),
+          { format: formatOf(game, teamFormats) }
+        );
+
+        const total = Object.values(weights).reduce((sum, w) => sum + w, 0) || 1;
+        const blended = (Object.keys(weights) as (keyof FactorWeights)[])
+          .reduce((sum, key) => sum + weights[key] * factors[key], 0) / total;
+        return Math.max(0.15, Math.min(0.85, blended));
+      };
+    },
+  };
+}
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * Replay every completed match through each model and score the predictions
+ */
+export function runBacktest(input: BacktestInput): BacktestReport {
+  const teamFormats = input.teamFormats ?? new Map<number, GameFormat>();
+  const completed = input.matches
+    .filter(m => m.status === 'COMPLETED')
+    .sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime());
+
+  // Each game is stored from both players' side - keep one
+  const gamesByMatch = new Map<number, GameResult[]>();
+  const seen = new Set<string>();
+  for (const result of input.gameResults) {
+    const [low, high] = result.playerId < result.opponentId
+      ? [result.playerId, result.opponentId]
+      : [result.opponentId, result.playerId];
+    const key = `${result.matchId}-${low}-${high}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    gamesByMatch.set(result.matchId, [...(gamesByMatch.get(result.matchId) ?? []), result]);
+  }
+
+  const records = [...input.records].sort(
+    (a, b) => new Date(a.datePlayed).getTime() - new Date(b.datePlayed).getTime()
+  );
+
+  const predictions = input.models.map(() => [] as { p: number; won: boolean }[]);
+  const picks = input.models.map(() => ({ count: 0, wins: 0 }));
+  let matchCount = 0;
+
+  // Predictors are trained once per match night
+  let trainedFor: number | null = null;
+  let predictors: GamePredictor[] = [];
+
+  for (const match of completed) {
+    const games = gamesByMatch.get(match.id);
+    if (!games || games.length === 0) continue;
+    matchCount++;
+
+    const night = startOfDay(new Date(match.scheduledDate));
+    if (trainedFor !== night.getTime()) {
+      const history = records.filter(r => new Date(r.datePlayed).getTime() < night.getTime());
+      predictors = input.models.map(model => model.train(history, night, teamFormats));
+      trainedFor = night.getTime();
+    }
+
+    // Who each team put up that night, for the recommended-pick check
+    const lineups = new Map<number, Map<number, number>>();   // teamId -> playerId -> skill level
+    for (const game of games) {
+      lineups.set(game.playerTeamId, (lineups.get(game.playerTeamId) ?? new Map()).set(game.playerId, game.playerSkillLevel));
+      lineups.set(game.opponentTeamId, (lineups.get(game.opponentTeamId) ?? new Map()).set(game.opponentId, game.opponentSkillLevel));
+    }
+
+    predictors.forEach((predict, m) => {
+      for (const game of games) {
+        const p = Math.min(1 - EPSILON, Math.max(EPSILON, predict(game)));
+        predictions[m].push({ p, won: game.won });
+
+        // Would the model have picked the player who played, from each side's lineup?
+        const sides = [
+          { game, won: game.won },
+          { game: mirror(game), won: !game.won },
+        ];
+        for (const side of sides) {
+          const lineup = lineups.get(side.game.playerTeamId);
+          if (!lineup || lineup.size < 2) continue;
+          let bestId = side.game.playerId;
+          let bestP = -1;
+          for (const [candidateId, skillLevel] of lineup) {
+            const candidateP = predict({ ...side.game, playerId: candidateId, playerSkillLevel: skillLevel });
+            if (candidateP > bestP) {
+              bestP = candidateP;
+              bestId = candidateId;
+            }
+          }
+          if (bestId === side.game.playerId) {
+            picks[m].count++;
+            if (side.won) picks[m].wins++;
+          }
+        }
+      }
+    });
+  }
+
+  return {
+    matches: matchCount,
+    games: predictions[0]?.length ?? 0,
+    models: input.models.map((model, m) => scoreModel(model.name, predictions[m], picks[m])),
+    storedPicks: scoreStoredPicks(input.liveMatches ?? []),
+  };
+}
+
+const STORED_PICK_NAMES: Record<GameRecommendation['source'], string> = {
+  engine: 'Engine picks as shown',
+  ai: 'AI picks as shown',
+};
+
+/**
+ * Score the recommendations kept on live games against how those games went. A pick's
+ * probability is only for the player it named, so only games where that player was
+ * thrown (against the opponent it was for) are scored.
+ */
+function scoreStoredPicks(liveMatches: LiveMatch[]): ModelReport[] {
+  const bySource = new Map<GameRecommendation['source'], { p: number; won: boolean }[]>();
+
+  for (const match of liveMatches) {
+    for (const game of match.games) {
+      if (game.result === 'pending' || game.ourPlayerId === null) continue;
+      for (const pick of [game.recommendation, game.secondOpinion]) {
+        if (!pick || pick.playerId !== game.ourPlayerId) continue;
+        if (pick.opponentId !== undefined && pick.opponentId !== game.theirPlayerId) continue;
+        const p = Math.min(1 - EPSILON, Math.max(EPSILON, pick.winProbability));
+        bySource.set(pick.source, [...(bySource.get(pick.source) ?? []), { p, won: game.result === 'win' }]);
+      }
+    }
+  }
+
+  return [...bySource].map(([source, predictions]) => scoreModel(STORED_PICK_NAMES[source], predictions, {
+    // Every scored game is one where the pick was thrown
+    count: predictions.length,
+    wins: predictions.filter(prediction => prediction.won).length,
+  }));
+}
+
+// The same game from the opponent's side
+const mirror = (game: GameResult): GameResult => ({
+  ...game,
+  playerId: game.opponentId,
+  playerName: game.opponentName,
+  playerTeamId: game.opponentTeamId,
+  playerSkillLevel: game.opponentSkillLevel,
+  opponentId: game.playerId,
+  opponentName: game.playerName,
+  opponentTeamId: game.playerTeamId,
+  opponentSkillLevel: game.playerSkillLevel,
+  won: !game.won,
+});
+
+function scoreModel(
+  name: string,
+  predictions: { p: number; won: boolean }[],
+  picks: { count: number; wins: number }
+): ModelReport {
+  const n = predictions.length;
+  let brier = 0;
+  let logLoss = 0;
+  let favoritesWon = 0;
+  let favorites = 0;
+
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, i) => ({
+    lower: i / CALIBRATION_BINS,
+    upper: (i + 1) / CALIBRATION_BINS,
+    count: 0,
+    predictedSum: 0,
+    wins: 0,
+  }));
+
+  for (const { p, won } of predictions) {
+    const outcome = won ? 1 : 0;
+    brier += (p - outcome) ** 2;
+    logLoss += -(outcome * Math.log(p) + (1 - outcome) * Math.log(1 - p));
+    if (p !== 0.5) {
+      favorites++;
+      if ((p > 0.5) === won) favoritesWon++;
+    }
+
+    const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(p * CALIBRATION_BINS))];
+    bin.count++;
+    bin.predictedSum += p;
+    if (won) bin.wins++;
+  }
+
+  return {
+    model: name,
+    games: n,
+    brierScore: n > 0 ? brier / n : 0,
+    logLoss: n > 0 ? logLoss / n : 0,
+    favoriteWinRate: favorites > 0 ? favoritesWon / favorites : 0,
+    calibration: bins
+      .filter(b => b.count > 0)
+      .map(b => ({
+        lower: b.lower,
+        upper: b.upper,
+        count: b.count,
+        meanPredicted: b.predictedSum / b.count,
+        observedWinRate: b.wins / b.count,
+      })),
+    recommendedPicks: picks.count,
+    recommendedPickWinRate: picks.count > 0 ? picks.wins / picks.count : 0,
+  };
+}
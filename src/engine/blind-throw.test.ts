@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateBlindThrow, mixCounterWeights } from './blind-throw';
+import type { Player } from '../data/types';
+
+const opponent = (id: number): Player => ({
+  id,
+  aliasId: 0,
+  memberId: id,
+  memberNumber: String(id),
+  name: `Player ${id}`,
+  skillLevel: 5,
+  teamId: 2,
+  matchesPlayed: 10,
+  matchesWon: 5,
+  ppm: 10,
+  pa: 0.5,
+  winPct: 50,
+});
+
+// Our chance against each counter, and how likely their habits say each one is
+const outcomes = [
+  { opponent: opponent(11), winProbability: 0.7 },
+  { opponent: opponent(12), winProbability: 0.4 },
+  { opponent: opponent(13), winProbability: 0.6 },
+];
+const habits = new Map([[11, 0.6], [12, 0.1], [13, 0.3]]);
+
+describe('mixCounterWeights', () => {
+  it('puts everything on their best reply at weight 0, shared between ties', () => {
+    expect(mixCounterWeights([0.7, 0.4, 0.6], [0.6, 0.1, 0.3], 0)).toEqual([0, 1, 0]);
+    expect(mixCounterWeights([0.4, 0.7, 0.4], undefined, 0)).toEqual([0.5, 0, 0.5]);
+  });
+
+  it('follows habit at weight 1 and takes them as uniform without a prediction', () => {
+    expect(mixCounterWeights([0.7, 0.4, 0.6], [3, 0.5, 1.5], 1)).toEqual([0.6, 0.1, 0.3]);
+    expect(mixCounterWeights([0.7, 0.4], undefined, 1)).toEqual([0.5, 0.5]);
+  });
+});
+
+describe('evaluateBlindThrow', () => {
+  it('scores a pick by their best counter under minimax', () => {
+    const evaluation = evaluateBlindThrow(outcomes, habits)!;
+    expect(evaluation.winProbability).toBe(0.4);
+    expect(evaluation.worstCase.playerId).toBe(12);
+    expect(evaluation.expectedCounter.playerId).toBe(12);
+  });
+
+  it('scores a pick by their habits when they are fully trusted', () => {
+    const evaluation = evaluateBlindThrow(outcomes, habits, 1)!;
+    expect(evaluation.winProbability).toBeCloseTo(0.7 * 0.6 + 0.4 * 0.1 + 0.6 * 0.3);
+    expect(evaluation.worstCase.playerId).toBe(12);
+    expect(evaluation.expectedCounter.playerId).toBe(11);
+  });
+
+  it('lands between the two for a mix', () => {
+    const minimax = evaluateBlindThrow(outcomes, habits, 0)!.winProbability;
+    const habit = evaluateBlindThrow(outcomes, habits, 1)!.winProbability;
+    expect(evaluateBlindThrow(outcomes, habits, 0.5)!.winProbability).toBeCloseTo((minimax + habit) / 2);
+  });
+
+  it('has nothing to score without counters', () => {
+    expect(evaluateBlindThrow([])).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+// Blind-throw evaluation
+// Throwing first hands the other captain the counter-pick. Averaging over every opponent
+// scores a pick as if they chose at random; a captain who knows their players counters with
+// whoever beats our pick hardest. The evaluator assumes exactly that (minimax), or a mix:
+// `predictedWeight` of the time they follow their predicted habits, otherwise they find the
+// best counter. 0 is pure worst case, 1 is pure prediction.
+
+import type { MatchupRecommendation, Player } from '../data/types';
+import type { ThrowContext, ThrowPolicy } from './lineup-optimizer';
+
+export interface BlindThrowOptions {
+  opponentPolicy?: ThrowPolicy;   // Their predicted habits (uniform if missing)
+  predictedWeight?: number;       // 0 (default) assumes their best counter every time
+}
+
+export interface CounterOutcome {
+  playerId: number;
+  playerName: string;
+  winProbability: number;       // Ours, if they counter with this player
+  likelihood: number;           // Chance they do, under the mix
+}
+
+export interface BlindThrowEvaluation {
+  winProbability: number;       // Expected over their counters
+  worstCase: CounterOutcome;    // The counter that hurts us most
+  expectedCounter: CounterOutcome;
+  counters: CounterOutcome[];   // Most likely first
+}
+
+/**
+ * Chance of each counter under the mix, in `values` order. `values` are ours (lower is
+ * better for them); ties for the worst case share its weight. Without a prediction their
+ * habits are taken as uniform.
+ */
+export function mixCounterWeights(values: number[], predicted: number[] | undefined, predictedWeight: number): number[] {
+  if (values.length === 0) return [];
+  const weight = Math.min(1, Math.max(0, predictedWeight));
+
+  const worst = Math.min(...values);
+  const worstCount = values.filter(v => v === worst).length;
+
+  let habits = predicted?.map(w => Math.max(0, w)) ?? values.map(() => 1);
+  const total = habits.reduce((sum, w) => sum + w, 0);
+  habits = total > 0 ? habits.map(w => w / total) : values.map(() => 1 / values.length);
+
+  return values.map((v, k) => (1 - weight) * (v === worst ? 1 / worstCount : 0) + weight * habits[k]);
+}
+
+/**
+ * Score a blind throw from our win probability against each counter they could make.
+ * `predicted` holds their predicted chance of throwing each one, by player ID.
+ */
+export function evaluateBlindThrow(
+  outcomes: Array<{ opponent: Player; winProbability: number }>,
+  predicted?: Map<number, number>,
+  predictedWeight = 0
+): BlindThrowEvaluation | null {
+  if (outcomes.length === 0) return null;
+
+  const weights = mixCounterWeights(
+    outcomes.map(o => o.winProbability),
+    predicted ? outcomes.map(o => predicted.get(o.opponent.id) ?? 0) : undefined,
+    predictedWeight
+  );
+  const counters: CounterOutcome[] = outcomes.map((o, k) => ({
+    playerId: o.opponent.id,
+    playerName: o.opponent.name,
+    winProbability: o.winProbability,
+    likelihood: weights[k],
+  }));
+
+  const worstCase = counters.reduce((worst, c) => (c.winProbability < worst.winProbability ? c : worst));
+  const sorted = [...counters].sort((a, b) => b.likelihood - a.likelihood || a.winProbability - b.winProbability);
+
+  return {
+    winProbability: counters.reduce((sum, c) => sum + c.winProbability * c.likelihood, 0),
+    worstCase,
+    expectedCounter: sorted[0],
+    counters: sorted,
+  };
+}
+
+/**
+ * Their predicted chance of countering our pick with each candidate, or undefined without a policy
+ */
+export function predictCounters(
+  opponentIds: number[],
+  context: ThrowContext,
+  options?: BlindThrowOptions
+): Map<number, number> | undefined {
+  if (!options?.opponentPolicy || !options.predictedWeight) return undefined;
+  return options.opponentPolicy(opponentIds, context);
+}
+
+export function toExpectedCounter(evaluation: BlindThrowEvaluation): MatchupRecommendation['expectedCounter'] {
+  const { expectedCounter } = evaluation;
+  return {
+    playerId: expectedCounter.playerId,
+    playerName: expectedCounter.playerName,
+    likelihood: Math.round(expectedCounter.likelihood * 100) / 100,
+    winProbability: Math.round(expectedCounter.winProbability * 100) / 100,
+  };
+}
+
+/**
+ * Reasoning lines for a blind pick
+ */
+export function describeBlindThrow(playerName: string, evaluation: BlindThrowEvaluation, predictedWeight = 0): string[] {
+  const { worstCase } = evaluation;
+  const percent = (p: number) => `${Math.round(p * 100)}%`;
+  if (predictedWeight <= 0) {
+    return [`${playerName} wins ${percent(worstCase.winProbability)} even against their best counter, ${worstCase.playerName}`];
+  }
+  return [
+    `${playerName} averages ${percent(evaluation.winProbability)} against their likely counters`,
+    `Worst case: ${worstCase.playerName} counters at ${percent(worstCase.winProbability)}`,
+  ];
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, simulateCoinToss } from './coin-toss-simulation';
+import type { Player } from '../data/types';
+
+const player = (id: number, skillLevel: number, teamId: number): Player => ({
+  id,
+  aliasId: 0,
+  memberId: id,
+  memberNumber: String(id),
+  name: `Player ${id}`,
+  skillLevel,
+  teamId,
+  matchesPlayed: 10,
+  matchesWon: 5,
+  ppm: 10,
+  pa: 0.5,
+  winPct: 50,
+});
+
+const ours = [3, 4, 5, 5, 6].map((sl, k) => ({ player: player(k + 1, sl, 1) }));
+const theirs = [3, 4, 5, 5, 6].map((sl, k) => ({ player: player(k + 11, sl, 2) }));
+
+describe('createRandom', () => {
+  it('repeats for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const draws = Array.from({ length: 5 }, () => a());
+    expect(Array.from({ length: 5 }, () => b())).toEqual(draws);
+    expect(draws.every(x => x >= 0 && x < 1)).toBe(true);
+  });
+});
+
+describe('simulateCoinToss', () => {
+  it('gives the same answer for the same lineups', () => {
+    const run = () => simulateCoinToss(ours, theirs, new Map(), 'NINE', { simulations: 200 });
+    expect(run()).toEqual(run());
+  });
+
+  it('reports each choice as a spread of simulated nights', () => {
+    const { throwFirst, defer } = simulateCoinToss(ours, theirs, new Map(), 'NINE', { simulations: 200 });
+    for (const outcome of [throwFirst, defer]) {
+      expect(outcome.gamesWon.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 2);
+      expect(outcome.teamPointsRange.low).toBeLessThanOrEqual(outcome.expectedTeamPoints);
+      expect(outcome.teamPointsRange.high).toBeGreaterThanOrEqual(outcome.expectedTeamPoints);
+    }
+    expect(throwFirst.weThrowFirst).toBe(true);
+    expect(defer.weThrowFirst).toBe(false);
+  });
+
+  it('favours the stronger team', () => {
+    // Same skill levels, but ours play well above theirs
+    const strong = ours.map(o => ({
+      ...o,
+      rating: { playerId: o.player.id, rating: 1750, deviation: 60, gamesPlayed: 40 },
+    }));
+    const even = simulateCoinToss(ours, theirs, new Map(), 'NINE', { simulations: 200 });
+    const stronger = simulateCoinToss(strong, theirs, new Map(), 'NINE', { simulations: 200 });
+    expect(stronger.throwFirst.matchWinProbability).toBeGreaterThan(even.throwFirst.matchWinProbability + 0.2);
+    expect(stronger.throwFirst.expectedTeamPoints).toBeGreaterThan(even.throwFirst.expectedTeamPoints);
+  });
+});
@@ -0,0 +1,224 @@
+// Coin-toss simulation
+// Winning the toss means choosing who throws blind in games 1, 3 and 5. Which side of that
+// is worth more depends on who turned up, so rather than a rule of thumb this plays the whole
+// five-game match many times under each choice. We pick what the whole-match optimizer would
+// recommend at each point, as the live recommendations do; they pick from their predicted
+// habits mixed with the reply that wins them the game; each game is won or lost at its win
+// probability and scores the team points drawn from how that race usually ends. Draws come
+// from a seeded generator, so the same lineups always give the same answer.
+
+import type { CoinTossOutcome, GameFormat, HeadToHead } from '../data/types';
+import type { MatchupInput, OpponentInput } from './matchup-calculator';
+import { createLineupPolicy, type OptimizerObjective, type ThrowContext, type ThrowPolicy } from './lineup-optimizer';
+import { calculateWinProbability } from './win-probability';
+import { getRace } from './skill-level-tables';
+import { getMatchPointsOdds, type MatchPointsOutcome } from './match-points';
+import {
+  GAMES_PER_MATCH,
+  getLegalCandidates,
+  getSkillLevelCap,
+  weThrowFirstInGame,
+} from './lineup-rules';
+import { mixCounterWeights } from './blind-throw';
+
+export interface SimulationOptions {
+  opponentPolicy?: ThrowPolicy;   // Their predicted habits (uniform if missing)
+  predictedWeight?: number;       // Share of their picks that follow the policy - 0 (default) is always their best reply
+  objective?: OptimizerObjective; // What our picks maximize, as in the optimizer (defaults to 'match_win')
+  simulations?: number;
+  seed?: number;
+}
+
+export interface CoinTossSimulation {
+  throwFirst: CoinTossOutcome;
+  defer: CoinTossOutcome;
+  simulations: number;
+}
+
+const DEFAULT_SIMULATIONS = 2000;
+const DEFAULT_SEED = 23;
+
+/**
+ * Seeded uniform [0, 1) generator (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Index drawn in proportion to its weight
+ */
+export function sample(weights: number[], random: () => number): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let remaining = random() * total;
+  for (let k = 0; k < weights.length; k++) {
+    remaining -= weights[k];
+    if (remaining < 0) return k;
+  }
+  return weights.length - 1;
+}
+
+/**
+ * Play the match out under both coin-toss choices. `ourPlayers`/`theirPlayers` are everyone present.
+ */
+export function simulateCoinToss(
+  ourPlayers: MatchupInput[],
+  theirPlayers: OpponentInput[],
+  headToHeadData: Map<string, HeadToHead>,
+  format?: GameFormat,
+  options: SimulationOptions = {}
+): CoinTossSimulation {
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const predictedWeight = options.opponentPolicy ? options.predictedWeight ?? 0 : 0;
+  const cap = getSkillLevelCap(format);
+
+  // Pairwise single-game win probabilities, as in the optimizer
+  const probs = ourPlayers.map(ours =>
+    theirPlayers.map(theirs => calculateWinProbability(
+      ours.player,
+      ours.stats,
+      theirs.player,
+      theirs.stats,
+      headToHeadData.get(`${ours.player.id}-${theirs.player.id}`),
+      ours.recentStats,
+      theirs.recentStats,
+      { format, playerRating: ours.rating, opponentRating: theirs.rating }
+    ).probability)
+  );
+  // How each pairing's team points can come out, by result
+  const points = ourPlayers.map((ours, i) =>
+    theirPlayers.map((theirs, j) => {
+      const race = getRace(ours.player.skillLevel, theirs.player.skillLevel, format);
+      return getMatchPointsOdds(race.player1Needs, race.player2Needs, probs[i][j], format);
+    })
+  );
+
+  // Players still allowed under the cap, per side and per set of players already used
+  const legalPicks = (players: MatchupInput[], mask: number, cache: Map<number, number[]>): number[] => {
+    const cached = cache.get(mask);
+    if (cached) return cached;
+
+    const remaining = players.map((_, i) => i).filter(i => !(mask & (1 << i)));
+    const usedSkillLevel = players.reduce((sum, p, i) => (mask & (1 << i) ? sum + p.player.skillLevel : sum), 0);
+    const gamesRemaining = GAMES_PER_MATCH - (players.length - remaining.length);
+    const legalIds = new Set(
+      getLegalCandidates(remaining.map(i => players[i].player), { usedSkillLevel, gamesRemaining, cap }).map(p => p.id)
+    );
+    // Never strand a night - if nothing is legal, fall back to anyone left
+    const legal = remaining.filter(i => legalIds.has(players[i].player.id));
+    const result = legal.length > 0 ? legal : remaining;
+    cache.set(mask, result);
+    return result;
+  };
+  const ourLegalCache = new Map<number, number[]>();
+  const theirLegalCache = new Map<number, number[]>();
+  const theirSpace = 2 ** theirPlayers.length;
+
+  // Their chance of throwing each candidate: habits mixed with the pick that hurts us most
+  const theirWeights = (candidates: number[], values: number[], context: ThrowContext): number[] => {
+    let predicted: number[] | undefined;
+    if (options.opponentPolicy && predictedWeight > 0) {
+      const weights = options.opponentPolicy(candidates.map(j => theirPlayers[j].player.id), context);
+      predicted = candidates.map(j => weights.get(theirPlayers[j].player.id) ?? 0);
+    }
+    return mixCounterWeights(values, predicted, predictedWeight);
+  };
+
+  const play = (weThrowFirst: boolean): CoinTossOutcome => {
+    // Both choices start from the same seed, which keeps the comparison between them steady
+    const random = createRandom(options.seed ?? DEFAULT_SEED);
+    // Our picks: the optimizer's recommendation from wherever the night has got to
+    const ourPick = createLineupPolicy({
+      ourPlayers,
+      theirPlayers,
+      headToHeadData,
+      liveMatch: { currentGame: 1, ourScore: 0, theirScore: 0, weThrowFirst, format },
+      opponentStrategy: predictedWeight > 0 ? 'tendencies' : 'optimal',
+      opponentPolicy: options.opponentPolicy,
+      predictedWeight,
+      objective: options.objective,
+    });
+    const gamesWon = new Array<number>(GAMES_PER_MATCH + 1).fill(0);
+    const teamPoints: number[] = [];
+    let matchWins = 0;
+    // Our pick when we throw first, or our counter to each of their candidates when they do
+    const decisions = new Map<number, { ourPick?: number; counters?: number[]; theirWeights: number[] }>();
+
+    for (let night = 0; night < simulations; night++) {
+      let ourMask = 0;
+      let theirMask = 0;
+      let ourWins = 0;
+      let theirWins = 0;
+      let nightPoints = 0;
+
+      for (let game = 1; game <= GAMES_PER_MATCH; game++) {
+        const ourCandidates = legalPicks(ourPlayers, ourMask, ourLegalCache);
+        const theirCandidates = legalPicks(theirPlayers, theirMask, theirLegalCache);
+        if (ourCandidates.length === 0 || theirCandidates.length === 0) break;
+
+        // Picks depend only on the position, so they're worked out once and reused across nights
+        const key = (ourMask * theirSpace + theirMask) * (GAMES_PER_MATCH + 1) + ourWins;
+        let decision = decisions.get(key);
+        if (!decision) {
+          const context: ThrowContext = { gameNumber: game, ourScore: ourWins, theirScore: theirWins };
+          const state = { gameNumber: game, ourMask, theirMask, ourWins, theirWins };
+          if (weThrowFirstInGame(weThrowFirst, game)) {
+            const blind = ourPick(state);
+            const values = theirCandidates.map(c => probs[blind][c]);
+            decision = { ourPick: blind, theirWeights: theirWeights(theirCandidates, values, { ...context, respondingTo: ourPlayers[blind].player.id }) };
+          } else {
+            const counters = theirCandidates.map(c => ourPick(state, c));
+            const values = theirCandidates.map((c, k) => probs[counters[k]][c]);
+            decision = { counters, theirWeights: theirWeights(theirCandidates, values, context) };
+          }
+          decisions.set(key, decision);
+        }
+
+        const k = sample(decision.theirWeights, random);
+        const j = theirCandidates[k];
+        const i = decision.ourPick ?? decision.counters![k];
+
+        const drawPoints = (outcomes: MatchPointsOutcome[]) => outcomes[sample(outcomes.map(o => o.chance), random)].ours;
+        if (random() < probs[i][j]) {
+          ourWins++;
+          nightPoints += drawPoints(points[i][j].ifWin);
+        } else {
+          theirWins++;
+          nightPoints += drawPoints(points[i][j].ifLoss);
+        }
+        ourMask |= 1 << i;
+        theirMask |= 1 << j;
+      }
+
+      gamesWon[ourWins]++;
+      teamPoints.push(nightPoints);
+      // A short-handed night is decided by the games that could be played
+      if (ourWins > theirWins) matchWins++;
+    }
+
+    teamPoints.sort((a, b) => a - b);
+    const percentile = (q: number) => teamPoints[Math.min(teamPoints.length - 1, Math.floor(q * teamPoints.length))] ?? 0;
+    const nights = Math.max(1, simulations);
+
+    return {
+      weThrowFirst,
+      matchWinProbability: Math.round((matchWins / nights) * 1000) / 1000,
+      expectedTeamPoints: Math.round((teamPoints.reduce((sum, p) => sum + p, 0) / nights) * 10) / 10,
+      teamPointsRange: { low: Math.round(percentile(0.1)), high: Math.round(percentile(0.9)) },
+      gamesWon: gamesWon.map(n => Math.round((n / nights) * 1000) / 1000),
+    };
+  };
+
+  return {
+    throwFirst: play(true),
+    defer: play(false),
+    simulations,
+  };
+}
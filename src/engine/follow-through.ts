@@ -0,0 +1,101 @@
+// Recommendation follow-through
+// Compares how our games went when the captain threw the recommended player against
+// when they overrode it, overall and split by game number and skill-level gap.
+
+import type { LiveGame, LiveMatch } from '../data/types';
+
+export interface WinRecord {
+  games: number;
+  wins: number;
+  winRate: number;
+}
+
+export interface FollowThroughSplit {
+  label: string;
+  followed: WinRecord;
+  overridden: WinRecord;
+}
+
+export interface FollowThroughReport {
+  matches: number;
+  trackedGames: number;          // Finished games that had a recommendation
+  overall: FollowThroughSplit;
+  bySource: FollowThroughSplit[];
+  byGameNumber: FollowThroughSplit[];
+  bySkillGap: FollowThroughSplit[];
+}
+
+// Our skill level minus theirs, as thrown
+const SKILL_GAP_BUCKETS: { label: string; matches: (gap: number) => boolean }[] = [
+  { label: 'Down 2+', matches: gap => gap <= -2 },
+  { label: 'Down 1', matches: gap => gap === -1 },
+  { label: 'Even', matches: gap => gap === 0 },
+  { label: 'Up 1', matches: gap => gap === 1 },
+  { label: 'Up 2+', matches: gap => gap >= 2 },
+];
+
+const SOURCE_LABELS: Record<'engine' | 'ai', string> = {
+  engine: 'Engine',
+  ai: 'AI',
+};
+
+const emptySplit = (label: string): FollowThroughSplit => ({
+  label,
+  followed: { games: 0, wins: 0, winRate: 0 },
+  overridden: { games: 0, wins: 0, winRate: 0 },
+});
+
+const addGame = (split: FollowThroughSplit, game: LiveGame) => {
+  const record = game.wasRecommendationFollowed ? split.followed : split.overridden;
+  record.games++;
+  if (game.result === 'win') record.wins++;
+  record.winRate = record.wins / record.games;
+};
+
+/**
+ * Build the report from completed matches. The gap split uses the skill levels kept on each
+ * game; `skillLevels` maps player IDs to their current level for games recorded before those
+ * were kept. Games where either player's level is unknown are left out of the gap split.
+ */
+export function buildFollowThroughReport(
+  matches: LiveMatch[],
+  skillLevels: Map<number, number>
+): FollowThroughReport {
+  const completed = matches.filter(m => m.status === 'completed');
+  const overall = emptySplit('All games');
+  const bySource = new Map<string, FollowThroughSplit>();
+  const byGameNumber = new Map<number, FollowThroughSplit>();
+  const bySkillGap = new Map(SKILL_GAP_BUCKETS.map(b => [b.label, emptySplit(b.label)]));
+  let trackedGames = 0;
+
+  for (const match of completed) {
+    for (const game of match.games) {
+      if (game.result === 'pending' || !game.recommendation || game.wasRecommendationFollowed === undefined) continue;
+      trackedGames++;
+      addGame(overall, game);
+
+      const source = game.recommendation.source;
+      if (!bySource.has(source)) bySource.set(source, emptySplit(SOURCE_LABELS[source]));
+      addGame(bySource.get(source)!, game);
+
+      if (!byGameNumber.has(game.gameNumber)) byGameNumber.set(game.gameNumber, emptySplit(`Game ${game.gameNumber}`));
+      addGame(byGameNumber.get(game.gameNumber)!, game);
+
+      const ourLevel = game.ourSkillLevel ?? (game.ourPlayerId !== null ? skillLevels.get(game.ourPlayerId) : undefined);
+      const theirLevel = game.theirSkillLevel ?? (game.theirPlayerId !== null ? skillLevels.get(game.theirPlayerId) : undefined);
+      if (ourLevel !== undefined && theirLevel !== undefined) {
+        const bucket = SKILL_GAP_BUCKETS.find(b => b.matches(ourLevel - theirLevel));
+        if (bucket) addGame(bySkillGap.get(bucket.label)!, game);
+      }
+    }
+  }
+
+  return {
+    matches: completed.length,
+    trackedGames,
+    overall,
+    bySource: [...bySource.values()],
+    byGameNumber: [...byGameNumber.entries()].sort(([a], [b]) => a - b).map(([, split]) => split),
+    bySkillGap: [...bySkillGap.values()].filter(s => s.followed.games + s.overridden.games > 0),
+  };
+}
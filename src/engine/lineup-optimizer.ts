@@ -0,0 +1,432 @@
+// Whole-match lineup optimizer
+// Searches the alternating throw / counter-throw tree over the remaining games
+// and scores each pick by the probability of winning the match (or the team points
+// expected from the rest of the match), not just the next game.
+
+import type { HeadToHead, LiveMatch, Player } from '../data/types';
+import type { MatchupInput, OpponentInput } from './matchup-calculator';
+import { calculateWinProbability } from './win-probability';
+import { getRace } from './skill-level-tables';
+import { getExpectedMatchPoints, type ExpectedMatchPoints } from './match-points';
+import {
+  GAMES_PER_MATCH,
+  GAMES_TO_WIN,
+  getMinimumSkillLevelSum,
+  getSkillLevelCap,
+  weThrowFirstInGame,
+  type LineupContext,
+} from './lineup-rules';
+import { mixCounterWeights } from './blind-throw';
+
+// How the other captain is assumed to pick
+export type OpponentStrategy = 'optimal' | 'tendencies';
+
+// What the search maximizes: winning the majority of games, or APA team points
+export type OptimizerObjective = 'match_win' | 'team_points';
+
+export interface ThrowContext {
+  gameNumber: number;
+  ourScore: number;
+  theirScore: number;
+  respondingTo?: number;    // Our player ID when they are counter-picking
+}
+
+// Relative likelihood of each candidate being thrown (doesn't need to sum to 1)
+export type ThrowPolicy = (candidateIds: number[], context: ThrowContext) => Map<number, number>;
+
+export interface OptimizerInput {
+  ourPlayers: MatchupInput[];       // Our players who haven't played yet
+  theirPlayers: OpponentInput[];    // Their players who haven't played yet
+  headToHeadData: Map<string, HeadToHead>;
+  liveMatch: Pick<LiveMatch, 'currentGame' | 'ourScore' | 'theirScore' | 'weThrowFirst' | 'format'>
+    & Partial<Pick<LiveMatch, 'ourMatchPoints'>>;
+  ourLineup?: LineupContext;
+  theirLineup?: LineupContext;
+  theirCurrentPlayerId?: number;    // Set when they have already thrown this game
+  opponentStrategy?: OpponentStrategy;
+  opponentPolicy?: ThrowPolicy;     // Used with 'tendencies' (uniform if missing)
+  predictedWeight?: number;         // With 'tendencies': share of their picks that follow the policy,
+                                    // the rest being their best reply (defaults to 1)
+  objective?: OptimizerObjective;   // How options are ranked (defaults to 'match_win')
+}
+
+export interface LineupOption {
+  playerId: number;
+  playerName: string;
+  matchWinProbability: number;
+  expectedTeamPoints: number;       // Team points already earned plus those expected from here
+  gameWinProbability: number;       // Against the thrown or expected counter player
+  expectedOpponentId?: number;
+}
+
+export interface OptimizerResult {
+  options: LineupOption[];          // Best pick first
+  matchWinProbability: number;
+  expectedTeamPoints: number;
+}
+
+interface SearchResult {
+  optionValues: Map<number, { value: number; opponentIndex?: number }>;   // By index into ourPlayers
+  positionValue: number;
+}
+
+export interface SearchState {
+  gameNumber: number;
+  ourMask: number;                  // Bit i set = ourPlayers[i] already used in this branch
+  theirMask: number;
+  ourWins: number;
+  theirWins: number;
+}
+
+// Values of positions for one objective, from our side
+interface SearchEvaluator {
+  value: (game: number, ourMask: number, theirMask: number, ourWins: number, theirWins: number) => number;
+  gameValue: (state: SearchState, i: number, j: number) => number;
+  counterValue: (state: SearchState, i: number, theirCandidates: number[]) => number;
+  bestReply: (state: SearchState, ourCandidates: number[], j: number) => number;
+}
+
+/**
+ * The alternating throw / counter-throw tree from the start of `input`'s game. Each
+ * objective's search is memoized, so later lookups from the same match are cheap.
+ */
+function createMatchSearch(input: OptimizerInput) {
+  const { liveMatch, ourPlayers, theirPlayers } = input;
+  const strategy = input.opponentStrategy ?? 'optimal';
+  const predictedWeight = strategy === 'optimal' ? 0 : input.predictedWeight ?? 1;
+  const weThrowFirst = liveMatch.weThrowFirst ?? true;
+
+  const ourLineup = input.ourLineup ?? { usedSkillLevel: 0, gamesRemaining: GAMES_PER_MATCH - liveMatch.currentGame + 1, cap: getSkillLevelCap(liveMatch.format) };
+  const theirLineup = input.theirLineup ?? { usedSkillLevel: 0, gamesRemaining: GAMES_PER_MATCH - liveMatch.currentGame + 1, cap: getSkillLevelCap(liveMatch.format) };
+
+  // Pairwise single-game win probabilities
+  const probs = ourPlayers.map(ours =>
+    theirPlayers.map(theirs => calculateWinProbability(
+      ours.player,
+      ours.stats,
+      theirs.player,
+      theirs.stats,
+      input.headToHeadData.get(`${ours.player.id}-${theirs.player.id}`),
+      ours.recentStats,
+      theirs.recentStats,
+      { format: liveMatch.format, playerRating: ours.rating, opponentRating: theirs.rating }
+    ).probability)
+  );
+
+  // Pairwise expected team points, split by the game's result
+  const points: ExpectedMatchPoints[][] = ourPlayers.map((ours, i) =>
+    theirPlayers.map((theirs, j) => {
+      const race = getRace(ours.player.skillLevel, theirs.player.skillLevel, liveMatch.format);
+      return getExpectedMatchPoints(race.player1Needs, race.player2Needs, probs[i][j], liveMatch.format);
+    })
+  );
+
+  // Players still allowed under the cap, per side and per set of players already used
+  const legalPicks = (
+    players: Player[],
+    mask: number,
+    lineup: LineupContext,
+    cache: Map<number, number[]>
+  ): number[] => {
+    const cached = cache.get(mask);
+    if (cached) return cached;
+
+    const remaining: number[] = [];
+    let usedSkillLevel = lineup.usedSkillLevel;
+    let picksMade = 0;
+    players.forEach((p, i) => {
+      if (mask & (1 << i)) {
+        usedSkillLevel += p.skillLevel;
+        picksMade++;
+      } else {
+        remaining.push(i);
+      }
+    });
+
+    const gamesAfter = Math.max(0, lineup.gamesRemaining - picksMade - 1);
+    const legal = remaining.filter(i => {
+      const others = remaining.filter(j => j !== i).map(j => players[j]);
+      return lineup.cap - usedSkillLevel - players[i].skillLevel >= getMinimumSkillLevelSum(others, gamesAfter);
+    });
+    // Never strand the search - if nothing is legal, fall back to anyone left
+    const result = legal.length > 0 ? legal : remaining;
+    cache.set(mask, result);
+    return result;
+  };
+  const ourLegalCache = new Map<number, number[]>();
+  const theirLegalCache = new Map<number, number[]>();
+
+  // Chance of each candidate being chosen: the policy's prediction mixed with their best reply
+  const opponentWeights = (candidates: number[], values: number[], context: ThrowContext): number[] => {
+    let predicted: number[] | undefined;
+    if (input.opponentPolicy && predictedWeight > 0) {
+      const weights = input.opponentPolicy(candidates.map(j => theirPlayers[j].player.id), context);
+      predicted = candidates.map(j => weights.get(theirPlayers[j].player.id) ?? 0);
+    }
+    return mixCounterWeights(values, predicted, predictedWeight);
+  };
+
+  // Opponent's choice among candidate outcomes (values are from our perspective)
+  const opponentChoice = (candidates: number[], values: number[], context: ThrowContext): number => {
+    if (strategy === 'optimal') {
+      return Math.min(...values);
+    }
+    const weights = opponentWeights(candidates, values, context);
+    return values.reduce((sum, v, k) => sum + v * weights[k], 0);
+  };
+
+  const ourPlayerList = ourPlayers.map(p => p.player);
+  const theirPlayerList = theirPlayers.map(p => p.player);
+  const theirSpace = 2 ** theirPlayers.length;
+  const ourCandidatesAt = (mask: number) => legalPicks(ourPlayerList, mask, ourLineup, ourLegalCache);
+  const theirCandidatesAt = (mask: number) => legalPicks(theirPlayerList, mask, theirLineup, theirLegalCache);
+
+  const evaluators = new Map<OptimizerObjective, SearchEvaluator>();
+
+  // One full search of the tree for a single objective
+  const evaluate = (goal: OptimizerObjective): SearchEvaluator => {
+    const existing = evaluators.get(goal);
+    if (existing) return existing;
+
+    const memo = new Map<number, number>();
+    // Win probability is decided once a side has a majority; team points need every game
+    const stopsEarly = goal === 'match_win';
+
+    // Positions are passed as plain numbers rather than objects - this is the hot path
+    const value = (game: number, ourMask: number, theirMask: number, ourWins: number, theirWins: number): number => {
+      if (stopsEarly && ourWins >= GAMES_TO_WIN) return 1;
+      if (stopsEarly && theirWins >= GAMES_TO_WIN) return 0;
+      if (game > GAMES_PER_MATCH) return settled(ourWins, theirWins);
+
+      // Game number and wins follow from the masks and the starting score, so the masks
+      // plus our wins identify the position
+      const key = (ourMask * theirSpace + theirMask) * (GAMES_PER_MATCH + 1) + ourWins;
+      const cached = memo.get(key);
+      if (cached !== undefined) return cached;
+
+      const ourCandidates = ourCandidatesAt(ourMask);
+      const theirCandidates = theirCandidatesAt(theirMask);
+      if (ourCandidates.length === 0 || theirCandidates.length === 0) {
+        return settled(ourWins, theirWins);
+      }
+
+      const state: SearchState = { gameNumber: game, ourMask, theirMask, ourWins, theirWins };
+      let result = -Infinity;
+      if (weThrowFirstInGame(weThrowFirst, game)) {
+        for (const i of ourCandidates) result = Math.max(result, counterValue(state, i, theirCandidates));
+      } else {
+        result = throwValue(state, ourCandidates, theirCandidates);
+      }
+
+      memo.set(key, result);
+      return result;
+    };
+
+    // Final result once no games are left to play
+    const settled = (ourWins: number, theirWins: number): number => {
+      if (!stopsEarly) return 0;
+      if (ourWins >= GAMES_TO_WIN || ourWins > theirWins) return 1;
+      if (theirWins >= GAMES_TO_WIN || theirWins > ourWins) return 0;
+      return 0.5;
+    };
+
+    // Value of a single game between ourPlayers[i] and theirPlayers[j]
+    const gameValue = (state: SearchState, i: number, j: number): number => {
+      const p = probs[i][j];
+      const { gameNumber, ourWins, theirWins } = state;
+      const ourMask = state.ourMask | (1 << i);
+      const theirMask = state.theirMask | (1 << j);
+      const ifWin = stopsEarly ? 0 : points[i][j].ifWin;
+      const ifLoss = stopsEarly ? 0 : points[i][j].ifLoss;
+      return p * (ifWin + value(gameNumber + 1, ourMask, theirMask, ourWins + 1, theirWins))
+        + (1 - p) * (ifLoss + value(gameNumber + 1, ourMask, theirMask, ourWins, theirWins + 1));
+    };
+
+    // We threw ourPlayers[i] - they counter-pick
+    const counterValue = (state: SearchState, i: number, theirCandidates: number[]): number => {
+      if (strategy === 'optimal') {
+        let best = Infinity;
+        for (const j of theirCandidates) best = Math.min(best, gameValue(state, i, j));
+        return best;
+      }
+      const values = theirCandidates.map(j => gameValue(state, i, j));
+      return opponentChoice(theirCandidates, values, {
+        gameNumber: state.gameNumber,
+        ourScore: state.ourWins,
+        theirScore: state.theirWins,
+        respondingTo: ourPlayers[i].player.id,
+      });
+    };
+
+    // Our best counter-pick to theirPlayers[j]
+    const bestReply = (state: SearchState, ourCandidates: number[], j: number): number => {
+      let best = -Infinity;
+      for (const i of ourCandidates) best = Math.max(best, gameValue(state, i, j));
+      return best;
+    };
+
+    // They throw first - we counter-pick each of their options
+    const throwValue = (state: SearchState, ourCandidates: number[], theirCandidates: number[]): number => {
+      const values = theirCandidates.map(j => bestReply(state, ourCandidates, j));
+      return opponentChoice(theirCandidates, values, {
+        gameNumber: state.gameNumber,
+        ourScore: state.ourWins,
+        theirScore: state.theirWins,
+      });
+    };
+
+    const evaluator = { value, gameValue, counterValue, bestReply };
+    evaluators.set(goal, evaluator);
+    return evaluator;
+  };
+
+  return { strategy, probs, opponentWeights, ourCandidatesAt, theirCandidatesAt, evaluate };
+}
+
+/**
+ * Rank our available players by the match win probability (or expected team points)
+ * that follows from picking them now
+ */
+export function optimizeLineup(input: OptimizerInput): OptimizerResult {
+  const { liveMatch, ourPlayers, theirPlayers } = input;
+  const objective = input.objective ?? 'match_win';
+  const weThrowFirst = liveMatch.weThrowFirst ?? true;
+  const { strategy, probs, opponentWeights, ourCandidatesAt, theirCandidatesAt, evaluate } = createMatchSearch(input);
+
+  const startGame = liveMatch.currentGame;
+  const weThrowNow = weThrowFirstInGame(weThrowFirst, startGame);
+
+  const ourRootCandidates = ourCandidatesAt(0);
+  const theirRootCandidates = theirCandidatesAt(0);
+  const rootContext: ThrowContext = {
+    gameNumber: startGame,
+    ourScore: liveMatch.ourScore,
+    theirScore: liveMatch.theirScore,
+  };
+
+  // Root of one objective's search: score every one of our legal picks for the current game
+  const search = (goal: OptimizerObjective): SearchResult => {
+    const { value, gameValue, counterValue, bestReply } = evaluate(goal);
+    const root: SearchState = {
+      gameNumber: startGame,
+      ourMask: 0,
+      theirMask: 0,
+      ourWins: liveMatch.ourScore,
+      theirWins: liveMatch.theirScore,
+    };
+    const rootValue = () => value(startGame, 0, 0, liveMatch.ourScore, liveMatch.theirScore);
+
+    // Who we are picking against: the player they threw, or (when they pick first
+    // and haven't yet) the throw they are expected to make
+    let facingIndex = input.theirCurrentPlayerId !== undefined
+      ? theirPlayers.findIndex(p => p.player.id === input.theirCurrentPlayerId)
+      : -1;
+    if (facingIndex === -1 && !weThrowNow && theirRootCandidates.length > 0 && ourRootCandidates.length > 0) {
+      const throwValues = theirRootCandidates.map(j => bestReply(root, ourRootCandidates, j));
+      if (strategy === 'optimal') {
+        facingIndex = theirRootCandidates[throwValues.indexOf(Math.min(...throwValues))];
+      } else {
+        const weights = opponentWeights(theirRootCandidates, throwValues, rootContext);
+        facingIndex = theirRootCandidates[weights.indexOf(Math.max(...weights))];
+      }
+    }
+
+    const optionValues: SearchResult['optionValues'] = new Map();
+    for (const i of ourRootCandidates) {
+      if (facingIndex !== -1) {
+        optionValues.set(i, { value: gameValue(root, i, facingIndex), opponentIndex: facingIndex });
+      } else if (theirRootCandidates.length === 0) {
+        optionValues.set(i, { value: rootValue() });
+      } else {
+        // Expected counter: their strongest reply (or most likely one under tendencies)
+        const values = theirRootCandidates.map(j => gameValue(root, i, j));
+        let opponentIndex: number;
+        if (strategy === 'optimal') {
+          opponentIndex = theirRootCandidates[values.indexOf(Math.min(...values))];
+        } else {
+          const weights = opponentWeights(theirRootCandidates, values, {
+            ...rootContext,
+            respondingTo: ourPlayers[i].player.id,
+          });
+          opponentIndex = theirRootCandidates[weights.indexOf(Math.max(...weights))];
+        }
+        optionValues.set(i, { value: counterValue(root, i, theirRootCandidates), opponentIndex });
+      }
+    }
+
+    // Value of the whole position: if they haven't thrown yet this is their choice, not ours
+    const bestOption = Math.max(...[...optionValues.values()].map(o => o.value));
+    const positionValue = (input.theirCurrentPlayerId !== undefined || weThrowNow) && optionValues.size > 0
+      ? bestOption
+      : rootValue();
+
+    return { optionValues, positionValue };
+  };
+
+  const matchWin = search('match_win');
+  const teamPoints = search('team_points');
+  const ranking = objective === 'team_points' ? teamPoints : matchWin;
+  const pointsSoFar = liveMatch.ourMatchPoints ?? 0;
+
+  const options: LineupOption[] = ourRootCandidates.map(i => {
+    const opponentIndex = ranking.optionValues.get(i)?.opponentIndex;
+    return {
+      playerId: ourPlayers[i].player.id,
+      playerName: ourPlayers[i].player.name,
+      matchWinProbability: Math.round((matchWin.optionValues.get(i)?.value ?? 0) * 1000) / 1000,
+      expectedTeamPoints: Math.round((pointsSoFar + (teamPoints.optionValues.get(i)?.value ?? 0)) * 10) / 10,
+      gameWinProbability: opponentIndex !== undefined ? Math.round(probs[i][opponentIndex] * 100) / 100 : 0.5,
+      expectedOpponentId: opponentIndex !== undefined ? theirPlayers[opponentIndex].player.id : undefined,
+    };
+  });
+
+  if (objective === 'team_points') {
+    options.sort((a, b) => b.expectedTeamPoints - a.expectedTeamPoints || b.matchWinProbability - a.matchWinProbability);
+  } else {
+    options.sort((a, b) => b.matchWinProbability - a.matchWinProbability || b.expectedTeamPoints - a.expectedTeamPoints);
+  }
+
+  return {
+    options,
+    matchWinProbability: Math.round(matchWin.positionValue * 1000) / 1000,
+    expectedTeamPoints: Math.round((pointsSoFar + teamPoints.positionValue) * 10) / 10,
+  };
+}
+
+/**
+ * Our pick from any position of the match `input` starts, ranked as optimizeLineup would rank
+ * it there - for playing a match out many times (see coin-toss-simulation). Positions index into
+ * `input`'s player lists; `theirThrow` is their player when they've thrown first this game.
+ * The search is shared by every call, so each position is only solved once.
+ */
+export function createLineupPolicy(input: OptimizerInput): (state: SearchState, theirThrow?: number) => number {
+  const objective = input.objective ?? 'match_win';
+  const { ourCandidatesAt, theirCandidatesAt, evaluate } = createMatchSearch(input);
+  // Rounded as optimizeLineup's options are, so near-ties go to the other objective the same way
+  const goals: { goal: OptimizerObjective; round: (v: number) => number }[] = [
+    { goal: 'match_win', round: v => Math.round(v * 1000) / 1000 },
+    { goal: 'team_points', round: v => Math.round(v * 10) / 10 },
+  ];
+  if (objective === 'team_points') goals.reverse();
+
+  return (state, theirThrow) => {
+    const theirCandidates = theirCandidatesAt(state.theirMask);
+    const score = (i: number) => goals.map(({ goal, round }) => {
+      const evaluator = evaluate(goal);
+      return round(theirThrow !== undefined
+        ? evaluator.gameValue(state, i, theirThrow)
+        : evaluator.counterValue(state, i, theirCandidates));
+    });
+
+    let best = -1;
+    let bestScore: number[] = [];
+    for (const i of ourCandidatesAt(state.ourMask)) {
+      const candidate = score(i);
+      if (best === -1 || candidate[0] > bestScore[0] || (candidate[0] === bestScore[0] && candidate[1] > bestScore[1])) {
+        best = i;
+        bestScore = candidate;
+      }
+    }
+    return best;
+  };
+}
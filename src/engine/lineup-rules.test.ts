@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { checkCandidateLegality, getMinimumSkillLevelSum } from './lineup-rules';
+import type { Player } from '../data/types';
+
+const player = (id: number, skillLevel: number): Player => ({
+  id,
+  aliasId: 0,
+  memberId: id,
+  memberNumber: String(id),
+  name: `Player ${id}`,
+  skillLevel,
+  teamId: 1,
+  matchesPlayed: 10,
+  matchesWon: 5,
+  ppm: 10,
+  pa: 0.5,
+  winPct: 50,
+});
+
+describe('getMinimumSkillLevelSum', () => {
+  it('adds up the lowest skill levels', () => {
+    expect(getMinimumSkillLevelSum([player(1, 6), player(2, 2), player(3, 4)], 2)).toBe(6);
+  });
+
+  it('is Infinity when there are fewer players than games', () => {
+    expect(getMinimumSkillLevelSum([player(1, 2), player(2, 3)], 3)).toBe(Infinity);
+  });
+});
+
+describe('checkCandidateLegality', () => {
+  it('rules out a pick that leaves too few players to finish the match', () => {
+    const available = [player(1, 2), player(2, 2)];
+    const check = checkCandidateLegality(available[0], available, { usedSkillLevel: 4, gamesRemaining: 3, cap: 23 });
+    expect(check.isLegal).toBe(false);
+    expect(check.reason).toBe('Leaves 1 player for the last 2 games');
+  });
+});
@@ -0,0 +1,129 @@
+// APA lineup rules
+// The combined skill level of the five players a team puts up in a match
+// cannot exceed the team cap (the "23 rule" - the same cap applies in 8-ball).
+
+import type { Player, LiveMatch, GameFormat } from '../data/types';
+
+export const SKILL_LEVEL_CAP = 23;
+export const GAMES_PER_MATCH = 5;
+export const GAMES_TO_WIN = Math.floor(GAMES_PER_MATCH / 2) + 1;   // Majority of the five games
+
+const SKILL_LEVEL_CAPS: Record<GameFormat, number> = {
+  NINE: SKILL_LEVEL_CAP,
+  EIGHT: 23,
+};
+
+/**
+ * Team skill-level cap for a format
+ */
+export function getSkillLevelCap(format: GameFormat = 'NINE'): number {
+  return SKILL_LEVEL_CAPS[format];
+}
+
+export interface LineupContext {
+  usedSkillLevel: number;   // SL total of players already in the lineup
+  gamesRemaining: number;   // Games still to fill, including the one being picked now
+  cap: number;
+}
+
+export interface LegalityCheck {
+  isLegal: boolean;
+  skillLevelAfter: number;  // Lineup total once this player is added
+  budgetAfter: number;      // SL left for the games after this one
+  gamesAfter: number;
+  minimumNeeded: number;    // Cheapest way to fill the games after this one
+  reason?: string;
+}
+
+/**
+ * Build the lineup context for one side of a live match.
+ * `players` must include everyone who may already have played (not just those still available).
+ */
+export function buildLineupContext(
+  liveMatch: LiveMatch,
+  players: Player[],
+  side: 'us' | 'them'
+): LineupContext {
+  const usedIds = liveMatch.games
+    .map(g => (side === 'us' ? g.ourPlayerId : g.theirPlayerId))
+    .filter((id): id is number => id !== null);
+
+  const usedSkillLevel = usedIds.reduce((sum, id) => {
+    const player = players.find(p => p.id === id);
+    return sum + (player?.skillLevel ?? 0);
+  }, 0);
+
+  return {
+    usedSkillLevel,
+    gamesRemaining: Math.max(0, GAMES_PER_MATCH - usedIds.length),
+    cap: getSkillLevelCap(liveMatch.format),
+  };
+}
+
+/**
+ * Smallest possible SL total for filling `count` games from the given players -
+ * Infinity when there aren't enough players left to fill them at all
+ */
+export function getMinimumSkillLevelSum(players: Player[], count: number): number {
+  if (players.length < count) return Infinity;
+  return players
+    .map(p => p.skillLevel)
+    .sort((a, b) => a - b)
+    .slice(0, Math.max(0, count))
+    .reduce((sum, sl) => sum + sl, 0);
+}
+
+/**
+ * Check whether putting up a candidate still leaves a legal way to fill the remaining games
+ */
+export function checkCandidateLegality(
+  candidate: Player,
+  availablePlayers: Player[],
+  context: LineupContext
+): LegalityCheck {
+  const others = availablePlayers.filter(p => p.id !== candidate.id);
+  const skillLevelAfter = context.usedSkillLevel + candidate.skillLevel;
+  const budgetAfter = context.cap - skillLevelAfter;
+  const gamesAfter = Math.max(0, context.gamesRemaining - 1);
+  const minimumNeeded = getMinimumSkillLevelSum(others, gamesAfter);
+
+  const result: LegalityCheck = {
+    isLegal: budgetAfter >= minimumNeeded,
+    skillLevelAfter,
+    budgetAfter,
+    gamesAfter,
+    minimumNeeded,
+  };
+
+  if (!result.isLegal && others.length < gamesAfter) {
+    result.reason = `Leaves ${others.length} player${others.length === 1 ? '' : 's'} for the last ${gamesAfter} game${gamesAfter === 1 ? '' : 's'}`;
+  } else if (!result.isLegal) {
+    result.reason = gamesAfter > 0
+      ? `Breaks the ${context.cap} rule: lineup would be at ${skillLevelAfter}/${context.cap} with ${gamesAfter} game${gamesAfter === 1 ? '' : 's'} left needing at least ${minimumNeeded}`
+      : `Breaks the ${context.cap} rule: lineup would total ${skillLevelAfter}/${context.cap}`;
+  } else if (gamesAfter > 0 && budgetAfter - minimumNeeded <= 2) {
+    result.reason = `Tight on the ${context.cap} rule: leaves ${budgetAfter} SL for the last ${gamesAfter} game${gamesAfter === 1 ? '' : 's'}`;
+  }
+
+  return result;
+}
+
+/**
+ * Players who can be put up now without making the rest of the lineup illegal
+ */
+export function getLegalCandidates(
+  availablePlayers: Player[],
+  context: LineupContext
+): Player[] {
+  return availablePlayers.filter(p =>
+    checkCandidateLegality(p, availablePlayers, context).isLegal
+  );
+}
+
+/**
+ * Throw order alternates each game: the team that throws first in game 1
+ * also throws first in games 3 and 5.
+ */
+export function weThrowFirstInGame(weThrowFirst: boolean, gameNumber: number): boolean {
+  return weThrowFirst ? gameNumber % 2 === 1 : gameNumber % 2 === 0;
+}
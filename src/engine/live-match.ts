@@ -0,0 +1,169 @@
+// Live match state changes as plain actions
+// Every edit to a live match goes through applyLiveMatchAction, so the same action can be
+// applied on this device, sent to a co-captain's device and replayed from a shared session's
+// log with the same result.
+
+import type { LiveMatch, LiveGame, MatchStatus, RackScore, GameRecommendation } from '../data/types';
+import { getGameScore, getGameWinner, type PointsNeeded } from './scorekeeping';
+import { getGameMatchPoints, getTeamMatchPoints } from './match-points';
+
+export type LiveMatchAction =
+  | { type: 'setAttendance'; ourPlayerIds: number[]; theirPlayerIds: number[] }
+  | { type: 'setCoinTossResult'; weWon: boolean }
+  | { type: 'setWeThrowFirst'; throwFirst: boolean }
+  | { type: 'recordTheirPlayer'; gameNumber: number; playerId: number; skillLevel?: number }
+  | { type: 'recordOurPlayer'; gameNumber: number; playerId: number; skillLevel?: number; recommendation?: GameRecommendation; secondOpinion?: GameRecommendation }
+  | { type: 'recordGameResult'; gameNumber: number; won: boolean; ourPoints?: number; theirPoints?: number; pointsNeeded?: PointsNeeded }
+  | { type: 'recordRack'; gameNumber: number; rack: RackScore; pointsNeeded: PointsNeeded }
+  | { type: 'undoLastRack'; gameNumber: number }
+  | { type: 'nextGame'; fromGame: number }
+  | { type: 'endMatch' };
+
+/**
+ * The part of the match an action edits. Two captains changing the same target at once is
+ * a conflict; changes to different targets (say, each side's pick for a game) both stand.
+ */
+export function actionTarget(action: LiveMatchAction): string {
+  switch (action.type) {
+    case 'setAttendance':
+      return 'attendance';
+    case 'setCoinTossResult':
+    case 'setWeThrowFirst':
+      return 'coin-toss';
+    case 'recordTheirPlayer':
+      return `game-${action.gameNumber}-theirs`;
+    case 'recordOurPlayer':
+      return `game-${action.gameNumber}-ours`;
+    case 'recordGameResult':
+    case 'recordRack':
+    case 'undoLastRack':
+      return `game-${action.gameNumber}-result`;
+    case 'nextGame':
+      return 'current-game';
+    case 'endMatch':
+      return 'status';
+  }
+}
+
+// Recompute match points, the score and the status after a game changes
+const withGames = (liveMatch: LiveMatch, rawGames: LiveGame[]): LiveMatch => {
+  const games = rawGames.map(g => {
+    const points = getGameMatchPoints(g, liveMatch.format);
+    return { ...g, ourMatchPoints: points?.ours, theirMatchPoints: points?.theirs };
+  });
+  const ourScore = games.filter(g => g.result === 'win').length;
+  const theirScore = games.filter(g => g.result === 'loss').length;
+  const matchPoints = getTeamMatchPoints(games);
+
+  // Team points count toward standings, so all five games are played out
+  const isComplete = games.every(g => g.result !== 'pending');
+
+  return {
+    ...liveMatch,
+    games,
+    ourScore,
+    theirScore,
+    ourMatchPoints: matchPoints.ours,
+    theirMatchPoints: matchPoints.theirs,
+    status: isComplete ? 'completed' : liveMatch.status === 'completed' ? 'in_progress' : liveMatch.status,
+  };
+};
+
+const updateGame = (liveMatch: LiveMatch, gameNumber: number, update: (game: LiveGame) => LiveGame): LiveGame[] =>
+  liveMatch.games.map(g => g.gameNumber === gameNumber ? update(g) : g);
+
+/**
+ * The match after one action. Pure - returns a new match and never touches the one passed in.
+ */
+export function applyLiveMatchAction(liveMatch: LiveMatch, action: LiveMatchAction): LiveMatch {
+  switch (action.type) {
+    case 'setAttendance':
+      return {
+        ...liveMatch,
+        ourPlayersPresent: action.ourPlayerIds,
+        theirPlayersPresent: action.theirPlayerIds,
+        status: 'coin_toss' as MatchStatus,
+      };
+
+    case 'setCoinTossResult':
+      return { ...liveMatch, coinTossWinner: action.weWon ? 'us' : 'them' };
+
+    case 'setWeThrowFirst':
+      return { ...liveMatch, weThrowFirst: action.throwFirst, status: 'in_progress' as MatchStatus };
+
+    case 'recordTheirPlayer':
+      return {
+        ...liveMatch,
+        games: updateGame(liveMatch, action.gameNumber, g => ({ ...g, theirPlayerId: action.playerId, theirSkillLevel: action.skillLevel })),
+      };
+
+    case 'recordOurPlayer':
+      return {
+        ...liveMatch,
+        games: updateGame(liveMatch, action.gameNumber, g => ({
+          ...g,
+          ourPlayerId: action.playerId,
+          ourSkillLevel: action.skillLevel,
+          recommendation: action.recommendation,
+          secondOpinion: action.secondOpinion,
+          wasRecommendationFollowed: action.recommendation ? action.recommendation.playerId === action.playerId : undefined,
+        })),
+      };
+
+    case 'recordGameResult':
+      return withGames(liveMatch, updateGame(liveMatch, action.gameNumber, g => ({
+        ...g,
+        result: action.won ? 'win' : 'loss',
+        ourPoints: action.ourPoints,
+        theirPoints: action.theirPoints,
+        ourPointsNeeded: action.pointsNeeded?.ours ?? g.ourPointsNeeded,
+        theirPointsNeeded: action.pointsNeeded?.theirs ?? g.theirPointsNeeded,
+      })));
+
+    case 'recordRack':
+      return withGames(liveMatch, updateGame(liveMatch, action.gameNumber, g => {
+        const racks = [...(g.racks ?? []), action.rack];
+        const score = getGameScore(racks);
+        return {
+          ...g,
+          racks,
+          ourPoints: score.ourPoints,
+          theirPoints: score.theirPoints,
+          ourPointsNeeded: action.pointsNeeded.ours,
+          theirPointsNeeded: action.pointsNeeded.theirs,
+          result: getGameWinner(score, action.pointsNeeded) ?? 'pending',
+        };
+      }));
+
+    case 'undoLastRack':
+      return withGames(liveMatch, updateGame(liveMatch, action.gameNumber, g => {
+        if (!g.racks?.length) return g;
+
+        const racks = g.racks.slice(0, -1);
+        const score = getGameScore(racks);
+        // Taking back the winning rack reopens the game
+        return {
+          ...g,
+          racks,
+          ourPoints: score.ourPoints,
+          theirPoints: score.theirPoints,
+          result: 'pending' as const,
+        };
+      }));
+
+    case 'nextGame':
+      // Moving on is relative to the game it was pressed on, so a repeat doesn't skip one
+      if (liveMatch.currentGame !== action.fromGame || liveMatch.currentGame >= 5) return liveMatch;
+      return { ...liveMatch, currentGame: liveMatch.currentGame + 1 };
+
+    case 'endMatch':
+      return { ...liveMatch, status: 'completed' as MatchStatus };
+  }
+}
+
+/**
+ * A match that has been through JSON (a shared session) with its date restored
+ */
+export function reviveLiveMatch(liveMatch: LiveMatch): LiveMatch {
+  return { ...liveMatch, scheduledDate: new Date(liveMatch.scheduledDate) };
+}
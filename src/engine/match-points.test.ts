@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getExpectedMatchPoints,
+  getGameMatchPoints,
+  getLoserMatchPoints,
+  getMatchPointsOdds,
+  NINE_BALL_MATCH_POINTS,
+} from './match-points';
+
+describe('getLoserMatchPoints', () => {
+  it('follows the 9-ball chart at each threshold', () => {
+    // SL3 races to 25, SL5 to 38, SL9 to 75: [points for 1, points for 7]
+    const thresholds: Array<[number, number, number]> = [[25, 5, 20], [38, 7, 30], [75, 14, 59]];
+    for (const [needed, first, last] of thresholds) {
+      expect(getLoserMatchPoints(first - 1, needed)).toBe(0);
+      expect(getLoserMatchPoints(first, needed)).toBe(1);
+      expect(getLoserMatchPoints(last - 1, needed)).toBe(6);
+      expect(getLoserMatchPoints(last, needed)).toBe(7);
+    }
+  });
+
+  it('gives an 8-ball loser 1 only on the hill', () => {
+    expect(getLoserMatchPoints(4, 5, 'EIGHT')).toBe(1);
+    expect(getLoserMatchPoints(3, 5, 'EIGHT')).toBe(0);
+    // A race to 1 has no hill
+    expect(getLoserMatchPoints(0, 1, 'EIGHT')).toBe(0);
+  });
+});
+
+describe('getGameMatchPoints', () => {
+  it('splits the 20 9-ball points from the loser\'s score', () => {
+    const game = { result: 'win' as const, ourPoints: 38, theirPoints: 16, ourPointsNeeded: 38, theirPointsNeeded: 38 };
+    expect(getGameMatchPoints(game)).toEqual({ ours: 16, theirs: 4 });
+    expect(getGameMatchPoints({ ...game, result: 'pending' })).toBeNull();
+    expect(getGameMatchPoints({ ...game, theirPoints: undefined })).toBeNull();
+  });
+
+  it('scores 8-ball shutouts 3-0 and hill losses 2-1', () => {
+    const shutout = { result: 'win' as const, ourPoints: 4, theirPoints: 0, ourPointsNeeded: 4, theirPointsNeeded: 4 };
+    expect(getGameMatchPoints(shutout, 'EIGHT')).toEqual({ ours: 3, theirs: 0 });
+
+    const hill = { result: 'loss' as const, ourPoints: 3, theirPoints: 5, ourPointsNeeded: 4, theirPointsNeeded: 5 };
+    expect(getGameMatchPoints(hill, 'EIGHT')).toEqual({ ours: 1, theirs: 2 });
+    expect(getGameMatchPoints({ ...hill, ourPoints: 2 }, 'EIGHT')).toEqual({ ours: 0, theirs: 2 });
+  });
+});
+
+describe('getMatchPointsOdds', () => {
+  const total = (outcomes: Array<{ chance: number }>) => outcomes.reduce((sum, o) => sum + o.chance, 0);
+
+  it('gives each result a distribution that sums to 1', () => {
+    const races: Array<[number, number, number, 'NINE' | 'EIGHT']> = [
+      [38, 38, 0.5, 'NINE'],
+      [25, 75, 0.2, 'NINE'],
+      [75, 14, 0.9, 'NINE'],
+      [5, 3, 0.6, 'EIGHT'],
+      [2, 7, 0.3, 'EIGHT'],
+    ];
+    for (const [ours, theirs, p, format] of races) {
+      const odds = getMatchPointsOdds(ours, theirs, p, format);
+      expect(total(odds.ifWin)).toBeCloseTo(1, 9);
+      expect(total(odds.ifLoss)).toBeCloseTo(1, 9);
+    }
+  });
+
+  it('always hands out all 20 points in 9-ball', () => {
+    const { ifWin, ifLoss } = getMatchPointsOdds(31, 46, 0.45);
+    for (const outcome of [...ifWin, ...ifLoss]) {
+      expect(outcome.ours + outcome.theirs).toBe(NINE_BALL_MATCH_POINTS);
+    }
+    expect(ifWin.every(o => o.ours >= 13)).toBe(true);
+    expect(ifLoss.every(o => o.ours <= 7)).toBe(true);
+  });
+});
+
+describe('getExpectedMatchPoints', () => {
+  it('averages the odds and splits an even race down the middle', () => {
+    const even = getExpectedMatchPoints(38, 38, 0.5);
+    expect(even.expected).toBeCloseTo(NINE_BALL_MATCH_POINTS / 2, 1);
+    expect(even.ifWin + even.ifLoss).toBeCloseTo(NINE_BALL_MATCH_POINTS, 1);
+
+    const favoured = getExpectedMatchPoints(38, 38, 0.7);
+    expect(favoured.expected).toBeCloseTo(0.7 * favoured.ifWin + 0.3 * favoured.ifLoss, 9);
+    expect(favoured.expected).toBeGreaterThan(even.expected);
+  });
+});
@@ -0,0 +1,204 @@
+// APA team match points
+// 9-ball: every individual match is worth 20 points. The loser keeps 0-7 of them depending
+// on how far they got toward their race, and the winner takes the rest.
+// 8-ball: the winner takes 2 (3 for a shutout) and a loser who reached the hill takes 1.
+// Team standings are built from these points, so all five games are always played.
+
+import type { GameFormat, LiveGame } from '../data/types';
+import { getRaceWinProbability } from './skill-level-tables';
+
+export const NINE_BALL_MATCH_POINTS = 20;
+
+// Official 9-ball points-awarded chart, keyed by the loser's race target (their skill level).
+// Entry n is the fewest points the loser needs to keep n + 1 match points.
+export const NINE_BALL_POINTS_CHART: Record<number, number[]> = {
+  14: [3, 4, 5, 7, 8, 10, 12],    // SL1
+  19: [4, 6, 7, 9, 11, 13, 16],   // SL2
+  25: [5, 7, 9, 11, 13, 16, 20],  // SL3
+  31: [6, 8, 11, 14, 16, 20, 25], // SL4
+  38: [7, 10, 13, 16, 19, 23, 30], // SL5
+  46: [9, 12, 16, 19, 23, 28, 36], // SL6
+  55: [10, 14, 18, 23, 27, 33, 43], // SL7
+  65: [12, 16, 22, 27, 32, 39, 51], // SL8
+  75: [14, 19, 25, 31, 37, 45, 59], // SL9
+};
+
+export interface MatchPoints {
+  ours: number;
+  theirs: number;
+}
+
+/**
+ * Match points the loser keeps, given how many points (9-ball) or racks (8-ball) they
+ * reached out of the race they needed
+ */
+export function getLoserMatchPoints(loserPoints: number, loserNeeded: number, format: GameFormat = 'NINE'): number {
+  if (format === 'EIGHT') {
+    return loserNeeded > 1 && loserPoints >= loserNeeded - 1 ? 1 : 0;
+  }
+
+  const chart = NINE_BALL_POINTS_CHART[loserNeeded] ?? scaleChart(loserNeeded);
+  return chart.filter(threshold => loserPoints >= threshold).length;
+}
+
+// Off-chart races (shouldn't happen) use SL5's thresholds scaled to the race length
+const scaleChart = (needed: number): number[] =>
+  NINE_BALL_POINTS_CHART[38].map(threshold => Math.round((threshold / 38) * needed));
+
+/**
+ * Winner's match points once the loser's share is known
+ */
+export function getWinnerMatchPoints(loserPoints: number, loserMatchPoints: number, format: GameFormat = 'NINE'): number {
+  if (format === 'EIGHT') {
+    return loserPoints === 0 ? 3 : 2;
+  }
+  return NINE_BALL_MATCH_POINTS - loserMatchPoints;
+}
+
+/**
+ * Match points for a finished game, from our side. Null while the game is pending or
+ * when the loser's score or race wasn't recorded.
+ */
+export function getGameMatchPoints(
+  game: Pick<LiveGame, 'result' | 'ourPoints' | 'theirPoints' | 'ourPointsNeeded' | 'theirPointsNeeded'>,
+  format: GameFormat = 'NINE'
+): MatchPoints | null {
+  if (game.result === 'pending') return null;
+
+  const weWon = game.result === 'win';
+  const loserPoints = weWon ? game.theirPoints : game.ourPoints;
+  const loserNeeded = weWon ? game.theirPointsNeeded : game.ourPointsNeeded;
+  if (loserPoints === undefined || loserNeeded === undefined) return null;
+
+  const loserMatchPoints = getLoserMatchPoints(loserPoints, loserNeeded, format);
+  const winnerMatchPoints = getWinnerMatchPoints(loserPoints, loserMatchPoints, format);
+  return weWon
+    ? { ours: winnerMatchPoints, theirs: loserMatchPoints }
+    : { ours: loserMatchPoints, theirs: winnerMatchPoints };
+}
+
+/**
+ * Team totals across the games that have match points
+ */
+export function getTeamMatchPoints(games: Pick<LiveGame, 'ourMatchPoints' | 'theirMatchPoints'>[]): MatchPoints {
+  return games.reduce<MatchPoints>(
+    (total, g) => ({
+      ours: total.ours + (g.ourMatchPoints ?? 0),
+      theirs: total.theirs + (g.theirMatchPoints ?? 0),
+    }),
+    { ours: 0, theirs: 0 }
+  );
+}
+
+export interface ExpectedMatchPoints {
+  ifWin: number;      // Our expected match points given we win the game
+  ifLoss: number;     // ... given we lose it
+  expected: number;
+}
+
+export interface MatchPointsOutcome {
+  ours: number;
+  theirs: number;
+  chance: number;
+}
+
+export interface MatchPointsOdds {
+  ifWin: MatchPointsOutcome[];    // How the match points split given we win the game (chances sum to 1)
+  ifLoss: MatchPointsOutcome[];   // ... given we lose it
+}
+
+/**
+ * How the match points in a race are split, given how it ends.
+ * Points (or racks) are treated as independent, with the per-point edge chosen so the
+ * race is won with `winProbability`; the loser's final score then follows a negative binomial.
+ */
+export function getMatchPointsOdds(
+  ourNeeded: number,
+  theirNeeded: number,
+  winProbability: number,
+  format: GameFormat = 'NINE'
+): MatchPointsOdds {
+  const q = solvePointProbability(ourNeeded, theirNeeded, winProbability);
+
+  // P(race ends with the loser on exactly k) for each side
+  const loserScoreOdds = (winnerNeeds: number, loserNeeds: number, winnerEdge: number): number[] => {
+    const odds: number[] = [];
+    let term = Math.pow(winnerEdge, winnerNeeds);
+    for (let k = 0; k < loserNeeds; k++) {
+      if (k > 0) term *= ((winnerNeeds - 1 + k) / k) * (1 - winnerEdge);
+      odds.push(term);
+    }
+    return odds;
+  };
+
+  // Loser's final scores collected by how they split the match points, scaled to sum to 1
+  const collect = (
+    winnerNeeds: number,
+    loserNeeds: number,
+    winnerEdge: number,
+    split: (loserPoints: number) => Omit<MatchPointsOutcome, 'chance'>
+  ): MatchPointsOutcome[] => {
+    const outcomes = new Map<string, MatchPointsOutcome>();
+    loserScoreOdds(winnerNeeds, loserNeeds, winnerEdge).forEach((p, k) => {
+      const { ours, theirs } = split(k);
+      const key = `${ours}-${theirs}`;
+      const outcome = outcomes.get(key) ?? { ours, theirs, chance: 0 };
+      outcome.chance += p;
+      outcomes.set(key, outcome);
+    });
+    const mass = [...outcomes.values()].reduce((sum, o) => sum + o.chance, 0);
+    return mass > 0 ? [...outcomes.values()].map(o => ({ ...o, chance: o.chance / mass })) : [];
+  };
+
+  const ifWin = collect(ourNeeded, theirNeeded, q, k => {
+    const theirs = getLoserMatchPoints(k, theirNeeded, format);
+    return { ours: getWinnerMatchPoints(k, theirs, format), theirs };
+  });
+  const ifLoss = collect(theirNeeded, ourNeeded, 1 - q, k => {
+    const ours = getLoserMatchPoints(k, ourNeeded, format);
+    return { ours, theirs: getWinnerMatchPoints(k, ours, format) };
+  });
+
+  const shutout = getWinnerMatchPoints(0, 0, format);
+  return {
+    ifWin: ifWin.length > 0 ? ifWin : [{ ours: shutout, theirs: 0, chance: 1 }],
+    ifLoss: ifLoss.length > 0 ? ifLoss : [{ ours: 0, theirs: shutout, chance: 1 }],
+  };
+}
+
+/**
+ * Expected match points for our player in a race, given their chance of winning it
+ * (the averages of getMatchPointsOdds)
+ */
+export function getExpectedMatchPoints(
+  ourNeeded: number,
+  theirNeeded: number,
+  winProbability: number,
+  format: GameFormat = 'NINE'
+): ExpectedMatchPoints {
+  const odds = getMatchPointsOdds(ourNeeded, theirNeeded, winProbability, format);
+  const mean = (outcomes: MatchPointsOutcome[]) => outcomes.reduce((sum, o) => sum + o.ours * o.chance, 0);
+
+  const ifWin = mean(odds.ifWin);
+  const ifLoss = mean(odds.ifLoss);
+  return {
+    ifWin,
+    ifLoss,
+    expected: winProbability * ifWin + (1 - winProbability) * ifLoss,
+  };
+}
+
+// Per-point probability that makes the race come out at `winProbability` (bisection)
+function solvePointProbability(ourNeeded: number, theirNeeded: number, winProbability: number): number {
+  let low = 0.001;
+  let high = 0.999;
+  for (let step = 0; step < 40; step++) {
+    const mid = (low + high) / 2;
+    if (getRaceWinProbability(mid, ourNeeded, theirNeeded) < winProbability) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
@@ -1,20 +1,27 @@
-import type { Player, PlayerStats, HeadToHead, MatchupRecommendation } from '../data/types';
+import type { Player, PlayerStats, HeadToHead, MatchupRecommendation, GameFormat, PlayerRating, CoinTossOutcome } from '../data/types';
 import { calculateWinProbability, generateReasoning } from './win-probability';
+import { GAMES_TO_WIN, checkCandidateLegality, type LineupContext } from './lineup-rules';
+import { optimizeLineup } from './lineup-optimizer';
+import { simulateCoinToss, type CoinTossSimulation, type SimulationOptions } from './coin-toss-simulation';
+import { describeBlindThrow, evaluateBlindThrow, predictCounters, toExpectedCounter, type BlindThrowOptions } from './blind-throw';
 
 export interface MatchupInput {
   player: Player;
   stats?: PlayerStats;
   recentStats?: PlayerStats[];
+  rating?: PlayerRating;
 }
 
 export interface OpponentInput {
   player: Player;
   stats?: PlayerStats;
   recentStats?: PlayerStats[];
+  rating?: PlayerRating;
 }
 
 /**
- * Generate ranked matchup recommendations for available players against an opponent
+ * Generate ranked matchup recommendations for available players against an opponent.
+ * When a lineup context is given, picks that would break the skill-level cap are ranked last.
  */
 export function getMatchupRecommendations(
   availablePlayers: MatchupInput[],
@@ -22,9 +29,12 @@ export function getMatchupRecommendations(
   headToHeadData: Map<string, HeadToHead>,
   _gameNumber: number,
   _ourScore: number,
-  _theirScore: number
+  _theirScore: number,
+  lineup?: LineupContext,
+  format?: GameFormat
 ): MatchupRecommendation[] {
   const recommendations: MatchupRecommendation[] = [];
+  const illegalIds = new Set<number>();
 
   for (const playerInput of availablePlayers) {
     const { player, stats, recentStats } = playerInput;
@@ -41,7 +51,8 @@ export function getMatchupRecommendations(
       opponent.stats,
       headToHead,
       recentStats,
-      opponent.recentStats
+      opponent.recentStats,
+      { format, playerRating: playerInput.rating, opponentRating: opponent.rating }
     );
     
     // Generate reasoning
@@ -51,6 +62,21 @@ export function getMatchupRecommendations(
       result.factors,
       headToHead
     );
+
+    // Skill-level cap
+    if (lineup) {
+      const legality = checkCandidateLegality(
+        player,
+        availablePlayers.map(p => p.player),
+        lineup
+      );
+      if (!legality.isLegal) {
+        illegalIds.add(player.id);
+      }
+      if (legality.reason) {
+        reasoning.unshift(legality.reason);
+      }
+    }
     
     recommendations.push({
       playerId: player.id,
@@ -62,169 +88,179 @@ export function getMatchupRecommendations(
     });
   }
 
-  // Sort by win probability (highest first)
-  return recommendations.sort((a, b) => b.winProbability - a.winProbability);
+  // Sort by win probability (highest first), illegal picks last
+  return recommendations.sort((a, b) => {
+    const legalityDiff = Number(illegalIds.has(a.playerId)) - Number(illegalIds.has(b.playerId));
+    return legalityDiff !== 0 ? legalityDiff : b.winProbability - a.winProbability;
+  });
 }
 
 /**
- * Find the best player to throw first when we have the choice
+ * Find the best player to throw first when we have the choice. Each pick is scored by what
+ * happens after their counter - their best one by default, or the mix set by `blind`.
  */
 export function getBestOpener(
   availablePlayers: MatchupInput[],
   opponents: OpponentInput[],
-  headToHeadData: Map<string, HeadToHead>
+  headToHeadData: Map<string, HeadToHead>,
+  lineup?: LineupContext,
+  format?: GameFormat,
+  blind?: BlindThrowOptions
 ): MatchupRecommendation | null {
   if (availablePlayers.length === 0 || opponents.length === 0) {
     return null;
   }
 
-  let bestAvgProbability = 0;
+  let bestProbability = -1;
   let bestPlayer: MatchupRecommendation | null = null;
 
   for (const playerInput of availablePlayers) {
-    // Calculate average win probability against all opponents
-    let totalProbability = 0;
-    const playerReasons: string[] = [];
-    let playerFactors = {
-      skillLevelAdvantage: 0,
-      winPercentageDelta: 0,
-      headToHeadRecord: 0,
-      recentFormTrend: 0,
-      ppmEfficiency: 0,
-    };
-
-    for (const opponent of opponents) {
-      const h2hKey = `${playerInput.player.id}-${opponent.player.id}`;
-      const headToHead = headToHeadData.get(h2hKey);
-      
-      const result = calculateWinProbability(
-        playerInput.player,
-        playerInput.stats,
-        opponent.player,
-        opponent.stats,
-        headToHead,
-        playerInput.recentStats,
-        opponent.recentStats
-      );
-      
-      totalProbability += result.probability;
-      
-      // Accumulate factors
-      playerFactors.skillLevelAdvantage += result.factors.skillLevelAdvantage;
-      playerFactors.winPercentageDelta += result.factors.winPercentageDelta;
-      playerFactors.headToHeadRecord += result.factors.headToHeadRecord;
-      playerFactors.recentFormTrend += result.factors.recentFormTrend;
-      playerFactors.ppmEfficiency += result.factors.ppmEfficiency;
+    // Never open with someone who makes the rest of the lineup illegal
+    if (lineup && !checkCandidateLegality(
+      playerInput.player,
+      availablePlayers.map(p => p.player),
+      lineup
+    ).isLegal) {
+      continue;
     }
 
-    const avgProbability = totalProbability / opponents.length;
-    
-    // Average the factors
-    const numOpponents = opponents.length;
-    playerFactors = {
-      skillLevelAdvantage: playerFactors.skillLevelAdvantage / numOpponents,
-      winPercentageDelta: playerFactors.winPercentageDelta / numOpponents,
-      headToHeadRecord: playerFactors.headToHeadRecord / numOpponents,
-      recentFormTrend: playerFactors.recentFormTrend / numOpponents,
-      ppmEfficiency: playerFactors.ppmEfficiency / numOpponents,
-    };
+    const results = opponents.map(opponent => calculateWinProbability(
+      playerInput.player,
+      playerInput.stats,
+      opponent.player,
+      opponent.stats,
+      headToHeadData.get(`${playerInput.player.id}-${opponent.player.id}`),
+      playerInput.recentStats,
+      opponent.recentStats,
+      { format, playerRating: playerInput.rating, opponentRating: opponent.rating }
+    ));
+    const predicted = predictCounters(
+      opponents.map(o => o.player.id),
+      { gameNumber: 1, ourScore: 0, theirScore: 0, respondingTo: playerInput.player.id },
+      blind
+    );
+    const evaluation = evaluateBlindThrow(
+      opponents.map((o, k) => ({ opponent: o.player, winProbability: results[k].probability })),
+      predicted,
+      blind?.predictedWeight
+    );
+    if (!evaluation || evaluation.winProbability <= bestProbability) continue;
 
-    if (avgProbability > bestAvgProbability) {
-      bestAvgProbability = avgProbability;
-      playerReasons.push(`${playerInput.player.name} has strong matchups across the board`);
-      playerReasons.push(`Average ${Math.round(avgProbability * 100)}% win probability vs all opponents`);
-      
-      bestPlayer = {
-        playerId: playerInput.player.id,
-        playerName: playerInput.player.name,
-        winProbability: Math.round(avgProbability * 100) / 100,
-        confidence: 0.7, // Moderate confidence for opener recommendations
-        reasoning: playerReasons,
-        factors: playerFactors,
-      };
-    }
+    // Factors weighted the same way as the probability
+    const likelihood = new Map(evaluation.counters.map(c => [c.playerId, c.likelihood]));
+    const factors = { skillLevelAdvantage: 0, winPercentageDelta: 0, headToHeadRecord: 0, recentFormTrend: 0, ppmEfficiency: 0 };
+    opponents.forEach((o, k) => {
+      const weight = likelihood.get(o.player.id) ?? 0;
+      factors.skillLevelAdvantage += results[k].factors.skillLevelAdvantage * weight;
+      factors.winPercentageDelta += results[k].factors.winPercentageDelta * weight;
+      factors.headToHeadRecord += results[k].factors.headToHeadRecord * weight;
+      factors.recentFormTrend += results[k].factors.recentFormTrend * weight;
+      factors.ppmEfficiency += results[k].factors.ppmEfficiency * weight;
+    });
+
+    bestProbability = evaluation.winProbability;
+    bestPlayer = {
+      playerId: playerInput.player.id,
+      playerName: playerInput.player.name,
+      winProbability: Math.round(evaluation.winProbability * 100) / 100,
+      expectedCounter: toExpectedCounter(evaluation),
+      confidence: 0.7, // Moderate confidence for opener recommendations
+      reasoning: describeBlindThrow(playerInput.player.name, evaluation, blind?.predictedWeight),
+      factors,
+    };
   }
 
   return bestPlayer;
 }
 
 /**
- * Analyze the strategic value of throwing first vs deferring
+ * Analyze the strategic value of throwing first vs deferring by playing the match out under
+ * both choices (see coin-toss-simulation). Scores are match win probabilities, or expected
+ * team points with the 'team_points' objective.
  */
 export function analyzeThrowFirstAdvantage(
   ourPlayers: MatchupInput[],
   theirPlayers: OpponentInput[],
-  headToHeadData: Map<string, HeadToHead>
+  headToHeadData: Map<string, HeadToHead>,
+  format?: GameFormat,
+  options?: SimulationOptions
 ): {
   throwFirstScore: number;
   deferScore: number;
   recommendation: 'throw_first' | 'defer';
   reasoning: string[];
+  simulation: CoinTossSimulation;
 } {
-  const reasoning: string[] = [];
+  const simulation = simulateCoinToss(ourPlayers, theirPlayers, headToHeadData, format, options);
+  const { throwFirst, defer } = simulation;
+  const score = (outcome: CoinTossOutcome) =>
+    options?.objective === 'team_points' ? outcome.expectedTeamPoints : outcome.matchWinProbability;
 
-  // Calculate our best opener
-  const ourBestOpener = getBestOpener(ourPlayers, theirPlayers, headToHeadData);
-  const ourBestOpenerProb = ourBestOpener?.winProbability ?? 0.5;
+  const throwFirstScore = score(throwFirst);
+  const deferScore = score(defer);
+  const recommendation = throwFirstScore > deferScore ? 'throw_first' : 'defer';
+  const [chosen, other] = recommendation === 'throw_first' ? [throwFirst, defer] : [defer, throwFirst];
+  const percent = (p: number) => `${Math.round(p * 100)}%`;
 
-  // Calculate their best opener (from our perspective, this is their threat)
-  const theirBestOpener = getBestOpener(
-    theirPlayers.map(p => ({ player: p.player, stats: p.stats, recentStats: p.recentStats })),
-    ourPlayers.map(p => ({ player: p.player, stats: p.stats, recentStats: p.recentStats })),
-    headToHeadData
+  const reasoning: string[] = [];
+  if (Math.abs(throwFirstScore - deferScore) <= Math.max(throwFirstScore, deferScore) * 0.02) {
+    reasoning.push(`Too close to call - both choices play out about the same over ${simulation.simulations} simulated matches`);
+  } else if (recommendation === 'throw_first') {
+    reasoning.push(`Our blind throws hold up - we counter in games 2 and 4 and still come out ahead`);
+  } else {
+    reasoning.push(`Counter-picking in games 1, 3 and 5 is worth more than setting the pace`);
+  }
+  reasoning.push(
+    `${recommendation === 'throw_first' ? 'Throwing first' : 'Deferring'}: ${percent(chosen.matchWinProbability)} match win, ` +
+    `${chosen.expectedTeamPoints.toFixed(1)} expected team points ` +
+    `(vs ${percent(other.matchWinProbability)} and ${other.expectedTeamPoints.toFixed(1)})`
   );
-  const theirBestOpenerThreat = 1 - (theirBestOpener?.winProbability ?? 0.5);
-
-  // Score for throwing first:
-  // - We get to set the tone with our best opener
-  // - We reveal our hand but control game 1
-  const throwFirstScore = ourBestOpenerProb * 0.6 + 0.4 * 0.5; // 60% opener quality, 40% neutral
-
-  // Score for deferring:
-  // - We get to react to their choice
-  // - We can counter-pick optimally
-  // - Risk: if they have a dominant opener, we might struggle
-  const deferScore = (1 - theirBestOpenerThreat) * 0.4 + 0.55 * 0.6; // 40% avoiding their best, 60% counter-pick advantage
-
-  if (throwFirstScore > deferScore) {
-    reasoning.push(`Our opener (${ourBestOpener?.playerName}) has strong matchups`);
-    reasoning.push(`Setting the pace early gives us an advantage`);
-    if (ourBestOpenerProb > 0.55) {
-      reasoning.push(`${ourBestOpener?.playerName} has ${Math.round(ourBestOpenerProb * 100)}% average win probability`);
-    }
+  if (options?.opponentPolicy && options.predictedWeight) {
+    reasoning.push(`Assumes they follow their habits ${percent(options.predictedWeight)} of the time`);
   } else {
-    reasoning.push(`Deferring lets us counter-pick their choice`);
-    reasoning.push(`We can optimize each matchup reactively`);
-    if (theirBestOpener && theirBestOpener.winProbability > 0.55) {
-      reasoning.push(`This avoids letting them exploit their best matchups`);
-    }
+    reasoning.push(`Assumes they always find their best reply`);
   }
 
   return {
-    throwFirstScore: Math.round(throwFirstScore * 100) / 100,
-    deferScore: Math.round(deferScore * 100) / 100,
-    recommendation: throwFirstScore > deferScore ? 'throw_first' : 'defer',
+    throwFirstScore,
+    deferScore,
+    recommendation,
     reasoning,
+    simulation,
   };
 }
 
 /**
- * Calculate the match win probability given current state
+ * Calculate the match win probability given current state.
+ * With the throw order known, both captains' remaining picks are searched game by game;
+ * otherwise this falls back to a binomial over the average matchup.
  */
 export function calculateMatchWinProbability(
   ourScore: number,
   theirScore: number,
   ourRemainingPlayers: MatchupInput[],
   theirRemainingPlayers: OpponentInput[],
-  headToHeadData: Map<string, HeadToHead>
+  headToHeadData: Map<string, HeadToHead>,
+  throwOrder?: { currentGame: number; weThrowFirst: boolean },
+  format?: GameFormat
 ): number {
-  const gamesNeededToWin = 3; // First to 3 wins the match
-  const ourGamesNeeded = gamesNeededToWin - ourScore;
-  const theirGamesNeeded = gamesNeededToWin - theirScore;
+  // All five games are played, but a majority of them decides the match
+  const ourGamesNeeded = GAMES_TO_WIN - ourScore;
+  const theirGamesNeeded = GAMES_TO_WIN - theirScore;
 
   if (ourGamesNeeded <= 0) return 1; // We already won
   if (theirGamesNeeded <= 0) return 0; // They already won
 
+  if (throwOrder) {
+    const result = optimizeLineup({
+      ourPlayers: ourRemainingPlayers,
+      theirPlayers: theirRemainingPlayers,
+      headToHeadData,
+      liveMatch: { ...throwOrder, ourScore, theirScore, format },
+    });
+    return Math.max(0.05, Math.min(0.95, result.matchWinProbability));
+  }
+
   // Simple approximation: average win probability across remaining matchups
   let totalProb = 0;
   let matchups = 0;
@@ -239,7 +275,10 @@ export function calculateMatchWinProbability(
         ourPlayer.stats,
         theirPlayer.player,
         theirPlayer.stats,
-        headToHead
+        headToHead,
+        undefined,
+        undefined,
+        { format, playerRating: ourPlayer.rating, opponentRating: theirPlayer.rating }
       );
       
       totalProb += result.probability;
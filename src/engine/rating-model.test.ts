@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { fitRatings, getRatingWinProbability, INITIAL_DEVIATION, INITIAL_RATING } from './rating-model';
+import type { PlayerMatchRecord, PlayerRating } from '../data/types';
+
+const record = (id: number, playerId: number, opponentId: number, won: boolean, day: number): PlayerMatchRecord => ({
+  id,
+  playerId,
+  datePlayed: new Date(Date.UTC(2025, 8, day)),
+  won,
+  skillLevel: 5,
+  pointsAwarded: won ? 38 : 20,
+  pointsNeeded: 38,
+  opponentId,
+  opponentName: `Player ${opponentId}`,
+  opponentSkillLevel: 5,
+  matchId: id,
+});
+
+const rating = (playerId: number, value: number, deviation = 80): PlayerRating => ({
+  playerId,
+  rating: value,
+  deviation,
+  gamesPlayed: 20,
+});
+
+describe('fitRatings', () => {
+  it('moves a winner above a loser', () => {
+    const ratings = fitRatings(
+      [record(1, 1, 2, true, 2), record(2, 1, 2, true, 9), record(3, 1, 2, true, 16)],
+      { asOf: new Date(Date.UTC(2025, 8, 16)) }
+    );
+    const winner = ratings.get(1)!;
+    const loser = ratings.get(2)!;
+    expect(winner.rating).toBeGreaterThan(INITIAL_RATING);
+    expect(loser.rating).toBeLessThan(INITIAL_RATING);
+    expect(winner.deviation).toBeLessThan(INITIAL_DEVIATION);
+    expect(winner.gamesPlayed).toBe(3);
+  });
+
+  it('counts a match seen in both players\' histories once', () => {
+    const asOf = new Date(Date.UTC(2025, 8, 2));
+    const once = fitRatings([record(1, 1, 2, true, 2)], { asOf });
+    const twice = fitRatings([record(1, 1, 2, true, 2), record(1, 2, 1, false, 2)], { asOf });
+    expect(twice).toEqual(once);
+  });
+});
+
+describe('getRatingWinProbability', () => {
+  it('is even between equal ratings at equal skill levels', () => {
+    expect(getRatingWinProbability(5, 5)).toBeCloseTo(0.5, 9);
+    expect(getRatingWinProbability(5, 5, rating(1, 1620), rating(2, 1620))).toBeCloseTo(0.5, 9);
+  });
+
+  it('gives the two players complementary chances', () => {
+    const pairs: Array<[number, number, PlayerRating, PlayerRating]> = [
+      [5, 5, rating(1, 1700), rating(2, 1450, 200)],
+      [3, 7, rating(1, 1550, 40), rating(2, 1500)],
+    ];
+    for (const [sl, opponentSl, ours, theirs] of pairs) {
+      const forward = getRatingWinProbability(sl, opponentSl, ours, theirs);
+      const reverse = getRatingWinProbability(opponentSl, sl, theirs, ours);
+      expect(forward + reverse).toBeCloseTo(1, 9);
+    }
+    expect(getRatingWinProbability(5, 5, rating(1, 1700), rating(2, 1450))).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,172 @@
+// Glicko skill ratings
+// A rating measures how a player performs relative to their APA skill level: the handicap
+// sets the expected result of a match and the rating explains what's left over.
+// Ratings are fit on PlayerMatchRecord history one match night (rating period) at a time.
+// Every rating carries a deviation that shrinks as games are played and grows with time off,
+// so win probabilities and confidence both come from the same posterior.
+
+import type { GameFormat, PlayerMatchRecord, PlayerRating } from '../data/types';
+import { getBaseWinProbability } from './skill-level-tables';
+
+export const INITIAL_RATING = 1500;
+export const INITIAL_DEVIATION = 350;
+export const MIN_DEVIATION = 30;
+
+// Deviation added per week without a match - regrows to INITIAL_DEVIATION after ~2 years off
+const DEVIATION_GROWTH_PER_WEEK = 34;
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+
+// Glicko's scale: 400 rating points = 10:1 odds
+const Q = Math.log(10) / 400;
+
+export interface RatingFitOptions {
+  teamFormats?: Map<number, GameFormat>;   // Format of each record's team (9-ball if unknown)
+  asOf?: Date;                             // Deviations are grown up to this date (default now)
+}
+
+interface PeriodGame {
+  opponentId: number;
+  handicapOffset: number;
+  score: number;        // 1 win, 0 loss
+}
+
+const logistic = (x: number): number => 1 / (1 + Math.exp(-x));
+
+// Dampens rating differences by the opponent's uncertainty
+const g = (deviation: number): number =>
+  1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+
+// Log-odds the handicap alone gives the player. The base table isn't quite symmetric between
+// the two sides, so both directions are averaged - the two players' chances then sum to 1.
+const handicapOffset = (skillLevel: number, opponentSkillLevel: number, format: GameFormat): number => {
+  const logOdds = (p: number) => Math.log(p / (1 - p));
+  return (logOdds(getBaseWinProbability(skillLevel, opponentSkillLevel, format))
+    - logOdds(getBaseWinProbability(opponentSkillLevel, skillLevel, format))) / 2;
+};
+
+const priorRating = (playerId: number): PlayerRating => ({
+  playerId,
+  rating: INITIAL_RATING,
+  deviation: INITIAL_DEVIATION,
+  gamesPlayed: 0,
+});
+
+// Deviation after `weeks` without playing
+const inflateDeviation = (deviation: number, weeks: number): number =>
+  Math.min(INITIAL_DEVIATION, Math.sqrt(deviation * deviation + DEVIATION_GROWTH_PER_WEEK ** 2 * Math.max(0, weeks)));
+
+const weeksBetween = (from: Date | undefined, to: Date): number =>
+  from ? (to.getTime() - new Date(from).getTime()) / MS_PER_WEEK : 0;
+
+/**
+ * Fit ratings for every player that appears in the match history
+ */
+export function fitRatings(records: PlayerMatchRecord[], options: RatingFitOptions = {}): Map<number, PlayerRating> {
+  // Each match shows up in both players' histories - keep one copy
+  const seen = new Set<string>();
+  const unique = records.filter(r => {
+    const day = new Date(r.datePlayed).toISOString().slice(0, 10);
+    const [low, high] = r.playerId < r.opponentId ? [r.playerId, r.opponentId] : [r.opponentId, r.playerId];
+    const key = `${r.matchId ?? day}-${low}-${high}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  // One rating period per match night
+  const periods = new Map<string, PlayerMatchRecord[]>();
+  for (const record of unique) {
+    const day = new Date(record.datePlayed).toISOString().slice(0, 10);
+    periods.set(day, [...(periods.get(day) ?? []), record]);
+  }
+
+  const ratings = new Map<number, PlayerRating>();
+  const get = (playerId: number) => ratings.get(playerId) ?? priorRating(playerId);
+
+  for (const day of [...periods.keys()].sort()) {
+    const periodDate = new Date(day);
+    const games = new Map<number, PeriodGame[]>();
+    const addGame = (playerId: number, game: PeriodGame) => {
+      games.set(playerId, [...(games.get(playerId) ?? []), game]);
+    };
+
+    for (const record of periods.get(day)!) {
+      const format = options.teamFormats?.get(record.teamId ?? -1) ?? 'NINE';
+      const offset = handicapOffset(record.skillLevel, record.opponentSkillLevel, format);
+      addGame(record.playerId, { opponentId: record.opponentId, handicapOffset: offset, score: record.won ? 1 : 0 });
+      addGame(record.opponentId, { opponentId: record.playerId, handicapOffset: -offset, score: record.won ? 0 : 1 });
+    }
+
+    // Everyone is updated from the ratings they brought into the period
+    const before = new Map<number, PlayerRating>();
+    for (const playerId of games.keys()) {
+      const current = get(playerId);
+      before.set(playerId, {
+        ...current,
+        deviation: inflateDeviation(current.deviation, weeksBetween(current.lastPlayed, periodDate)),
+      });
+    }
+
+    for (const [playerId, playerGames] of games) {
+      const player = before.get(playerId)!;
+      let information = 0;
+      let surprise = 0;
+      for (const game of playerGames) {
+        const opponent = before.get(game.opponentId)!;
+        const gOpponent = g(opponent.deviation);
+        const expected = logistic(game.handicapOffset + gOpponent * Q * (player.rating - opponent.rating));
+        information += Q * Q * gOpponent * gOpponent * expected * (1 - expected);
+        surprise += gOpponent * (game.score - expected);
+      }
+
+      const precision = 1 / (player.deviation * player.deviation) + information;
+      ratings.set(playerId, {
+        playerId,
+        rating: player.rating + (Q / precision) * surprise,
+        deviation: Math.max(MIN_DEVIATION, Math.sqrt(1 / precision)),
+        gamesPlayed: player.gamesPlayed + playerGames.length,
+        lastPlayed: periodDate,
+      });
+    }
+  }
+
+  // Grow uncertainty for time since each player's last match
+  const asOf = options.asOf ?? new Date();
+  for (const rating of ratings.values()) {
+    rating.deviation = inflateDeviation(rating.deviation, weeksBetween(rating.lastPlayed, asOf));
+  }
+
+  return ratings;
+}
+
+/**
+ * Predicted chance that `player` beats `opponent`: the handicap's expectation shifted by the
+ * rating gap, flattened by how uncertain both ratings are. Missing ratings count as the prior.
+ */
+export function getRatingWinProbability(
+  playerSkillLevel: number,
+  opponentSkillLevel: number,
+  playerRating?: PlayerRating,
+  opponentRating?: PlayerRating,
+  format: GameFormat = 'NINE'
+): number {
+  const player = playerRating ?? priorRating(0);
+  const opponent = opponentRating ?? priorRating(0);
+  const combinedDeviation = Math.sqrt(player.deviation ** 2 + opponent.deviation ** 2);
+  return logistic(
+    handicapOffset(playerSkillLevel, opponentSkillLevel, format)
+      + g(combinedDeviation) * Q * (player.rating - opponent.rating)
+  );
+}
+
+/**
+ * 0-1 confidence in a prediction: 0 when neither player has a history, near 1 when both
+ * ratings are as settled as the model allows
+ */
+export function getRatingConfidence(playerRating?: PlayerRating, opponentRating?: PlayerRating): number {
+  const player = playerRating ?? priorRating(0);
+  const opponent = opponentRating ?? priorRating(0);
+  const typicalDeviation = Math.sqrt((player.deviation ** 2 + opponent.deviation ** 2) / 2);
+  const confidence = (INITIAL_DEVIATION - typicalDeviation) / (INITIAL_DEVIATION - MIN_DEVIATION);
+  return Math.max(0, Math.min(1, confidence));
+}
@@ -4,7 +4,9 @@ import type {
   HeadToHead, 
   CoinTossDecision, 
   MatchupRecommendation,
-  LiveMatch 
+  LiveMatch,
+  GameFormat,
+  PlayerRating
 } from '../data/types';
 import { 
   getMatchupRecommendations, 
@@ -13,44 +15,145 @@ import {
   type MatchupInput,
   type OpponentInput
 } from './matchup-calculator';
+import { checkCandidateLegality, type LineupContext } from './lineup-rules';
+import { optimizeLineup, type OpponentStrategy, type ThrowPolicy, type OptimizerObjective } from './lineup-optimizer';
+import { describeBlindThrow, evaluateBlindThrow, predictCounters, toExpectedCounter, type BlindThrowOptions } from './blind-throw';
 
 /**
- * Get the coin toss decision recommendation
+ * Get the coin toss decision recommendation from simulating the match under both choices.
+ * `blind` describes the other captain the same way as for a blind throw; without it they
+ * are assumed to find their best reply every time.
  */
 export function getCoinTossRecommendation(
   ourPlayers: MatchupInput[],
   theirPlayers: OpponentInput[],
-  headToHeadData: Map<string, HeadToHead>
+  headToHeadData: Map<string, HeadToHead>,
+  format?: GameFormat,
+  blind?: BlindThrowOptions,
+  objective?: OptimizerObjective
 ): CoinTossDecision {
-  const analysis = analyzeThrowFirstAdvantage(ourPlayers, theirPlayers, headToHeadData);
+  const analysis = analyzeThrowFirstAdvantage(ourPlayers, theirPlayers, headToHeadData, format, { ...blind, objective });
   
   let suggestedFirstPlayer: number | undefined;
   if (analysis.recommendation === 'throw_first') {
-    const bestOpener = getBestOpener(ourPlayers, theirPlayers, headToHeadData);
+    const bestOpener = getBestOpener(ourPlayers, theirPlayers, headToHeadData, undefined, format, blind);
     suggestedFirstPlayer = bestOpener?.playerId;
   }
 
-  // Calculate confidence based on score difference
-  const scoreDiff = Math.abs(analysis.throwFirstScore - analysis.deferScore);
-  const confidence = Math.min(0.5 + scoreDiff * 2, 0.95);
+  // Confidence grows with the margin between the two choices, relative to their size
+  const margin = Math.abs(analysis.throwFirstScore - analysis.deferScore)
+    / Math.max(analysis.throwFirstScore, analysis.deferScore, 0.01);
+  const confidence = Math.min(0.5 + margin * 2, 0.95);
 
   return {
     recommendation: analysis.recommendation,
     confidence: Math.round(confidence * 100) / 100,
     reasoning: analysis.reasoning,
     suggestedFirstPlayer,
+    outcomes: { throwFirst: analysis.simulation.throwFirst, defer: analysis.simulation.defer },
   };
 }
 
 /**
- * Get recommendation for who to throw when it's our turn
+ * Get recommendation for who to throw when it's our turn, ranked by the chance of winning the match
+ * (or by expected team points with the 'team_points' objective).
+ * Lineup contexts (from buildLineupContext) enforce the skill-level cap for either side.
+ * The other captain is assumed to find their best counter, or under 'tendencies' to follow
+ * `opponentPolicy` `predictedWeight` of the time - for the game-level ranking and the search alike.
  */
 export function getThrowRecommendation(
   availablePlayers: MatchupInput[],
   opponentPlayers: OpponentInput[],
   headToHeadData: Map<string, HeadToHead>,
   liveMatch: LiveMatch,
-  theirCurrentPlayer?: OpponentInput
+  theirCurrentPlayer?: OpponentInput,
+  lineups?: { ours?: LineupContext; theirs?: LineupContext },
+  optimizer?: {
+    opponentStrategy?: OpponentStrategy;
+    opponentPolicy?: ThrowPolicy;
+    predictedWeight?: number;
+    objective?: OptimizerObjective;
+  }
+): MatchupRecommendation[] {
+  const greedy = getGreedyThrowRecommendation(
+    availablePlayers,
+    opponentPlayers,
+    headToHeadData,
+    liveMatch,
+    theirCurrentPlayer,
+    lineups,
+    {
+      opponentPolicy: optimizer?.opponentPolicy,
+      predictedWeight: optimizer?.opponentStrategy === 'tendencies' ? optimizer.predictedWeight ?? 1 : 0,
+    }
+  );
+
+  // Re-rank by whole-match value from the game-tree search
+  const opponents = theirCurrentPlayer && !opponentPlayers.some(o => o.player.id === theirCurrentPlayer.player.id)
+    ? [...opponentPlayers, theirCurrentPlayer]
+    : opponentPlayers;
+  const result = optimizeLineup({
+    ourPlayers: availablePlayers,
+    theirPlayers: opponents,
+    headToHeadData,
+    liveMatch,
+    ourLineup: lineups?.ours,
+    theirLineup: lineups?.theirs,
+    theirCurrentPlayerId: theirCurrentPlayer?.player.id,
+    opponentStrategy: optimizer?.opponentStrategy,
+    opponentPolicy: optimizer?.opponentPolicy,
+    predictedWeight: optimizer?.predictedWeight,
+    objective: optimizer?.objective,
+  });
+  if (result.options.length === 0) {
+    return greedy;
+  }
+
+  const optionById = new Map(result.options.map(o => [o.playerId, o]));
+  const greedyBest = greedy[0];
+  const ranked = greedy.map(rec => {
+    const option = optionById.get(rec.playerId);
+    if (!option) return rec;
+    return {
+      ...rec,
+      matchWinProbability: Math.round(option.matchWinProbability * 100) / 100,
+      expectedTeamPoints: option.expectedTeamPoints,
+      reasoning: [
+        ...rec.reasoning,
+        `${Math.round(option.matchWinProbability * 100)}% to win the match with best play after this pick`,
+        `Expect about ${option.expectedTeamPoints.toFixed(1)} team points by the end of the match`,
+      ],
+    };
+  });
+
+  // Legal picks (those the optimizer scored) first, then in the optimizer's order
+  const optimizerRank = new Map(result.options.map((o, index) => [o.playerId, index]));
+  ranked.sort((a, b) => {
+    const aRank = optimizerRank.get(a.playerId) ?? Infinity;
+    const bRank = optimizerRank.get(b.playerId) ?? Infinity;
+    if (aRank !== bRank) return aRank - bRank;
+    return b.winProbability - a.winProbability;
+  });
+
+  if (greedyBest && ranked[0] && ranked[0].playerId !== greedyBest.playerId) {
+    ranked[0].reasoning.push(`Saves ${greedyBest.playerName} for a more valuable spot later in the match`);
+  }
+
+  return ranked;
+}
+
+/**
+ * Rank players by their chance of winning this game only. Throwing blind, that's after their
+ * counter - see evaluateBlindThrow.
+ */
+function getGreedyThrowRecommendation(
+  availablePlayers: MatchupInput[],
+  opponentPlayers: OpponentInput[],
+  headToHeadData: Map<string, HeadToHead>,
+  liveMatch: LiveMatch,
+  theirCurrentPlayer?: OpponentInput,
+  lineups?: { ours?: LineupContext; theirs?: LineupContext },
+  blind?: BlindThrowOptions
 ): MatchupRecommendation[] {
   // If we know who they threw, recommend counter-pick
   if (theirCurrentPlayer) {
@@ -60,42 +163,77 @@ export function getThrowRecommendation(
       headToHeadData,
       liveMatch.currentGame,
       liveMatch.ourScore,
-      liveMatch.theirScore
+      liveMatch.theirScore,
+      lineups?.ours,
+      liveMatch.format
     );
   }
 
+  // They can only counter with players that keep their own lineup legal
+  const theirLineup = lineups?.theirs;
+  const legalOpponents = theirLineup
+    ? opponentPlayers.filter(o => checkCandidateLegality(
+        o.player,
+        opponentPlayers.map(p => p.player),
+        theirLineup
+      ).isLegal)
+    : opponentPlayers;
+  const possibleCounters = legalOpponents.length > 0 ? legalOpponents : opponentPlayers;
+
   // If we're throwing first (blind), use opener logic
   const recommendations: MatchupRecommendation[] = [];
+  const illegalIds = new Set<number>();
   
   for (const playerInput of availablePlayers) {
-    // Calculate average performance against all possible opponents
-    let totalProb = 0;
     const allReasons: string[] = [];
+
+    if (lineups?.ours) {
+      const legality = checkCandidateLegality(
+        playerInput.player,
+        availablePlayers.map(p => p.player),
+        lineups.ours
+      );
+      if (!legality.isLegal) {
+        illegalIds.add(playerInput.player.id);
+      }
+      if (legality.reason) {
+        allReasons.push(legality.reason);
+      }
+    }
     
-    for (const opponent of opponentPlayers) {
+    const outcomes = possibleCounters.map(opponent => {
       const matchups = getMatchupRecommendations(
         [playerInput],
         opponent,
         headToHeadData,
         liveMatch.currentGame,
         liveMatch.ourScore,
-        liveMatch.theirScore
+        liveMatch.theirScore,
+        undefined,
+        liveMatch.format
       );
-      
-      if (matchups.length > 0) {
-        totalProb += matchups[0].winProbability;
-      }
+      return { opponent: opponent.player, winProbability: matchups[0]?.winProbability ?? 0.5 };
+    });
+    const predicted = predictCounters(
+      possibleCounters.map(o => o.player.id),
+      {
+        gameNumber: liveMatch.currentGame,
+        ourScore: liveMatch.ourScore,
+        theirScore: liveMatch.theirScore,
+        respondingTo: playerInput.player.id,
+      },
+      blind
+    );
+    const evaluation = evaluateBlindThrow(outcomes, predicted, blind?.predictedWeight);
+    if (evaluation) {
+      allReasons.push(...describeBlindThrow(playerInput.player.name, evaluation, blind?.predictedWeight));
     }
     
-    const avgProb = totalProb / opponentPlayers.length;
-    
-    allReasons.push(`${playerInput.player.name} averages ${Math.round(avgProb * 100)}% win probability`);
-    allReasons.push(`Strong across multiple opponent matchups`);
-    
     recommendations.push({
       playerId: playerInput.player.id,
       playerName: playerInput.player.name,
-      winProbability: Math.round(avgProb * 100) / 100,
+      winProbability: Math.round((evaluation?.winProbability ?? 0.5) * 100) / 100,
+      expectedCounter: evaluation ? toExpectedCounter(evaluation) : undefined,
       confidence: 0.65,
       reasoning: allReasons,
       factors: {
@@ -108,7 +246,10 @@ export function getThrowRecommendation(
     });
   }
 
-  return recommendations.sort((a, b) => b.winProbability - a.winProbability);
+  return recommendations.sort((a, b) => {
+    const legalityDiff = Number(illegalIds.has(a.playerId)) - Number(illegalIds.has(b.playerId));
+    return legalityDiff !== 0 ? legalityDiff : b.winProbability - a.winProbability;
+  });
 }
 
 /**
@@ -159,24 +300,28 @@ export function getAvailableOpponents(
 export function preparePlayerInputs(
   players: Player[],
   statsMap: Map<number, PlayerStats>,
-  recentStatsMap?: Map<number, PlayerStats[]>
+  recentStatsMap?: Map<number, PlayerStats[]>,
+  ratingsMap?: Map<number, PlayerRating>
 ): MatchupInput[] {
   return players.map(player => ({
     player,
     stats: statsMap.get(player.id),
     recentStats: recentStatsMap?.get(player.id),
+    rating: ratingsMap?.get(player.id),
   }));
 }
 
 export function prepareOpponentInputs(
   players: Player[],
   statsMap: Map<number, PlayerStats>,
-  recentStatsMap?: Map<number, PlayerStats[]>
+  recentStatsMap?: Map<number, PlayerStats[]>,
+  ratingsMap?: Map<number, PlayerRating>
 ): OpponentInput[] {
   return players.map(player => ({
     player,
     stats: statsMap.get(player.id),
     recentStats: recentStatsMap?.get(player.id),
+    rating: ratingsMap?.get(player.id),
   }));
 }
 
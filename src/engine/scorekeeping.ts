@@ -0,0 +1,89 @@
+// 9-ball live scorekeeping
+// Each rack puts 10 points on the table: 1 for each of balls 1-8 and 2 for the 9.
+// Balls pocketed on a foul are dead and score for nobody. A game ends the moment
+// one player reaches the points their skill level needs, even in the middle of a rack.
+
+import type { RackScore } from '../data/types';
+
+export const RACK_POINTS = 10;
+export const MAX_DEAD_BALLS = 8;   // A dead 9 is re-spotted, so only balls 1-8 can be dead
+
+export interface GameScore {
+  ourPoints: number;
+  theirPoints: number;
+  deadBalls: number;
+  innings: number;
+  ourDefensiveShots: number;
+  theirDefensiveShots: number;
+}
+
+export interface PointsNeeded {
+  ours: number;
+  theirs: number;
+}
+
+/**
+ * Running totals for a game from its racks
+ */
+export function getGameScore(racks: RackScore[]): GameScore {
+  return racks.reduce<GameScore>(
+    (total, rack) => ({
+      ourPoints: total.ourPoints + rack.ourPoints,
+      theirPoints: total.theirPoints + rack.theirPoints,
+      deadBalls: total.deadBalls + rack.deadBalls,
+      innings: total.innings + rack.innings,
+      ourDefensiveShots: total.ourDefensiveShots + rack.ourDefensiveShots,
+      theirDefensiveShots: total.theirDefensiveShots + rack.theirDefensiveShots,
+    }),
+    { ourPoints: 0, theirPoints: 0, deadBalls: 0, innings: 0, ourDefensiveShots: 0, theirDefensiveShots: 0 }
+  );
+}
+
+/**
+ * 'win' / 'loss' once either player has reached their target, null while the game is still on
+ */
+export function getGameWinner(score: Pick<GameScore, 'ourPoints' | 'theirPoints'>, needed: PointsNeeded): 'win' | 'loss' | null {
+  if (score.ourPoints >= needed.ours) return 'win';
+  if (score.theirPoints >= needed.theirs) return 'loss';
+  return null;
+}
+
+/**
+ * Check a rack before it is added to a game. Returns an error message, or null when the rack is valid.
+ */
+export function validateRack(rack: RackScore, previousRacks: RackScore[], needed: PointsNeeded): string | null {
+  const counts = [rack.ourPoints, rack.theirPoints, rack.deadBalls, rack.innings, rack.ourDefensiveShots, rack.theirDefensiveShots];
+  if (counts.some(n => !Number.isInteger(n) || n < 0)) {
+    return 'Counts must be whole numbers of zero or more';
+  }
+
+  const before = getGameScore(previousRacks);
+  if (getGameWinner(before, needed)) {
+    return 'This game is already over';
+  }
+
+  if (rack.deadBalls > MAX_DEAD_BALLS) {
+    return `At most ${MAX_DEAD_BALLS} balls can be dead in a rack`;
+  }
+
+  const tableTotal = rack.ourPoints + rack.theirPoints + rack.deadBalls;
+  if (tableTotal > RACK_POINTS) {
+    return `A rack only has ${RACK_POINTS} points (entered ${tableTotal})`;
+  }
+
+  const ourAfter = before.ourPoints + rack.ourPoints;
+  const theirAfter = before.theirPoints + rack.theirPoints;
+  if (ourAfter > needed.ours || theirAfter > needed.theirs) {
+    return 'Points go past what the player needs - the game ends as soon as a player reaches their target';
+  }
+  if (ourAfter >= needed.ours && theirAfter >= needed.theirs) {
+    return 'Only one player can reach their target';
+  }
+
+  const endsGame = ourAfter >= needed.ours || theirAfter >= needed.theirs;
+  if (!endsGame && tableTotal !== RACK_POINTS) {
+    return `Points and dead balls must add up to ${RACK_POINTS} unless the rack ends the game (entered ${tableTotal})`;
+  }
+
+  return null;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { getPlayoffOdds, simulateSeason, type SeasonInput } from './season-simulation';
+import type { Match, Player, Team } from '../data/types';
+
+const player = (id: number, skillLevel: number, teamId: number): Player => ({
+  id,
+  aliasId: 0,
+  memberId: id,
+  memberNumber: String(id),
+  name: `Player ${id}`,
+  skillLevel,
+  teamId,
+  matchesPlayed: 8,
+  matchesWon: 4,
+  ppm: 10,
+  pa: 0.5,
+  winPct: 50,
+});
+
+const team = (id: number): Team => ({
+  id,
+  number: String(id),
+  name: `Team ${id}`,
+  divisionId: 9,
+  format: 'NINE',
+  isOurTeam: id === 1,
+});
+
+const match = (id: number, homeTeamId: number, awayTeamId: number, played?: [number, number]): Match => ({
+  id,
+  divisionId: 9,
+  week: id,
+  homeTeamId,
+  homeTeamName: `Team ${homeTeamId}`,
+  homeTeamNumber: String(homeTeamId),
+  awayTeamId,
+  awayTeamName: `Team ${awayTeamId}`,
+  awayTeamNumber: String(awayTeamId),
+  scheduledDate: new Date(2025, 8, id),
+  hostLocationName: 'Hall',
+  hostLocationId: null,
+  isScored: !!played,
+  status: played ? 'COMPLETED' : 'UNPLAYED',
+  homePoints: played?.[0],
+  awayPoints: played?.[1],
+});
+
+const input = (): SeasonInput => ({
+  teams: [1, 2, 3, 4].map(id => ({
+    team: team(id),
+    roster: [3, 4, 5, 5, 6, 7].map((sl, k) => ({ player: player(id * 10 + k, sl, id) })),
+  })),
+  matches: [
+    match(1, 1, 2, [60, 40]),
+    match(2, 3, 4, [48, 52]),
+    match(3, 1, 3),
+    match(4, 2, 4),
+    match(5, 1, 4),
+    match(6, 2, 3),
+  ],
+  headToHeadData: new Map(),
+  format: 'NINE',
+  simulations: 200,
+});
+
+describe('simulateSeason', () => {
+  it('gives the same projection for the same seed', () => {
+    expect(simulateSeason(input())).toEqual(simulateSeason(input()));
+    expect(simulateSeason({ ...input(), seed: 8 })).not.toEqual(simulateSeason(input()));
+  });
+
+  it('starts from the points already on the board', () => {
+    const projection = simulateSeason(input());
+    const first = projection.teams.find(t => t.teamId === 1)!;
+    expect(first).toMatchObject({ currentPoints: 60, matchesPlayed: 1, matchesLeft: 2 });
+    expect(first.pointsRange.low).toBeGreaterThan(60);
+    expect(projection.unplayedMatches).toBe(4);
+  });
+
+  it('hands out each place once per simulated session', () => {
+    const projection = simulateSeason(input());
+    for (let place = 0; place < 4; place++) {
+      const total = projection.teams.reduce((sum, t) => sum + t.positionOdds[place], 0);
+      expect(total).toBeCloseTo(1, 2);
+    }
+    // Each playoff spot goes to exactly one team
+    const playoffTotal = projection.teams.reduce((sum, t) => sum + t.playoffOdds, 0);
+    expect(playoffTotal).toBeCloseTo(projection.playoffSpots, 2);
+  });
+});
+
+describe('getPlayoffOdds', () => {
+  it('adds up the places inside the playoff line', () => {
+    expect(getPlayoffOdds([0.5, 0.3, 0.2], 2)).toBe(0.8);
+    expect(getPlayoffOdds([0.5, 0.3, 0.2], 0)).toBe(0);
+    expect(getPlayoffOdds([0.5, 0.3, 0.2], 5)).toBe(1);
+  });
+});
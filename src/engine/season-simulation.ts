@@ -0,0 +1,274 @@
+// Season simulation
+// Projects the division table to the end of the session. Points already on the board come
+// from completed matches; every unplayed match on the schedule is played out many times.
+// Each simulated match puts up five players per team, drawn from the roster in proportion to
+// how often each one plays, and decides every game at its win probability with team points
+// drawn from how that race usually ends. A team's strength is therefore its roster's, not
+// its record so far - a strong team off to a slow start is expected to catch up.
+
+import type { GameFormat, HeadToHead, Match, Team } from '../data/types';
+import type { MatchupInput } from './matchup-calculator';
+import { calculateWinProbability } from './win-probability';
+import { getRace } from './skill-level-tables';
+import { getExpectedMatchPoints, getMatchPointsOdds, type MatchPointsOdds, type MatchPointsOutcome } from './match-points';
+import { GAMES_PER_MATCH } from './lineup-rules';
+import { createRandom, sample } from './coin-toss-simulation';
+
+export interface SeasonTeam {
+  team: Team;
+  roster: MatchupInput[];
+}
+
+export interface SeasonInput {
+  teams: SeasonTeam[];
+  matches: Match[];                 // The division's schedule, played and unplayed
+  headToHeadData: Map<string, HeadToHead>;
+  format?: GameFormat;
+  playoffSpots?: number;
+  simulations?: number;
+  seed?: number;
+}
+
+export interface TeamProjection {
+  teamId: number;
+  teamName: string;
+  currentPoints: number;
+  matchesPlayed: number;
+  matchesLeft: number;
+  strength: number;                 // Expected team points per match against the rest of the division
+  projectedPoints: number;
+  pointsRange: { low: number; high: number };   // Middle 80% of simulated sessions
+  positionOdds: number[];           // Index 0 = finishing first -> share of simulated sessions
+  playoffOdds: number;
+}
+
+export interface SeasonProjection {
+  teams: TeamProjection[];          // Highest projected points first
+  playoffSpots: number;
+  simulations: number;
+  unplayedMatches: number;
+}
+
+export const DEFAULT_PLAYOFF_SPOTS = 2;
+const DEFAULT_SIMULATIONS = 1000;
+const DEFAULT_SEED = 7;
+
+// Stand-in for a team whose roster hasn't been synced: an even game between two SL5s
+const UNKNOWN_SKILL_LEVEL = 5;
+
+// Single-game outcomes for every pairing of two rosters, from the home side
+interface PairingTable {
+  winProbability: number[][];         // [home player][away player]
+  points: MatchPointsOdds[][];
+  expectedPoints: number[][];
+}
+
+/**
+ * Points each team has on the board and how many of its matches are in.
+ * APA's own session total covers nights missing from the synced schedule.
+ */
+function tallyCompleted(teams: Team[], matches: Match[]): Map<number, { points: number; played: number }> {
+  const tally = new Map(teams.map(t => [t.id, { points: 0, played: 0 }]));
+  for (const match of matches) {
+    if (!isPlayed(match)) continue;
+    const home = tally.get(match.homeTeamId);
+    const away = tally.get(match.awayTeamId);
+    if (home) {
+      home.points += match.homePoints!;
+      home.played++;
+    }
+    if (away) {
+      away.points += match.awayPoints!;
+      away.played++;
+    }
+  }
+  for (const team of teams) {
+    const entry = tally.get(team.id)!;
+    entry.points = Math.max(entry.points, team.sessionPoints ?? 0);
+  }
+  return tally;
+}
+
+const isPlayed = (match: Match) =>
+  match.status === 'COMPLETED' && match.homePoints !== undefined && match.awayPoints !== undefined;
+
+// How often each player is put up - regulars more than the bench
+const lineupWeights = (roster: MatchupInput[]) =>
+  roster.length > 0 ? roster.map(p => p.player.matchesPlayed + 1) : [1];
+
+// One night's five players, by index into the roster: no one twice unless the roster runs short
+function pickLineup(weights: number[], random: () => number): number[] {
+  const lineup: number[] = [];
+  const remaining = [...weights];
+  for (let game = 0; game < GAMES_PER_MATCH; game++) {
+    let pool = remaining;
+    let total = pool.reduce((sum, w) => sum + w, 0);
+    if (total <= 0) {
+      pool = weights;
+      total = pool.reduce((sum, w) => sum + w, 0);
+    }
+    let draw = random() * total;
+    let pick = pool.length - 1;
+    for (let k = 0; k < pool.length; k++) {
+      draw -= pool[k];
+      if (draw < 0) {
+        pick = k;
+        break;
+      }
+    }
+    lineup.push(pick);
+    remaining[pick] = 0;
+  }
+  return lineup;
+}
+
+/**
+ * Chance of finishing in one of the top `playoffSpots` places
+ */
+export function getPlayoffOdds(positionOdds: number[], playoffSpots: number): number {
+  const odds = positionOdds.slice(0, Math.max(0, playoffSpots)).reduce((sum, p) => sum + p, 0);
+  return Math.round(Math.min(1, odds) * 1000) / 1000;
+}
+
+/**
+ * Play out the rest of the session and project the final table
+ */
+export function simulateSeason(input: SeasonInput): SeasonProjection {
+  const { teams, headToHeadData, format } = input;
+  const simulations = input.simulations ?? DEFAULT_SIMULATIONS;
+  const playoffSpots = Math.min(input.playoffSpots ?? DEFAULT_PLAYOFF_SPOTS, teams.length);
+  const random = createRandom(input.seed ?? DEFAULT_SEED);
+
+  const teamIndex = new Map(teams.map((t, k) => [t.team.id, k]));
+  const divisionMatches = input.matches.filter(m => teamIndex.has(m.homeTeamId) && teamIndex.has(m.awayTeamId));
+  const completed = tallyCompleted(teams.map(t => t.team), divisionMatches);
+  const unplayed = divisionMatches.filter(m => !isPlayed(m));
+  const weights = teams.map(t => lineupWeights(t.roster));
+
+  const pairings = new Map<string, PairingTable>();
+  const getPairing = (home: number, away: number): PairingTable => {
+    const key = `${home}-${away}`;
+    const cached = pairings.get(key);
+    if (cached) return cached;
+
+    const homeRoster = teams[home].roster;
+    const awayRoster = teams[away].roster;
+    const rows = Math.max(1, homeRoster.length);
+    const columns = Math.max(1, awayRoster.length);
+    const table: PairingTable = { winProbability: [], points: [], expectedPoints: [] };
+    for (let i = 0; i < rows; i++) {
+      table.winProbability.push([]);
+      table.points.push([]);
+      table.expectedPoints.push([]);
+      for (let j = 0; j < columns; j++) {
+        const ours = homeRoster[i];
+        const theirs = awayRoster[j];
+        const p = ours && theirs
+          ? calculateWinProbability(
+            ours.player,
+            ours.stats,
+            theirs.player,
+            theirs.stats,
+            headToHeadData.get(`${ours.player.id}-${theirs.player.id}`),
+            ours.recentStats,
+            theirs.recentStats,
+            { format, playerRating: ours.rating, opponentRating: theirs.rating }
+          ).probability
+          : 0.5;
+        const race = getRace(
+          ours?.player.skillLevel ?? UNKNOWN_SKILL_LEVEL,
+          theirs?.player.skillLevel ?? UNKNOWN_SKILL_LEVEL,
+          format
+        );
+        table.winProbability[i].push(p);
+        table.points[i].push(getMatchPointsOdds(race.player1Needs, race.player2Needs, p, format));
+        table.expectedPoints[i].push(getExpectedMatchPoints(race.player1Needs, race.player2Needs, p, format).expected);
+      }
+    }
+    pairings.set(key, table);
+    return table;
+  };
+
+  // Expected team points per match against each other team, averaged over the division
+  const strength = teams.map((_, home) => {
+    const share = (w: number[]) => {
+      const total = w.reduce((sum, x) => sum + x, 0);
+      return w.map(x => x / total);
+    };
+    const ourShare = share(weights[home]);
+    const perOpponent = teams
+      .map((_, away) => away)
+      .filter(away => away !== home)
+      .map(away => {
+        const table = getPairing(home, away);
+        const theirShare = share(weights[away]);
+        let perGame = 0;
+        ourShare.forEach((wi, i) => theirShare.forEach((wj, j) => {
+          perGame += wi * wj * table.expectedPoints[i][j];
+        }));
+        return perGame * GAMES_PER_MATCH;
+      });
+    return perOpponent.length > 0 ? perOpponent.reduce((sum, x) => sum + x, 0) / perOpponent.length : 0;
+  });
+
+  const finalPoints: number[][] = teams.map(() => []);
+  const positionCounts = teams.map(() => new Array<number>(teams.length).fill(0));
+
+  for (let season = 0; season < simulations; season++) {
+    const points = teams.map(t => completed.get(t.team.id)!.points);
+
+    for (const match of unplayed) {
+      const home = teamIndex.get(match.homeTeamId)!;
+      const away = teamIndex.get(match.awayTeamId)!;
+      const table = getPairing(home, away);
+      const homeLineup = pickLineup(weights[home], random);
+      const awayLineup = pickLineup(weights[away], random);
+
+      for (let game = 0; game < GAMES_PER_MATCH; game++) {
+        const i = homeLineup[game];
+        const j = awayLineup[game];
+        const outcomes: MatchPointsOutcome[] = random() < table.winProbability[i][j]
+          ? table.points[i][j].ifWin
+          : table.points[i][j].ifLoss;
+        const { ours, theirs } = outcomes[sample(outcomes.map(o => o.chance), random)];
+        points[home] += ours;
+        points[away] += theirs;
+      }
+    }
+
+    // Level on points is settled by a coin flip - APA's tie-breakers need results we don't simulate
+    const tiebreak = teams.map(() => random());
+    const order = teams.map((_, k) => k).sort((a, b) => points[b] - points[a] || tiebreak[b] - tiebreak[a]);
+    order.forEach((k, position) => positionCounts[k][position]++);
+    points.forEach((p, k) => finalPoints[k].push(p));
+  }
+
+  const sessions = Math.max(1, simulations);
+  const projections: TeamProjection[] = teams.map(({ team }, k) => {
+    const sorted = [...finalPoints[k]].sort((a, b) => a - b);
+    const percentile = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))] ?? 0;
+    const tally = completed.get(team.id)!;
+    const positionOdds = positionCounts[k].map(n => n / sessions);
+    return {
+      teamId: team.id,
+      teamName: team.name,
+      currentPoints: Math.round(tally.points),
+      matchesPlayed: tally.played,
+      matchesLeft: unplayed.filter(m => m.homeTeamId === team.id || m.awayTeamId === team.id).length,
+      strength: Math.round(strength[k] * 10) / 10,
+      projectedPoints: Math.round((sorted.reduce((sum, p) => sum + p, 0) / sessions) * 10) / 10,
+      pointsRange: { low: Math.round(percentile(0.1)), high: Math.round(percentile(0.9)) },
+      positionOdds: positionOdds.map(p => Math.round(p * 1000) / 1000),
+      playoffOdds: getPlayoffOdds(positionOdds, playoffSpots),
+    };
+  });
+
+  projections.sort((a, b) => b.projectedPoints - a.projectedPoints || b.playoffOdds - a.playoffOdds);
+
+  return {
+    teams: projections,
+    playoffSpots,
+    simulations,
+    unplayedMatches: unplayed.length,
+  };
+}
@@ -1,5 +1,8 @@
-// 9-Ball Skill Level Requirements
-// Points needed to win at each skill level
+// APA Skill Level Requirements
+// 9-ball: points needed to win at each skill level
+// 8-ball: games needed to win, which depends on both players' skill levels
+
+import type { GameFormat } from '../data/types';
 
 export interface SkillLevelInfo {
   level: number;
@@ -21,26 +24,74 @@ export const NINE_BALL_SKILL_LEVELS: SkillLevelInfo[] = [
   { level: 9, pointsNeeded: 75, expectedPPM: 63, description: 'Professional' },
 ];
 
-// Get points needed for a skill level
-export function getPointsNeeded(skillLevel: number): number {
+// APA 8-ball skill levels
+export const EIGHT_BALL_SKILL_LEVELS: SkillLevelInfo[] = [
+  { level: 2, pointsNeeded: 2, expectedPPM: 1.5, description: 'Beginner' },
+  { level: 3, pointsNeeded: 2, expectedPPM: 1.5, description: 'Novice' },
+  { level: 4, pointsNeeded: 3, expectedPPM: 2.2, description: 'Intermediate' },
+  { level: 5, pointsNeeded: 4, expectedPPM: 3.0, description: 'Advanced Intermediate' },
+  { level: 6, pointsNeeded: 5, expectedPPM: 3.8, description: 'Skilled' },
+  { level: 7, pointsNeeded: 5, expectedPPM: 3.8, description: 'Advanced' },
+];
+
+// Official APA 8-ball race chart: EIGHT_BALL_RACE_CHART[player][opponent] = [player needs, opponent needs]
+export const EIGHT_BALL_RACE_CHART: Record<number, Record<number, [number, number]>> = {
+  2: { 2: [2, 2], 3: [2, 3], 4: [2, 4], 5: [2, 5], 6: [2, 6], 7: [2, 7] },
+  3: { 2: [3, 2], 3: [2, 2], 4: [2, 3], 5: [2, 4], 6: [2, 5], 7: [2, 6] },
+  4: { 2: [4, 2], 3: [3, 2], 4: [3, 3], 5: [3, 4], 6: [3, 5], 7: [2, 5] },
+  5: { 2: [5, 2], 3: [4, 2], 4: [4, 3], 5: [4, 4], 6: [4, 5], 7: [3, 5] },
+  6: { 2: [6, 2], 3: [5, 2], 4: [5, 3], 5: [5, 4], 6: [5, 5], 7: [4, 5] },
+  7: { 2: [7, 2], 3: [6, 2], 4: [5, 2], 5: [5, 3], 6: [5, 4], 7: [5, 5] },
+};
+
+const getSkillLevelTable = (format: GameFormat): SkillLevelInfo[] =>
+  format === 'EIGHT' ? EIGHT_BALL_SKILL_LEVELS : NINE_BALL_SKILL_LEVELS;
+
+// 8-ball skill levels run 2-7
+const clampEightBallLevel = (skillLevel: number): number =>
+  Math.max(2, Math.min(7, Math.round(skillLevel)));
+
+// Get points (9-ball) or games against an equal opponent (8-ball) needed for a skill level
+export function getPointsNeeded(skillLevel: number, format: GameFormat = 'NINE'): number {
+  if (format === 'EIGHT') {
+    const level = clampEightBallLevel(skillLevel);
+    return EIGHT_BALL_RACE_CHART[level][level][0];
+  }
   const info = NINE_BALL_SKILL_LEVELS.find(sl => sl.level === skillLevel);
   return info?.pointsNeeded ?? 38; // Default to SL5
 }
 
 // Get expected PPM for a skill level
-export function getExpectedPPM(skillLevel: number): number {
-  const info = NINE_BALL_SKILL_LEVELS.find(sl => sl.level === skillLevel);
-  return info?.expectedPPM ?? 30;
+export function getExpectedPPM(skillLevel: number, format: GameFormat = 'NINE'): number {
+  const info = getSkillLevelTable(format).find(sl => sl.level === skillLevel);
+  return info?.expectedPPM ?? (format === 'EIGHT' ? 3.0 : 30);
+}
+
+// What each player needs to win the race between them
+export function getRace(
+  player1SkillLevel: number,
+  player2SkillLevel: number,
+  format: GameFormat = 'NINE'
+): { player1Needs: number; player2Needs: number } {
+  if (format === 'EIGHT') {
+    const [player1Needs, player2Needs] =
+      EIGHT_BALL_RACE_CHART[clampEightBallLevel(player1SkillLevel)][clampEightBallLevel(player2SkillLevel)];
+    return { player1Needs, player2Needs };
+  }
+  return {
+    player1Needs: getPointsNeeded(player1SkillLevel),
+    player2Needs: getPointsNeeded(player2SkillLevel),
+  };
 }
 
 // Calculate handicap between two players
 // Returns the "advantage" for player1 (positive = advantage, negative = disadvantage)
 export function calculateHandicap(
   player1SkillLevel: number,
-  player2SkillLevel: number
+  player2SkillLevel: number,
+  format: GameFormat = 'NINE'
 ): { player1Needs: number; player2Needs: number; handicapAdvantage: number } {
-  const player1Needs = getPointsNeeded(player1SkillLevel);
-  const player2Needs = getPointsNeeded(player2SkillLevel);
+  const { player1Needs, player2Needs } = getRace(player1SkillLevel, player2SkillLevel, format);
   
   // Handicap advantage is based on the ratio of points needed
   // A SL3 (needs 25) vs SL7 (needs 55) has a significant advantage
@@ -53,13 +104,16 @@ export function calculateHandicap(
   };
 }
 
-// Generate the race format string (e.g., "Race to 38-25")
+// Generate the race format string (e.g., "Race to 38-25", or "Race 5-3" in 8-ball, player1 first)
 export function getRaceFormat(
   player1SkillLevel: number,
-  player2SkillLevel: number
+  player2SkillLevel: number,
+  format: GameFormat = 'NINE'
 ): string {
-  const p1Needs = getPointsNeeded(player1SkillLevel);
-  const p2Needs = getPointsNeeded(player2SkillLevel);
+  const { player1Needs: p1Needs, player2Needs: p2Needs } = getRace(player1SkillLevel, player2SkillLevel, format);
+  if (format === 'EIGHT') {
+    return `Race ${p1Needs}-${p2Needs}`;
+  }
   return `Race to ${Math.max(p1Needs, p2Needs)}-${Math.min(p1Needs, p2Needs)}`;
 }
 
@@ -68,8 +122,13 @@ export function getRaceFormat(
 // at different levels should have ~50% win rate against each other
 export function getBaseWinProbability(
   playerSkillLevel: number,
-  opponentSkillLevel: number
+  opponentSkillLevel: number,
+  format: GameFormat = 'NINE'
 ): number {
+  if (format === 'EIGHT') {
+    return getEightBallBaseProbability(playerSkillLevel, opponentSkillLevel);
+  }
+
   const playerNeeds = getPointsNeeded(playerSkillLevel);
   const opponentNeeds = getPointsNeeded(opponentSkillLevel);
   
@@ -96,12 +155,36 @@ export function getBaseWinProbability(
   return Math.max(0.2, Math.min(0.8, baseProbability));
 }
 
-// 8-Ball tables (for future use)
-export const EIGHT_BALL_SKILL_LEVELS: SkillLevelInfo[] = [
-  { level: 2, pointsNeeded: 2, expectedPPM: 1.5, description: 'Beginner' },
-  { level: 3, pointsNeeded: 2, expectedPPM: 1.5, description: 'Novice' },
-  { level: 4, pointsNeeded: 3, expectedPPM: 2.2, description: 'Intermediate' },
-  { level: 5, pointsNeeded: 4, expectedPPM: 3.0, description: 'Advanced Intermediate' },
-  { level: 6, pointsNeeded: 5, expectedPPM: 3.8, description: 'Skilled' },
-  { level: 7, pointsNeeded: 5, expectedPPM: 3.8, description: 'Advanced' },
-];
+// Chance of winning a single 8-ball rack: a logistic curve on the skill level gap
+const EIGHT_BALL_RACK_SLOPE = 0.3;
+
+function getEightBallRackProbability(playerSkillLevel: number, opponentSkillLevel: number): number {
+  return 1 / (1 + Math.exp(-EIGHT_BALL_RACK_SLOPE * (playerSkillLevel - opponentSkillLevel)));
+}
+
+// Probability of winning `needs` racks before the opponent wins `opponentNeeds`
+// (negative binomial over independent racks)
+export function getRaceWinProbability(rackProbability: number, needs: number, opponentNeeds: number): number {
+  let probability = 0;
+  let combinations = 1; // C(needs - 1 + losses, losses)
+  for (let losses = 0; losses < opponentNeeds; losses++) {
+    if (losses > 0) {
+      combinations = (combinations * (needs - 1 + losses)) / losses;
+    }
+    probability += combinations * Math.pow(rackProbability, needs) * Math.pow(1 - rackProbability, losses);
+  }
+  return probability;
+}
+
+// 8-ball base probability: per-rack edge from skill level, played out over the race chart
+function getEightBallBaseProbability(playerSkillLevel: number, opponentSkillLevel: number): number {
+  const playerLevel = clampEightBallLevel(playerSkillLevel);
+  const opponentLevel = clampEightBallLevel(opponentSkillLevel);
+  const [playerNeeds, opponentNeeds] = EIGHT_BALL_RACE_CHART[playerLevel][opponentLevel];
+  const rackProbability = getEightBallRackProbability(playerLevel, opponentLevel);
+
+  const probability = getRaceWinProbability(rackProbability, playerNeeds, opponentNeeds);
+
+  // Same clamp as 9-ball - no matchup is truly hopeless or guaranteed
+  return Math.max(0.2, Math.min(0.8, probability));
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildThrowModels, predictThrows } from './throw-prediction';
+import type { GameResult, LiveMatch } from '../data/types';
+
+// Synced results don't say which game it was (gameNumber 0), only who played
+const synced = (matchId: number, playerId: number, opponentId: number): GameResult => ({
+  matchId,
+  gameNumber: 0,
+  playerId,
+  playerName: `Player ${playerId}`,
+  playerTeamId: 2,
+  playerSkillLevel: 5,
+  opponentId,
+  opponentName: `Player ${opponentId}`,
+  opponentTeamId: 3,
+  opponentSkillLevel: 5,
+  pointsScored: 20,
+  pointsNeeded: 38,
+  won: true,
+  playedAt: new Date(2025, 8, matchId),
+});
+
+const logged = (day: number, theirPlayerIds: number[]): LiveMatch => ({
+  id: `match-${day}`,
+  opponentTeamId: 2,
+  opponentTeamName: 'Them',
+  scheduledDate: new Date(2025, 9, day),
+  ourPlayersPresent: [],
+  theirPlayersPresent: theirPlayerIds,
+  coinTossWinner: 'us',
+  weThrowFirst: true,
+  games: theirPlayerIds.map((id, k) => ({ gameNumber: k + 1, ourPlayerId: 100 + k, theirPlayerId: id, result: 'win' })),
+  currentGame: 5,
+  ourScore: 5,
+  theirScore: 0,
+  ourMatchPoints: 0,
+  theirMatchPoints: 0,
+  status: 'completed',
+  format: 'NINE',
+});
+
+const candidates = [11, 12, 13];
+
+describe('predictThrows', () => {
+  it('spreads evenly with no model or no history on the candidates', () => {
+    const uniform = new Map(candidates.map(id => [id, 1 / 3]));
+    expect(predictThrows(undefined, candidates, 1, 0, 0)).toEqual(uniform);
+
+    const model = buildThrowModels([synced(1, 21, 31)], []).get(2);
+    expect(predictThrows(model, candidates, 1, 0, 0)).toEqual(uniform);
+  });
+
+  it('backs off to how often each player is used when the game is unknown', () => {
+    const model = buildThrowModels([synced(1, 11, 31), synced(2, 11, 31), synced(3, 12, 31)], []).get(2)!;
+    expect(model).toMatchObject({ matchesSeen: 3, gamesWithSlot: 0 });
+
+    const odds = predictThrows(model, candidates, 1, 0, 0);
+    expect(odds.get(11)!).toBeGreaterThan(odds.get(12)!);
+    expect(odds.get(12)!).toBeGreaterThan(odds.get(13)!);
+    // No game-level data, so every game looks the same
+    expect(predictThrows(model, candidates, 5, 2, 2)).toEqual(odds);
+  });
+
+  it('picks up who they save for the last game', () => {
+    const model = buildThrowModels([], [logged(1, [11, 12, 14, 15, 13]), logged(8, [12, 11, 15, 14, 13])]).get(2)!;
+
+    const opener = predictThrows(model, candidates, 1, 0, 0);
+    const closer = predictThrows(model, candidates, 5, 0, 4);
+    expect(closer.get(13)!).toBeGreaterThan(opener.get(13)!);
+    expect(closer.get(13)!).toBeGreaterThan(closer.get(11)!);
+    expect([...closer.values()].reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+  });
+});
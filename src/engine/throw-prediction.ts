@@ -0,0 +1,180 @@
+// Opponent throw prediction
+// Captains have habits: who they open with, who they save for game 5, who they go to when
+// they're behind. This learns them per team from past lineups and predicts, for the players
+// they have left, how likely each is to be thrown in a given game at a given score.
+//
+// Evidence comes in two grades. Matches we logged ourselves say which game each player
+// played and what the score was. Synced APA results only say who played on the night - APA's
+// player history has no game order - so they tell us who gets used, not when. Predictions
+// back off from game-and-score counts to game counts to how often a player is used at all,
+// each level smoothed toward the next, so a team we've barely seen comes out close to uniform.
+
+import type { GameResult, LiveMatch } from '../data/types';
+import type { ThrowContext, ThrowPolicy } from './lineup-optimizer';
+
+export type ScoreSituation = 'ahead' | 'level' | 'behind';
+
+// One player's game on one match night, from their team's side
+interface ObservedThrow {
+  teamId: number;
+  playerId: number;
+  gameNumber?: number;                // Missing when the source doesn't record game order
+  situation?: ScoreSituation;         // Their team's score going into the game
+  matchKey: string;                   // Team and night - counts nights and spots duplicates
+}
+
+export interface ThrowModel {
+  teamId: number;
+  matchesSeen: number;                // Match nights behind the model
+  gamesWithSlot: number;              // Observations that know which game it was
+  used: Map<number, number>;          // Player ID -> games played
+  bySlot: Map<string, number>;        // `${playerId}-${gameNumber}` -> times thrown
+  bySituation: Map<string, number>;   // `${playerId}-${gameNumber}-${situation}` -> times thrown
+}
+
+// Pseudo-games each level borrows from the one below - how much data it takes to trust it
+const SMOOTHING = 2;
+
+// Fewer match nights than this and the whole-match search keeps assuming their best reply
+export const MIN_MATCHES_FOR_TENDENCIES = 2;
+
+export function getScoreSituation(teamScore: number, opponentScore: number): ScoreSituation {
+  if (teamScore > opponentScore) return 'ahead';
+  if (teamScore < opponentScore) return 'behind';
+  return 'level';
+}
+
+const dayKey = (teamId: number, date: Date) => `${teamId}-${new Date(date).toDateString()}`;
+
+/**
+ * Every opponent throw in our completed matches, in game order with the score going in
+ */
+function observeLiveMatches(liveMatches: LiveMatch[]): ObservedThrow[] {
+  const observed: ObservedThrow[] = [];
+  for (const match of liveMatches) {
+    if (match.status !== 'completed') continue;
+    const matchKey = dayKey(match.opponentTeamId, match.scheduledDate);
+    let theirWins = 0;
+    let ourWins = 0;
+    for (const game of [...match.games].sort((a, b) => a.gameNumber - b.gameNumber)) {
+      if (game.theirPlayerId !== null) {
+        observed.push({
+          teamId: match.opponentTeamId,
+          playerId: game.theirPlayerId,
+          gameNumber: game.gameNumber,
+          situation: getScoreSituation(theirWins, ourWins),
+          matchKey,
+        });
+      }
+      if (game.result === 'win') ourWins++;
+      if (game.result === 'loss') theirWins++;
+    }
+  }
+  return observed;
+}
+
+/**
+ * Who played for each team in synced results. Every game is stored from both players' side,
+ * so each result also stands in for the opponent's row when that one wasn't synced.
+ */
+function observeGameResults(gameResults: GameResult[]): ObservedThrow[] {
+  const byKey = new Map<string, ObservedThrow>();
+
+  const add = (teamId: number, playerId: number, result: GameResult) => {
+    if (!teamId) return;
+    const key = `${teamId}-${result.matchId}-${playerId}`;
+    if (byKey.has(key)) return;
+    byKey.set(key, {
+      teamId,
+      playerId,
+      gameNumber: result.gameNumber > 0 ? result.gameNumber : undefined,
+      matchKey: dayKey(teamId, result.playedAt),
+    });
+  };
+
+  for (const result of gameResults) {
+    add(result.playerTeamId, result.playerId, result);
+    add(result.opponentTeamId, result.opponentId, result);
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Build a model per team from synced results and our own match log. A night we logged
+ * ourselves replaces the synced results for it, which say less about the same games.
+ */
+export function buildThrowModels(gameResults: GameResult[], liveMatches: LiveMatch[]): Map<number, ThrowModel> {
+  const logged = observeLiveMatches(liveMatches);
+  const loggedNights = new Set(logged.map(o => o.matchKey));
+  const synced = observeGameResults(gameResults).filter(o => !loggedNights.has(o.matchKey));
+
+  const models = new Map<number, ThrowModel>();
+  const nights = new Map<number, Set<string>>();
+  const increment = <K>(counts: Map<K, number>, key: K) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+  for (const observation of [...logged, ...synced]) {
+    const { teamId, playerId, gameNumber, situation, matchKey } = observation;
+    let model = models.get(teamId);
+    if (!model) {
+      model = { teamId, matchesSeen: 0, gamesWithSlot: 0, used: new Map(), bySlot: new Map(), bySituation: new Map() };
+      models.set(teamId, model);
+      nights.set(teamId, new Set());
+    }
+    nights.get(teamId)!.add(matchKey);
+
+    increment(model.used, playerId);
+    if (gameNumber !== undefined) {
+      model.gamesWithSlot++;
+      increment(model.bySlot, `${playerId}-${gameNumber}`);
+      if (situation) {
+        increment(model.bySituation, `${playerId}-${gameNumber}-${situation}`);
+      }
+    }
+  }
+
+  for (const [teamId, model] of models) {
+    model.matchesSeen = nights.get(teamId)!.size;
+  }
+  return models;
+}
+
+/**
+ * Probability of each candidate being thrown in a game, given their team's score going in.
+ * Always sums to 1 over the candidates; uniform when the model has nothing on them.
+ */
+export function predictThrows(
+  model: ThrowModel | undefined,
+  candidateIds: number[],
+  gameNumber: number,
+  teamScore: number,
+  opponentScore: number
+): Map<number, number> {
+  if (candidateIds.length === 0) return new Map();
+  if (!model) return new Map(candidateIds.map(id => [id, 1 / candidateIds.length]));
+
+  // Back-off chain: used at all -> used in this game -> used in this game at this score
+  const smooth = (counts: number[], prior: number[]): number[] => {
+    const total = counts.reduce((sum, n) => sum + n, 0);
+    return counts.map((n, k) => (n + SMOOTHING * prior[k]) / (total + SMOOTHING));
+  };
+
+  const uniform = candidateIds.map(() => 1 / candidateIds.length);
+  const usage = smooth(candidateIds.map(id => model.used.get(id) ?? 0), uniform);
+  const bySlot = smooth(candidateIds.map(id => model.bySlot.get(`${id}-${gameNumber}`) ?? 0), usage);
+  const situation = getScoreSituation(teamScore, opponentScore);
+  const bySituation = smooth(
+    candidateIds.map(id => model.bySituation.get(`${id}-${gameNumber}-${situation}`) ?? 0),
+    bySlot
+  );
+
+  return new Map(candidateIds.map((id, k) => [id, bySituation[k]]));
+}
+
+/**
+ * The model as a ThrowPolicy for the opponent's side of the lineup search
+ * (ThrowContext scores are from our side)
+ */
+export function createThrowPolicy(model: ThrowModel | undefined): ThrowPolicy {
+  return (candidateIds: number[], context: ThrowContext) =>
+    predictThrows(model, candidateIds, context.gameNumber, context.theirScore, context.ourScore);
+}
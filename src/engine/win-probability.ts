@@ -1,6 +1,9 @@
-import type { Player, PlayerStats, HeadToHead } from '../data/types';
+import type { Player, PlayerStats, HeadToHead, GameFormat, PlayerRating } from '../data/types';
 import { getBaseWinProbability, getExpectedPPM } from './skill-level-tables';
+import { getRatingConfidence, getRatingWinProbability } from './rating-model';
 
+// Factors describe the matchup for reasoning and display; the probability itself
+// comes from the rating model
 export interface WinProbabilityFactors {
   skillLevelAdvantage: number;    // 0-1, based on handicap system
   winPercentageDelta: number;     // 0-1, based on historical win rates
@@ -12,21 +15,18 @@ export interface WinProbabilityFactors {
 export interface WinProbabilityResult {
   probability: number;            // 0-1 final probability
   factors: WinProbabilityFactors;
-  confidence: number;             // 0-1 how confident in this prediction
-  dataPoints: number;             // Number of data points used
+  confidence: number;             // 0-1 how settled both players' ratings are
+  dataPoints: number;             // Rated games behind the two ratings
 }
 
-// Factor weights for the algorithm
-const WEIGHTS = {
-  skillLevelAdvantage: 0.35,
-  winPercentageDelta: 0.25,
-  headToHeadRecord: 0.20,
-  recentFormTrend: 0.15,
-  ppmEfficiency: 0.05,
-};
+export interface WinProbabilityOptions {
+  format?: GameFormat;            // Defaults to 9-ball
+  playerRating?: PlayerRating;    // Missing ratings fall back to the prior (handicap only)
+  opponentRating?: PlayerRating;
+}
 
 /**
- * Calculate win probability for a player against an opponent
+ * Calculate win probability for a player against an opponent from their posterior ratings
  */
 export function calculateWinProbability(
   player: Player,
@@ -35,14 +35,13 @@ export function calculateWinProbability(
   opponentStats: PlayerStats | undefined,
   headToHead?: HeadToHead,
   recentPlayerStats?: PlayerStats[], // Last few sessions
-  recentOpponentStats?: PlayerStats[]
+  recentOpponentStats?: PlayerStats[],
+  options: WinProbabilityOptions = {}
 ): WinProbabilityResult {
-  let dataPoints = 0;
+  const format = options.format ?? 'NINE';
 
   // 1. Skill Level Advantage (always available)
-  const baseProb = getBaseWinProbability(player.skillLevel, opponent.skillLevel);
-  const skillLevelAdvantage = baseProb;
-  dataPoints += 1;
+  const skillLevelAdvantage = getBaseWinProbability(player.skillLevel, opponent.skillLevel, format);
 
   // 2. Win Percentage Delta
   let winPercentageDelta = 0.5; // Neutral if no data
@@ -52,7 +51,6 @@ export function calculateWinProbability(
     // Convert to probability space (0.5 = equal)
     winPercentageDelta = 0.5 + (playerWinRate - opponentWinRate) * 0.5;
     winPercentageDelta = Math.max(0.2, Math.min(0.8, winPercentageDelta));
-    dataPoints += 2;
   }
 
   // 3. Head-to-Head Record
@@ -62,7 +60,6 @@ export function calculateWinProbability(
     // Regress to mean based on sample size
     const regFactor = Math.min(headToHead.totalGames / 10, 1);
     headToHeadRecord = 0.5 + (headToHeadRecord - 0.5) * regFactor;
-    dataPoints += headToHead.totalGames;
   }
 
   // 4. Recent Form Trend
@@ -84,14 +81,13 @@ export function calculateWinProbability(
     
     recentFormTrend = 0.5 + (playerTrend - opponentTrend) * 0.5;
     recentFormTrend = Math.max(0.3, Math.min(0.7, recentFormTrend));
-    dataPoints += recentPlayerStats.length;
   }
 
   // 5. PPM Efficiency
   let ppmEfficiency = 0.5;
   if (playerStats && opponentStats) {
-    const playerExpectedPPM = getExpectedPPM(player.skillLevel);
-    const opponentExpectedPPM = getExpectedPPM(opponent.skillLevel);
+    const playerExpectedPPM = getExpectedPPM(player.skillLevel, format);
+    const opponentExpectedPPM = getExpectedPPM(opponent.skillLevel, format);
     
     const playerEfficiency = playerStats.ppm / playerExpectedPPM;
     const opponentEfficiency = opponentStats.ppm / opponentExpectedPPM;
@@ -99,10 +95,8 @@ export function calculateWinProbability(
     // Convert to probability space
     ppmEfficiency = 0.5 + (playerEfficiency - opponentEfficiency) * 0.25;
     ppmEfficiency = Math.max(0.3, Math.min(0.7, ppmEfficiency));
-    dataPoints += 2;
   }
 
-  // Calculate weighted probability
   const factors: WinProbabilityFactors = {
     skillLevelAdvantage,
     winPercentageDelta,
@@ -111,23 +105,21 @@ export function calculateWinProbability(
     ppmEfficiency,
   };
 
-  const probability = 
-    WEIGHTS.skillLevelAdvantage * factors.skillLevelAdvantage +
-    WEIGHTS.winPercentageDelta * factors.winPercentageDelta +
-    WEIGHTS.headToHeadRecord * factors.headToHeadRecord +
-    WEIGHTS.recentFormTrend * factors.recentFormTrend +
-    WEIGHTS.ppmEfficiency * factors.ppmEfficiency;
-
-  // Confidence is based on amount of data available
-  // More data = more confident in the prediction
-  const maxDataPoints = 50; // Arbitrary max for normalization
-  const confidence = Math.min(dataPoints / maxDataPoints, 1);
+  // Handicap expectation shifted by the rating gap; head-to-head results and form are
+  // already part of the match history the ratings were fit on
+  const probability = getRatingWinProbability(
+    player.skillLevel,
+    opponent.skillLevel,
+    options.playerRating,
+    options.opponentRating,
+    format
+  );
 
   return {
-    probability: Math.max(0.15, Math.min(0.85, probability)),
+    probability,
     factors,
-    confidence,
-    dataPoints,
+    confidence: getRatingConfidence(options.playerRating, options.opponentRating),
+    dataPoints: (options.playerRating?.gamesPlayed ?? 0) + (options.opponentRating?.gamesPlayed ?? 0),
   };
 }
 
@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler } from './apa-client';
+
+describe('RequestScheduler', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('retries a server error, but not when told the request mustn\'t be sent twice', async () => {
+    const fetch = vi.fn(async () => new Response('', { status: 503 }));
+    vi.stubGlobal('fetch', fetch);
+    const scheduler = new RequestScheduler({ maxRetries: 2, baseDelayMs: 1, maxDelayMs: 1 });
+
+    expect((await scheduler.fetch('/retried')).status).toBe(503);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    fetch.mockClear();
+    expect((await scheduler.fetch('/once', { method: 'POST' }, { retry: false })).status).toBe(503);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,5 +1,41 @@
 // APA API Client - Handles both public and authenticated endpoints
 
+import type { z } from 'zod';
+import type { LiveMatch } from '../data/types';
+import type { LiveMatchAction } from '../engine/live-match';
+import { aliasStatsResultSchema, divisionScheduleSchema, divisionSnapshotSchema } from './apa-schema';
+import type {
+  GQLViewer,
+  GQLViewerTeams,
+  GQLDivision,
+  GQLTeam,
+  GQLTeamSchedule,
+  GQLPlayer,
+  GQLNineBallLifetimeStats,
+  GQLAliasStats,
+  GQLMatch,
+  GQLMatchHistoryItem,
+  GQLPlayerMatchHistory,
+  GQLSessionHistoryItem,
+  GQLMemberSessionHistory,
+  GQLMemberStatsData,
+  GQLMemberStats,
+  GQLMemberAliases,
+  DivisionSnapshot,
+  APAScheduleItem,
+} from './apa-schema';
+import {
+  VIEWER,
+  VIEWER_TEAMS,
+  TEAM_ROSTER,
+  TEAM_SCHEDULE,
+  MEMBER_ALIASES,
+  MEMBER_STATS,
+  PLAYER_MATCH_HISTORY,
+  MEMBER_SESSION_HISTORY,
+  type APAOperation,
+} from './apa-operations';
+
 const REST_API_URL = 'https://api.poolplayers.com';
 const GRAPHQL_URL = 'https://gql.poolplayers.com/graphql';
 
@@ -8,221 +44,272 @@ const PROXY_URL = import.meta.env.PROD
   ? 'https://apa-matchup-backend.onrender.com'
   : 'http://localhost:3001';
 
-// GraphQL Response Types (based on actual APA API)
-export interface GQLViewer {
-  id: number;
-  firstName: string;
-  lastName: string;
-  emailAddress: string;
-  __typename: string;
+// Response types are inferred from the runtime schemas every response is checked against
+export type {
+  GQLViewer,
+  GQLViewerTeams,
+  GQLDivision,
+  GQLTeam,
+  GQLTeamSchedule,
+  GQLPlayer,
+  GQLNineBallLifetimeStats,
+  GQLAliasStats,
+  GQLMatch,
+  GQLMatchHistoryItem,
+  GQLPlayerMatchHistory,
+  GQLSessionHistoryItem,
+  GQLMemberSessionHistory,
+  GQLMemberStatsData,
+  GQLMemberStats,
+  GQLMemberAliases,
+  DivisionSnapshot,
+  APAScheduleItem,
+};
+
+export interface SharedDivision {
+  divisionId: number;
+  teamId: number;                 // Team whose member shared the sync
+  lastRunAt: string | null;
+  lastSuccessAt?: string | null;
+  lastError: string | null;
+  nextRunAt: string | null;
+  isRunning: boolean;
+  // Present once a snapshot exists
+  divisionName?: string | null;
+  format?: 'NINE' | 'EIGHT' | null;
+  leagueId?: number | null;
+  leagueSlug?: string | null;
+  generatedAt?: string;
+  teams?: Array<{ id: number; name: string; number: string }>;
 }
 
-export interface GQLLeague {
+// Live match sessions (backend /api/live) - one match shared across captains' devices
+export interface LiveRosterPlayer {
   id: number;
   name: string;
-  slug: string;
-  isMine: boolean;
-  __typename: string;
+  skillLevel: number;
+  side: 'ours' | 'theirs';
 }
 
-export interface GQLDivision {
-  id: number;
-  name: string;
-  type: 'NINE' | 'EIGHT';
-  __typename: string;
+export interface LiveMatchEvent {
+  seq: number;
+  clientId: string;
+  clientEventId: string;
+  target: string;
+  action: LiveMatchAction;
+  at: string;
 }
 
-export interface GQLTeam {
-  id: number;
-  name: string;
-  number: string;
-  isMine?: boolean;
-  league?: { id: number; slug: string };
-  division?: GQLDivision;
-  roster?: GQLPlayer[];
-  matches?: GQLMatch[];
-  sessionPoints?: number;
-  __typename: string;
+export interface LiveSessionSnapshot {
+  match: LiveMatch;                 // As it was when sharing started - replay events on top
+  roster: LiveRosterPlayer[];
+  events: LiveMatchEvent[];
 }
 
-export interface GQLPlayer {
-  id: number; // This is the player ID (session-specific)
-  memberNumber: string;
-  displayName: string;
-  matchesWon: number;
-  matchesPlayed: number;
-  pa: number; // Points awarded (as decimal 0-1)
-  ppm: number; // Points per match
-  skillLevel: number;
-  member: { id: number };
-  alias?: { id: number }; // The alias ID (for lifetime stats)
-  __typename: string;
+export interface LiveActionRequest {
+  clientId: string;
+  clientEventId: string;
+  baseSeq: number;                  // Last event this device had applied
+  target: string;
+  action: LiveMatchAction;
 }
 
-// Lifetime stats from alias query
-export interface GQLNineBallLifetimeStats {
-  id: number;
-  matchesWon: number;
-  matchesPlayed: number;
-  CLA: number;
-  defensiveShotAvg: number;
-  matchCountForLastTwoYrs: number;
-  lastPlayed: string | null;
-  __typename: string;
-}
+/**
+ * A request that came back with an error (or never made it - `status` is undefined then)
+ */
+export class APIRequestError extends Error {
+  readonly status?: number;
 
-export interface GQLAliasStats {
-  alias: {
-    id: number;
-    displayName: string;
-    NineBallStats: GQLNineBallLifetimeStats[];
-    EightBallStats: GQLNineBallLifetimeStats[];
-    __typename: string;
-  };
-}
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'APIRequestError';
+    this.status = status;
+  }
 
-export interface GQLMatch {
-  id: number | null;
-  week: number | null;
-  type: 'NINE' | 'EIGHT' | null;
-  status: 'COMPLETED' | 'UNPLAYED';
-  startTime: string;
-  isMine: boolean;
-  isScored: boolean;
-  isFinalized: boolean;
-  description: string;
-  location?: {
-    id: number;
-    name: string;
-    address: { id: number; name: string };
-  } | null;
-  home?: { id: number; name: string; number: string; isMine: boolean } | null;
-  away?: { id: number; name: string; number: string; isMine: boolean } | null;
-  results?: {
-    homeAway: 'HOME' | 'AWAY';
-    points: { total: number };
-  }[];
-  __typename: string;
-}
+  get isAuthError(): boolean {
+    return this.status === 401;
+  }
 
-// Player match history (individual game results)
-export interface GQLMatchHistoryItem {
-  id: number;
-  datePlayed: string;
-  won: boolean;
-  skillLevel: number;
-  pointsAwarded: number;
-  pointsNeeded: number;
-  opponent: {
-    id: number;
-    displayName: string;
-    skillLevel: number;
-    __typename: string;
-  };
-  match?: {
-    id: number;
-    week: number;
-    startTime: string;
-    __typename: string;
-  };
-  team?: {
-    id: number;
-    name: string;
-    __typename: string;
-  };
-  __typename: string;
+  // Never reached the server - worth trying again once we're back online
+  get isNetworkError(): boolean {
+    return this.status === undefined;
+  }
 }
 
-export interface GQLPlayerMatchHistory {
-  player: {
-    id: number;
-    displayName: string;
-    skillLevel: number;
-    memberNumber?: string;
-    matchHistory: GQLMatchHistoryItem[];
-    __typename: string;
-  };
+/**
+ * A response that arrived but doesn't have the shape we expect - usually APA renaming or
+ * dropping a field. Carries the request's status (200), so a failed batch gets split up
+ * to find the one bad item.
+ */
+export class APIResponseError extends APIRequestError {
+  readonly operationName: string;
+  readonly issues: string[];
+
+  constructor(operationName: string, issues: string[], status?: number) {
+    super(`${operationName} returned an unexpected response: ${issues.join('; ')}`, status);
+    this.name = 'APIResponseError';
+    this.operationName = operationName;
+    this.issues = issues;
+  }
 }
 
-// Member session history (stats across multiple sessions)
-export interface GQLSessionHistoryItem {
-  id: number;
-  skillLevel: number;
-  matchesPlayed: number;
-  matchesWon: number;
-  ppm: number;
-  pa: number;
-  session: {
-    id: number;
-    name: string;
-    year: number;
-    __typename: string;
-  };
-  team: {
-    id: number;
-    name: string;
-    number: string;
-    __typename: string;
-  };
-  __typename: string;
+// `team.roster[2].skillLevel`
+const formatPath = (path: PropertyKey[]) =>
+  path.map((key, i) => typeof key === 'number' ? `[${key}]` : `${i > 0 ? '.' : ''}${String(key)}`).join('') || 'response';
+
+function describeIssue(issue: z.core.$ZodIssue): string {
+  const path = formatPath(issue.path);
+  if (issue.code === 'invalid_type') {
+    const { input } = issue;
+    if (input === undefined) return `${path} is missing (expected ${issue.expected})`;
+    const received = input === null ? 'null'
+      : Array.isArray(input) ? 'an array'
+      : typeof input === 'object' ? 'an object'
+      : `a ${typeof input}`;
+    return `${path} is ${received} (expected ${issue.expected})`;
+  }
+  return `${path}: ${issue.message}`;
 }
 
-export interface GQLMemberSessionHistory {
-  member: {
-    id: number;
-    firstName: string;
-    lastName: string;
-    playerHistory: GQLSessionHistoryItem[];
-    __typename: string;
-  };
+/**
+ * Check a response's `data` against its schema. Throws an APIResponseError naming the
+ * first few fields that don't match.
+ */
+export function parseResponse<T>(operationName: string, schema: z.ZodType<T>, data: unknown, status?: number): T {
+  const result = schema.safeParse(data, { reportInput: true });
+  if (result.success) return result.data;
+
+  const issues = result.error.issues.map(describeIssue);
+  const shown = issues.length > 3 ? [...issues.slice(0, 3), `and ${issues.length - 3} more`] : issues;
+  console.error(`Unexpected ${operationName} response:`, issues);
+  throw new APIResponseError(operationName, shown, status);
 }
 
-// Member lifetime stats
-export interface GQLMemberStatsData {
-  matchesWon: number;
-  matchesPlayed: number;
-  winPercentage: number;
-  defensiveShotAverage: number;
-  breakAndRuns: number;
-  nineOnTheSnap: number;
-  miniSlams: number;
-  shutouts: number;
-  pointsPerMatch: number;
-  pointsAwarded: number;
-  __typename: string;
+interface SchedulerOptions {
+  maxConcurrent: number;
+  maxRetries: number;
+  baseDelayMs: number;    // First retry wait, doubled each attempt
+  maxDelayMs: number;     // Cap on retry waits and on throttled spacing
 }
 
-export interface GQLMemberStats {
-  member: {
-    id: number;
-    firstName: string;
-    lastName: string;
-    memberNumber: string;
-    stats: GQLMemberStatsData | null;
-    __typename: string;
-  };
-}
+const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrent: 3,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 15000,
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Rate limited or the server is struggling - worth waiting and trying again
+const isThrottled = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Paces every request the client makes: at most `maxConcurrent` in flight, retries with
+ * exponential backoff on 429/5xx and network failures, and spaces requests out further
+ * whenever the server pushes back (relaxing again as requests succeed).
+ */
+export class RequestScheduler {
+  private readonly options: SchedulerOptions;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private spacingMs = 0;
+  private nextStartAt = 0;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
 
-// REST API types (legacy, for public endpoints)
-export interface APAScheduleItem {
-  ScheduleDate: string;
-  HomeTeamNumber: string;
-  HomeTeamName: string;
-  VisitingTeamNumber: string;
-  VisitingTeamName: string;
-  HostLocationName: string;
-  Week: number;
-  ScoresheetReportID: number;
-  LeagueDivisionSessionScheduleMatchID: number;
-  StartTime: string;
-  FormatTypeListID: number;
-  HostLocationID: number;
-  IsMatchScored: number;
-  Bye: boolean;
+  /**
+   * Pass `retry: false` for requests that mustn't be sent twice - they're still paced, but
+   * a failure goes straight back to the caller.
+   */
+  async fetch(url: string, init?: RequestInit, { retry = true }: { retry?: boolean } = {}): Promise<Response> {
+    const maxRetries = retry ? this.options.maxRetries : 0;
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | null = null;
+      let failure: string;
+
+      try {
+        response = await this.run(() => fetch(url, init));
+        if (!isThrottled(response.status)) {
+          this.relax();
+          return response;
+        }
+        failure = `HTTP ${response.status}`;
+      } catch (err) {
+        failure = err instanceof Error ? err.message : String(err);
+      }
+
+      this.throttle();
+      if (attempt >= maxRetries) {
+        // Out of retries - hand back the last response so the caller reports its status
+        if (response) return response;
+        throw new APIRequestError(`Network error: ${failure}`);
+      }
+
+      const delay = this.retryDelay(attempt, response);
+      console.warn(`Request failed (${failure}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+
+  private async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      // Claim the next start slot before waiting so concurrent requests stay spaced out
+      const now = Date.now();
+      const startAt = Math.max(now, this.nextStartAt);
+      this.nextStartAt = startAt + this.spacingMs;
+      if (startAt > now) await sleep(startAt - now);
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.options.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiting.shift();
+    // Hand the slot straight to the next waiter rather than freeing it
+    if (next) next();
+    else this.active--;
+  }
+
+  private retryDelay(attempt: number, response: Response | null): number {
+    const retryAfter = Number(response?.headers.get('Retry-After'));
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, this.options.maxDelayMs);
+    const backoff = this.options.baseDelayMs * 2 ** attempt;
+    // Jitter so parallel retries don't land together
+    return Math.min(backoff * (0.75 + Math.random() * 0.5), this.options.maxDelayMs);
+  }
+
+  private throttle() {
+    this.spacingMs = Math.min(Math.max(this.spacingMs * 2, 250), this.options.maxDelayMs);
+  }
+
+  private relax() {
+    this.spacingMs = this.spacingMs > 50 ? this.spacingMs * 0.8 : 0;
+  }
 }
 
+// Called with each access token a session hands out, or null once the session is gone
+export type SessionListener = (accessToken: string | null) => void;
+
 class APAClient {
   private authToken: string | null = null;
+  private scheduler = new RequestScheduler();
+  // Signed-in session held by the backend - access tokens are refreshed through it
+  private sessionId: string | null = null;
+  private sessionListener: SessionListener | null = null;
+  private refreshing: Promise<string> | null = null;
 
   setAuthToken(token: string) {
     this.authToken = token;
@@ -236,6 +323,86 @@ class APAClient {
     return this.authToken;
   }
 
+  setSession(sessionId: string | null, listener?: SessionListener) {
+    this.sessionId = sessionId;
+    this.sessionListener = listener ?? null;
+  }
+
+  hasSession(): boolean {
+    return this.sessionId !== null;
+  }
+
+  // ========== SIGN-IN (via backend) ==========
+
+  // Sign in with APA credentials. The backend keeps the refresh token; we get a session id.
+  // Not retried - a login that did go through would leave a second session behind.
+  async signIn(email: string, password: string): Promise<{ sessionId: string; accessToken: string }> {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    }, { retry: false });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new APIRequestError(result.error || `Sign-in failed: ${response.status}`, response.status);
+    }
+
+    this.sessionId = result.sessionId;
+    this.authToken = result.accessToken;
+    return { sessionId: result.sessionId, accessToken: result.accessToken };
+  }
+
+  async signOut(): Promise<void> {
+    if (this.sessionId) {
+      // Best effort - the session is forgotten locally either way
+      await fetch(`${PROXY_URL}/api/auth/logout`, {
+        method: 'POST',
+        headers: { 'X-Session-Id': this.sessionId },
+      }).catch(err => console.warn('Sign-out request failed:', err));
+    }
+    this.sessionId = null;
+    this.sessionListener = null;
+    this.authToken = null;
+  }
+
+  /**
+   * A usable access token: the current one while it's good, otherwise a fresh one from the
+   * backend session. Without a session this is just the pasted token, expired or not.
+   */
+  async getAccessToken(): Promise<string | null> {
+    if (this.authToken && !this.isTokenExpired(this.authToken)) return this.authToken;
+    if (!this.sessionId) return this.authToken;
+
+    // Parallel requests share one refresh
+    this.refreshing ??= this.refreshAccessToken().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async refreshAccessToken(): Promise<string> {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/auth/token`, {
+      method: 'POST',
+      headers: { 'X-Session-Id': this.sessionId! },
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        // Backend no longer has the session (signed out or APA revoked it)
+        this.sessionId = null;
+        this.authToken = null;
+        this.sessionListener?.(null);
+      }
+      throw new APIRequestError(result.error || `Token refresh failed: ${response.status}`, response.status);
+    }
+
+    this.authToken = result.accessToken as string;
+    this.sessionListener?.(this.authToken);
+    return this.authToken;
+  }
+
   // Decode JWT payload without verification (for checking expiry)
   decodeToken(token: string): { exp?: number; sub?: string; iat?: number } | null {
     try {
@@ -278,30 +445,35 @@ class APAClient {
 
   // REST API request (for public endpoints)
   private async request<T>(endpoint: string): Promise<T> {
-    const response = await fetch(`${REST_API_URL}${endpoint}`, {
+    const response = await this.scheduler.fetch(`${REST_API_URL}${endpoint}`, {
       headers: { 'Accept': 'application/json' },
     });
 
     if (!response.ok) {
-      throw new Error(`API Error: ${response.status} ${response.statusText}`);
+      throw new APIRequestError(`API Error: ${response.status} ${response.statusText}`, response.status);
     }
 
     return response.json();
   }
 
-  // GraphQL API request - what APA website actually uses
-  private async graphql<T>(
+  // GraphQL API request - what APA website actually uses. Returns each operation's raw `data`.
+  private async graphql(
     operations: Array<{ operationName: string; query: string; variables?: Record<string, unknown> }>
-  ): Promise<T[]> {
-    if (!this.authToken) {
+  ): Promise<unknown[]> {
+    const authToken = await this.getAccessToken();
+    if (!authToken) {
       throw new Error('Authentication required');
     }
+    // Don't queue up requests that are bound to bounce
+    if (this.isTokenExpired(authToken)) {
+      throw new APIRequestError('Token expired. Please get a fresh token from APA.', 401);
+    }
 
-    const response = await fetch(GRAPHQL_URL, {
+    const response = await this.scheduler.fetch(GRAPHQL_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': this.authToken,
+        'Authorization': authToken,
         'Apollographql-Client-Name': 'MemberServices',
         'Apollographql-Client-Version': '3.18.44-3550',
       },
@@ -310,9 +482,9 @@ class APAClient {
 
     if (!response.ok) {
       if (response.status === 401) {
-        throw new Error('Token expired. Please get a fresh token from APA.');
+        throw new APIRequestError('Token expired. Please get a fresh token from APA.', 401);
       }
-      throw new Error(`GraphQL Error: ${response.status}`);
+      throw new APIRequestError(`GraphQL Error: ${response.status}`, response.status);
     }
 
     const results = await response.json();
@@ -327,322 +499,98 @@ class APAClient {
           .map((e: { message: string }) => e.message)
           .join('; ');
         console.error('GraphQL error:', errorMessages);
-        throw new Error(errorMessages);
+        throw new APIRequestError(errorMessages, response.status);
       }
       return results.map(r => r.data);
     }
     
     // Handle single response
     if (results.errors) {
-      throw new Error(results.errors[0]?.message || 'GraphQL error');
+      throw new APIRequestError(results.errors[0]?.message || 'GraphQL error', response.status);
     }
     
     return [results.data];
   }
 
-  // Single operation helper
-  private async graphqlSingle<T>(
-    operationName: string,
-    query: string,
-    variables?: Record<string, unknown>
-  ): Promise<T> {
-    const results = await this.graphql<T>([{ operationName, query, variables }]);
-    return results[0];
+  // Run one operation for each set of variables in a single batch, validating every result
+  private async run<T>(operation: APAOperation<T>, variableSets: Array<Record<string, unknown> | undefined>): Promise<T[]> {
+    const { operationName, query, schema } = operation;
+    const results = await this.graphql(variableSets.map(variables => ({ operationName, query, variables })));
+    return results.map(data => parseResponse(operationName, schema, data, 200));
+  }
+
+  private async runSingle<T>(operation: APAOperation<T>, variables?: Record<string, unknown>): Promise<T> {
+    const [result] = await this.run(operation, [variables]);
+    return result;
   }
 
   // ========== PUBLIC ENDPOINTS (no auth) ==========
   
   async getDivisionSchedule(divisionId: string): Promise<APAScheduleItem[]> {
-    return this.request<APAScheduleItem[]>(
-      `/divisions/${divisionId}/division-schedule-info`
-    );
+    const items = await this.request<unknown>(`/divisions/${divisionId}/division-schedule-info`);
+    return parseResponse('divisionSchedule', divisionScheduleSchema, items, 200);
   }
 
   // ========== GRAPHQL QUERIES (auth required) ==========
 
   // Get current viewer info
   async getViewer(): Promise<{ viewer: GQLViewer }> {
-    const query = `
-      query ViewerQuery {
-        viewer {
-          __typename
-          id
-          ... on Member {
-            firstName
-            lastName
-            emailAddress
-          }
-        }
-      }
-    `;
-    return this.graphqlSingle('ViewerQuery', query);
+    return this.runSingle(VIEWER);
+  }
+
+  // Get the teams the viewer plays on (for team profiles)
+  async getViewerTeams(): Promise<GQLViewerTeams> {
+    return this.runSingle(VIEWER_TEAMS);
   }
 
   // Get team roster with all player stats
-  async getTeamRoster(teamId: number): Promise<{ team: GQLTeam }> {
-    const query = `
-      query teamRoster($id: Int!) {
-        team(id: $id) {
-          id
-          name
-          number
-          league {
-            id
-            slug
-            __typename
-          }
-          division {
-            id
-            type
-            __typename
-          }
-          roster {
-            id
-            memberNumber
-            displayName
-            matchesWon
-            matchesPlayed
-            skillLevel
-            __typename
-            member {
-              id
-              __typename
-            }
-            ... on NineBallPlayer {
-              pa
-              ppm
-            }
-            ... on EightBallPlayer {
-              pa
-              ppm
-            }
-          }
-          __typename
-        }
-      }
-    `;
-    return this.graphqlSingle('teamRoster', query, { id: teamId });
+  async getTeamRoster(teamId: number): Promise<{ team: GQLTeam | null }> {
+    return this.runSingle(TEAM_ROSTER, { id: teamId });
   }
 
   // Get team schedule with all matches
-  async getTeamSchedule(teamId: number): Promise<{ team: GQLTeam }> {
-    const query = `
-      query teamSchedule($id: Int!) {
-        team(id: $id) {
-          id
-          sessionBonusPoints
-          sessionPoints
-          sessionTotalPoints
-          division {
-            id
-            isTournament
-            __typename
-          }
-          matches {
-            week
-            type
-            id
-            isBye
-            status
-            scoresheet
-            startTime
-            isMine
-            isPaid
-            isScored
-            isFinalized
-            isPlayoff
-            description
-            tableNumber
-            results {
-              homeAway
-              points {
-                total
-                __typename
-              }
-              __typename
-            }
-            timeZone {
-              id
-              name
-              __typename
-            }
-            location {
-              id
-              name
-              address {
-                id
-                name
-                __typename
-              }
-              __typename
-            }
-            home {
-              id
-              name
-              number
-              isMine
-              __typename
-            }
-            away {
-              id
-              name
-              number
-              isMine
-              __typename
-            }
-            league {
-              id
-              isMine
-              slug
-              isElectronicPaymentsEnabled
-              __typename
-            }
-            division {
-              id
-              scheduleInEdit
-              isTournament
-              __typename
-            }
-            __typename
-          }
-          __typename
-        }
-      }
-    `;
-    return this.graphqlSingle('teamSchedule', query, { id: teamId });
+  async getTeamSchedule(teamId: number): Promise<{ team: GQLTeamSchedule | null }> {
+    return this.runSingle(TEAM_SCHEDULE, { id: teamId });
   }
 
   // Get both roster and schedule for a team (batch request)
-  async getTeamFull(teamId: number): Promise<{ roster: GQLTeam; schedule: GQLTeam }> {
-    const rosterQuery = `
-      query teamRoster($id: Int!) {
-        team(id: $id) {
-          id
-          name
-          number
-          league { id slug __typename }
-          division { id type __typename }
-          roster {
-            id
-            memberNumber
-            displayName
-            matchesWon
-            matchesPlayed
-            skillLevel
-            member { id __typename }
-            __typename
-            ... on NineBallPlayer {
-              pa
-              ppm
-            }
-            ... on EightBallPlayer {
-              pa
-              ppm
-            }
-          }
-          __typename
-        }
-      }
-    `;
-    
-    const scheduleQuery = `
-      query teamSchedule($id: Int!) {
-        team(id: $id) {
-          id
-          sessionPoints
-          matches {
-            week
-            type
-            id
-            status
-            startTime
-            isScored
-            description
-            location { id name __typename }
-            home { id name number isMine __typename }
-            away { id name number isMine __typename }
-            results { homeAway points { total __typename } __typename }
-            __typename
-          }
-          __typename
-        }
-      }
-    `;
-    
-    const results = await this.graphql<{ team: GQLTeam }>([
-      { operationName: 'teamRoster', query: rosterQuery, variables: { id: teamId } },
-      { operationName: 'teamSchedule', query: scheduleQuery, variables: { id: teamId } },
+  async getTeamFull(teamId: number): Promise<{ roster: GQLTeam | null; schedule: GQLTeamSchedule | null }> {
+    const [rosterData, scheduleData] = await this.graphql([
+      { operationName: TEAM_ROSTER.operationName, query: TEAM_ROSTER.query, variables: { id: teamId } },
+      { operationName: TEAM_SCHEDULE.operationName, query: TEAM_SCHEDULE.query, variables: { id: teamId } },
     ]);
-    
+
     return {
-      roster: results[0].team,
-      schedule: results[1].team,
+      roster: parseResponse(TEAM_ROSTER.operationName, TEAM_ROSTER.schema, rosterData, 200).team,
+      schedule: parseResponse(TEAM_SCHEDULE.operationName, TEAM_SCHEDULE.schema, scheduleData, 200).team,
     };
   }
 
   // Get member's aliases (to find alias ID for lifetime stats)
-  async getMemberAliases(memberId: number): Promise<{ member: { id: number; aliases: Array<{ id: number; league: { id: number } }> } }> {
-    const query = `
-      query MemberAliases($id: Int!) {
-        member(id: $id) {
-          id
-          aliases {
-            id
-            league {
-              id
-              __typename
-            }
-            __typename
-          }
-          __typename
-        }
-      }
-    `;
-    return this.graphqlSingle('MemberAliases', query, { id: memberId });
+  async getMemberAliases(memberId: number): Promise<GQLMemberAliases> {
+    return this.runSingle(MEMBER_ALIASES, { id: memberId });
   }
 
   // Batch fetch member aliases
-  async getMultipleMemberAliases(memberIds: number[]): Promise<Array<{ member: { id: number; aliases: Array<{ id: number; league: { id: number } }> } }>> {
-    const query = `
-      query MemberAliases($id: Int!) {
-        member(id: $id) {
-          id
-          aliases {
-            id
-            league {
-              id
-              __typename
-            }
-            __typename
-          }
-          __typename
-        }
-      }
-    `;
-    
-    const operations = memberIds.map(id => ({
-      operationName: 'MemberAliases',
-      query,
-      variables: { id },
-    }));
-    
-    return this.graphql(operations);
+  async getMultipleMemberAliases(memberIds: number[]): Promise<GQLMemberAliases[]> {
+    return this.run(MEMBER_ALIASES, memberIds.map(id => ({ id })));
   }
 
   // Get lifetime stats for an alias via backend proxy (bypasses CORS)
   async getAliasLifetimeStats(aliasId: number): Promise<GQLAliasStats> {
-    if (!this.authToken) {
+    const authToken = await this.getAccessToken();
+    if (!authToken) {
       throw new Error('Authentication required');
     }
 
-    const response = await fetch(`${PROXY_URL}/api/lifetime-stats/${aliasId}`, {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/lifetime-stats/${aliasId}`, {
       headers: {
-        'Authorization': this.authToken,
+        'Authorization': authToken,
       },
     });
 
     if (!response.ok) {
-      throw new Error(`Proxy request failed: ${response.status}`);
+      throw new APIRequestError(`Proxy request failed: ${response.status}`, response.status);
     }
 
     const result = await response.json();
@@ -651,266 +599,184 @@ class APAClient {
       throw new Error(`GraphQL error: ${result.errors.map((e: { message: string }) => e.message).join('; ')}`);
     }
 
-    return result;
+    return parseResponse('aliasStats', aliasStatsResultSchema, result.data, response.status);
   }
 
   // Batch fetch lifetime stats for multiple aliases via backend proxy
   async getMultipleAliasLifetimeStats(aliasIds: number[]): Promise<GQLAliasStats[]> {
-    if (!this.authToken) {
+    const authToken = await this.getAccessToken();
+    if (!authToken) {
       throw new Error('Authentication required');
     }
 
-    const response = await fetch(`${PROXY_URL}/api/lifetime-stats/batch`, {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/lifetime-stats/batch`, {
       method: 'POST',
       headers: {
-        'Authorization': this.authToken,
+        'Authorization': authToken,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ aliasIds }),
     });
 
     if (!response.ok) {
-      throw new Error(`Proxy batch request failed: ${response.status}`);
+      throw new APIRequestError(`Proxy batch request failed: ${response.status}`, response.status);
     }
 
-    const results = await response.json();
-    
-    // Handle array of results
-    if (Array.isArray(results)) {
-      return results.map(result => {
-        if (result.errors) {
-          console.warn('GraphQL error in batch:', result.errors);
-          return { data: { alias: null } };
-        }
-        return result;
-      });
+    const results: unknown = await response.json();
+    if (!Array.isArray(results)) {
+      throw new APIResponseError('aliasStats', ['expected one result per alias'], response.status);
+    }
+
+    return results.map((result: { data?: unknown; errors?: unknown[] }) => {
+      if (result.errors) {
+        console.warn('GraphQL error in batch:', result.errors);
+        return { alias: null };
+      }
+      return parseResponse('aliasStats', aliasStatsResultSchema, result.data, response.status);
+    });
+  }
+
+  // ========== SHARED DIVISION DATA (backend /api/v1, no token needed) ==========
+
+  async getSharedDivisions(): Promise<SharedDivision[]> {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/v1/divisions`);
+    if (!response.ok) {
+      throw new APIRequestError(`Shared divisions request failed: ${response.status}`, response.status);
+    }
+    const result = await response.json();
+    return result.divisions;
+  }
+
+  // Null when nobody has shared a sync for this division yet
+  async getDivisionSnapshot(divisionId: number): Promise<DivisionSnapshot | null> {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/v1/divisions/${divisionId}/snapshot`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new APIRequestError(`Snapshot request failed: ${response.status}`, response.status);
+    }
+    return parseResponse('divisionSnapshot', divisionSnapshotSchema, await response.json(), response.status);
+  }
+
+  // Let the backend keep this division synced with our signed-in session
+  async shareDivisionSync(divisionId: number, teamId: number): Promise<SharedDivision> {
+    if (!this.sessionId) {
+      throw new Error('Sign in to share syncing');
+    }
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/v1/divisions/${divisionId}/sync-job`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'X-Session-Id': this.sessionId },
+      body: JSON.stringify({ teamId }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new APIRequestError(result.error || `Sharing sync failed: ${response.status}`, response.status);
+    }
+    return result;
+  }
+
+  async stopDivisionSync(divisionId: number): Promise<void> {
+    if (!this.sessionId) {
+      throw new Error('Sign in to stop syncing');
+    }
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/v1/divisions/${divisionId}/sync-job`, {
+      method: 'DELETE',
+      headers: { 'X-Session-Id': this.sessionId },
+    });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new APIRequestError(result.error || `Stopping sync failed: ${response.status}`, response.status);
+    }
+  }
+
+  // ========== LIVE MATCH SESSIONS (backend /api/live, no token needed) ==========
+
+  async createLiveSession(match: LiveMatch, roster: LiveRosterPlayer[]): Promise<{ code: string; captainCode: string }> {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/live/sessions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ match, roster }),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new APIRequestError(result.error || `Sharing match failed: ${response.status}`, response.status);
     }
+    return result;
+  }
 
-    return results;
+  // A captain code lets this device make changes; a match code only watches
+  async lookupLiveSession(code: string): Promise<{ code: string; role: 'captain' | 'viewer' }> {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/live/sessions/${encodeURIComponent(code)}`);
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new APIRequestError(result.error || `Joining match failed: ${response.status}`, response.status);
+    }
+    return result;
+  }
+
+  // Throws with status 409 when another captain changed the same thing first
+  async sendLiveAction(code: string, captainCode: string, request: LiveActionRequest): Promise<LiveMatchEvent> {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/live/sessions/${code}/actions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Captain-Code': captainCode },
+      body: JSON.stringify(request),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new APIRequestError(result.error || `Sending change failed: ${response.status}`, response.status);
+    }
+    return result;
+  }
+
+  async endLiveSession(code: string, captainCode: string): Promise<void> {
+    const response = await this.scheduler.fetch(`${PROXY_URL}/api/live/sessions/${code}`, {
+      method: 'DELETE',
+      headers: { 'X-Captain-Code': captainCode },
+    });
+    if (!response.ok && response.status !== 404) {
+      const result = await response.json().catch(() => ({}));
+      throw new APIRequestError(result.error || `Ending shared match failed: ${response.status}`, response.status);
+    }
+  }
+
+  // For an EventSource - sends `snapshot`, then `action` events, and `ended` when sharing stops
+  liveSessionEventsUrl(code: string): string {
+    return `${PROXY_URL}/api/live/sessions/${code}/events`;
   }
 
   // Get member's lifetime stats (deprecated - use getAliasLifetimeStats instead)
   async getMemberStats(memberId: number, format: 'NINE' | 'EIGHT' = 'NINE'): Promise<GQLMemberStats> {
-    const query = `
-      query memberStats($id: Int!, $format: FormatType!) {
-        member(id: $id) {
-          id
-          firstName
-          lastName
-          memberNumber
-          stats(format: $format) {
-            matchesWon
-            matchesPlayed
-            winPercentage
-            defensiveShotAverage
-            breakAndRuns
-            nineOnTheSnap
-            miniSlams
-            shutouts
-            pointsPerMatch
-            pointsAwarded
-            __typename
-          }
-          __typename
-        }
-      }
-    `;
-    return this.graphqlSingle('memberStats', query, { id: memberId, format });
+    return this.runSingle(MEMBER_STATS, { id: memberId, format });
   }
 
   // Fetch multiple members' lifetime stats
   async getMultipleMemberStats(memberIds: number[], format: 'NINE' | 'EIGHT' = 'NINE'): Promise<GQLMemberStats[]> {
-    const query = `
-      query memberStats($id: Int!, $format: FormatType!) {
-        member(id: $id) {
-          id
-          firstName
-          lastName
-          memberNumber
-          stats(format: $format) {
-            matchesWon
-            matchesPlayed
-            winPercentage
-            defensiveShotAverage
-            breakAndRuns
-            nineOnTheSnap
-            miniSlams
-            shutouts
-            pointsPerMatch
-            pointsAwarded
-            __typename
-          }
-          __typename
-        }
-      }
-    `;
-    
-    const operations = memberIds.map(id => ({
-      operationName: 'memberStats',
-      query,
-      variables: { id, format },
-    }));
-    
-    const results = await this.graphql<GQLMemberStats>(operations);
-    return results;
+    return this.run(MEMBER_STATS, memberIds.map(id => ({ id, format })));
   }
 
   // Get player's match history (individual game results)
   async getPlayerMatchHistory(playerId: number): Promise<GQLPlayerMatchHistory> {
-    const query = `
-      query playerMatchHistory($id: Int!) {
-        player(id: $id) {
-          id
-          displayName
-          skillLevel
-          memberNumber
-          matchHistory {
-            id
-            datePlayed
-            won
-            skillLevel
-            pointsAwarded
-            pointsNeeded
-            opponent {
-              id
-              displayName
-              skillLevel
-              __typename
-            }
-            match {
-              id
-              week
-              startTime
-              __typename
-            }
-            team {
-              id
-              name
-              __typename
-            }
-            __typename
-          }
-          __typename
-        }
-      }
-    `;
-    return this.graphqlSingle('playerMatchHistory', query, { id: playerId });
+    return this.runSingle(PLAYER_MATCH_HISTORY, { id: playerId });
   }
 
   // Get player's session history (stats from multiple sessions)
   async getPlayerSessionHistory(memberId: number, format: 'NINE' | 'EIGHT' = 'NINE'): Promise<GQLMemberSessionHistory> {
-    const query = `
-      query memberSessionHistory($id: Int!, $format: FormatType!) {
-        member(id: $id) {
-          id
-          firstName
-          lastName
-          playerHistory(format: $format, limit: 4) {
-            id
-            skillLevel
-            matchesPlayed
-            matchesWon
-            ppm
-            pa
-            session {
-              id
-              name
-              year
-              __typename
-            }
-            team {
-              id
-              name
-              number
-              __typename
-            }
-            __typename
-          }
-          __typename
-        }
-      }
-    `;
-    return this.graphqlSingle('memberSessionHistory', query, { id: memberId, format });
+    return this.runSingle(MEMBER_SESSION_HISTORY, { id: memberId, format });
   }
 
-  // Fetch multiple players' match histories in parallel
+  // Fetch multiple players' match histories in one batch
   async getMultiplePlayerHistories(playerIds: number[]): Promise<GQLPlayerMatchHistory[]> {
-    const query = `
-      query playerMatchHistory($id: Int!) {
-        player(id: $id) {
-          id
-          displayName
-          skillLevel
-          matchHistory {
-            id
-            datePlayed
-            won
-            skillLevel
-            pointsAwarded
-            pointsNeeded
-            opponent {
-              id
-              displayName
-              skillLevel
-              __typename
-            }
-            __typename
-          }
-          __typename
-        }
-      }
-    `;
-    
-    const operations = playerIds.map(id => ({
-      operationName: 'playerMatchHistory',
-      query,
-      variables: { id },
-    }));
-    
-    const results = await this.graphql<GQLPlayerMatchHistory>(operations);
-    return results;
-  }
-
-  // Fetch multiple team rosters in parallel
-  async getMultipleTeamRosters(teamIds: number[]): Promise<GQLTeam[]> {
-    const query = `
-      query teamRoster($id: Int!) {
-        team(id: $id) {
-          id
-          name
-          number
-          league { id slug __typename }
-          division { id type __typename }
-          roster {
-            id
-            memberNumber
-            displayName
-            matchesWon
-            matchesPlayed
-            skillLevel
-            member { id __typename }
-            __typename
-            ... on NineBallPlayer {
-              pa
-              ppm
-            }
-            ... on EightBallPlayer {
-              pa
-              ppm
-            }
-          }
-          __typename
-        }
-      }
-    `;
-    
-    const operations = teamIds.map(id => ({
-      operationName: 'teamRoster',
-      query,
-      variables: { id },
-    }));
-    
-    const results = await this.graphql<{ team: GQLTeam }>(operations);
+    return this.run(PLAYER_MATCH_HISTORY, playerIds.map(id => ({ id })));
+  }
+
+  // Fetch multiple team schedules in one batch (null for ids APA doesn't know)
+  async getMultipleTeamSchedules(teamIds: number[]): Promise<Array<GQLTeamSchedule | null>> {
+    const results = await this.run(TEAM_SCHEDULE, teamIds.map(id => ({ id })));
+    return results.map(r => r.team);
+  }
+
+  // Fetch multiple team rosters in one batch (null for ids APA doesn't know)
+  async getMultipleTeamRosters(teamIds: number[]): Promise<Array<GQLTeam | null>> {
+    const results = await this.run(TEAM_ROSTER, teamIds.map(id => ({ id })));
     return results.map(r => r.team);
   }
 
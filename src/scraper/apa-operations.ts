@@ -0,0 +1,214 @@
+// The APA GraphQL operations we send, each paired with the schema its response must match
+// (apa-schema.ts). Queries mirror what the member site sends, so keep field selections in
+// step with the schemas - a field we stop requesting will fail validation.
+
+import type { z } from 'zod';
+import {
+  viewerResultSchema,
+  viewerTeamsResultSchema,
+  teamRosterResultSchema,
+  teamScheduleResultSchema,
+  memberAliasesResultSchema,
+  memberStatsResultSchema,
+  playerMatchHistoryResultSchema,
+  memberSessionHistoryResultSchema,
+} from './apa-schema';
+
+export interface APAOperation<T> {
+  operationName: string;
+  query: string;
+  schema: z.ZodType<T>;
+}
+
+const defineOperation = <T>(operationName: string, query: string, schema: z.ZodType<T>): APAOperation<T> => ({
+  operationName,
+  query,
+  schema,
+});
+
+export const VIEWER = defineOperation('ViewerQuery', `
+  query ViewerQuery {
+    viewer {
+      __typename
+      id
+      ... on Member {
+        firstName
+        lastName
+        emailAddress
+      }
+    }
+  }
+`, viewerResultSchema);
+
+// The teams the viewer plays on (for team profiles)
+export const VIEWER_TEAMS = defineOperation('ViewerTeamsQuery', `
+  query ViewerTeamsQuery {
+    viewer {
+      __typename
+      id
+      ... on Member {
+        aliases {
+          id
+          league { id slug __typename }
+          players {
+            id
+            team {
+              id
+              name
+              number
+              division { id name type __typename }
+              __typename
+            }
+            __typename
+          }
+          __typename
+        }
+      }
+    }
+  }
+`, viewerTeamsResultSchema);
+
+// Team roster with every player's current-session stats
+export const TEAM_ROSTER = defineOperation('teamRoster', `
+  query teamRoster($id: Int!) {
+    team(id: $id) {
+      id
+      name
+      number
+      league { id slug __typename }
+      division { id type __typename }
+      roster {
+        id
+        memberNumber
+        displayName
+        matchesWon
+        matchesPlayed
+        skillLevel
+        member { id __typename }
+        __typename
+        ... on NineBallPlayer {
+          pa
+          ppm
+        }
+        ... on EightBallPlayer {
+          pa
+          ppm
+        }
+      }
+      __typename
+    }
+  }
+`, teamRosterResultSchema);
+
+// Team standings points and every match on the schedule
+export const TEAM_SCHEDULE = defineOperation('teamSchedule', `
+  query teamSchedule($id: Int!) {
+    team(id: $id) {
+      id
+      sessionPoints
+      matches {
+        week
+        type
+        id
+        status
+        startTime
+        isScored
+        description
+        location { id name __typename }
+        home { id name number isMine __typename }
+        away { id name number isMine __typename }
+        results { homeAway points { total __typename } __typename }
+        __typename
+      }
+      __typename
+    }
+  }
+`, teamScheduleResultSchema);
+
+// A member's aliases (one per league - the alias ID is the key for lifetime stats)
+export const MEMBER_ALIASES = defineOperation('MemberAliases', `
+  query MemberAliases($id: Int!) {
+    member(id: $id) {
+      id
+      aliases {
+        id
+        league { id __typename }
+        __typename
+      }
+      __typename
+    }
+  }
+`, memberAliasesResultSchema);
+
+export const MEMBER_STATS = defineOperation('memberStats', `
+  query memberStats($id: Int!, $format: FormatType!) {
+    member(id: $id) {
+      id
+      firstName
+      lastName
+      memberNumber
+      stats(format: $format) {
+        matchesWon
+        matchesPlayed
+        winPercentage
+        defensiveShotAverage
+        breakAndRuns
+        nineOnTheSnap
+        miniSlams
+        shutouts
+        pointsPerMatch
+        pointsAwarded
+        __typename
+      }
+      __typename
+    }
+  }
+`, memberStatsResultSchema);
+
+// A player's individual game results
+export const PLAYER_MATCH_HISTORY = defineOperation('playerMatchHistory', `
+  query playerMatchHistory($id: Int!) {
+    player(id: $id) {
+      id
+      displayName
+      skillLevel
+      memberNumber
+      matchHistory {
+        id
+        datePlayed
+        won
+        skillLevel
+        pointsAwarded
+        pointsNeeded
+        opponent { id displayName skillLevel __typename }
+        match { id week startTime __typename }
+        team { id name __typename }
+        __typename
+      }
+      __typename
+    }
+  }
+`, playerMatchHistoryResultSchema);
+
+// A member's stats from their last few sessions
+export const MEMBER_SESSION_HISTORY = defineOperation('memberSessionHistory', `
+  query memberSessionHistory($id: Int!, $format: FormatType!) {
+    member(id: $id) {
+      id
+      firstName
+      lastName
+      playerHistory(format: $format, limit: 4) {
+        id
+        skillLevel
+        matchesPlayed
+        matchesWon
+        ppm
+        pa
+        session { id name year __typename }
+        team { id name number __typename }
+        __typename
+      }
+      __typename
+    }
+  }
+`, memberSessionHistoryResultSchema);
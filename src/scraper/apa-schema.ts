@@ -0,0 +1,311 @@
+// Runtime schemas for APA's GraphQL responses (and the one public REST endpoint we read)
+// APA changes its API without notice. Every response is checked against these before we use
+// it, so a renamed or dropped field fails the request with the field's name instead of
+// quietly storing `undefined`. The GQL* types are inferred from the schemas, so the types
+// and the checks can't drift apart.
+//
+// Fields are only listed here if we request them. Unknown fields are dropped on parse.
+
+import { z } from 'zod';
+
+const id = z.number();
+const typename = z.string().optional();
+const formatSchema = z.enum(['NINE', 'EIGHT']);
+
+const leagueRefSchema = z.object({
+  id,
+  slug: z.string(),
+  __typename: typename,
+});
+
+export const gqlDivisionSchema = z.object({
+  id,
+  name: z.string().optional(),        // Only the viewer's teams query asks for it
+  type: formatSchema,
+  __typename: typename,
+});
+
+export const gqlPlayerSchema = z.object({
+  id,                                 // Player ID (session-specific)
+  memberNumber: z.string(),
+  displayName: z.string(),
+  matchesWon: z.number(),
+  matchesPlayed: z.number(),
+  pa: z.number(),                     // Points awarded (as decimal 0-1)
+  ppm: z.number(),                    // Points per match
+  skillLevel: z.number(),
+  member: z.object({ id, __typename: typename }),
+  alias: z.object({ id }).optional(), // The alias ID (for lifetime stats) - not on roster queries
+  __typename: typename,
+});
+
+const matchSideSchema = z.object({
+  id,
+  name: z.string(),
+  number: z.string(),
+  isMine: z.boolean(),
+  __typename: typename,
+});
+
+export const gqlMatchSchema = z.object({
+  id: id.nullable(),                  // Null on bye and no-play weeks
+  week: z.number().nullable(),
+  type: formatSchema.nullable(),
+  status: z.enum(['COMPLETED', 'UNPLAYED']),
+  startTime: z.string(),
+  isMine: z.boolean().optional(),
+  isScored: z.boolean(),
+  isFinalized: z.boolean().optional(),
+  description: z.string().nullish(),
+  location: z.object({
+    id,
+    name: z.string(),
+    address: z.object({ id, name: z.string() }).optional(),
+    __typename: typename,
+  }).nullish(),
+  home: matchSideSchema.nullish(),
+  away: matchSideSchema.nullish(),
+  results: z.array(z.object({
+    homeAway: z.enum(['HOME', 'AWAY']),
+    points: z.object({ total: z.number(), __typename: typename }),
+    __typename: typename,
+  })).optional(),
+  __typename: typename,
+});
+
+export const gqlTeamSchema = z.object({
+  id,
+  name: z.string(),
+  number: z.string(),
+  isMine: z.boolean().optional(),
+  league: leagueRefSchema.optional(),
+  division: gqlDivisionSchema.optional(),
+  roster: z.array(gqlPlayerSchema).optional(),
+  matches: z.array(gqlMatchSchema).optional(),
+  sessionPoints: z.number().nullish(),
+  __typename: typename,
+});
+
+// The schedule query only asks for what changes week to week
+export const gqlTeamScheduleSchema = z.object({
+  id,
+  sessionPoints: z.number().nullish(),
+  matches: z.array(gqlMatchSchema),
+  __typename: typename,
+});
+
+// Player match history (individual game results)
+export const gqlMatchHistoryItemSchema = z.object({
+  id,
+  datePlayed: z.string(),
+  won: z.boolean(),
+  skillLevel: z.number(),
+  pointsAwarded: z.number(),
+  pointsNeeded: z.number(),
+  opponent: z.object({
+    id,
+    displayName: z.string(),
+    skillLevel: z.number(),
+    __typename: typename,
+  }),
+  match: z.object({
+    id,
+    week: z.number().nullable(),
+    startTime: z.string(),
+    __typename: typename,
+  }).nullish(),
+  team: z.object({
+    id,
+    name: z.string(),
+    __typename: typename,
+  }).nullish(),
+  __typename: typename,
+});
+
+// Lifetime stats from alias query
+export const gqlLifetimeStatsSchema = z.object({
+  id,
+  matchesWon: z.number(),
+  matchesPlayed: z.number(),
+  CLA: z.number().nullable(),
+  defensiveShotAvg: z.number().nullable(),
+  matchCountForLastTwoYrs: z.number().nullable(),
+  lastPlayed: z.string().nullable(),
+  __typename: typename,
+});
+
+// Member session history (stats across multiple sessions)
+export const gqlSessionHistoryItemSchema = z.object({
+  id,
+  skillLevel: z.number(),
+  matchesPlayed: z.number(),
+  matchesWon: z.number(),
+  ppm: z.number(),
+  pa: z.number(),
+  session: z.object({ id, name: z.string(), year: z.number(), __typename: typename }),
+  team: z.object({ id, name: z.string(), number: z.string(), __typename: typename }),
+  __typename: typename,
+});
+
+// Member lifetime stats
+export const gqlMemberStatsDataSchema = z.object({
+  matchesWon: z.number(),
+  matchesPlayed: z.number(),
+  winPercentage: z.number(),
+  defensiveShotAverage: z.number(),
+  breakAndRuns: z.number(),
+  nineOnTheSnap: z.number(),
+  miniSlams: z.number(),
+  shutouts: z.number(),
+  pointsPerMatch: z.number(),
+  pointsAwarded: z.number(),
+  __typename: typename,
+});
+
+// ========== OPERATION RESULTS (the `data` of each response) ==========
+
+export const viewerResultSchema = z.object({
+  viewer: z.object({
+    id,
+    firstName: z.string(),
+    lastName: z.string(),
+    emailAddress: z.string(),
+    __typename: typename,
+  }),
+});
+
+// Every team the signed-in member has a player on, through their league aliases
+export const viewerTeamsResultSchema = z.object({
+  viewer: z.object({
+    id,
+    aliases: z.array(z.object({
+      id,
+      league: leagueRefSchema,
+      players: z.array(z.object({
+        id,
+        team: gqlTeamSchema.extend({
+          division: gqlDivisionSchema.extend({ name: z.string() }).nullish(),
+        }).nullable(),
+        __typename: typename,
+      })),
+      __typename: typename,
+    })).optional(),
+    __typename: typename,
+  }),
+});
+
+// Null team when the id doesn't exist
+export const teamRosterResultSchema = z.object({
+  team: gqlTeamSchema.extend({ roster: z.array(gqlPlayerSchema) }).nullable(),
+});
+
+export const teamScheduleResultSchema = z.object({
+  team: gqlTeamScheduleSchema.nullable(),
+});
+
+export const memberAliasesResultSchema = z.object({
+  member: z.object({
+    id,
+    aliases: z.array(z.object({
+      id,
+      league: z.object({ id, __typename: typename }),
+      __typename: typename,
+    })),
+    __typename: typename,
+  }).nullable(),
+});
+
+export const aliasStatsResultSchema = z.object({
+  alias: z.object({
+    id,
+    displayName: z.string(),
+    NineBallStats: z.array(gqlLifetimeStatsSchema),
+    EightBallStats: z.array(gqlLifetimeStatsSchema),
+    __typename: typename,
+  }).nullable(),
+});
+
+export const memberStatsResultSchema = z.object({
+  member: z.object({
+    id,
+    firstName: z.string(),
+    lastName: z.string(),
+    memberNumber: z.string(),
+    stats: gqlMemberStatsDataSchema.nullable(),
+    __typename: typename,
+  }),
+});
+
+export const playerMatchHistoryResultSchema = z.object({
+  player: z.object({
+    id,
+    displayName: z.string(),
+    skillLevel: z.number(),
+    memberNumber: z.string().optional(),
+    matchHistory: z.array(gqlMatchHistoryItemSchema),
+    __typename: typename,
+  }).nullable(),
+});
+
+export const memberSessionHistoryResultSchema = z.object({
+  member: z.object({
+    id,
+    firstName: z.string(),
+    lastName: z.string(),
+    playerHistory: z.array(gqlSessionHistoryItemSchema),
+    __typename: typename,
+  }),
+});
+
+// Shared division data from the backend's scheduled sync (/api/v1) - raw APA shapes
+export const divisionSnapshotSchema = z.object({
+  version: z.number(),
+  divisionId: id,
+  divisionName: z.string().nullable(),
+  format: formatSchema.nullable(),
+  leagueId: id.nullable(),
+  leagueSlug: z.string().nullable(),
+  generatedAt: z.string(),
+  teams: z.array(gqlTeamSchema.extend({ roster: z.array(gqlPlayerSchema) })),   // With sessionPoints
+  matches: z.array(gqlMatchSchema),
+  histories: z.record(z.string(), z.array(gqlMatchHistoryItemSchema)),            // By player id
+});
+
+// Public REST division schedule (/divisions/:id/division-schedule-info) - teams by number only
+export const apaScheduleItemSchema = z.object({
+  ScheduleDate: z.string(),
+  HomeTeamNumber: z.string(),
+  HomeTeamName: z.string(),
+  VisitingTeamNumber: z.string(),
+  VisitingTeamName: z.string(),
+  HostLocationName: z.string().nullable(),
+  Week: z.number(),
+  ScoresheetReportID: z.number().nullable(),      // No scoresheet on bye weeks
+  LeagueDivisionSessionScheduleMatchID: z.number(),
+  StartTime: z.string(),
+  FormatTypeListID: z.number(),
+  HostLocationID: z.number().nullable(),
+  IsMatchScored: z.number(),
+  Bye: z.boolean(),
+});
+
+export const divisionScheduleSchema = z.array(apaScheduleItemSchema);
+
+export type GQLDivision = z.infer<typeof gqlDivisionSchema>;
+export type GQLPlayer = z.infer<typeof gqlPlayerSchema>;
+export type GQLMatch = z.infer<typeof gqlMatchSchema>;
+export type GQLTeam = z.infer<typeof gqlTeamSchema>;
+export type GQLTeamSchedule = z.infer<typeof gqlTeamScheduleSchema>;
+export type GQLMatchHistoryItem = z.infer<typeof gqlMatchHistoryItemSchema>;
+export type GQLNineBallLifetimeStats = z.infer<typeof gqlLifetimeStatsSchema>;
+export type GQLSessionHistoryItem = z.infer<typeof gqlSessionHistoryItemSchema>;
+export type GQLMemberStatsData = z.infer<typeof gqlMemberStatsDataSchema>;
+export type GQLViewer = z.infer<typeof viewerResultSchema>['viewer'];
+export type GQLViewerTeams = z.infer<typeof viewerTeamsResultSchema>;
+export type GQLMemberAliases = z.infer<typeof memberAliasesResultSchema>;
+export type GQLAliasStats = z.infer<typeof aliasStatsResultSchema>;
+export type GQLMemberStats = z.infer<typeof memberStatsResultSchema>;
+export type GQLPlayerMatchHistory = z.infer<typeof playerMatchHistoryResultSchema>;
+export type GQLMemberSessionHistory = z.infer<typeof memberSessionHistoryResultSchema>;
+export type DivisionSnapshot = z.infer<typeof divisionSnapshotSchema>;
+export type APAScheduleItem = z.infer<typeof apaScheduleItemSchema>;
@@ -0,0 +1,301 @@
+// Runs the sync transforms against saved APA responses, checked by the same schemas a live
+// sync uses. When APA changes a response, save the new one over the fixture and see what breaks.
+
+import { describe, expect, it } from 'vitest';
+import { APIResponseError, parseResponse } from './apa-client';
+import { TEAM_ROSTER, TEAM_SCHEDULE, PLAYER_MATCH_HISTORY, VIEWER_TEAMS } from './apa-operations';
+import { aliasStatsResultSchema, divisionScheduleSchema } from './apa-schema';
+import {
+  transformTeam,
+  transformPlayer,
+  transformMatch,
+  transformMatchRecord,
+  transformGameResult,
+  transformViewerTeams,
+  buildHeadToHeadRecords,
+} from './data-transformer';
+import type { AppConfig, Player } from '../data/types';
+import teamRoster from './__fixtures__/teamRoster.json';
+import teamSchedule from './__fixtures__/teamSchedule.json';
+import playerMatchHistory from './__fixtures__/playerMatchHistory.json';
+import viewerTeams from './__fixtures__/viewerTeams.json';
+import aliasStats from './__fixtures__/aliasStats.json';
+
+const profile: AppConfig = {
+  id: 'team-12010455',
+  ourTeamId: 12010455,
+  ourTeamNumber: '40103',
+  ourTeamName: 'Rack City',
+  divisionId: 338802,
+  format: 'NINE',
+};
+
+// Fixtures are read-only imports - tamper with a copy
+const clone = <T>(value: T): T => structuredClone(value);
+
+describe('teamRoster', () => {
+  const { team } = parseResponse(TEAM_ROSTER.operationName, TEAM_ROSTER.schema, teamRoster.data);
+
+  it('transforms the team', () => {
+    expect(transformTeam(team!, true, profile)).toMatchObject({
+      id: 12010455,
+      number: '40103',
+      name: 'Rack City',
+      divisionId: 338802,
+      leagueId: 131,
+      leagueSlug: 'austin',
+      format: 'NINE',
+      isOurTeam: true,
+      sessionPoints: undefined,
+    });
+  });
+
+  it('transforms each player', () => {
+    const players = team!.roster.map(p => transformPlayer(p, team!.id));
+    expect(players).toHaveLength(2);
+    expect(players[0]).toEqual({
+      id: 2748112,
+      aliasId: 0,
+      memberId: 1650021,
+      memberNumber: '40012345',
+      name: 'Dana Whitfield',
+      skillLevel: 5,
+      teamId: 12010455,
+      matchesPlayed: 8,
+      matchesWon: 6,
+      ppm: 13.25,
+      pa: 0.612,
+      winPct: 75,
+    });
+    expect(players[1].winPct).toBe(0);
+  });
+
+  it('names the field that went missing', () => {
+    const broken = clone(teamRoster.data) as { team: { roster: Record<string, unknown>[] } };
+    delete broken.team.roster[1].skillLevel;
+
+    expect(() => parseResponse(TEAM_ROSTER.operationName, TEAM_ROSTER.schema, broken))
+      .toThrow('teamRoster returned an unexpected response: team.roster[1].skillLevel is missing (expected number)');
+  });
+
+  it('names a field that changed type', () => {
+    const broken = clone(teamRoster.data) as { team: { roster: Record<string, unknown>[] } };
+    broken.team.roster[0].ppm = '13.25';
+
+    const error = (() => {
+      try {
+        parseResponse(TEAM_ROSTER.operationName, TEAM_ROSTER.schema, broken);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(error).toBeInstanceOf(APIResponseError);
+    expect((error as APIResponseError).operationName).toBe('teamRoster');
+    expect((error as APIResponseError).issues).toEqual(['team.roster[0].ppm is a string (expected number)']);
+  });
+
+  it('accepts an unknown team', () => {
+    expect(parseResponse(TEAM_ROSTER.operationName, TEAM_ROSTER.schema, { team: null }).team).toBeNull();
+  });
+});
+
+describe('teamSchedule', () => {
+  const { team } = parseResponse(TEAM_SCHEDULE.operationName, TEAM_SCHEDULE.schema, teamSchedule.data);
+  const matches = team!.matches.map(m => transformMatch(m, profile.divisionId));
+
+  it('skips bye weeks', () => {
+    expect(matches[1]).toBeNull();
+  });
+
+  it('transforms a scored match', () => {
+    expect(matches[0]).toMatchObject({
+      id: 51877001,
+      divisionId: 338802,
+      week: 1,
+      homeTeamId: 12010455,
+      awayTeamId: 12010460,
+      awayTeamName: 'Scratch Kings',
+      hostLocationName: 'The Cue Lounge',
+      hostLocationId: 4410,
+      isScored: true,
+      status: 'COMPLETED',
+      homePoints: 11,
+      awayPoints: 9,
+      description: undefined,
+    });
+    expect(matches[0]!.scheduledDate.toISOString()).toBe('2026-09-08T00:30:00.000Z');
+  });
+
+  it('transforms an upcoming match', () => {
+    expect(matches[2]).toMatchObject({
+      id: 51877019,
+      homeTeamId: 12010463,
+      isScored: false,
+      status: 'UNPLAYED',
+      homePoints: undefined,
+      awayPoints: undefined,
+      description: 'Position round',
+    });
+  });
+
+  it('carries standings points onto the team', () => {
+    expect(team!.sessionPoints).toBe(31);
+  });
+
+  it('rejects a status it doesn\'t know', () => {
+    const broken = clone(teamSchedule.data);
+    broken.team.matches[0].status = 'FORFEITED';
+
+    expect(() => parseResponse(TEAM_SCHEDULE.operationName, TEAM_SCHEDULE.schema, broken))
+      .toThrow('team.matches[0].status');
+  });
+});
+
+describe('playerMatchHistory', () => {
+  const { player } = parseResponse(PLAYER_MATCH_HISTORY.operationName, PLAYER_MATCH_HISTORY.schema, playerMatchHistory.data);
+  const [current, older] = player!.matchHistory;
+
+  const dana = { id: 2748112, name: 'Dana Whitfield', teamId: 12010455 } as Player;
+  const lee = { id: 2748301, name: 'Lee Park', teamId: 12010460 } as Player;
+  const playersById = new Map([dana, lee].map(p => [p.id, p]));
+
+  it('transforms match records', () => {
+    expect(transformMatchRecord(current, dana.id)).toMatchObject({
+      id: 90311201,
+      playerId: 2748112,
+      won: true,
+      skillLevel: 5,
+      pointsAwarded: 38,
+      pointsNeeded: 38,
+      opponentId: 2748301,
+      opponentName: 'Lee Park',
+      opponentSkillLevel: 6,
+      matchWeek: 1,
+      matchId: 51877001,
+      teamId: 12010455,
+    });
+    expect(transformMatchRecord(older, dana.id)).toMatchObject({
+      matchWeek: undefined,
+      matchId: undefined,
+      teamId: undefined,
+    });
+  });
+
+  it('transforms game results for games tied to a team match', () => {
+    expect(transformGameResult(current, dana, playersById)).toMatchObject({
+      matchId: 51877001,
+      playerId: 2748112,
+      playerTeamId: 12010455,
+      opponentId: 2748301,
+      opponentTeamId: 12010460,
+      pointsScored: 38,
+      pointsNeeded: 38,
+      won: true,
+    });
+    expect(transformGameResult(older, dana, playersById)).toBeNull();
+  });
+});
+
+describe('viewerTeams', () => {
+  const data = parseResponse(VIEWER_TEAMS.operationName, VIEWER_TEAMS.schema, viewerTeams.data);
+
+  it('makes one profile per team, newest season first', () => {
+    expect(transformViewerTeams(data)).toEqual([
+      {
+        ourTeamId: 12011780,
+        ourTeamNumber: '50206',
+        ourTeamName: 'Break Point',
+        divisionId: 338915,
+        divisionName: 'Thursday 8-Ball Fall',
+        leagueId: 131,
+        leagueSlug: 'austin',
+        format: 'EIGHT',
+      },
+      {
+        ourTeamId: 12010455,
+        ourTeamNumber: '40103',
+        ourTeamName: 'Rack City',
+        divisionId: 338802,
+        divisionName: 'Tuesday 9-Ball Fall',
+        leagueId: 131,
+        leagueSlug: 'austin',
+        format: 'NINE',
+      },
+      {
+        ourTeamId: 11873302,
+        ourTeamNumber: '40103',
+        ourTeamName: 'Rack City',
+        divisionId: 331120,
+        divisionName: 'Tuesday 9-Ball Spring',
+        leagueId: 131,
+        leagueSlug: 'austin',
+        format: 'NINE',
+      },
+    ]);
+  });
+});
+
+describe('aliasStats', () => {
+  it('parses lifetime stats for both formats', () => {
+    const { alias } = parseResponse('aliasStats', aliasStatsResultSchema, aliasStats.data);
+    expect(alias!.NineBallStats[0]).toMatchObject({ matchesWon: 54, matchesPlayed: 91, defensiveShotAvg: 0.41 });
+    expect(alias!.EightBallStats[0].defensiveShotAvg).toBeNull();
+  });
+});
+
+describe('divisionSchedule', () => {
+  const item = {
+    ScheduleDate: '2025-09-16T00:00:00',
+    HomeTeamNumber: '40103',
+    HomeTeamName: 'Rack City',
+    VisitingTeamNumber: '40107',
+    VisitingTeamName: 'Cue Tips',
+    HostLocationName: 'Corner Pocket',
+    Week: 1,
+    ScoresheetReportID: 9912,
+    LeagueDivisionSessionScheduleMatchID: 77201,
+    StartTime: '19:00',
+    FormatTypeListID: 2,
+    HostLocationID: 415,
+    IsMatchScored: 1,
+    Bye: false,
+  };
+
+  it('accepts the REST schedule rows sync reads team numbers from', () => {
+    expect(parseResponse('divisionSchedule', divisionScheduleSchema, [item])[0].HomeTeamNumber).toBe('40103');
+  });
+
+  it('names the field that went missing', () => {
+    const broken: Partial<typeof item> = clone(item);
+    delete broken.VisitingTeamNumber;
+    expect(() => parseResponse('divisionSchedule', divisionScheduleSchema, [item, broken]))
+      .toThrow('divisionSchedule returned an unexpected response: [1].VisitingTeamNumber is missing (expected string)');
+  });
+});
+
+describe('buildHeadToHeadRecords', () => {
+  const playedAt = new Date('2025-09-16T19:00:00Z');
+  const game = { matchId: 501, playerId: 1, opponentId: 2, won: true, pointsScored: 38, pointsNeeded: 38, playedAt };
+
+  it('credits an opponent whose own history was never synced, without making up their points', () => {
+    const records = buildHeadToHeadRecords([game]);
+    expect(records).toHaveLength(2);
+    const mirrored = records.find(r => r.playerId === 2);
+    expect(mirrored).toMatchObject({
+      opponentId: 1,
+      totalGames: 1,
+      wins: 0,
+      losses: 1,
+    });
+    expect(mirrored?.avgPointsScored).toBeUndefined();
+    expect(mirrored?.avgPointsNeeded).toBeUndefined();
+  });
+
+  it('counts a game seen from both sides once per side', () => {
+    const records = buildHeadToHeadRecords([
+      game,
+      { ...game, playerId: 2, opponentId: 1, won: false, pointsScored: 20, pointsNeeded: 31 },
+    ]);
+    expect(records.map(r => [r.playerId, r.totalGames, r.avgPointsScored])).toEqual([[1, 1, 38], [2, 1, 20]]);
+  });
+});
@@ -1,10 +1,15 @@
-import type { HeadToHead } from '../data/types';
+import type { AppConfig, GameResult, HeadToHead, Match, Player, PlayerMatchRecord, Team } from '../data/types';
+import type { GQLMatch, GQLMatchHistoryItem, GQLPlayer, GQLTeam, GQLViewerTeams } from './apa-client';
 
 /**
- * Build head-to-head records from game results
+ * Build head-to-head records from game results, one per player per opponent.
+ * A game stored from only one side (the opponent's history wasn't synced) is credited to the
+ * opponent as well; their points aren't in it, so point averages cover only games seen from
+ * their own side and are left unset when there are none.
  */
 export function buildHeadToHeadRecords(
   gameResults: {
+    matchId: number;
     playerId: number;
     opponentId: number;
     won: boolean;
@@ -14,40 +19,58 @@ export function buildHeadToHeadRecords(
   }[]
 ): HeadToHead[] {
   const h2hMap = new Map<string, HeadToHead>();
+  const pointsCounted = new Map<string, number>();
+  const seen = new Set(gameResults.map(g => `${g.matchId}-${g.playerId}-${g.opponentId}`));
+
+  const record = (
+    playerId: number,
+    opponentId: number,
+    won: boolean,
+    playedAt: Date,
+    points?: { scored: number; needed: number }
+  ) => {
+    const key = `${playerId}-${opponentId}`;
 
-  for (const game of gameResults) {
-    const key = `${game.playerId}-${game.opponentId}`;
-    
     let h2h = h2hMap.get(key);
     if (!h2h) {
       h2h = {
-        playerId: game.playerId,
-        opponentId: game.opponentId,
+        playerId,
+        opponentId,
         totalGames: 0,
         wins: 0,
         losses: 0,
-        avgPointsScored: 0,
-        avgPointsNeeded: 0,
-        lastPlayed: game.playedAt,
+        lastPlayed: playedAt,
       };
       h2hMap.set(key, h2h);
     }
 
     h2h.totalGames++;
-    if (game.won) {
+    if (won) {
       h2h.wins++;
     } else {
       h2h.losses++;
     }
     
     // Update running average
-    h2h.avgPointsScored = 
-      (h2h.avgPointsScored * (h2h.totalGames - 1) + game.pointsScored) / h2h.totalGames;
-    h2h.avgPointsNeeded = 
-      (h2h.avgPointsNeeded * (h2h.totalGames - 1) + game.pointsNeeded) / h2h.totalGames;
+    if (points) {
+      const counted = (pointsCounted.get(key) ?? 0) + 1;
+      pointsCounted.set(key, counted);
+      h2h.avgPointsScored = ((h2h.avgPointsScored ?? 0) * (counted - 1) + points.scored) / counted;
+      h2h.avgPointsNeeded = ((h2h.avgPointsNeeded ?? 0) * (counted - 1) + points.needed) / counted;
+    }
     
-    if (game.playedAt > h2h.lastPlayed) {
-      h2h.lastPlayed = game.playedAt;
+    if (playedAt > h2h.lastPlayed) {
+      h2h.lastPlayed = playedAt;
+    }
+  };
+
+  for (const game of gameResults) {
+    record(game.playerId, game.opponentId, game.won, game.playedAt, {
+      scored: game.pointsScored,
+      needed: game.pointsNeeded,
+    });
+    if (!seen.has(`${game.matchId}-${game.opponentId}-${game.playerId}`)) {
+      record(game.opponentId, game.playerId, !game.won, game.playedAt);
     }
   }
 
@@ -101,3 +124,153 @@ export function getPointsNeeded8Ball(skillLevel: number): number {
   };
   return pointsTable[skillLevel] || 3;
 }
+
+/**
+ * Transform GQL team to our Team type (division and format default to the profile being synced)
+ */
+export function transformTeam(gqlTeam: GQLTeam, isOurTeam: boolean, profile: AppConfig): Team {
+  return {
+    id: gqlTeam.id,
+    number: gqlTeam.number,
+    name: gqlTeam.name,
+    divisionId: gqlTeam.division?.id || profile.divisionId,
+    leagueId: gqlTeam.league?.id,
+    leagueSlug: gqlTeam.league?.slug,
+    format: gqlTeam.division?.type || profile.format,
+    isOurTeam,
+    sessionPoints: gqlTeam.sessionPoints ?? undefined,
+    lastSynced: new Date(),
+  };
+}
+
+/**
+ * Transform GQL player to our Player type
+ */
+export function transformPlayer(gqlPlayer: GQLPlayer, teamId: number): Player {
+  const winPct = gqlPlayer.matchesPlayed > 0 
+    ? (gqlPlayer.matchesWon / gqlPlayer.matchesPlayed) * 100 
+    : 0;
+  
+  return {
+    id: gqlPlayer.id,
+    aliasId: gqlPlayer.alias?.id || 0, // Alias ID for lifetime stats
+    memberId: gqlPlayer.member.id,
+    memberNumber: gqlPlayer.memberNumber,
+    name: gqlPlayer.displayName,
+    skillLevel: gqlPlayer.skillLevel,
+    teamId,
+    matchesPlayed: gqlPlayer.matchesPlayed,
+    matchesWon: gqlPlayer.matchesWon,
+    ppm: gqlPlayer.ppm,
+    pa: gqlPlayer.pa,
+    winPct,
+  };
+}
+
+/**
+ * Transform GQL match to our Match type
+ */
+export function transformMatch(gqlMatch: GQLMatch, divisionId: number): Match | null {
+  // Skip bye weeks and no-play weeks
+  if (!gqlMatch.id || !gqlMatch.home || !gqlMatch.away) {
+    return null;
+  }
+  
+  const homePoints = gqlMatch.results?.find(r => r.homeAway === 'HOME')?.points.total;
+  const awayPoints = gqlMatch.results?.find(r => r.homeAway === 'AWAY')?.points.total;
+  
+  return {
+    id: gqlMatch.id,
+    divisionId,
+    week: gqlMatch.week,
+    homeTeamId: gqlMatch.home.id,
+    homeTeamName: gqlMatch.home.name,
+    homeTeamNumber: gqlMatch.home.number,
+    awayTeamId: gqlMatch.away.id,
+    awayTeamName: gqlMatch.away.name,
+    awayTeamNumber: gqlMatch.away.number,
+    scheduledDate: new Date(gqlMatch.startTime),
+    hostLocationName: gqlMatch.location?.name || '',
+    hostLocationId: gqlMatch.location?.id || null,
+    isScored: gqlMatch.isScored,
+    status: gqlMatch.status,
+    homePoints,
+    awayPoints,
+    description: gqlMatch.description ?? undefined,
+  };
+}
+
+/**
+ * Transform a player's match history item to our PlayerMatchRecord type
+ */
+export function transformMatchRecord(item: GQLMatchHistoryItem, playerId: number): PlayerMatchRecord {
+  return {
+    id: item.id,
+    playerId,
+    datePlayed: new Date(item.datePlayed),
+    won: item.won,
+    skillLevel: item.skillLevel,
+    pointsAwarded: item.pointsAwarded,
+    pointsNeeded: item.pointsNeeded,
+    opponentId: item.opponent.id,
+    opponentName: item.opponent.displayName,
+    opponentSkillLevel: item.opponent.skillLevel,
+    matchWeek: item.match?.week ?? undefined,
+    matchId: item.match?.id,
+    teamId: item.team?.id,
+  };
+}
+
+/**
+ * Transform a player's match history item to a GameResult (needs the team match it belongs to)
+ */
+export function transformGameResult(
+  item: GQLMatchHistoryItem,
+  player: Player,
+  playersById: Map<number, Player>
+): GameResult | null {
+  if (!item.match?.id || !item.opponent) {
+    return null;
+  }
+
+  return {
+    matchId: item.match.id,
+    gameNumber: 0, // Order within the match isn't part of player history
+    playerId: player.id,
+    playerName: player.name,
+    playerTeamId: item.team?.id ?? player.teamId,
+    playerSkillLevel: item.skillLevel,
+    opponentId: item.opponent.id,
+    opponentName: item.opponent.displayName,
+    opponentTeamId: playersById.get(item.opponent.id)?.teamId ?? 0,
+    opponentSkillLevel: item.opponent.skillLevel,
+    pointsScored: item.pointsAwarded,
+    pointsNeeded: item.pointsNeeded,
+    won: item.won,
+    playedAt: new Date(item.datePlayed),
+  };
+}
+
+/**
+ * One profile per team the member plays on, newest player record first
+ */
+export function transformViewerTeams(data: GQLViewerTeams): Omit<AppConfig, 'id'>[] {
+  const profiles = new Map<number, Omit<AppConfig, 'id'>>();
+  for (const alias of data.viewer.aliases ?? []) {
+    const players = [...alias.players].sort((a, b) => b.id - a.id);
+    for (const { team } of players) {
+      if (!team?.division || profiles.has(team.id)) continue;
+      profiles.set(team.id, {
+        ourTeamId: team.id,
+        ourTeamNumber: team.number,
+        ourTeamName: team.name,
+        divisionId: team.division.id,
+        divisionName: team.division.name,
+        leagueId: alias.league.id,
+        leagueSlug: alias.league.slug,
+        format: team.division.type,
+      });
+    }
+  }
+  return [...profiles.values()];
+}
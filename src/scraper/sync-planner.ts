@@ -0,0 +1,140 @@
+// Sync planner
+// Decides what a sync actually needs to fetch from per-entity freshness records.
+// Every division team's schedule is always pulled - it's a request per team and it's how
+// newly scored matches are found, ours and everyone else's. A newly scored match makes both
+// teams' rosters and histories stale; everything else is refetched only once it ages past
+// its window. Anything a failed or interrupted sync didn't finish has no fresh record, so
+// the next run picks it up.
+
+import type { FreshnessRecord, Match, Player, SyncEntity } from '../data/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// How long each kind of data stays fresh with nothing else pointing at it
+export const STALE_AFTER_MS: Record<SyncEntity, number> = {
+  team: DAY_MS,
+  schedule: 0,            // Always refetched
+  player: 7 * DAY_MS,
+  match: Infinity,        // Results don't change once captured
+  member: 30 * DAY_MS,
+  alias: 7 * DAY_MS,
+};
+
+export type FreshnessMap = Map<number, FreshnessRecord>;
+
+/**
+ * True when a record is missing, older than its window, or older than `changedAt`
+ */
+export function isStale(
+  record: FreshnessRecord | undefined,
+  entityType: SyncEntity,
+  now: Date,
+  changedAt?: Date
+): boolean {
+  if (!record) return true;
+  const fetchedAt = new Date(record.fetchedAt).getTime();
+  if (changedAt && fetchedAt < changedAt.getTime()) return true;
+  return now.getTime() - fetchedAt > STALE_AFTER_MS[entityType];
+}
+
+/**
+ * Completed matches whose results we don't have yet. Matches already seen keep the time
+ * they were first seen scored, so histories fetched before then still count as stale.
+ */
+export function findNewlyScoredMatches(matches: Match[], matchFreshness: FreshnessMap): Match[] {
+  return matches.filter(m => {
+    if (m.status !== 'COMPLETED') return false;
+    const record = matchFreshness.get(m.id);
+    return !record || record.pending === true;
+  });
+}
+
+// Latest time each team was involved in a newly scored match
+const teamChangeTimes = (newlyScored: Match[], matchFreshness: FreshnessMap, now: Date): Map<number, Date> => {
+  const changed = new Map<number, Date>();
+  for (const match of newlyScored) {
+    const seenAt = matchFreshness.get(match.id)?.fetchedAt ?? now;
+    for (const teamId of [match.homeTeamId, match.awayTeamId]) {
+      const previous = changed.get(teamId);
+      if (!previous || new Date(seenAt) > previous) changed.set(teamId, new Date(seenAt));
+    }
+  }
+  return changed;
+};
+
+/**
+ * Rosters to fetch: stale ones, plus any team that just played a scored match
+ * (skill levels move after every match)
+ */
+export function planTeams(
+  teamIds: number[],
+  newlyScored: Match[],
+  freshness: { team: FreshnessMap; match: FreshnessMap },
+  now = new Date()
+): number[] {
+  const changed = teamChangeTimes(newlyScored, freshness.match, now);
+  return teamIds.filter(id => isStale(freshness.team.get(id), 'team', now, changed.get(id)));
+}
+
+/**
+ * Histories to fetch: stale ones, plus everyone rostered on a team that just played
+ */
+export function planPlayers(
+  players: Player[],
+  newlyScored: Match[],
+  freshness: { player: FreshnessMap; match: FreshnessMap },
+  now = new Date()
+): number[] {
+  const changed = teamChangeTimes(newlyScored, freshness.match, now);
+  return players
+    .filter(p => isStale(freshness.player.get(p.id), 'player', now, changed.get(p.teamId)))
+    .map(p => p.id);
+}
+
+/**
+ * Alias lookups to fetch: members we've never looked up or haven't in a while
+ */
+export function planMembers(players: Player[], memberFreshness: FreshnessMap, now = new Date()): number[] {
+  const memberIds = [...new Set(players.map(p => p.memberId))];
+  return memberIds.filter(id => isStale(memberFreshness.get(id), 'member', now));
+}
+
+/**
+ * Lifetime stats to fetch: stale aliases, plus aliases of anyone whose history was just refetched
+ */
+export function planAliases(
+  players: Player[],
+  refetchedPlayerIds: Set<number>,
+  aliasFreshness: FreshnessMap,
+  now = new Date()
+): number[] {
+  const aliasIds = new Set<number>();
+  for (const player of players) {
+    if (!player.aliasId) continue;
+    if (refetchedPlayerIds.has(player.id) || isStale(aliasFreshness.get(player.aliasId), 'alias', now)) {
+      aliasIds.add(player.aliasId);
+    }
+  }
+  return [...aliasIds];
+}
+
+/**
+ * Newly scored matches whose teams' histories have all been fetched since the match was
+ * first seen scored - their results are in and they can be marked done
+ */
+export function settledMatches(
+  newlyScored: Match[],
+  players: Player[],
+  freshness: { player: FreshnessMap; match: FreshnessMap },
+  now = new Date()
+): number[] {
+  return newlyScored
+    .filter(match => {
+      const seenAt = new Date(freshness.match.get(match.id)?.fetchedAt ?? now);
+      return players
+        .filter(p => p.teamId === match.homeTeamId || p.teamId === match.awayTeamId)
+        .every(p => !isStale(freshness.player.get(p.id), 'player', now, seenAt));
+    })
+    .map(m => m.id);
+}
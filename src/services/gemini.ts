@@ -1,5 +1,8 @@
 import { GoogleGenAI } from '@google/genai';
-import type { Player, LiveMatch, HeadToHead } from '../data/types';
+import type { Player, LiveMatch, HeadToHead, GameFormat } from '../data/types';
+import { buildLineupContext, checkCandidateLegality, type LineupContext } from '../engine/lineup-rules';
+import { getRaceFormat } from '../engine/skill-level-tables';
+import { calculateWinProbability } from '../engine/win-probability';
 
 // Initialize client - API key should be set via environment variable
 const getClient = () => {
@@ -25,6 +28,7 @@ export interface AIRecommendation {
     briefReason: string;
   }>;
   strategicNotes: string;
+  isFallback?: boolean;     // Set when the model couldn't be reached or parsed
 }
 
 export interface ChatMessage {
@@ -33,6 +37,26 @@ export interface ChatMessage {
   timestamp: Date;
 }
 
+const formatName = (format: GameFormat) => (format === 'EIGHT' ? '8-Ball' : '9-Ball');
+
+/**
+ * How the handicap works in each format, for the prompt
+ */
+function describeHandicapSystem(format: GameFormat): string {
+  if (format === 'EIGHT') {
+    return `### APA 8-Ball Handicap System
+In APA 8-ball, each player races to a number of games set by BOTH skill levels on the race chart
+(e.g. SL7 vs SL3 is a 6-2 race, SL5 vs SL5 is 4-4). Skill levels run from 2 to 7.
+A lower skill level player needs fewer games, which offsets the stronger player's edge in each rack.
+PPM (Points Per Match) is match points earned per match.`;
+  }
+  return `### APA 9-Ball Handicap System
+In APA 9-ball, lower skill levels need fewer points to win (SL1 needs 14 points, SL9 needs 75 points).
+A lower skill level player has a built-in handicap advantage against higher skill levels.
+PPM (Points Per Match) indicates offensive efficiency.
+PA (Points Allowed) indicates defensive efficiency - lower is better.`;
+}
+
 /**
  * Build context about the match for AI
  */
@@ -92,6 +116,20 @@ function buildMatchContext(
   const ourAvailable = ourPlayers.filter(p => !ourUsedIds.has(p.id));
   const theirAvailable = theirPlayers.filter(p => !theirUsedIds.has(p.id));
 
+  const format = liveMatch.format ?? 'NINE';
+
+  // Skill-level cap for each side
+  const ourLineup = buildLineupContext(liveMatch, ourPlayers, 'us');
+  const theirLineup = buildLineupContext(liveMatch, theirPlayers, 'them');
+  const describeLineup = (lineup: LineupContext, available: Player[]) => {
+    const illegal = available.filter(p => !checkCandidateLegality(p, available, lineup).isLegal);
+    let line = `${lineup.usedSkillLevel}/${lineup.cap} SL used, ${lineup.gamesRemaining} game(s) left`;
+    if (illegal.length > 0) {
+      line += ` - CANNOT play: ${illegal.map(p => `${p.name} (SL${p.skillLevel})`).join(', ')}`;
+    }
+    return line;
+  };
+
   // Build available player summaries with lifetime stats
   const buildAvailableSummary = (p: Player) => {
     let summary = `- ${p.name} (SL${p.skillLevel}): Session ${p.winPct.toFixed(0)}% win, PPM ${p.ppm.toFixed(1)}`;
@@ -102,12 +140,18 @@ function buildMatchContext(
   };
 
   let context = `
-## APA 9-Ball Match Analysis
+## APA ${formatName(format)} Match Analysis
 
 ### Current Match State
-- Score: US ${liveMatch.ourScore} - THEM ${liveMatch.theirScore}
+- Games: US ${liveMatch.ourScore} - THEM ${liveMatch.theirScore}
+- Team points: US ${liveMatch.ourMatchPoints ?? 0} - THEM ${liveMatch.theirMatchPoints ?? 0}
 - Current Game: ${liveMatch.currentGame} of 5
-- Games needed to win: First to 3
+- All five games are played; every game awards team points (${format === 'EIGHT' ? '2 to the winner, 3 for a shutout, 1 to a loser who reached the hill' : '20 per game, split by how close the loser got to their race'}) and standings go by team points
+
+### Skill Level Cap (23 Rule)
+The five players a team puts up cannot total more than ${ourLineup.cap} skill levels.
+- Us: ${describeLineup(ourLineup, ourAvailable)}
+- Them: ${describeLineup(theirLineup, theirAvailable)}
 
 ### Our Team (Available Players)
 ${ourAvailable.map(buildAvailableSummary).join('\n')}
@@ -132,6 +176,7 @@ ${theirTeamStats}
 - Their record: ${opponentThrown.matchesWon}W-${opponentThrown.matchesPlayed - opponentThrown.matchesWon}L
 - Win rate: ${opponentThrown.winPct.toFixed(0)}%
 - PPM: ${opponentThrown.ppm.toFixed(1)}
+- Races vs our available players: ${ourAvailable.map(p => `${p.name} ${getRaceFormat(p.skillLevel, opponentThrown.skillLevel, format)}`).join(', ')}
 `;
   }
 
@@ -141,11 +186,7 @@ ${theirTeamStats}
 - LIFETIME: Career stats across ALL sessions the player has ever played
 - Head-to-Head: Past matchup records between specific players (when available)
 
-### APA 9-Ball Handicap System
-In APA 9-ball, lower skill levels need fewer points to win (SL1 needs 14 points, SL9 needs 75 points).
-A lower skill level player has a built-in handicap advantage against higher skill levels.
-PPM (Points Per Match) indicates offensive efficiency.
-PA (Points Allowed) indicates defensive efficiency - lower is better.
+${describeHandicapSystem(format)}
 `;
 
   return context;
@@ -167,6 +208,27 @@ export async function getAIRecommendation(
   const ourUsedIds = new Set(liveMatch.games.filter(g => g.ourPlayerId).map(g => g.ourPlayerId));
   const ourAvailable = ourPlayers.filter(p => !ourUsedIds.has(p.id));
 
+  // Only players that keep the rest of our lineup under the cap are eligible
+  const ourLineup = buildLineupContext(liveMatch, ourPlayers, 'us');
+  const legalAvailable = ourAvailable.filter(p =>
+    checkCandidateLegality(p, ourAvailable, ourLineup).isLegal
+  );
+  const eligible = legalAvailable.length > 0 ? legalAvailable : ourAvailable;
+  const eligibleIds = new Set(eligible.map(p => p.id));
+
+  // Handicap and head-to-head estimate for a player we pick ourselves rather than the model
+  const theirUsedIds = new Set(liveMatch.games.filter(g => g.theirPlayerId).map(g => g.theirPlayerId));
+  const theirAvailable = theirPlayers.filter(p => !theirUsedIds.has(p.id));
+  const opponents = opponentThrown ? [opponentThrown] : theirAvailable;
+  const estimateWinProbability = (player: Player): number => {
+    if (opponents.length === 0) return 0.5;
+    const total = opponents.reduce((sum, opp) => sum + calculateWinProbability(
+      player, undefined, opp, undefined, headToHead.get(`${player.id}-${opp.id}`),
+      undefined, undefined, { format: liveMatch.format }
+    ).probability, 0);
+    return total / opponents.length;
+  };
+
   const prompt = `${context}
 
 Based on the above match data, recommend which of our available players should play ${opponentThrown ? `against ${opponentThrown.name} (SL${opponentThrown.skillLevel})` : 'next'}.
@@ -177,10 +239,11 @@ Consider:
 3. PPM efficiency (points per match)
 4. Strategic value - saving strong players for later if needed
 5. Current match score and must-win situations
+6. The 23 rule - never recommend a player listed under CANNOT play
 
 Respond in this exact JSON format (no markdown, just JSON):
 {
-  "recommendedPlayerId": ${ourAvailable[0]?.id || 0},
+  "recommendedPlayerId": ${eligible[0]?.id || 0},
   "recommendedPlayerName": "Player Name",
   "winProbability": 0.65,
   "confidence": "high",
@@ -195,7 +258,7 @@ Respond in this exact JSON format (no markdown, just JSON):
   "strategicNotes": "Any additional strategic considerations for this game"
 }
 
-Available player IDs: ${JSON.stringify(ourAvailable.map(p => ({ id: p.id, name: p.name })))}`;
+Available player IDs: ${JSON.stringify(eligible.map(p => ({ id: p.id, name: p.name })))}`;
 
   try {
     const response = await client.models.generateContent({
@@ -224,15 +287,42 @@ Available player IDs: ${JSON.stringify(ourAvailable.map(p => ({ id: p.id, name:
     if (jsonMatch) {
       try {
         const parsed = JSON.parse(jsonMatch[0]);
-        return {
+        const recommendation: AIRecommendation = {
           recommendedPlayerId: parsed.recommendedPlayerId,
           recommendedPlayerName: parsed.recommendedPlayerName,
           winProbability: Math.max(0, Math.min(1, parsed.winProbability || 0.5)),
           confidence: parsed.confidence || 'medium',
           reasoning: Array.isArray(parsed.reasoning) ? parsed.reasoning : [parsed.reasoning || 'AI recommendation'],
-          alternativePicks: parsed.alternativePicks || [],
+          alternativePicks: (parsed.alternativePicks || []).filter(
+            (alt: { playerId: number }) => eligibleIds.has(alt.playerId)
+          ),
           strategicNotes: parsed.strategicNotes || '',
         };
+
+        // Guard against the model ignoring the 23 rule
+        if (!eligibleIds.has(recommendation.recommendedPlayerId)) {
+          const rejected = ourAvailable.find(p => p.id === recommendation.recommendedPlayerId);
+          const legality = rejected ? checkCandidateLegality(rejected, ourAvailable, ourLineup) : null;
+          // The model's own runner-up if it gave a legal one, otherwise the best legal matchup
+          const [alternative, ...otherAlternatives] = recommendation.alternativePicks;
+          const replacement = alternative
+            ? eligible.find(p => p.id === alternative.playerId)
+            : [...eligible].sort((a, b) => estimateWinProbability(b) - estimateWinProbability(a))[0];
+          recommendation.recommendedPlayerId = replacement?.id || 0;
+          recommendation.recommendedPlayerName = replacement?.name || 'Unknown';
+          // The model's probability was for the pick it made, not this one
+          recommendation.winProbability = replacement ? estimateWinProbability(replacement) : 0.5;
+          recommendation.alternativePicks = alternative ? otherAlternatives : recommendation.alternativePicks;
+          recommendation.confidence = 'low';
+          recommendation.reasoning = [
+            legality?.reason
+              ? `AI pick ${rejected?.name} overridden - ${legality.reason}`
+              : 'AI pick was not an eligible player - using a legal selection',
+            ...recommendation.reasoning,
+          ];
+        }
+
+        return recommendation;
       } catch (parseErr) {
         console.error('JSON parse error:', parseErr, 'Text:', jsonMatch[0].substring(0, 200));
       }
@@ -243,7 +333,7 @@ Available player IDs: ${JSON.stringify(ourAvailable.map(p => ({ id: p.id, name:
   } catch (error) {
     console.error('AI recommendation error:', error);
     // Return fallback recommendation
-    const fallback = ourAvailable[0];
+    const fallback = eligible[0];
     return {
       recommendedPlayerId: fallback?.id || 0,
       recommendedPlayerName: fallback?.name || 'Unknown',
@@ -252,6 +342,7 @@ Available player IDs: ${JSON.stringify(ourAvailable.map(p => ({ id: p.id, name:
       reasoning: ['AI analysis unavailable - using default selection'],
       alternativePicks: [],
       strategicNotes: 'Unable to get AI recommendation. Consider skill level matchups.',
+      isFallback: true,
     };
   }
 }
@@ -312,8 +403,9 @@ Respond conversationally but stay focused on match strategy.`;
 export async function getAICoinTossRecommendation(
   ourPlayers: Player[],
   theirPlayers: Player[],
-  _headToHead: Map<string, HeadToHead>
-): Promise<{ recommendation: 'throw_first' | 'defer'; reasoning: string[] }> {
+  _headToHead: Map<string, HeadToHead>,
+  format: GameFormat = 'NINE'
+): Promise<{ recommendation: 'throw_first' | 'defer'; reasoning: string[]; isFallback?: boolean }> {
   const client = getClient();
 
   const buildPlayerLine = (p: Player) => {
@@ -327,7 +419,7 @@ export async function getAICoinTossRecommendation(
   const ourStats = ourPlayers.map(buildPlayerLine).join('\n');
   const theirStats = theirPlayers.map(buildPlayerLine).join('\n');
 
-  const prompt = `APA 9-Ball Coin Toss Strategy
+  const prompt = `APA ${formatName(format)} Coin Toss Strategy
 
 Our Team:
 ${ourStats}
@@ -386,6 +478,7 @@ Respond in JSON format:
     return {
       recommendation: 'defer',
       reasoning: ['AI unavailable - deferring allows counter-picking'],
+      isFallback: true,
     };
   }
 }
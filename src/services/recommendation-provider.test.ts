@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getEngineRecommendation } from './recommendation-provider';
+import type { LiveGame, LiveMatch, Player } from '../data/types';
+
+const player = (id: number, skillLevel: number, teamId: number, winPct = 50): Player => ({
+  id,
+  aliasId: 0,
+  memberId: id,
+  memberNumber: String(id),
+  name: `Player ${id}`,
+  skillLevel,
+  teamId,
+  matchesPlayed: 10,
+  matchesWon: winPct / 10,
+  ppm: 10,
+  pa: winPct / 100,
+  winPct,
+});
+
+const ours = [player(1, 4, 1), player(2, 5, 1), player(3, 5, 1), player(4, 4, 1), player(5, 3, 1)];
+// 7 + 6 used by game 2 leaves them 10 SL for three games - room for the SL5 and both SL2s
+const theirs = [player(11, 7, 2), player(12, 6, 2), player(13, 2, 2), player(14, 2, 2), player(15, 5, 2, 80)];
+
+const liveMatch = (games: LiveGame[]): LiveMatch => ({
+  id: 'match',
+  opponentTeamId: 2,
+  opponentTeamName: 'Them',
+  scheduledDate: new Date(2025, 0, 1),
+  ourPlayersPresent: ours.map(p => p.id),
+  theirPlayersPresent: theirs.map(p => p.id),
+  coinTossWinner: 'us',
+  weThrowFirst: true,
+  games,
+  currentGame: 2,
+  ourScore: 1,
+  theirScore: 0,
+  ourMatchPoints: 2,
+  theirMatchPoints: 0,
+  status: 'in_progress',
+  format: 'NINE',
+});
+
+const gameOne: LiveGame = { gameNumber: 1, ourPlayerId: 1, theirPlayerId: 11, result: 'win' };
+
+describe('getEngineRecommendation', () => {
+  it('counts the player they just threw once toward their cap', () => {
+    const recommend = (games: LiveGame[]) => getEngineRecommendation(
+      ours, theirs, liveMatch(games), new Map(), new Map(), new Map(), theirs[1]
+    );
+
+    const beforeRecorded = recommend([gameOne]);
+    const recorded = recommend([gameOne, { gameNumber: 2, ourPlayerId: null, theirPlayerId: 12, result: 'pending' }]);
+
+    expect(beforeRecorded).not.toBeNull();
+    expect(recorded).toEqual(beforeRecorded);
+  });
+});
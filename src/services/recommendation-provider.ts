@@ -0,0 +1,239 @@
+import type { Player, PlayerStats, LiveMatch, HeadToHead, MatchupRecommendation, GameFormat, PlayerRating, GameRecommendation, CoinTossDecision } from '../data/types';
+import { getThrowRecommendation, getCoinTossRecommendation } from '../engine/recommendation';
+import { buildLineupContext } from '../engine/lineup-rules';
+import type { OptimizerObjective } from '../engine/lineup-optimizer';
+import { createThrowPolicy, MIN_MATCHES_FOR_TENDENCIES, type ThrowModel } from '../engine/throw-prediction';
+import { getAIRecommendation, getAICoinTossRecommendation, type AIRecommendation } from './gemini';
+import type { CounterPickAssumption, RecommendationMode } from '../store/settings-store';
+
+export type RecommendationSource = 'engine' | 'ai';
+
+export interface ThrowAdvice extends AIRecommendation {
+  source: RecommendationSource;
+  expectedCounter?: MatchupRecommendation['expectedCounter'];   // Engine only, when we throw blind
+}
+
+// Share of their blind-throw counters taken to follow habit rather than their best reply
+const PREDICTED_WEIGHT: Record<CounterPickAssumption, number> = {
+  best_counter: 0,
+  mixed: 0.5,
+  habits: 1,
+};
+
+export interface CoinTossAdvice {
+  recommendation: 'throw_first' | 'defer';
+  reasoning: string[];
+  confidence?: number;
+  source: RecommendationSource;
+  outcomes?: CoinTossDecision['outcomes'];   // Engine only: the simulated match under each choice
+}
+
+/**
+ * Gemini can only be asked when a key is configured and the device is online
+ */
+export function isAIAvailable(): boolean {
+  return !!import.meta.env.VITE_GEMINI_API_KEY && navigator.onLine;
+}
+
+/**
+ * Whether the current mode wants an AI opinion and one can be fetched right now
+ */
+export function shouldRequestAI(mode: RecommendationMode): boolean {
+  return mode !== 'local' && isAIAvailable();
+}
+
+const toConfidenceLabel = (confidence: number): AIRecommendation['confidence'] => {
+  if (confidence >= 0.75) return 'high';
+  if (confidence >= 0.55) return 'medium';
+  return 'low';
+};
+
+const describeAlternative = (rec: MatchupRecommendation, objective: OptimizerObjective): string => {
+  let chance = `${Math.round(rec.winProbability * 100)}% win chance`;
+  if (objective === 'team_points' && rec.expectedTeamPoints !== undefined) {
+    chance = `${rec.expectedTeamPoints.toFixed(1)} expected team points`;
+  } else if (rec.matchWinProbability !== undefined) {
+    chance = `${Math.round(rec.matchWinProbability * 100)}% match win`;
+  }
+  if (rec.expectedCounter) {
+    chance += `, likely counter ${rec.expectedCounter.playerName}`;
+  }
+  return rec.reasoning[0] ? `${chance} - ${rec.reasoning[0]}` : chance;
+};
+
+const describeOutlook = (rec: MatchupRecommendation): string => {
+  const notes: string[] = [];
+  if (rec.matchWinProbability !== undefined) {
+    notes.push(`With best play from here we win the match about ${Math.round(rec.matchWinProbability * 100)}% of the time.`);
+  }
+  if (rec.expectedTeamPoints !== undefined) {
+    notes.push(`Expected finish: about ${rec.expectedTeamPoints.toFixed(1)} team points.`);
+  }
+  return notes.join(' ');
+};
+
+const describeThrowModel = (model: ThrowModel | undefined, predictedWeight: number): string => {
+  if (!model || predictedWeight === 0) return '';
+  return `Their throws are predicted from ${model.matchesSeen} past matches.`;
+};
+
+/**
+ * Offline engine recommendation for who to throw, in the same shape as the AI one.
+ * `ourPlayers`/`theirPlayers` are everyone present - players already used are needed for the 23 rule.
+ * `counterPick` sets how far their habits (`throwModel`) are trusted over their best reply; until
+ * the model has seen enough of them, their best reply is assumed.
+ */
+export function getEngineRecommendation(
+  ourPlayers: Player[],
+  theirPlayers: Player[],
+  liveMatch: LiveMatch,
+  headToHead: Map<string, HeadToHead>,
+  playerStats: Map<number, PlayerStats>,
+  ratings: Map<number, PlayerRating>,
+  opponentThrown?: Player,
+  objective: OptimizerObjective = 'match_win',
+  throwModel?: ThrowModel,
+  counterPick: CounterPickAssumption = 'best_counter'
+): ThrowAdvice | null {
+  const ourUsedIds = new Set(liveMatch.games.map(g => g.ourPlayerId));
+  const theirUsedIds = new Set(liveMatch.games.map(g => g.theirPlayerId));
+  const toInput = (p: Player) => ({ player: p, stats: playerStats.get(p.id), rating: ratings.get(p.id) });
+  const habitsKnown = (throwModel?.matchesSeen ?? 0) >= MIN_MATCHES_FOR_TENDENCIES;
+  const predictedWeight = habitsKnown ? PREDICTED_WEIGHT[counterPick] : 0;
+  // The player they've thrown this game goes to the optimizer on their own and is added to
+  // their lineup there - counting them in the context too would spend their SL twice
+  const theirEarlierGames = opponentThrown
+    ? liveMatch.games.filter(g => !(g.gameNumber === liveMatch.currentGame && g.theirPlayerId === opponentThrown.id))
+    : liveMatch.games;
+
+  const recommendations = getThrowRecommendation(
+    ourPlayers.filter(p => !ourUsedIds.has(p.id)).map(toInput),
+    theirPlayers.filter(p => !theirUsedIds.has(p.id) && p.id !== opponentThrown?.id).map(toInput),
+    headToHead,
+    liveMatch,
+    opponentThrown ? toInput(opponentThrown) : undefined,
+    {
+      ours: buildLineupContext(liveMatch, ourPlayers, 'us'),
+      theirs: buildLineupContext({ ...liveMatch, games: theirEarlierGames }, theirPlayers, 'them'),
+    },
+    {
+      objective,
+      opponentPolicy: throwModel ? createThrowPolicy(throwModel) : undefined,
+      opponentStrategy: predictedWeight > 0 ? 'tendencies' : 'optimal',
+      predictedWeight,
+    }
+  );
+
+  const [top, ...rest] = recommendations;
+  if (!top) return null;
+
+  return {
+    recommendedPlayerId: top.playerId,
+    recommendedPlayerName: top.playerName,
+    winProbability: top.winProbability,
+    confidence: toConfidenceLabel(top.confidence),
+    reasoning: top.reasoning,
+    alternativePicks: rest.slice(0, 2).map(rec => ({
+      playerId: rec.playerId,
+      playerName: rec.playerName,
+      briefReason: describeAlternative(rec, objective),
+    })),
+    strategicNotes: [describeOutlook(top), describeThrowModel(throwModel, predictedWeight)].filter(Boolean).join(' '),
+    source: 'engine',
+    expectedCounter: opponentThrown ? undefined : top.expectedCounter,
+  };
+}
+
+/**
+ * The part of a throw recommendation that's kept on the game for follow-through tracking
+ */
+export function toGameRecommendation(advice: ThrowAdvice, opponentThrown?: Player): GameRecommendation {
+  return {
+    source: advice.source,
+    playerId: advice.recommendedPlayerId,
+    playerName: advice.recommendedPlayerName,
+    winProbability: advice.winProbability,
+    confidence: advice.confidence,
+    opponentId: opponentThrown?.id,
+  };
+}
+
+/**
+ * Ask Gemini for its pick. Resolves to null when AI is off, unreachable or couldn't answer.
+ */
+export async function getAIOpinion(
+  mode: RecommendationMode,
+  ourPlayers: Player[],
+  theirPlayers: Player[],
+  liveMatch: LiveMatch,
+  headToHead: Map<string, HeadToHead>,
+  opponentThrown?: Player
+): Promise<ThrowAdvice | null> {
+  if (!shouldRequestAI(mode)) return null;
+
+  try {
+    const recommendation = await getAIRecommendation(ourPlayers, theirPlayers, liveMatch, headToHead, opponentThrown);
+    return recommendation.isFallback ? null : { ...recommendation, source: 'ai' };
+  } catch (error) {
+    console.error('AI opinion error:', error);
+    return null;
+  }
+}
+
+/**
+ * Offline engine coin toss decision, from playing the match out with everyone present.
+ * Their throws follow `throwModel` as far as `counterPick` trusts it, as for a blind throw.
+ */
+export function getEngineCoinTossRecommendation(
+  ourPlayers: Player[],
+  theirPlayers: Player[],
+  headToHead: Map<string, HeadToHead>,
+  playerStats: Map<number, PlayerStats>,
+  ratings: Map<number, PlayerRating>,
+  format?: GameFormat,
+  objective: OptimizerObjective = 'match_win',
+  throwModel?: ThrowModel,
+  counterPick: CounterPickAssumption = 'best_counter'
+): CoinTossAdvice {
+  const toInput = (p: Player) => ({ player: p, stats: playerStats.get(p.id), rating: ratings.get(p.id) });
+  const habitsKnown = (throwModel?.matchesSeen ?? 0) >= MIN_MATCHES_FOR_TENDENCIES;
+  const predictedWeight = habitsKnown ? PREDICTED_WEIGHT[counterPick] : 0;
+
+  const decision = getCoinTossRecommendation(
+    ourPlayers.map(toInput),
+    theirPlayers.map(toInput),
+    headToHead,
+    format,
+    { opponentPolicy: throwModel ? createThrowPolicy(throwModel) : undefined, predictedWeight },
+    objective
+  );
+
+  return {
+    recommendation: decision.recommendation,
+    reasoning: [...decision.reasoning, describeThrowModel(throwModel, predictedWeight)].filter(Boolean),
+    confidence: decision.confidence,
+    source: 'engine',
+    outcomes: decision.outcomes,
+  };
+}
+
+/**
+ * Ask Gemini about the coin toss. Resolves to null when AI is off, unreachable or couldn't answer.
+ */
+export async function getAICoinTossOpinion(
+  mode: RecommendationMode,
+  ourPlayers: Player[],
+  theirPlayers: Player[],
+  headToHead: Map<string, HeadToHead>,
+  format?: GameFormat
+): Promise<CoinTossAdvice | null> {
+  if (!shouldRequestAI(mode)) return null;
+
+  try {
+    const result = await getAICoinTossRecommendation(ourPlayers, theirPlayers, headToHead, format);
+    return result.isFallback ? null : { ...result, source: 'ai' };
+  } catch (error) {
+    console.error('AI coin toss opinion error:', error);
+    return null;
+  }
+}
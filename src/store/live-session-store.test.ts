@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useLiveSessionStore } from './live-session-store';
+import { apaClient, APIRequestError, type LiveMatchEvent } from '../scraper/apa-client';
+import type { LiveMatchAction } from '../engine/live-match';
+import type { LiveMatch } from '../data/types';
+
+// Stands in for the browser's EventSource - the test plays the server's side of the stream
+class FakeEventSource {
+  static readonly CLOSED = 2;
+  static current: FakeEventSource | null = null;
+  readyState = 1;
+  onerror: (() => void) | null = null;
+  private listeners = new Map<string, (e: { data: string }) => void>();
+
+  constructor() {
+    FakeEventSource.current = this;
+  }
+
+  addEventListener(type: string, listener: (e: { data: string }) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.({ data: JSON.stringify(data) });
+  }
+
+  close() {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+}
+
+const match: LiveMatch = {
+  id: 'match',
+  opponentTeamId: 2,
+  opponentTeamName: 'Them',
+  scheduledDate: new Date(2025, 0, 1),
+  ourPlayersPresent: [1, 2, 3, 4, 5],
+  theirPlayersPresent: [11, 12, 13, 14, 15],
+  coinTossWinner: 'us',
+  weThrowFirst: false,
+  games: [{ gameNumber: 1, ourPlayerId: null, theirPlayerId: null, result: 'pending' }],
+  currentGame: 1,
+  ourScore: 0,
+  theirScore: 0,
+  ourMatchPoints: 0,
+  theirMatchPoints: 0,
+  status: 'in_progress',
+  format: 'NINE',
+};
+
+const event = (seq: number, clientId: string, clientEventId: string, action: LiveMatchAction): LiveMatchEvent => ({
+  seq,
+  clientId,
+  clientEventId,
+  target: 'game',
+  action,
+  at: new Date().toISOString(),
+});
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('live session store', () => {
+  beforeEach(() => {
+    vi.stubGlobal('EventSource', FakeEventSource);
+    vi.spyOn(apaClient, 'lookupLiveSession').mockResolvedValue({ code: 'MATCH1', role: 'captain' });
+    vi.spyOn(apaClient, 'liveSessionEventsUrl').mockReturnValue('/events');
+  });
+
+  afterEach(() => {
+    useLiveSessionStore.getState().leaveSession();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('replays a change made offline over what the co-captain recorded meanwhile', async () => {
+    const sendLiveAction = vi.spyOn(apaClient, 'sendLiveAction')
+      .mockRejectedValueOnce(new APIRequestError('Failed to fetch'));
+
+    const store = useLiveSessionStore.getState();
+    await store.joinSession('captain1');
+    FakeEventSource.current!.emit('snapshot', { match, roster: [], events: [] });
+
+    // Our pick for game 1 doesn't get through
+    const ours: LiveMatchAction = { type: 'recordOurPlayer', gameNumber: 1, playerId: 3 };
+    store.publish(ours);
+    await flush();
+    expect(useLiveSessionStore.getState().status).toBe('reconnecting');
+    expect(useLiveSessionStore.getState().match!.games[0]).toMatchObject({ ourPlayerId: 3 });
+
+    // The stream comes back with their pick, entered by the co-captain while we were away
+    const { clientId } = useLiveSessionStore.getState();
+    const theirs: LiveMatchAction = { type: 'recordTheirPlayer', gameNumber: 1, playerId: 12 };
+    sendLiveAction.mockImplementationOnce(async (_code, _captainCode, request) =>
+      event(2, clientId, request.clientEventId, request.action));
+    FakeEventSource.current!.emit('snapshot', { match, roster: [], events: [event(1, 'co-captain', 'c1', theirs)] });
+
+    // Both show right away - ours is still pending on top of the confirmed one
+    expect(useLiveSessionStore.getState().match!.games[0]).toMatchObject({ ourPlayerId: 3, theirPlayerId: 12 });
+    await flush();
+
+    // Sent again as the same change, so a copy the server did get isn't applied twice
+    expect(sendLiveAction).toHaveBeenCalledTimes(2);
+    expect(sendLiveAction.mock.calls[1][2].clientEventId).toBe(sendLiveAction.mock.calls[0][2].clientEventId);
+    expect(useLiveSessionStore.getState().match!.games[0]).toMatchObject({ ourPlayerId: 3, theirPlayerId: 12 });
+    expect(useLiveSessionStore.getState().status).toBe('live');
+  });
+
+  it('undoes a change the server turns down as a conflict', async () => {
+    vi.spyOn(apaClient, 'sendLiveAction').mockRejectedValueOnce(new APIRequestError('Another captain already changed this', 409));
+
+    const store = useLiveSessionStore.getState();
+    await store.joinSession('captain1');
+    FakeEventSource.current!.emit('snapshot', { match, roster: [], events: [] });
+
+    store.publish({ type: 'recordTheirPlayer', gameNumber: 1, playerId: 11 });
+    await flush();
+
+    const state = useLiveSessionStore.getState();
+    expect(state.match!.games[0].theirPlayerId).toBeNull();
+    expect(state.lastConflict).toBe('Your co-captain already changed their player for game 1 - your entry was undone.');
+  });
+});
@@ -0,0 +1,291 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { LiveMatch } from '../data/types';
+import { applyLiveMatchAction, actionTarget, reviveLiveMatch, type LiveMatchAction } from '../engine/live-match';
+import {
+  apaClient,
+  APIRequestError,
+  type LiveMatchEvent,
+  type LiveRosterPlayer,
+  type LiveSessionSnapshot,
+} from '../scraper/apa-client';
+import { useMatchStore, setLiveMatchChannel } from './match-store';
+
+export type LiveSessionRole = 'captain' | 'viewer';
+export type LiveSessionStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'ended';
+
+interface LiveSessionState {
+  code: string | null;            // Match code - anyone can watch with it
+  captainCode: string | null;     // Only on captains' devices
+  role: LiveSessionRole | null;
+  clientId: string;               // This device, so the server can tell our changes from a co-captain's
+  status: LiveSessionStatus;
+  roster: LiveRosterPlayer[];
+  // The shared match with this device's unconfirmed changes on top
+  match: LiveMatch | null;
+  lastConflict: string | null;
+  error: string | null;
+
+  // Actions
+  hostSession: (roster: LiveRosterPlayer[]) => Promise<void>;
+  joinSession: (code: string) => Promise<void>;
+  resumeSession: () => void;
+  leaveSession: () => void;
+  endSession: () => Promise<void>;
+  publish: (action: LiveMatchAction) => void;
+  dismissConflict: () => void;
+}
+
+interface PendingAction {
+  clientEventId: string;
+  baseSeq: number;
+  action: LiveMatchAction;
+}
+
+// The confirmed match is rebuilt from the server's event log; pending changes are replayed on
+// top until the server echoes them back (or turns them down)
+let confirmed: LiveMatch | null = null;
+let lastSeq = 0;
+let pending: PendingAction[] = [];
+let events: EventSource | null = null;
+// Changes go out one at a time so the server sees them in the order they were made
+let sendQueue: Promise<void> = Promise.resolve();
+// Changes that couldn't reach the server - held, in order, until the stream reconnects
+let unsent: PendingAction[] = [];
+
+const newId = () => crypto.randomUUID();
+
+// What the rejected change was about, for the "already recorded" message
+function describeTarget(action: LiveMatchAction): string {
+  const target = actionTarget(action);
+  const game = target.match(/^game-(\d+)-(theirs|ours|result)$/);
+  if (game) {
+    const part = game[2] === 'theirs' ? 'their player' : game[2] === 'ours' ? 'our player' : 'the result';
+    return `${part} for game ${game[1]}`;
+  }
+  return {
+    attendance: 'attendance',
+    'coin-toss': 'the coin toss',
+    'current-game': 'moving to the next game',
+    status: 'ending the match',
+  }[target] ?? 'that';
+}
+
+export const useLiveSessionStore = create<LiveSessionState>()(
+  persist(
+    (set, get) => {
+      // Publish the merged view; captains' match screens run off the match store
+      const refresh = () => {
+        if (!confirmed) return;
+        const match = pending.reduce((m, p) => applyLiveMatchAction(m, p.action), confirmed);
+        set({ match });
+        if (get().role === 'captain') {
+          useMatchStore.getState().replaceLiveMatch(match);
+        }
+      };
+
+      const applyEvent = (event: LiveMatchEvent) => {
+        // Seen already - SSE and the POST response can both deliver our own changes
+        if (!confirmed || event.seq <= lastSeq) return;
+        confirmed = applyLiveMatchAction(confirmed, event.action);
+        lastSeq = event.seq;
+        if (event.clientId === get().clientId) {
+          pending = pending.filter(p => p.clientEventId !== event.clientEventId);
+        }
+        refresh();
+      };
+
+      const applySnapshot = (snapshot: LiveSessionSnapshot) => {
+        const ours = new Set(snapshot.events.filter(e => e.clientId === get().clientId).map(e => e.clientEventId));
+        confirmed = snapshot.events.reduce((m, e) => applyLiveMatchAction(m, e.action), reviveLiveMatch(snapshot.match));
+        lastSeq = snapshot.events.length;
+        pending = pending.filter(p => !ours.has(p.clientEventId));
+        set({ roster: snapshot.roster, status: 'live', error: null });
+        refresh();
+
+        // From here on a captain's edits go through the session instead of straight to the match
+        const { code, captainCode, role } = get();
+        if (role === 'captain') {
+          setLiveMatchChannel({
+            publish: (action) => get().publish(action),
+            leave: () => get().leaveSession(),
+          });
+        }
+
+        // Back in touch - send what was made offline. Retries are idempotent, so anything the
+        // server did get before the drop isn't applied twice.
+        const retry = unsent.filter(item => pending.includes(item));
+        unsent = [];
+        if (code && captainCode) {
+          retry.forEach(item => {
+            sendQueue = sendQueue.then(() => send(code, captainCode, item));
+          });
+        }
+      };
+
+      const disconnect = () => {
+        events?.close();
+        events = null;
+        setLiveMatchChannel(null);
+        confirmed = null;
+        lastSeq = 0;
+        pending = [];
+        unsent = [];
+      };
+
+      // EventSource reconnects by itself after a drop; the server starts each connection with a snapshot
+      const connect = (code: string) => {
+        disconnect();
+        set({ status: 'connecting', error: null });
+
+        events = new EventSource(apaClient.liveSessionEventsUrl(code));
+        events.addEventListener('snapshot', (e) => applySnapshot(JSON.parse((e as MessageEvent).data)));
+        events.addEventListener('action', (e) => applyEvent(JSON.parse((e as MessageEvent).data)));
+        events.addEventListener('ended', () => {
+          disconnect();
+          set({ status: 'ended' });
+        });
+        events.onerror = () => {
+          if (events?.readyState === EventSource.CLOSED) {
+            disconnect();
+            set({ status: 'ended', error: 'Lost the shared match - it may have ended' });
+          } else {
+            set({ status: 'reconnecting' });
+          }
+        };
+      };
+
+      const send = async (code: string, captainCode: string, item: PendingAction) => {
+        // Keep the order - nothing jumps ahead of a change that's still waiting
+        if (unsent.length > 0) {
+          unsent.push(item);
+          return;
+        }
+        try {
+          const event = await apaClient.sendLiveAction(code, captainCode, {
+            clientId: get().clientId,
+            clientEventId: item.clientEventId,
+            baseSeq: item.baseSeq,
+            target: actionTarget(item.action),
+            action: item.action,
+          });
+          // Normally the stream gets here first; this covers a stream that's mid-reconnect
+          if (event.seq === lastSeq + 1) applyEvent(event);
+        } catch (error) {
+          // Offline - keep showing the change and send it once the stream is back
+          if (error instanceof APIRequestError && error.isNetworkError) {
+            unsent.push(item);
+            set({ status: 'reconnecting' });
+            return;
+          }
+          pending = pending.filter(p => p.clientEventId !== item.clientEventId);
+          if (error instanceof APIRequestError && error.status === 409) {
+            set({ lastConflict: `Your co-captain already changed ${describeTarget(item.action)} - your entry was undone.` });
+          } else {
+            set({ error: error instanceof Error ? `Change not shared: ${error.message}` : 'Change not shared' });
+          }
+          refresh();
+        }
+      };
+
+      return {
+        code: null,
+        captainCode: null,
+        role: null,
+        clientId: newId(),
+        status: 'idle',
+        roster: [],
+        match: null,
+        lastConflict: null,
+        error: null,
+
+        // Share the match this device is running; it becomes the session's starting point
+        hostSession: async (roster: LiveRosterPlayer[]) => {
+          const { liveMatch } = useMatchStore.getState();
+          if (!liveMatch) return;
+
+          set({ status: 'connecting', error: null });
+          try {
+            const { code, captainCode } = await apaClient.createLiveSession(liveMatch, roster);
+            set({ code, captainCode, role: 'captain', lastConflict: null });
+            connect(code);
+          } catch (error) {
+            set({
+              status: 'idle',
+              error: error instanceof Error ? error.message : 'Could not share the match',
+            });
+          }
+        },
+
+        joinSession: async (code: string) => {
+          set({ status: 'connecting', error: null });
+          try {
+            const entered = code.trim().toUpperCase();
+            const session = await apaClient.lookupLiveSession(entered);
+            set({
+              code: session.code,
+              captainCode: session.role === 'captain' ? entered : null,
+              role: session.role,
+              lastConflict: null,
+            });
+            connect(session.code);
+          } catch (error) {
+            set({
+              status: 'idle',
+              error: error instanceof Error ? error.message : 'Could not join the match',
+            });
+          }
+        },
+
+        // Pick the session back up after a reload
+        resumeSession: () => {
+          const { code, status } = get();
+          if (code && status !== 'ended' && !events) {
+            connect(code);
+          }
+        },
+
+        leaveSession: () => {
+          disconnect();
+          set({ code: null, captainCode: null, role: null, status: 'idle', roster: [], match: null, lastConflict: null, error: null });
+        },
+
+        endSession: async () => {
+          const { code, captainCode } = get();
+          if (code && captainCode) {
+            try {
+              await apaClient.endLiveSession(code, captainCode);
+            } catch (error) {
+              console.error('Failed to end shared match:', error);
+            }
+          }
+          get().leaveSession();
+        },
+
+        // Apply a captain's change here right away and send it to everyone else
+        publish: (action: LiveMatchAction) => {
+          const { code, captainCode, role } = get();
+          if (role !== 'captain' || !code || !captainCode || !confirmed) return;
+
+          const item: PendingAction = { clientEventId: newId(), baseSeq: lastSeq, action };
+          pending = [...pending, item];
+          refresh();
+          sendQueue = sendQueue.then(() => send(code, captainCode, item));
+        },
+
+        dismissConflict: () => {
+          set({ lastConflict: null });
+        },
+      };
+    },
+    {
+      name: 'live-session-store',
+      partialize: (state) => ({
+        code: state.code,
+        captainCode: state.captainCode,
+        role: state.role,
+        clientId: state.clientId,
+      }),
+    }
+  )
+);
@@ -1,7 +1,10 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { LiveMatch, LiveGame, Match, MatchupRecommendation, CoinTossDecision, MatchStatus } from '../data/types';
+import type { LiveMatch, LiveGame, Match, MatchupRecommendation, CoinTossDecision, GameFormat, RackScore, GameRecommendation } from '../data/types';
 import { db } from '../data/db';
+import { useTeamStore } from './team-store';
+import type { PointsNeeded } from '../engine/scorekeeping';
+import { applyLiveMatchAction, type LiveMatchAction } from '../engine/live-match';
 
 export interface ChatMessage {
   role: 'user' | 'assistant';
@@ -25,25 +28,28 @@ interface MatchState {
   
   // Actions
   loadUpcomingMatches: (teamId: number) => Promise<void>;
-  startMatch: (opponentTeamId: number, opponentTeamName: string) => void;
+  startMatch: (opponentTeamId: number, opponentTeamName: string, format?: GameFormat, ourTeamId?: number) => void;
   setAttendance: (ourPlayerIds: number[], theirPlayerIds: number[]) => void;
   setCoinTossResult: (weWon: boolean) => void;
   setWeThrowFirst: (throwFirst: boolean) => void;
   setCurrentRecommendations: (recommendations: MatchupRecommendation[]) => void;
   setCoinTossDecision: (decision: CoinTossDecision) => void;
-  recordTheirPlayer: (gameNumber: number, playerId: number) => void;
-  recordOurPlayer: (gameNumber: number, playerId: number) => void;
-  recordGameResult: (gameNumber: number, won: boolean, ourPoints?: number, theirPoints?: number) => void;
+  recordTheirPlayer: (gameNumber: number, playerId: number, skillLevel?: number) => void;
+  recordOurPlayer: (gameNumber: number, playerId: number, skillLevel?: number, recommendation?: GameRecommendation, secondOpinion?: GameRecommendation) => void;
+  recordGameResult: (gameNumber: number, won: boolean, ourPoints?: number, theirPoints?: number, pointsNeeded?: PointsNeeded) => void;
+  recordRack: (gameNumber: number, rack: RackScore, pointsNeeded: PointsNeeded) => LiveGame['result'];
+  undoLastRack: (gameNumber: number) => void;
   nextGame: () => void;
   endMatch: () => void;
   resetMatch: () => void;
+  replaceLiveMatch: (liveMatch: LiveMatch) => void;
   getCurrentGame: () => LiveGame | null;
   getMatchProgress: () => { gamesPlayed: number; ourWins: number; theirWins: number };
   addChatMessage: (message: ChatMessage) => void;
   clearChatHistory: () => void;
 }
 
-const createInitialLiveMatch = (opponentTeamId: number, opponentTeamName: string): LiveMatch => ({
+const createInitialLiveMatch = (opponentTeamId: number, opponentTeamName: string, format: GameFormat, ourTeamId?: number): LiveMatch => ({
   id: `match-${Date.now()}`,
   opponentTeamId,
   opponentTeamName,
@@ -62,201 +68,177 @@ const createInitialLiveMatch = (opponentTeamId: number, opponentTeamName: string
   currentGame: 1,
   ourScore: 0,
   theirScore: 0,
+  ourMatchPoints: 0,
+  theirMatchPoints: 0,
   status: 'setup',
+  format,
+  ourTeamId,
 });
 
-export const useMatchStore = create<MatchState>()(
-  persist(
-    (set, get) => ({
-      liveMatch: null,
-      upcomingMatches: [],
-      currentRecommendations: [],
-      coinTossDecision: null,
-      chatHistory: [],
-
-      loadUpcomingMatches: async (teamId: number) => {
-        try {
-          const now = new Date();
-          const matches = await db.matches
-            .filter(m => 
-              (m.homeTeamId === teamId || m.awayTeamId === teamId) &&
-              new Date(m.scheduledDate) >= now &&
-              m.status === 'UNPLAYED'
-            )
-            .sortBy('scheduledDate');
-          set({ upcomingMatches: matches });
-        } catch (error) {
-          console.error('Failed to load upcoming matches:', error);
-        }
-      },
-
-      startMatch: (opponentTeamId: number, opponentTeamName: string) => {
-        const liveMatch = createInitialLiveMatch(opponentTeamId, opponentTeamName);
-        set({ liveMatch, currentRecommendations: [], coinTossDecision: null, chatHistory: [] });
-      },
-
-      setAttendance: (ourPlayerIds: number[], theirPlayerIds: number[]) => {
-        set(state => ({
-          liveMatch: state.liveMatch ? {
-            ...state.liveMatch,
-            ourPlayersPresent: ourPlayerIds,
-            theirPlayersPresent: theirPlayerIds,
-            status: 'coin_toss' as MatchStatus,
-          } : null,
-        }));
-      },
-
-      setCoinTossResult: (weWon: boolean) => {
-        set(state => ({
-          liveMatch: state.liveMatch ? {
-            ...state.liveMatch,
-            coinTossWinner: weWon ? 'us' : 'them',
-          } : null,
-        }));
-      },
-
-      setWeThrowFirst: (throwFirst: boolean) => {
-        set(state => ({
-          liveMatch: state.liveMatch ? {
-            ...state.liveMatch,
-            weThrowFirst: throwFirst,
-            status: 'in_progress' as MatchStatus,
-          } : null,
-        }));
-      },
-
-      setCurrentRecommendations: (recommendations: MatchupRecommendation[]) => {
-        set({ currentRecommendations: recommendations });
-      },
-
-      setCoinTossDecision: (decision: CoinTossDecision) => {
-        set({ coinTossDecision: decision });
-      },
+// Finished matches are kept in the database for the follow-through report
+const archiveIfComplete = async (liveMatch: LiveMatch | null) => {
+  if (liveMatch?.status !== 'completed') return;
+  try {
+    await db.liveMatches.put(liveMatch);
+    // Tonight's lineup is part of their habits from now on
+    await useTeamStore.getState().loadThrowModels();
+  } catch (error) {
+    console.error('Failed to save completed match:', error);
+  }
+};
+
+/**
+ * Where match edits go while the match is shared live (see live-session-store). The channel
+ * applies each action itself - optimistically for a captain, not at all for a viewer.
+ */
+export interface LiveMatchChannel {
+  publish: (action: LiveMatchAction) => void;
+  leave: () => void;
+}
 
-      recordTheirPlayer: (gameNumber: number, playerId: number) => {
-        set(state => {
-          if (!state.liveMatch) return state;
-          
-          const games = [...state.liveMatch.games];
-          const gameIndex = games.findIndex(g => g.gameNumber === gameNumber);
-          if (gameIndex !== -1) {
-            games[gameIndex] = { ...games[gameIndex], theirPlayerId: playerId };
-          }
-          
-          return {
-            liveMatch: { ...state.liveMatch, games },
-          };
-        });
-      },
+let liveChannel: LiveMatchChannel | null = null;
 
-      recordOurPlayer: (gameNumber: number, playerId: number) => {
-        set(state => {
-          if (!state.liveMatch) return state;
-          
-          const games = [...state.liveMatch.games];
-          const gameIndex = games.findIndex(g => g.gameNumber === gameNumber);
-          if (gameIndex !== -1) {
-            games[gameIndex] = { ...games[gameIndex], ourPlayerId: playerId };
-          }
-          
-          return {
-            liveMatch: { ...state.liveMatch, games },
-          };
-        });
-      },
+export function setLiveMatchChannel(channel: LiveMatchChannel | null) {
+  liveChannel = channel;
+}
 
-      recordGameResult: (gameNumber: number, won: boolean, ourPoints?: number, theirPoints?: number) => {
-        set(state => {
-          if (!state.liveMatch) return state;
-          
-          const games = [...state.liveMatch.games];
-          const gameIndex = games.findIndex(g => g.gameNumber === gameNumber);
-          if (gameIndex !== -1) {
-            games[gameIndex] = { 
-              ...games[gameIndex], 
-              result: won ? 'win' : 'loss',
-              ourPoints,
-              theirPoints,
-            };
+export const useMatchStore = create<MatchState>()(
+  persist(
+    (set, get) => {
+      const dispatch = (action: LiveMatchAction) => {
+        if (liveChannel) {
+          liveChannel.publish(action);
+          return;
+        }
+        set(state => state.liveMatch ? { liveMatch: applyLiveMatchAction(state.liveMatch, action) } : state);
+        archiveIfComplete(get().liveMatch);
+      };
+
+      return {
+        liveMatch: null,
+        upcomingMatches: [],
+        currentRecommendations: [],
+        coinTossDecision: null,
+        chatHistory: [],
+
+        loadUpcomingMatches: async (teamId: number) => {
+          try {
+            const now = new Date();
+            const matches = await db.matches
+              .filter(m => 
+                (m.homeTeamId === teamId || m.awayTeamId === teamId) &&
+                new Date(m.scheduledDate) >= now &&
+                m.status === 'UNPLAYED'
+              )
+              .sortBy('scheduledDate');
+            set({ upcomingMatches: matches });
+          } catch (error) {
+            console.error('Failed to load upcoming matches:', error);
           }
+        },
+
+        startMatch: (opponentTeamId: number, opponentTeamName: string, format: GameFormat = 'NINE', ourTeamId?: number) => {
+          liveChannel?.leave();
+          const liveMatch = createInitialLiveMatch(opponentTeamId, opponentTeamName, format, ourTeamId);
+          set({ liveMatch, currentRecommendations: [], coinTossDecision: null, chatHistory: [] });
+        },
+
+        setAttendance: (ourPlayerIds: number[], theirPlayerIds: number[]) => {
+          dispatch({ type: 'setAttendance', ourPlayerIds, theirPlayerIds });
+        },
+
+        setCoinTossResult: (weWon: boolean) => {
+          dispatch({ type: 'setCoinTossResult', weWon });
+        },
+
+        setWeThrowFirst: (throwFirst: boolean) => {
+          dispatch({ type: 'setWeThrowFirst', throwFirst });
+        },
+
+        setCurrentRecommendations: (recommendations: MatchupRecommendation[]) => {
+          set({ currentRecommendations: recommendations });
+        },
+
+        setCoinTossDecision: (decision: CoinTossDecision) => {
+          set({ coinTossDecision: decision });
+        },
+
+        recordTheirPlayer: (gameNumber: number, playerId: number, skillLevel?: number) => {
+          dispatch({ type: 'recordTheirPlayer', gameNumber, playerId, skillLevel });
+        },
+
+        recordOurPlayer: (gameNumber: number, playerId: number, skillLevel?: number, recommendation?: GameRecommendation, secondOpinion?: GameRecommendation) => {
+          dispatch({ type: 'recordOurPlayer', gameNumber, playerId, skillLevel, recommendation, secondOpinion });
+        },
+
+        recordGameResult: (gameNumber: number, won: boolean, ourPoints?: number, theirPoints?: number, pointsNeeded?: PointsNeeded) => {
+          dispatch({ type: 'recordGameResult', gameNumber, won, ourPoints, theirPoints, pointsNeeded });
+        },
+
+        recordRack: (gameNumber: number, rack: RackScore, pointsNeeded: PointsNeeded) => {
+          dispatch({ type: 'recordRack', gameNumber, rack, pointsNeeded });
+          return get().liveMatch?.games.find(g => g.gameNumber === gameNumber)?.result ?? 'pending';
+        },
+
+        undoLastRack: (gameNumber: number) => {
+          dispatch({ type: 'undoLastRack', gameNumber });
+        },
+
+        nextGame: () => {
+          const { liveMatch } = get();
+          if (!liveMatch || liveMatch.currentGame >= 5) return;
+          dispatch({ type: 'nextGame', fromGame: liveMatch.currentGame });
+          set({ currentRecommendations: [] });
+        },
+
+        endMatch: () => {
+          dispatch({ type: 'endMatch' });
+        },
+
+        resetMatch: () => {
+          liveChannel?.leave();
+          set({
+            liveMatch: null,
+            currentRecommendations: [],
+            coinTossDecision: null,
+            chatHistory: [],
+          });
+        },
+
+        // The live session's view of the match, already merged with this device's edits
+        replaceLiveMatch: (liveMatch: LiveMatch) => {
+          set({ liveMatch });
+          archiveIfComplete(liveMatch);
+        },
+
+        addChatMessage: (message: ChatMessage) => {
+          set(state => ({
+            chatHistory: [...state.chatHistory, message],
+          }));
+        },
+
+        clearChatHistory: () => {
+          set({ chatHistory: [] });
+        },
+
+        getCurrentGame: () => {
+          const { liveMatch } = get();
+          if (!liveMatch) return null;
+          return liveMatch.games.find(g => g.gameNumber === liveMatch.currentGame) || null;
+        },
+
+        getMatchProgress: () => {
+          const { liveMatch } = get();
+          if (!liveMatch) return { gamesPlayed: 0, ourWins: 0, theirWins: 0 };
           
-          const ourScore = games.filter(g => g.result === 'win').length;
-          const theirScore = games.filter(g => g.result === 'loss').length;
-          
-          // Check if match is over (first to 3)
-          const isComplete = ourScore >= 3 || theirScore >= 3;
-          
-          return {
-            liveMatch: {
-              ...state.liveMatch,
-              games,
-              ourScore,
-              theirScore,
-              status: isComplete ? 'completed' as MatchStatus : state.liveMatch.status,
-            },
-          };
-        });
-      },
-
-      nextGame: () => {
-        set(state => {
-          if (!state.liveMatch || state.liveMatch.currentGame >= 5) return state;
+          const gamesPlayed = liveMatch.games.filter(g => g.result !== 'pending').length;
+          const ourWins = liveMatch.games.filter(g => g.result === 'win').length;
+          const theirWins = liveMatch.games.filter(g => g.result === 'loss').length;
           
-          return {
-            liveMatch: {
-              ...state.liveMatch,
-              currentGame: state.liveMatch.currentGame + 1,
-            },
-            currentRecommendations: [],
-          };
-        });
-      },
-
-      endMatch: () => {
-        set(state => ({
-          liveMatch: state.liveMatch ? {
-            ...state.liveMatch,
-            status: 'completed' as MatchStatus,
-          } : null,
-        }));
-      },
-
-      resetMatch: () => {
-        set({
-          liveMatch: null,
-          currentRecommendations: [],
-          coinTossDecision: null,
-          chatHistory: [],
-        });
-      },
-
-      addChatMessage: (message: ChatMessage) => {
-        set(state => ({
-          chatHistory: [...state.chatHistory, message],
-        }));
-      },
-
-      clearChatHistory: () => {
-        set({ chatHistory: [] });
-      },
-
-      getCurrentGame: () => {
-        const { liveMatch } = get();
-        if (!liveMatch) return null;
-        return liveMatch.games.find(g => g.gameNumber === liveMatch.currentGame) || null;
-      },
-
-      getMatchProgress: () => {
-        const { liveMatch } = get();
-        if (!liveMatch) return { gamesPlayed: 0, ourWins: 0, theirWins: 0 };
-        
-        const gamesPlayed = liveMatch.games.filter(g => g.result !== 'pending').length;
-        const ourWins = liveMatch.games.filter(g => g.result === 'win').length;
-        const theirWins = liveMatch.games.filter(g => g.result === 'loss').length;
-        
-        return { gamesPlayed, ourWins, theirWins };
-      },
-    }),
+          return { gamesPlayed, ourWins, theirWins };
+        },
+      };
+    },
     {
       name: 'match-store',
       partialize: (state) => ({
@@ -0,0 +1,52 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { OptimizerObjective } from '../engine/lineup-optimizer';
+
+// Where throw and coin toss recommendations come from:
+//   local  - offline engine only
+//   ai     - engine shown instantly, replaced by Gemini's pick when it arrives
+//   hybrid - engine stays primary, Gemini shown as a second opinion
+export type RecommendationMode = 'local' | 'ai' | 'hybrid';
+
+// How the other captain is assumed to answer when we throw blind:
+//   best_counter - always with the player who beats our pick hardest
+//   mixed        - half the time that, half the time by their usual habits
+//   habits       - by their habits (see throw-prediction), once we've seen enough of them
+export type CounterPickAssumption = 'best_counter' | 'mixed' | 'habits';
+
+interface SettingsState {
+  recommendationMode: RecommendationMode;
+  // What the engine's lineup search maximizes - standings are decided by team points
+  optimizerObjective: OptimizerObjective;
+  counterPickAssumption: CounterPickAssumption;
+
+  // Actions
+  setRecommendationMode: (mode: RecommendationMode) => void;
+  setOptimizerObjective: (objective: OptimizerObjective) => void;
+  setCounterPickAssumption: (assumption: CounterPickAssumption) => void;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      recommendationMode: 'hybrid',
+      optimizerObjective: 'team_points',
+      counterPickAssumption: 'mixed',
+
+      setRecommendationMode: (mode: RecommendationMode) => {
+        set({ recommendationMode: mode });
+      },
+
+      setOptimizerObjective: (objective: OptimizerObjective) => {
+        set({ optimizerObjective: objective });
+      },
+
+      setCounterPickAssumption: (assumption: CounterPickAssumption) => {
+        set({ counterPickAssumption: assumption });
+      },
+    }),
+    {
+      name: 'settings-store',
+    }
+  )
+);
@@ -1,14 +1,32 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { db, updateSyncStatus, getSyncStatus } from '../data/db';
-import { apaClient, type GQLTeam, type GQLPlayer, type GQLMatch } from '../scraper/apa-client';
-import { MY_TEAM_ID, MY_DIVISION_ID, FORMAT, seedInitialData } from '../data/seed';
-import type { SyncStatus, Team, Player, Match } from '../data/types';
+import { db, updateSyncStatus, getSyncStatus, getProfile, getProfiles, getFreshness, markFresh, getOutbox, queueOutbox, removeOutboxItem } from '../data/db';
+import { apaClient, APIRequestError, type GQLMatchHistoryItem, type GQLTeamSchedule, type DivisionSnapshot, type SharedDivision } from '../scraper/apa-client';
+import {
+  buildHeadToHeadRecords,
+  transformTeam,
+  transformPlayer,
+  transformMatch,
+  transformMatchRecord,
+  transformGameResult,
+  transformViewerTeams,
+} from '../scraper/data-transformer';
+import {
+  findNewlyScoredMatches,
+  planTeams,
+  planPlayers,
+  planMembers,
+  planAliases,
+  settledMatches,
+} from '../scraper/sync-planner';
+import { useTeamStore } from './team-store';
+import type { SyncStatus, Player, Match, PlayerMatchRecord, GameResult, AppConfig, FreshnessRecord, SyncEntity, SyncFailure, SyncReport, OutboxItem, OutboxOperation } from '../data/types';
 
 interface SyncState {
   // Status
   syncStatus: SyncStatus;
   authToken: string | null;
+  authSessionId: string | null;   // Backend sign-in session - tokens refresh on their own
   isValidToken: boolean;
   
   // Progress
@@ -20,81 +38,222 @@ interface SyncState {
   lastScheduleSync: Date | null;
   lastRosterSync: Date | null;
   
+  // What the last sync fetched and what it couldn't
+  lastSyncReport: SyncReport | null;
+  
+  // Divisions the backend keeps synced on a schedule
+  sharedDivisions: SharedDivision[];
+  
+  // Connectivity, and what's waiting for it
+  isOnline: boolean;
+  queuedOperations: OutboxItem[];
+  
   // Actions
   loadSyncStatus: () => Promise<void>;
   setAuthToken: (token: string) => Promise<boolean>;
   clearAuthToken: () => void;
+  signIn: (email: string, password: string) => Promise<boolean>;
+  signOut: () => Promise<void>;
   syncAll: (forceRefresh?: boolean) => Promise<void>;
   testConnection: () => Promise<{ success: boolean; message: string }>;
+  discoverTeams: () => Promise<Omit<AppConfig, 'id'>[]>;
+  loadSharedDivisions: () => Promise<void>;
+  pullSharedData: () => Promise<void>;
+  setSharedSync: (enabled: boolean) => Promise<void>;
+  loadQueue: () => Promise<void>;
+  setOnline: (online: boolean) => void;
+  flushQueue: () => Promise<void>;
 }
 
-// Transform GQL team to our Team type
-function transformTeam(gqlTeam: GQLTeam, isOurTeam: boolean): Team {
-  return {
-    id: gqlTeam.id,
-    number: gqlTeam.number,
-    name: gqlTeam.name,
-    divisionId: gqlTeam.division?.id || MY_DIVISION_ID,
-    leagueId: gqlTeam.league?.id,
-    leagueSlug: gqlTeam.league?.slug,
-    format: gqlTeam.division?.type || FORMAT,
-    isOurTeam,
-    sessionPoints: gqlTeam.sessionPoints,
-    lastSynced: new Date(),
-  };
+// Roster queries don't include aliases or lifetime stats - keep what earlier syncs found
+async function saveRoster(players: Player[]): Promise<void> {
+  const existing = await db.players.bulkGet(players.map(p => p.id));
+  await db.players.bulkPut(players.map((player, i) => {
+    const previous = existing[i];
+    return previous ? { ...previous, ...player, aliasId: player.aliasId || previous.aliasId } : player;
+  }));
 }
 
-// Transform GQL player to our Player type
-function transformPlayer(gqlPlayer: GQLPlayer, teamId: number): Player {
-  const winPct = gqlPlayer.matchesPlayed > 0 
-    ? (gqlPlayer.matchesWon / gqlPlayer.matchesPlayed) * 100 
-    : 0;
+// Replace the stored results for each player whose history came back. Returns the match record count.
+async function saveHistories(
+  histories: Array<{ player: Player; items: GQLMatchHistoryItem[] }>,
+  playersById: Map<number, Player>
+): Promise<number> {
+  const matchRecords: PlayerMatchRecord[] = [];
+  const gameResultsByKey = new Map<string, GameResult>();
   
-  return {
-    id: gqlPlayer.id,
-    aliasId: gqlPlayer.alias?.id || 0, // Alias ID for lifetime stats
-    memberId: gqlPlayer.member.id,
-    memberNumber: gqlPlayer.memberNumber,
-    name: gqlPlayer.displayName,
-    skillLevel: gqlPlayer.skillLevel,
-    teamId,
-    matchesPlayed: gqlPlayer.matchesPlayed,
-    matchesWon: gqlPlayer.matchesWon,
-    ppm: gqlPlayer.ppm,
-    pa: gqlPlayer.pa,
-    winPct,
-  };
+  for (const { player, items } of histories) {
+    for (const item of items) {
+      matchRecords.push(transformMatchRecord(item, player.id));
+      
+      const result = transformGameResult(item, player, playersById);
+      if (result) {
+        // Same game can show up more than once in a history - keep one per pairing per match
+        gameResultsByKey.set(`${result.matchId}-${result.playerId}-${result.opponentId}`, result);
+      }
+    }
+  }
+  
+  // Each fetched history replaces that player's stored results, so re-syncing doesn't duplicate rows
+  await db.playerMatchRecords.bulkPut(matchRecords);
+  await db.transaction('rw', db.gameResults, async () => {
+    await db.gameResults.where('playerId').anyOf(histories.map(h => h.player.id)).delete();
+    await db.gameResults.bulkAdd(Array.from(gameResultsByKey.values()));
+  });
+  return matchRecords.length;
 }
 
-// Transform GQL match to our Match type
-function transformMatch(gqlMatch: GQLMatch, divisionId: number): Match | null {
-  // Skip bye weeks and no-play weeks
-  if (!gqlMatch.id || !gqlMatch.home || !gqlMatch.away) {
-    return null;
+// Rebuild head-to-head from every stored result. A game is usually stored from both
+// sides; one seen from only one side is mirrored for the other player.
+async function rebuildHeadToHead(): Promise<number> {
+  const headToHead = buildHeadToHeadRecords(await db.gameResults.toArray());
+  await db.transaction('rw', db.headToHead, async () => {
+    await db.headToHead.clear();
+    await db.headToHead.bulkAdd(headToHead);
+  });
+  return headToHead.length;
+}
+
+// Write a shared division snapshot the same way a sync would, marking everything it covers
+// fresh as of when the backend fetched it - a token sync afterwards only tops up what's newer
+async function importSnapshot(snapshot: DivisionSnapshot, profile: AppConfig, profileTeamIds: Set<number>): Promise<void> {
+  const fetchedAt = new Date(snapshot.generatedAt);
+  const teamIds = snapshot.teams.map(t => t.id);
+  
+  await db.teams.bulkPut(snapshot.teams.map(t => transformTeam(t, profileTeamIds.has(t.id), profile)));
+  for (const team of snapshot.teams) {
+    await saveRoster((team.roster ?? []).map(p => transformPlayer(p, team.id)));
   }
   
-  const homePoints = gqlMatch.results?.find(r => r.homeAway === 'HOME')?.points.total;
-  const awayPoints = gqlMatch.results?.find(r => r.homeAway === 'AWAY')?.points.total;
+  const matches = snapshot.matches
+    .map(m => transformMatch(m, snapshot.divisionId))
+    .filter((m): m is Match => m !== null);
+  await db.matches.bulkPut(matches);
   
-  return {
-    id: gqlMatch.id,
-    divisionId,
-    week: gqlMatch.week,
-    homeTeamId: gqlMatch.home.id,
-    homeTeamName: gqlMatch.home.name,
-    homeTeamNumber: gqlMatch.home.number,
-    awayTeamId: gqlMatch.away.id,
-    awayTeamName: gqlMatch.away.name,
-    awayTeamNumber: gqlMatch.away.number,
-    scheduledDate: new Date(gqlMatch.startTime),
-    hostLocationName: gqlMatch.location?.name || '',
-    hostLocationId: gqlMatch.location?.id || null,
-    isScored: gqlMatch.isScored,
-    status: gqlMatch.status,
-    homePoints,
-    awayPoints,
-    description: gqlMatch.description,
+  const players = await db.players.where('teamId').anyOf(teamIds).toArray();
+  const playersById = new Map(players.map(p => [p.id, p]));
+  const histories = Object.entries(snapshot.histories)
+    .filter(([playerId]) => playersById.has(Number(playerId)))
+    .map(([playerId, items]) => ({ player: playersById.get(Number(playerId))!, items }));
+  await saveHistories(histories, playersById);
+  await rebuildHeadToHead();
+  
+  await markFresh('team', teamIds, fetchedAt);
+  await markFresh('player', histories.map(h => h.player.id), fetchedAt);
+  await markFresh('match', matches.filter(m => m.status === 'COMPLETED').map(m => m.id), fetchedAt);
+}
+
+interface BatchJob<T> {
+  entityType: SyncEntity;
+  ids: number[];
+  batchSize: number;
+  report: SyncReport;
+  label: (id: number) => string;
+  fetchBatch: (ids: number[]) => Promise<T[]>;
+  saveBatch: (ids: number[], results: T[]) => Promise<number[]>;  // Returns the ids that came back
+}
+
+// Queue every batch at once and let the client's scheduler pace them. A GraphQL batch fails
+// as a whole if any one id errors, so a rejected batch is retried an id at a time to pin down
+// the culprit. Whatever still fails goes in the report. An expired token or a lost connection
+// stops the sync once everything queued has settled - what was saved stays fresh, so the next
+// run resumes from there.
+async function fetchInBatches<T>(job: BatchJob<T>): Promise<void> {
+  const { entityType, report } = job;
+  const authErrors: APIRequestError[] = [];
+  const networkErrors: APIRequestError[] = [];
+  const fail = (id: number, reason: string) => {
+    const failure: SyncFailure = { entityType, entityId: id, label: job.label(id), reason };
+    report.failures.push(failure);
   };
+
+  const attempt = async (ids: number[]): Promise<void> => {
+    try {
+      const saved = new Set(await job.saveBatch(ids, await job.fetchBatch(ids)));
+      report.fetched[entityType] = (report.fetched[entityType] ?? 0) + saved.size;
+      ids.filter(id => !saved.has(id)).forEach(id => fail(id, 'No data returned'));
+    } catch (err) {
+      if (err instanceof APIRequestError && err.isAuthError) {
+        authErrors.push(err);
+        return;
+      }
+      // The scheduler already retried - the rest of the batches won't fare any better
+      if (err instanceof APIRequestError && err.isNetworkError) {
+        networkErrors.push(err);
+        return;
+      }
+      // Splitting only helps when the server answered - a 5xx or network failure would just repeat
+      const answered = err instanceof APIRequestError && err.status !== undefined && err.status < 500 && err.status !== 429;
+      if (ids.length > 1 && answered) {
+        await Promise.all(ids.map(id => attempt([id])));
+        return;
+      }
+      const reason = err instanceof Error ? err.message : String(err);
+      console.warn(`Failed to fetch ${entityType} batch:`, ids, err);
+      ids.forEach(id => fail(id, reason));
+    }
+  };
+
+  const batches: number[][] = [];
+  for (let i = 0; i < job.ids.length; i += job.batchSize) {
+    batches.push(job.ids.slice(i, i + job.batchSize));
+  }
+  await Promise.all(batches.map(attempt));
+
+  if (authErrors.length > 0) {
+    throw new APIRequestError('Token expired partway through. Set a new token and sync again to pick up where it left off.', 401);
+  }
+  if (networkErrors.length > 0) {
+    throw networkErrors[0];
+  }
+}
+
+// The request never reached the server - the work is queued rather than reported as failed
+const lostConnection = (error: unknown) => error instanceof APIRequestError && error.isNetworkError;
+
+const outboxKey = (operation: OutboxOperation) =>
+  operation.kind === 'shared-sync' ? `shared-sync-${operation.divisionId}` : operation.kind;
+
+// Save work for when the connection is back and tell the user it's waiting
+async function queueOperation(operation: OutboxOperation, message: string): Promise<void> {
+  await queueOutbox(outboxKey(operation), operation);
+  useSyncStore.setState({ queuedOperations: await getOutbox(), syncMessage: message, syncProgress: 0, syncError: null });
+}
+
+// Running now, whether from the queue or by hand - a queued copy would only repeat it
+async function dequeueOperation(operation: OutboxOperation): Promise<void> {
+  await removeOutboxItem(outboxKey(operation));
+  useSyncStore.setState({ queuedOperations: await getOutbox() });
+}
+
+// Turn the backend's scheduled sync for a division on or off
+async function applySharedSync(operation: Extract<OutboxOperation, { kind: 'shared-sync' }>): Promise<void> {
+  const { divisionId, teamId, enabled } = operation;
+  const queue = () => queueOperation(operation, `You're offline - shared syncing will ${enabled ? 'start' : 'stop'} once you're back online`);
+  if (!navigator.onLine) return queue();
+  
+  await dequeueOperation(operation);
+  try {
+    if (enabled) {
+      await apaClient.shareDivisionSync(divisionId, teamId);
+    } else {
+      await apaClient.stopDivisionSync(divisionId);
+    }
+    useSyncStore.setState({ syncError: null });
+  } catch (error) {
+    if (lostConnection(error)) return queue();
+    useSyncStore.setState({ syncError: error instanceof Error ? error.message : 'Could not update shared sync' });
+  }
+  await useSyncStore.getState().loadSharedDivisions();
+}
+
+let flushing = false;
+
+// Keeps the store in step with tokens the backend session hands out, and notices when it ends
+function handleSessionToken(accessToken: string | null) {
+  useSyncStore.setState(accessToken
+    ? { authToken: accessToken, isValidToken: true }
+    : { authToken: null, authSessionId: null, isValidToken: false, syncError: 'Your APA sign-in ended. Sign in again.' });
 }
 
 export const useSyncStore = create<SyncState>()(
@@ -110,15 +269,19 @@ export const useSyncStore = create<SyncState>()(
         matchesCount: 0,
       },
       authToken: null,
+      authSessionId: null,
       isValidToken: false,
       syncProgress: 0,
       syncMessage: '',
       syncError: null,
       lastScheduleSync: null,
       lastRosterSync: null,
+      lastSyncReport: null,
+      sharedDivisions: [],
+      isOnline: navigator.onLine,
+      queuedOperations: [],
 
       loadSyncStatus: async () => {
-        await seedInitialData();
         const status = await getSyncStatus();
         set({ syncStatus: status });
         
@@ -128,8 +291,8 @@ export const useSyncStore = create<SyncState>()(
           apaClient.setAuthToken(authToken);
           // Validate the restored token
           const isValid = apaClient.validateAuth();
-          if (!isValid) {
-            // Token is expired
+          if (!isValid && !apaClient.hasSession()) {
+            // Token is expired (a signed-in session just refreshes it)
             set({ isValidToken: false });
           }
         }
@@ -168,10 +331,33 @@ export const useSyncStore = create<SyncState>()(
         set({ authToken: null, isValidToken: false });
       },
 
+      signIn: async (email: string, password: string) => {
+        try {
+          const { sessionId, accessToken } = await apaClient.signIn(email, password);
+          apaClient.setSession(sessionId, handleSessionToken);
+          set({
+            authToken: accessToken,
+            authSessionId: sessionId,
+            isValidToken: true,
+            syncError: null,
+            syncMessage: 'Signed in - tokens refresh automatically',
+          });
+          return true;
+        } catch (error) {
+          set({ syncError: error instanceof Error ? error.message : 'Sign-in failed' });
+          return false;
+        }
+      },
+
+      signOut: async () => {
+        await apaClient.signOut();
+        set({ authToken: null, authSessionId: null, isValidToken: false });
+      },
+
       testConnection: async () => {
-        const { authToken, isValidToken } = get();
+        const { isValidToken } = get();
         
-        if (!authToken || !isValidToken) {
+        if (!isValidToken) {
           return { success: false, message: 'No valid token set' };
         }
         
@@ -189,28 +375,169 @@ export const useSyncStore = create<SyncState>()(
         }
       },
 
+      discoverTeams: async () => {
+        const { isValidToken } = get();
+        if (!isValidToken) {
+          set({ syncError: 'No valid token. Please set your APA token first.' });
+          return [];
+        }
+
+        try {
+          set({ syncError: null });
+          return transformViewerTeams(await apaClient.getViewerTeams());
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : 'Could not find your teams';
+          console.error('Team discovery error:', error);
+          set({ syncError: errorMsg });
+          return [];
+        }
+      },
+
+      loadSharedDivisions: async () => {
+        try {
+          set({ sharedDivisions: await apaClient.getSharedDivisions() });
+        } catch (error) {
+          // Backend unreachable - shared data just isn't offered
+          console.warn('Could not load shared divisions:', error);
+          set({ sharedDivisions: [] });
+        }
+      },
+
+      pullSharedData: async () => {
+        const ourTeamId = useTeamStore.getState().ourTeamId;
+        const profile = await getProfile(ourTeamId);
+        if (!profile) {
+          set({ syncError: 'No team selected. Pick your team first.' });
+          return;
+        }
+        
+        const operation: OutboxOperation = { kind: 'pull-shared' };
+        if (!navigator.onLine) {
+          await queueOperation(operation, "You're offline - shared data will be pulled once you're back online");
+          return;
+        }
+        await dequeueOperation(operation);
+        
+        set({ syncProgress: 10, syncMessage: 'Fetching shared division data...', syncError: null });
+        await updateSyncStatus({ syncInProgress: true });
+        
+        try {
+          const snapshot = await apaClient.getDivisionSnapshot(profile.divisionId);
+          if (!snapshot) {
+            throw new Error('Nobody is sharing a sync for this division yet.');
+          }
+          
+          set({ syncProgress: 40, syncMessage: `Importing ${snapshot.teams.length} teams...` });
+          const profileTeamIds = new Set((await getProfiles()).map(p => p.ourTeamId));
+          await importSnapshot(snapshot, profile, profileTeamIds);
+          
+          const syncedAt = new Date(snapshot.generatedAt);
+          await updateSyncStatus({
+            syncInProgress: false,
+            lastSyncTime: syncedAt,
+            lastError: null,
+            teamsCount: await db.teams.count(),
+            playersCount: await db.players.count(),
+            matchesCount: await db.matches.count(),
+          });
+          
+          set({
+            syncStatus: await getSyncStatus(),
+            syncProgress: 100,
+            syncMessage: `Imported shared data from ${syncedAt.toLocaleString()}`,
+            lastRosterSync: syncedAt,
+            lastScheduleSync: syncedAt,
+          });
+        } catch (error) {
+          if (lostConnection(error)) {
+            await updateSyncStatus({ syncInProgress: false });
+            set({ syncStatus: await getSyncStatus() });
+            await queueOperation(operation, "Lost the connection - shared data will be pulled once you're back online");
+            return;
+          }
+          const errorMsg = error instanceof Error ? error.message : 'Could not pull shared data';
+          console.error('Shared data error:', error);
+          await updateSyncStatus({ syncInProgress: false, lastError: errorMsg });
+          set({ syncError: errorMsg, syncMessage: '', syncStatus: await getSyncStatus() });
+        }
+      },
+
+      setSharedSync: async (enabled: boolean) => {
+        const ourTeamId = useTeamStore.getState().ourTeamId;
+        const profile = await getProfile(ourTeamId);
+        if (!profile) return;
+        
+        await applySharedSync({ kind: 'shared-sync', divisionId: profile.divisionId, teamId: ourTeamId, enabled });
+      },
+
+      loadQueue: async () => {
+        set({ queuedOperations: await getOutbox(), isOnline: navigator.onLine });
+      },
+
+      setOnline: (online: boolean) => {
+        set({ isOnline: online });
+      },
+
+      // Replay what was queued offline, oldest first. Anything that loses the connection
+      // again queues itself back up.
+      flushQueue: async () => {
+        if (flushing || !navigator.onLine) return;
+        flushing = true;
+        try {
+          for (const { operation } of await getOutbox()) {
+            if (!navigator.onLine) break;
+            await dequeueOperation(operation);
+            switch (operation.kind) {
+              case 'sync':
+                await get().syncAll(operation.forceRefresh);
+                break;
+              case 'pull-shared':
+                await get().pullSharedData();
+                break;
+              case 'shared-sync':
+                await applySharedSync(operation);
+                break;
+            }
+          }
+        } finally {
+          flushing = false;
+        }
+      },
+
       syncAll: async (forceRefresh = false) => {
-        const { authToken, isValidToken, lastRosterSync } = get();
+        const { isValidToken } = get();
         
-        if (!authToken || !isValidToken) {
+        if (!isValidToken) {
           set({ syncError: 'No valid token. Please set your APA token first.' });
           return;
         }
 
-        if (apaClient.isTokenExpired(authToken)) {
+        const operation: OutboxOperation = { kind: 'sync', forceRefresh };
+        if (!navigator.onLine) {
+          await queueOperation(operation, "You're offline - the sync will run once you're back online");
+          return;
+        }
+        await dequeueOperation(operation);
+
+        // Signed-in sessions get a fresh token here; a pasted one just has to still be good
+        const authToken = await apaClient.getAccessToken().catch(() => null);
+        if (!authToken || apaClient.isTokenExpired(authToken)) {
           set({ 
-            syncError: 'Token expired. Please get a fresh token from APA.',
-            isValidToken: false,
+            syncError: apaClient.hasSession()
+              ? 'Could not refresh your APA sign-in. Try again, or sign in again.'
+              : 'Token expired. Please get a fresh token from APA.',
+            isValidToken: apaClient.hasSession(),
           });
           return;
         }
 
-        // Check if sync needed (rosters don't change often)
-        const sixHoursAgo = new Date(Date.now() - 6 * 60 * 60 * 1000);
-        if (!forceRefresh && lastRosterSync && lastRosterSync > sixHoursAgo) {
-          set({ syncMessage: 'Data is up to date', syncProgress: 100 });
+        const ourTeamId = useTeamStore.getState().ourTeamId;
+        const profile = await getProfile(ourTeamId);
+        if (!profile) {
+          set({ syncError: 'No team selected. Find your teams first.' });
           return;
         }
+        const profileTeamIds = new Set((await getProfiles()).map(p => p.ourTeamId));
         
         set({ 
           syncProgress: 0, 
@@ -219,6 +546,15 @@ export const useSyncStore = create<SyncState>()(
         });
         
         await updateSyncStatus({ syncInProgress: true });
+
+        const report: SyncReport = {
+          startedAt: new Date(),
+          finishedAt: null,
+          fetched: {},
+          failures: [],
+          stoppedEarly: null,
+        };
+        set({ lastSyncReport: null });
         
         try {
           // Step 1: Test connection
@@ -226,217 +562,372 @@ export const useSyncStore = create<SyncState>()(
           const viewer = await apaClient.getViewer();
           console.log('Connected as:', viewer.viewer.firstName, viewer.viewer.lastName);
           
-          // Step 2: Get our team's full data (roster + schedule)
+          // Step 2: Get our team's full data (roster + schedule) - always, it's how we spot new scores
           set({ syncProgress: 10, syncMessage: 'Fetching your team data...' });
-          const ourTeamData = await apaClient.getTeamFull(MY_TEAM_ID);
+          const ourTeamData = await apaClient.getTeamFull(ourTeamId);
           
           if (!ourTeamData.roster) {
             throw new Error('Failed to fetch team roster. Check if team ID is correct.');
           }
           
           // Save our team
-          const ourTeam = transformTeam(ourTeamData.roster, true);
+          const ourTeam = transformTeam(ourTeamData.roster, true, profile);
           await db.teams.put(ourTeam);
           
           // Save our roster
           const ourPlayers = ourTeamData.roster.roster?.map(p => 
-            transformPlayer(p, MY_TEAM_ID)
+            transformPlayer(p, ourTeamId)
           ) || [];
           
           if (ourPlayers.length === 0) {
             console.warn('No players found in team roster');
           }
           
-          await db.players.bulkPut(ourPlayers);
+          await saveRoster(ourPlayers);
+          await markFresh('team', [ourTeamId]);
           
           set({ 
-            syncProgress: 20, 
+            syncProgress: 15, 
             syncMessage: `Saved ${ourPlayers.length} players from ${ourTeam.name}` 
           });
           
-          // Step 3: Extract opponent team IDs from schedule
+          // Step 3: Every division team's schedule, for results between other teams too. Ours
+          // names the teams we play; early in a session that isn't everyone yet, so keep
+          // following schedules until no new teams turn up.
           const opponentTeamIds = new Set<number>();
-          const matches: Match[] = [];
-          
-          for (const gqlMatch of ourTeamData.schedule.matches || []) {
-            const match = transformMatch(gqlMatch, MY_DIVISION_ID);
-            if (match) {
-              matches.push(match);
+          const teamNames = new Map<number, string>();
+          const sessionPoints = new Map<number, number>();
+          const matchesById = new Map<number, Match>();
+          
+          const addSchedule = (schedule: GQLTeamSchedule) => {
+            if (schedule.sessionPoints != null) sessionPoints.set(schedule.id, schedule.sessionPoints);
+            for (const gqlMatch of schedule.matches) {
+              const match = transformMatch(gqlMatch, ourTeam.divisionId);
+              if (!match) continue;
+              matchesById.set(match.id, match);
               
               // Track opponent teams
-              if (gqlMatch.home && gqlMatch.home.id !== MY_TEAM_ID) {
-                opponentTeamIds.add(gqlMatch.home.id);
-              }
-              if (gqlMatch.away && gqlMatch.away.id !== MY_TEAM_ID) {
-                opponentTeamIds.add(gqlMatch.away.id);
+              for (const side of [gqlMatch.home, gqlMatch.away]) {
+                if (side && side.id !== ourTeamId) {
+                  opponentTeamIds.add(side.id);
+                  teamNames.set(side.id, side.name);
+                }
               }
             }
+          };
+          if (ourTeamData.schedule) {
+            addSchedule(ourTeamData.schedule);
+            await db.teams.update(ourTeamId, { sessionPoints: sessionPoints.get(ourTeamId) });
           }
-          
+
+          // The division's public schedule names every team in it, by team number only. Teams
+          // we've synced before are fetched straight away; it's checked again below so a team
+          // no schedule led to shows up in the report instead of silently missing from standings.
+          let divisionTeams: Map<string, string> | null = null;   // Team number -> name
+          try {
+            const divisionSchedule = await apaClient.getDivisionSchedule(String(ourTeam.divisionId));
+            divisionTeams = new Map();
+            for (const item of divisionSchedule) {
+              if (item.Bye) continue;
+              if (item.HomeTeamNumber) divisionTeams.set(item.HomeTeamNumber, item.HomeTeamName);
+              if (item.VisitingTeamNumber) divisionTeams.set(item.VisitingTeamNumber, item.VisitingTeamName);
+            }
+          } catch (err) {
+            console.warn('Division schedule unavailable, following team schedules only:', err);
+          }
+          if (divisionTeams) {
+            const knownTeams = await db.teams.where('divisionId').equals(ourTeam.divisionId).toArray();
+            for (const team of knownTeams) {
+              if (team.id === ourTeamId || !divisionTeams.has(team.number)) continue;
+              opponentTeamIds.add(team.id);
+              teamNames.set(team.id, team.name);
+            }
+          }
+
+          const schedulesRequested = new Set<number>([ourTeamId]);
+          let schedulesToFetch = [...opponentTeamIds];
+          while (schedulesToFetch.length > 0) {
+            schedulesToFetch.forEach(id => schedulesRequested.add(id));
+            set({ syncMessage: `Fetching ${schedulesToFetch.length} team schedules...` });
+            
+            await fetchInBatches({
+              entityType: 'schedule',
+              ids: schedulesToFetch,
+              batchSize: 4,
+              report,
+              label: id => teamNames.get(id) ?? `Team ${id}`,
+              fetchBatch: ids => apaClient.getMultipleTeamSchedules(ids),
+              saveBatch: async (_ids, schedules) => {
+                const saved: number[] = [];
+                for (const schedule of schedules) {
+                  if (!schedule) continue;
+                  addSchedule(schedule);
+                  // Standings points come with the schedule - teams whose roster is still fresh keep theirs current
+                  await db.teams.update(schedule.id, { sessionPoints: sessionPoints.get(schedule.id) });
+                  saved.push(schedule.id);
+                }
+                return saved;
+              },
+            });
+            schedulesToFetch = [...opponentTeamIds].filter(id => !schedulesRequested.has(id));
+          }
+
+          if (divisionTeams) {
+            const teamNumbersFound = new Set([...matchesById.values()].flatMap(m => [m.homeTeamNumber, m.awayTeamNumber]));
+            for (const [number, name] of divisionTeams) {
+              if (teamNumbersFound.has(number)) continue;
+              report.failures.push({
+                entityType: 'schedule',
+                entityId: Number(number),
+                label: name,
+                reason: 'On the division schedule but in none of the team schedules fetched',
+              });
+            }
+          }
+
           // Save matches
+          const matches = [...matchesById.values()];
           await db.matches.bulkPut(matches);
+
+          // Plan the rest. A full resync ignores what's already fresh.
+          const now = new Date();
+          const emptyFreshness = () => new Map<number, FreshnessRecord>();
+          const freshness = forceRefresh
+            ? { team: emptyFreshness(), player: emptyFreshness(), match: emptyFreshness(), member: emptyFreshness(), alias: emptyFreshness() }
+            : {
+                team: await getFreshness('team'),
+                player: await getFreshness('player'),
+                match: await getFreshness('match'),
+                member: await getFreshness('member'),
+                alias: await getFreshness('alias'),
+              };
+
+          // Remember when each newly scored match was first seen, so an interrupted sync
+          // still treats histories fetched before then as stale
+          const newlyScored = findNewlyScoredMatches(matches, freshness.match);
+          const firstSeen = newlyScored
+            .filter(m => !freshness.match.has(m.id))
+            .map(m => ({ entityType: 'match' as const, entityId: m.id, fetchedAt: now, pending: true }));
+          await db.freshness.bulkPut(firstSeen);
+          firstSeen.forEach(r => freshness.match.set(r.entityId, r));
+
+          const opponentIds = Array.from(opponentTeamIds);
+          const teamsToFetch = planTeams(opponentIds, newlyScored, freshness, now);
+          
           set({ 
-            syncProgress: 30, 
-            syncMessage: `Saved ${matches.length} matches. Fetching opponent rosters...` 
+            syncProgress: 20, 
+            syncMessage: `${newlyScored.length} newly scored matches. Fetching ${teamsToFetch.length} opponent rosters...` 
           });
           
-          // Step 4: Fetch all opponent team rosters in parallel
-          const opponentIds = Array.from(opponentTeamIds);
-          console.log('Fetching rosters for teams:', opponentIds);
+          // Step 4: Fetch stale opponent rosters
+          console.log('Fetching rosters for teams:', teamsToFetch);
           
           let processed = 0;
-          const totalOpponents = opponentIds.length;
+          const totalOpponents = teamsToFetch.length;
+          
+          await fetchInBatches({
+            entityType: 'team',
+            ids: teamsToFetch,
+            batchSize: 4,
+            report,
+            label: id => teamNames.get(id) ?? `Team ${id}`,
+            fetchBatch: ids => apaClient.getMultipleTeamRosters(ids),
+            saveBatch: async (_ids, teamRosters) => {
+              const saved: number[] = [];
+              for (const gqlTeam of teamRosters) {
+                if (!gqlTeam) continue;
+                
+                // Save team - the roster query has no standings points, the schedule did
+                const team = transformTeam(gqlTeam, profileTeamIds.has(gqlTeam.id), profile);
+                await db.teams.put({ ...team, sessionPoints: sessionPoints.get(team.id) ?? team.sessionPoints });
+                
+                // Save players
+                const players = gqlTeam.roster?.map(p => 
+                  transformPlayer(p, gqlTeam.id)
+                ) || [];
+                await saveRoster(players);
+                await markFresh('team', [gqlTeam.id]);
+                saved.push(gqlTeam.id);
+                
+                processed++;
+                const progress = 20 + Math.round((processed / totalOpponents) * 25);
+                set({ 
+                  syncProgress: progress, 
+                  syncMessage: `${team.name}: ${players.length} players (${processed}/${totalOpponents})` 
+                });
+              }
+              return saved;
+            },
+          });
           
-          // Fetch in batches of 4 to avoid rate limiting
-          for (let i = 0; i < opponentIds.length; i += 4) {
-            const batch = opponentIds.slice(i, i + 4);
-            const teamRosters = await apaClient.getMultipleTeamRosters(batch);
-            
-            for (const gqlTeam of teamRosters) {
-              if (!gqlTeam) continue;
-              
-              // Save team
-              const team = transformTeam(gqlTeam, false);
-              await db.teams.put(team);
+          // Step 5: Fetch match histories for players whose results may have changed
+          set({ syncProgress: 45, syncMessage: 'Fetching player match histories...' });
+          
+          // Only this division's players - other profiles sync on their own
+          const divisionTeamIds = [ourTeamId, ...opponentIds];
+          const allPlayers = await db.players.where('teamId').anyOf(divisionTeamIds).toArray();
+          const playersById = new Map(allPlayers.map(p => [p.id, p]));
+          const playerIdsToFetch = planPlayers(allPlayers, newlyScored, freshness, now);
+          const refetchedPlayerIds = new Set<number>();
+          let recordCount = 0;
+          
+          await fetchInBatches({
+            entityType: 'player',
+            ids: playerIdsToFetch,
+            batchSize: 5,
+            report,
+            label: id => playersById.get(id)?.name ?? `Player ${id}`,
+            fetchBatch: ids => apaClient.getMultiplePlayerHistories(ids),
+            saveBatch: async (_ids, histories) => {
+              const fetched = histories
+                .map(history => history.player)
+                .filter((gqlPlayer): gqlPlayer is NonNullable<typeof gqlPlayer> => !!gqlPlayer && playersById.has(gqlPlayer.id))
+                .map(gqlPlayer => ({
+                  player: playersById.get(gqlPlayer.id)!,
+                  items: gqlPlayer.matchHistory,
+                }));
+              const fetchedIds = fetched.map(h => h.player.id);
               
-              // Save players
-              const players = gqlTeam.roster?.map(p => 
-                transformPlayer(p, gqlTeam.id)
-              ) || [];
-              await db.players.bulkPut(players);
+              recordCount += await saveHistories(fetched, playersById);
+              await markFresh('player', fetchedIds);
+              fetchedIds.forEach(id => refetchedPlayerIds.add(id));
               
-              processed++;
-              const progress = 30 + Math.round((processed / totalOpponents) * 60);
+              const progress = 45 + Math.round((refetchedPlayerIds.size / playerIdsToFetch.length) * 35);
               set({ 
                 syncProgress: progress, 
-                syncMessage: `${team.name}: ${players.length} players (${processed}/${totalOpponents})` 
+                syncMessage: `Match histories: ${refetchedPlayerIds.size}/${playerIdsToFetch.length} players` 
               });
-            }
-          }
+              return fetchedIds;
+            },
+          });
           
-          // Step 5: Get member aliases to find alias IDs for lifetime stats
-          set({ syncProgress: 90, syncMessage: 'Fetching member aliases...' });
+          if (refetchedPlayerIds.size > 0) {
+            set({ syncProgress: 82, syncMessage: 'Building head-to-head records...' });
+            const headToHeadCount = await rebuildHeadToHead();
+            console.log(`Saved ${recordCount} match records from ${refetchedPlayerIds.size} players, ${headToHeadCount} head-to-head records`);
+          }
+
+          // Scored matches are done once everyone on both teams has a history from after the score
+          const settled = settledMatches(newlyScored, allPlayers, {
+            player: await getFreshness('player'),
+            match: freshness.match,
+          });
+          await markFresh('match', settled);
           
-          const allPlayers = await db.players.toArray();
-          const uniqueMemberIds = [...new Set(allPlayers.map(p => p.memberId))];
+          // Step 6: Look up alias IDs (for lifetime stats) for members we haven't recently
+          set({ syncProgress: 85, syncMessage: 'Fetching member aliases...' });
           
-          console.log(`Fetching aliases for ${uniqueMemberIds.length} members`);
+          const memberIdsToFetch = planMembers(allPlayers, freshness.member, now);
+          const memberNames = new Map(allPlayers.map(p => [p.memberId, p.name]));
           
-          // Map to store member ID -> alias ID
-          const memberToAliasMap = new Map<number, number>();
+          console.log(`Fetching aliases for ${memberIdsToFetch.length} members`);
           
-          // Get our team's league ID (reuse ourTeam from earlier)
-          const ourTeamForLeague = await db.teams.filter(t => t.isOurTeam).first();
-          const leagueId = ourTeamForLeague?.leagueId;
+          // Aliases are per league - use the one this team plays in
+          const leagueId = ourTeam.leagueId ?? profile.leagueId;
+          let membersDone = 0;
           
-          // Fetch member aliases in batches
-          for (let i = 0; i < uniqueMemberIds.length; i += 5) {
-            const batch = uniqueMemberIds.slice(i, i + 5);
-            try {
-              const memberAliasesArray = await apaClient.getMultipleMemberAliases(batch);
-              
+          await fetchInBatches({
+            entityType: 'member',
+            ids: memberIdsToFetch,
+            batchSize: 5,
+            report,
+            label: id => memberNames.get(id) ?? `Member ${id}`,
+            fetchBatch: ids => apaClient.getMultipleMemberAliases(ids),
+            saveBatch: async (_ids, memberAliasesArray) => {
+              const saved: number[] = [];
               for (const result of memberAliasesArray) {
                 if (!result?.member?.aliases) continue;
                 
-                const memberId = result.member.id;
                 // Find alias for our league
                 const alias = result.member.aliases.find(a => a.league?.id === leagueId);
                 if (alias) {
-                  memberToAliasMap.set(memberId, alias.id);
+                  await db.players.where('memberId').equals(result.member.id).modify({ aliasId: alias.id });
                 }
+                saved.push(result.member.id);
               }
+              await markFresh('member', saved);
               
-              const progress = 90 + Math.round(((i + batch.length) / uniqueMemberIds.length) * 3);
+              membersDone += saved.length;
+              const progress = 85 + Math.round((membersDone / memberIdsToFetch.length) * 5);
               set({ 
                 syncProgress: progress, 
-                syncMessage: `Member aliases: ${i + batch.length}/${uniqueMemberIds.length}` 
+                syncMessage: `Member aliases: ${membersDone}/${memberIdsToFetch.length}` 
               });
-            } catch (err) {
-              console.warn('Failed to fetch member aliases for batch:', batch, err);
-            }
-          }
-          
-          console.log(`Found ${memberToAliasMap.size} aliases for lifetime stats`);
-          
-          // Update players with alias IDs
-          for (const player of allPlayers) {
-            const aliasId = memberToAliasMap.get(player.memberId);
-            if (aliasId) {
-              await db.players.update(player.id, { aliasId });
-            }
-          }
+              return saved;
+            },
+          });
           
-          // Step 6: Fetch lifetime stats via backend proxy (bypasses CORS)
-          set({ syncProgress: 94, syncMessage: 'Fetching lifetime stats via proxy...' });
+          // Step 7: Fetch lifetime stats via backend proxy (bypasses CORS)
+          set({ syncProgress: 90, syncMessage: 'Fetching lifetime stats via proxy...' });
           
-          const aliasIds = [...new Set(memberToAliasMap.values())];
+          const playersWithAliases = await db.players.where('teamId').anyOf(divisionTeamIds).toArray();
+          const aliasIds = planAliases(playersWithAliases, refetchedPlayerIds, freshness.alias, now);
+          const teamFormats = new Map((await db.teams.toArray()).map(t => [t.id, t.format]));
+          let aliasesDone = 0;
           
           console.log(`Fetching lifetime stats for ${aliasIds.length} aliases via backend proxy`);
           
-          // Fetch in batches of 10 (proxy handles the batching)
-          for (let i = 0; i < aliasIds.length; i += 10) {
-            const batch = aliasIds.slice(i, i + 10);
-            try {
-              const aliasStatsArray = await apaClient.getMultipleAliasLifetimeStats(batch);
-              
+          await fetchInBatches({
+            entityType: 'alias',
+            ids: aliasIds,
+            batchSize: 10,
+            report,
+            label: id => playersWithAliases.find(p => p.aliasId === id)?.name ?? `Alias ${id}`,
+            fetchBatch: ids => apaClient.getMultipleAliasLifetimeStats(ids),
+            saveBatch: async (_ids, aliasStatsArray) => {
+              const saved: number[] = [];
               for (const response of aliasStatsArray) {
-                // Proxy returns { data: { alias: ... } } format
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const alias = (response as any)?.data?.alias || (response as any)?.alias;
+                const alias = response.alias;
                 if (!alias) {
                   console.log('No alias data in response');
                   continue;
                 }
                 
                 const aliasId = alias.id;
-                // Get NineBall or EightBall stats based on format
-                const lifetimeStats = FORMAT === 'NINE' 
-                  ? alias.NineBallStats?.[0]
-                  : alias.EightBallStats?.[0];
+                saved.push(aliasId);
                 
-                if (!lifetimeStats) {
-                  console.log(`No ${FORMAT} lifetime stats for alias ${aliasId}`);
-                  continue;
-                }
-                
-                console.log(`✅ Got lifetime stats for alias ${aliasId} (${alias.displayName}): ${lifetimeStats.matchesWon}W/${lifetimeStats.matchesPlayed}P`);
-                
-                // Calculate win percentage
-                const lifetimeWinPct = lifetimeStats.matchesPlayed > 0
-                  ? (lifetimeStats.matchesWon / lifetimeStats.matchesPlayed) * 100
-                  : 0;
-                
-                // Find all players with this alias ID and update them
-                for (const [memberId, aId] of memberToAliasMap.entries()) {
-                  if (aId === aliasId) {
-                    const playersToUpdate = allPlayers.filter(p => p.memberId === memberId);
-                    for (const player of playersToUpdate) {
-                      await db.players.update(player.id, {
-                        lifetimeMatchesPlayed: lifetimeStats.matchesPlayed,
-                        lifetimeMatchesWon: lifetimeStats.matchesWon,
-                        lifetimeWinPct: lifetimeWinPct,
-                        lifetimeDefensiveAvg: lifetimeStats.defensiveShotAvg,
-                      });
-                      console.log(`Updated player ${player.name} with lifetime stats`);
-                    }
+                // Update every player with this alias
+                for (const player of playersWithAliases.filter(p => p.aliasId === aliasId)) {
+                  // Get NineBall or EightBall stats based on the format of the player's team
+                  const format = teamFormats.get(player.teamId) ?? profile.format;
+                  const lifetimeStats = format === 'EIGHT'
+                    ? alias.EightBallStats?.[0]
+                    : alias.NineBallStats?.[0];
+                  
+                  if (!lifetimeStats) {
+                    console.log(`No ${format} lifetime stats for alias ${aliasId}`);
+                    continue;
                   }
+                  
+                  // Calculate win percentage
+                  const lifetimeWinPct = lifetimeStats.matchesPlayed > 0
+                    ? (lifetimeStats.matchesWon / lifetimeStats.matchesPlayed) * 100
+                    : 0;
+                  
+                  await db.players.update(player.id, {
+                    lifetimeMatchesPlayed: lifetimeStats.matchesPlayed,
+                    lifetimeMatchesWon: lifetimeStats.matchesWon,
+                    lifetimeWinPct: lifetimeWinPct,
+                    lifetimeDefensiveAvg: lifetimeStats.defensiveShotAvg ?? undefined,
+                  });
+                  console.log(`✅ Updated player ${player.name} with ${format} lifetime stats: ${lifetimeStats.matchesWon}W/${lifetimeStats.matchesPlayed}P`);
                 }
               }
+              await markFresh('alias', saved);
               
-              const progress = 94 + Math.round(((i + batch.length) / aliasIds.length) * 4);
+              aliasesDone += saved.length;
+              const progress = 90 + Math.round((aliasesDone / aliasIds.length) * 8);
               set({ 
                 syncProgress: progress, 
-                syncMessage: `Lifetime stats: ${i + batch.length}/${aliasIds.length} aliases` 
+                syncMessage: `Lifetime stats: ${aliasesDone}/${aliasIds.length} aliases` 
               });
-            } catch (err) {
-              console.warn('Failed to fetch lifetime stats for alias batch:', batch, err);
-              // Continue with sync even if lifetime stats fail
-            }
-          }
+              return saved;
+            },
+          });
           
           console.log(`Finished fetching lifetime stats for ${aliasIds.length} aliases`);
           
-          // Step 6: Update sync status
+          // Step 8: Update sync status
           set({ syncProgress: 98, syncMessage: 'Finalizing...' });
           
           const teamsCount = await db.teams.count();
@@ -452,15 +943,30 @@ export const useSyncStore = create<SyncState>()(
             matchesCount,
           });
           
+          const unsettled = newlyScored.length - settled.length;
+          report.fetched.match = settled.length;
+          report.finishedAt = new Date();
           set({ 
             syncStatus: await getSyncStatus(),
             syncProgress: 100,
-            syncMessage: `Sync complete! ${teamsCount} teams, ${playersCount} players, ${matchesCount} matches`,
+            syncMessage: `Sync complete! ${(report.fetched.team ?? 0) + 1} rosters, ${refetchedPlayerIds.size} histories, ${settled.length} newly scored matches`
+              + (unsettled > 0 ? ` (${unsettled} still pending - sync again to finish)` : '')
+              + (report.failures.length > 0 ? `. ${report.failures.length} failed - see report below.` : ''),
+            lastSyncReport: report,
             lastRosterSync: new Date(),
             lastScheduleSync: new Date(),
           });
           
         } catch (error) {
+          if (lostConnection(error)) {
+            // Everything saved so far stays fresh - the queued run picks up the rest
+            await updateSyncStatus({ syncInProgress: false });
+            report.stoppedEarly = 'Lost the connection';
+            report.finishedAt = new Date();
+            set({ syncStatus: await getSyncStatus(), lastSyncReport: report });
+            await queueOperation(operation, "Lost the connection - the sync will pick up where it left off once you're back online");
+            return;
+          }
           const errorMsg = error instanceof Error ? error.message : 'Sync failed';
           console.error('Sync error:', error);
           
@@ -469,10 +975,14 @@ export const useSyncStore = create<SyncState>()(
             lastError: errorMsg,
           });
           
+          report.stoppedEarly = errorMsg;
+          report.finishedAt = new Date();
           set({ 
             syncError: errorMsg, 
             syncMessage: '',
             syncStatus: await getSyncStatus(),
+            lastSyncReport: report,
+            ...(error instanceof APIRequestError && error.isAuthError ? { isValidToken: false } : {}),
           });
         }
       },
@@ -481,6 +991,7 @@ export const useSyncStore = create<SyncState>()(
       name: 'sync-store',
       partialize: (state) => ({
         authToken: state.authToken,
+        authSessionId: state.authSessionId,
         isValidToken: state.isValidToken,
         lastScheduleSync: state.lastScheduleSync,
         lastRosterSync: state.lastRosterSync,
@@ -496,6 +1007,11 @@ export const useSyncStore = create<SyncState>()(
             state.isValidToken = false;
           }
         }
+        // A signed-in session outlives its access token - the next request refreshes it
+        if (state?.authSessionId) {
+          apaClient.setSession(state.authSessionId, handleSessionToken);
+          state.isValidToken = true;
+        }
       },
     }
   )
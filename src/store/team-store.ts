@@ -1,8 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { Team, Player, PlayerStats, HeadToHead } from '../data/types';
-import { db, getTeamPlayers } from '../data/db';
-import { MY_TEAM_ID } from '../data/seed';
+import type { Team, Player, PlayerStats, HeadToHead, PlayerRating, AppConfig } from '../data/types';
+import { db, getTeamPlayers, getProfile, getProfiles, saveProfiles, getFreshness } from '../data/db';
+import { fitRatings } from '../engine/rating-model';
+import { buildThrowModels, type ThrowModel } from '../engine/throw-prediction';
 
 interface TeamState {
   // Data
@@ -10,9 +11,15 @@ interface TeamState {
   players: Player[];
   playerStats: Map<number, PlayerStats>;
   headToHead: Map<string, HeadToHead>;
+  ratings: Map<number, PlayerRating>;
+  // Each team's throwing habits, by team ID - from synced results and our own match log
+  throwModels: Map<number, ThrowModel>;
+  // When each team's roster and stats were last fetched - everything runs from IndexedDB, so this is how old it is
+  rosterFetchedAt: Map<number, Date>;
   
-  // Our team
+  // Our team - the active profile. Teams, players and ratings are scoped to its division.
   ourTeamId: number;
+  profiles: AppConfig[];
   
   // Loading states
   isLoading: boolean;
@@ -23,11 +30,16 @@ interface TeamState {
   loadAllPlayers: () => Promise<void>;
   loadPlayerStats: () => Promise<void>;
   loadHeadToHead: () => Promise<void>;
-  setOurTeam: (teamId: number) => void;
+  loadRatings: () => Promise<void>;
+  loadThrowModels: () => Promise<void>;
+  loadProfiles: () => Promise<void>;
+  saveProfiles: (profiles: Omit<AppConfig, 'id'>[]) => Promise<void>;
+  setOurTeam: (teamId: number) => Promise<void>;
   getOurTeam: () => Team | undefined;
   getOpponentTeams: () => Team[];
   getTeamById: (teamId: number) => Team | undefined;
   getPlayersByTeam: (teamId: number) => Player[];
+  getRosterFetchedAt: (teamId: number) => Date | undefined;
   getPlayerStatsById: (playerId: number) => PlayerStats | undefined;
   getHeadToHead: (playerId: number, opponentId: number) => HeadToHead | undefined;
 }
@@ -39,19 +51,25 @@ export const useTeamStore = create<TeamState>()(
       players: [],
       playerStats: new Map(),
       headToHead: new Map(),
-      ourTeamId: MY_TEAM_ID, // Pocket Pounders
+      ratings: new Map(),
+      throwModels: new Map(),
+      rosterFetchedAt: new Map(),
+      ourTeamId: 0,
+      profiles: [],
       isLoading: false,
 
       loadTeams: async () => {
         set({ isLoading: true });
         try {
-          const teams = await db.teams.toArray();
-          // Find our team and ensure ourTeamId matches
-          const ourTeam = teams.find(t => t.isOurTeam);
-          if (ourTeam) {
-            set({ teams, ourTeamId: ourTeam.id, isLoading: false });
+          const profile = await getProfile(get().ourTeamId);
+          const freshness = await getFreshness('team');
+          const rosterFetchedAt = new Map([...freshness].map(([teamId, record]) => [teamId, record.fetchedAt]));
+          if (profile) {
+            const teams = await db.teams.where('divisionId').equals(profile.divisionId).toArray();
+            set({ teams, rosterFetchedAt, isLoading: false });
           } else {
-            set({ teams, isLoading: false });
+            // No profile yet - show whatever was synced
+            set({ teams: await db.teams.toArray(), rosterFetchedAt, isLoading: false });
           }
         } catch (error) {
           console.error('Failed to load teams:', error);
@@ -67,7 +85,10 @@ export const useTeamStore = create<TeamState>()(
       loadAllPlayers: async () => {
         set({ isLoading: true });
         try {
-          const players = await db.players.toArray();
+          const teamIds = await scopedTeamIds(get().ourTeamId);
+          const players = teamIds
+            ? await db.players.where('teamId').anyOf(teamIds).toArray()
+            : await db.players.toArray();
           set({ players, isLoading: false });
         } catch (error) {
           console.error('Failed to load players:', error);
@@ -110,8 +131,62 @@ export const useTeamStore = create<TeamState>()(
         }
       },
 
-      setOurTeam: (teamId: number) => {
-        set({ ourTeamId: teamId });
+      loadRatings: async () => {
+        try {
+          const teamIds = await scopedTeamIds(get().ourTeamId);
+          const [allRecords, teams] = await Promise.all([
+            db.playerMatchRecords.toArray(),
+            db.teams.toArray(),
+          ]);
+          // Fit on the division's players' histories (their opponents come along)
+          const scopedPlayerIds = teamIds
+            ? new Set((await db.players.where('teamId').anyOf(teamIds).toArray()).map(p => p.id))
+            : null;
+          const records = scopedPlayerIds
+            ? allRecords.filter(r => scopedPlayerIds.has(r.playerId))
+            : allRecords;
+          const teamFormats = new Map(teams.map(t => [t.id, t.format]));
+          set({ ratings: fitRatings(records, { teamFormats }) });
+        } catch (error) {
+          console.error('Failed to load ratings:', error);
+        }
+      },
+
+      loadThrowModels: async () => {
+        try {
+          const [gameResults, liveMatches] = await Promise.all([
+            db.gameResults.toArray(),
+            db.liveMatches.where('status').equals('completed').toArray(),
+          ]);
+          set({ throwModels: buildThrowModels(gameResults, liveMatches) });
+        } catch (error) {
+          console.error('Failed to load throw models:', error);
+        }
+      },
+
+      loadProfiles: async () => {
+        try {
+          const profiles = await getProfiles();
+          const { ourTeamId } = get();
+          // Fall back to the first profile if the active one was removed
+          const active = profiles.find(p => p.ourTeamId === ourTeamId) ?? profiles[0];
+          set({ profiles, ourTeamId: active?.ourTeamId ?? ourTeamId });
+        } catch (error) {
+          console.error('Failed to load profiles:', error);
+        }
+      },
+
+      saveProfiles: async (profiles: Omit<AppConfig, 'id'>[]) => {
+        await saveProfiles(profiles);
+        await get().loadProfiles();
+      },
+
+      setOurTeam: async (teamId: number) => {
+        set({ ourTeamId: teamId, ratings: new Map() });
+        const { loadTeams, loadAllPlayers, loadRatings } = get();
+        await loadTeams();
+        await loadAllPlayers();
+        await loadRatings();
       },
 
       getOurTeam: () => {
@@ -124,7 +199,7 @@ export const useTeamStore = create<TeamState>()(
         // Filter out our team and deduplicate by team number
         const seen = new Set<string>();
         return teams.filter(t => {
-          if (t.id === ourTeamId || t.isOurTeam) return false;
+          if (t.id === ourTeamId) return false;
           if (seen.has(t.number)) return false;
           seen.add(t.number);
           return true;
@@ -141,6 +216,11 @@ export const useTeamStore = create<TeamState>()(
         return get().players.filter(p => Number(p.teamId) === numTeamId);
       },
 
+      // Teams synced before freshness tracking only have the time they were saved
+      getRosterFetchedAt: (teamId: number) => {
+        return get().rosterFetchedAt.get(teamId) ?? get().teams.find(t => t.id === teamId)?.lastSynced;
+      },
+
       getPlayerStatsById: (playerId: number) => {
         return get().playerStats.get(playerId);
       },
@@ -164,3 +244,10 @@ export const useTeamStore = create<TeamState>()(
     }
   )
 );
+
+// Teams in the active profile's division, or null when no profile is set up
+async function scopedTeamIds(ourTeamId: number): Promise<number[] | null> {
+  const profile = await getProfile(ourTeamId);
+  if (!profile) return null;
+  return (await db.teams.where('divisionId').equals(profile.divisionId).primaryKeys()) as number[];
+}
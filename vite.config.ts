@@ -39,7 +39,24 @@ export default defineConfig({
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+        // Synced data lives in IndexedDB and the app runs from it offline. GraphQL goes out as
+        // POSTs, which the Cache API can't hold - syncs made offline are queued instead. The
+        // backend's shared division data is plain GETs, so a flaky connection can fall back to
+        // the last copy.
         runtimeCaching: [
+          {
+            urlPattern: /\/api\/v1\/divisions(\/\d+\/snapshot)?$/,
+            handler: 'NetworkFirst',
+            method: 'GET',
+            options: {
+              cacheName: 'shared-division-cache',
+              networkTimeoutSeconds: 10,
+              expiration: {
+                maxEntries: 20,
+                maxAgeSeconds: 60 * 60 * 24 * 7 // A league week
+              }
+            }
+          },
           {
             urlPattern: /^https:\/\/api\.poolplayers\.com\/.*/i,
             handler: 'NetworkFirst',